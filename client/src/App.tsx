@@ -5,7 +5,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { trpc } from '@/utils/trpc';
-import type { User, UserRole } from '../../server/src/schema';
+import type { SessionUser, UserRole } from '../../server/src/schema';
 
 // Import components
 import { LoginForm } from '@/components/LoginForm';
@@ -15,19 +15,48 @@ import { AffiliateRegistrationForm } from '@/components/AffiliateRegistrationFor
 import { Header } from '@/components/Header';
 
 function App() {
-  const [user, setUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
   const [showRegistration, setShowRegistration] = useState(false);
 
-  const handleLogin = (userData: User) => {
+  // Restore the logged-in user from the session cookie on page load
+  const loadSession = useCallback(async () => {
+    try {
+      const sessionUser = await trpc.me.query();
+      setUser(sessionUser);
+    } catch (error) {
+      console.error('Failed to restore session:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const handleLogin = (userData: SessionUser) => {
     setUser(userData);
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
     setUser(null);
     setShowRegistration(false);
   };
 
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
   // Landing page for non-logged in users
   if (!user) {
     return (
@@ -132,9 +161,9 @@ function App() {
                   <p className="text-gray-600">Join our partner network and start earning</p>
                 </div>
                 <AffiliateRegistrationForm 
-                  onSuccess={() => {
+                  onSuccess={(newUser) => {
                     setShowRegistration(false);
-                    alert('Registration submitted! Please wait for admin approval.');
+                    setUser(newUser);
                   }}
                 />
                 <div className="text-center mt-4">
@@ -202,7 +231,7 @@ function App() {
         {user.role === 'admin' ? (
           <AdminDashboard user={user} />
         ) : (
-          <AffiliateDashboard user={user} />
+          <AffiliateDashboard user={user} onUserChange={setUser} />
         )}
       </div>
     </div>
@@ -4,17 +4,20 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
-import type { User, Affiliate, Program, StudentRegistration, CommissionPayout } from '../../../server/src/schema';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { SessionUser, Affiliate, Program, StudentRegistration, CommissionPayout } from '../../../server/src/schema';
 
 // Import admin components
 import { ProgramManagement } from '@/components/admin/ProgramManagement';
+import { CommissionRuleManagement } from '@/components/admin/CommissionRuleManagement';
+import { TierManagement } from '@/components/admin/TierManagement';
 import { AffiliateManagement } from '@/components/admin/AffiliateManagement';
 import { RegistrationManagement } from '@/components/admin/RegistrationManagement';
 import { PayoutManagement } from '@/components/admin/PayoutManagement';
+import { AuditLog } from '@/components/admin/AuditLog';
 
 interface AdminDashboardProps {
-  user: User;
+  user: SessionUser;
 }
 
 export function AdminDashboard({ user }: AdminDashboardProps) {
@@ -27,6 +30,7 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
     pendingPayouts: 0
   });
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
 
   const loadStats = useCallback(async () => {
     try {
@@ -45,8 +49,10 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
         pendingRegistrations: registrations.filter(r => r.status === 'pending').length,
         pendingPayouts: payouts.filter(p => p.status === 'pending').length
       });
+      setError('');
     } catch (error) {
       console.error('Failed to load stats:', error);
+      setError(getErrorMessage(error, 'Failed to load dashboard statistics. Please try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -58,6 +64,12 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
 
   return (
     <div className="space-y-8">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Admin Stats Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <Card className="bg-gradient-to-r from-blue-500 to-blue-600 text-white">
@@ -138,8 +150,10 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
 
       {/* Management Tabs */}
       <Tabs defaultValue="programs" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-2 lg:grid-cols-4">
+        <TabsList className="grid w-full grid-cols-2 lg:grid-cols-7">
           <TabsTrigger value="programs">📚 Programs</TabsTrigger>
+          <TabsTrigger value="commissions">💹 Commissions</TabsTrigger>
+          <TabsTrigger value="tiers">🏆 Tiers</TabsTrigger>
           <TabsTrigger value="affiliates">
             👥 Affiliates
             {stats.pendingAffiliates > 0 && (
@@ -164,12 +178,21 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
               </Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="audit">🕵️ Audit</TabsTrigger>
         </TabsList>
 
         <TabsContent value="programs">
           <ProgramManagement onUpdate={loadStats} />
         </TabsContent>
 
+        <TabsContent value="commissions">
+          <CommissionRuleManagement onUpdate={loadStats} />
+        </TabsContent>
+
+        <TabsContent value="tiers">
+          <TierManagement onUpdate={loadStats} />
+        </TabsContent>
+
         <TabsContent value="affiliates">
           <AffiliateManagement onUpdate={loadStats} />
         </TabsContent>
@@ -181,6 +204,10 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
         <TabsContent value="payouts">
           <PayoutManagement onUpdate={loadStats} />
         </TabsContent>
+
+        <TabsContent value="audit">
+          <AuditLog />
+        </TabsContent>
       </Tabs>
     </div>
   );
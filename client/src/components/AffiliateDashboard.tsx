@@ -5,22 +5,30 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
-import type { User, Affiliate, AffiliateStats, StudentRegistration, CommissionPayout } from '../../../server/src/schema';
+import { Progress } from '@/components/ui/progress';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { SessionUser, Affiliate, AffiliateStats, AffiliateTierProgress, StudentRegistration, CommissionPayout, PayoutAccount, Notification } from '../../../server/src/schema';
 
 // Import affiliate components
 import { ReferralTools } from '@/components/affiliate/ReferralTools';
 import { EarningsOverview } from '@/components/affiliate/EarningsOverview';
 import { StudentList } from '@/components/affiliate/StudentList';
 import { PayoutHistory } from '@/components/affiliate/PayoutHistory';
+import { ProfileSettings } from '@/components/affiliate/ProfileSettings';
+import { Notifications } from '@/components/affiliate/Notifications';
+import { TaxSettings } from '@/components/affiliate/TaxSettings';
 
 interface AffiliateDashboardProps {
-  user: User;
+  user: SessionUser;
+  onUserChange: (user: SessionUser) => void;
 }
 
-export function AffiliateDashboard({ user }: AffiliateDashboardProps) {
+export function AffiliateDashboard({ user, onUserChange }: AffiliateDashboardProps) {
   const [affiliate, setAffiliate] = useState<Affiliate | null>(null);
   const [stats, setStats] = useState<AffiliateStats | null>(null);
+  const [tierProgress, setTierProgress] = useState<AffiliateTierProgress | null>(null);
+  const [payoutAccounts, setPayoutAccounts] = useState<PayoutAccount[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -28,15 +36,8 @@ export function AffiliateDashboard({ user }: AffiliateDashboardProps) {
     try {
       setIsLoading(true);
       
-      // Get all affiliates and find the one for this user
-      const affiliates = await trpc.getAffiliates.query();
-      const userAffiliate = affiliates.find(a => a.user_id === user.id);
-      
-      if (!userAffiliate) {
-        setError('Affiliate profile not found. Please contact support.');
-        return;
-      }
-
+      // Get the affiliate profile of the logged-in user
+      const userAffiliate = await trpc.getMyAffiliate.query();
       setAffiliate(userAffiliate);
 
       // Get affiliate stats
@@ -45,19 +46,56 @@ export function AffiliateDashboard({ user }: AffiliateDashboardProps) {
       });
 
       setStats(affiliateStats);
+      setPayoutAccounts(await trpc.getPayoutAccounts.query(userAffiliate.id));
+      setNotifications(await trpc.getMyNotifications.query());
+
+      // Tiers only apply once the affiliate is approved
+      if (userAffiliate.status === 'approved') {
+        setTierProgress(await trpc.getMyTierProgress.query());
+      }
       setError('');
     } catch (error) {
       console.error('Failed to load affiliate data:', error);
-      setError('Failed to load affiliate data. Please try again.');
+      setError(getErrorMessage(error, 'Failed to load affiliate data. Please try again.'));
     } finally {
       setIsLoading(false);
     }
-  }, [user.id]);
+  }, []);
 
   useEffect(() => {
     loadAffiliateData();
   }, [loadAffiliateData]);
 
+  // Reloaded on its own so editing accounts does not reset the open tab
+  const loadPayoutAccounts = useCallback(async () => {
+    if (affiliate) {
+      setPayoutAccounts(await trpc.getPayoutAccounts.query(affiliate.id));
+    }
+  }, [affiliate]);
+
+  const loadNotifications = useCallback(async () => {
+    setNotifications(await trpc.getMyNotifications.query());
+  }, []);
+
+  const unreadNotifications = notifications.filter(notification => notification.read_at === null).length;
+
+  // Either threshold reaches the next tier, so progress follows whichever is closer
+  const getNextTierProgress = (progress: AffiliateTierProgress) => {
+    const nextTier = progress.next_tier;
+    if (!nextTier) {
+      return 100;
+    }
+    const ratios = [
+      nextTier.min_confirmed_registrations
+        ? progress.confirmed_registrations / nextTier.min_confirmed_registrations
+        : null,
+      nextTier.min_revenue
+        ? progress.revenue / nextTier.min_revenue
+        : null
+    ].filter((ratio): ratio is number => ratio !== null);
+    return ratios.length > 0 ? Math.min(Math.max(...ratios) * 100, 100) : 100;
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -94,7 +132,7 @@ export function AffiliateDashboard({ user }: AffiliateDashboardProps) {
           </CardHeader>
           <CardContent>
             <p className="text-gray-600 mb-4">
-              Your affiliate application is currently under review. Please wait for admin approval.
+              Thanks for joining, {user.full_name}! Your affiliate application is currently under review. Please wait for admin approval.
             </p>
             <p className="text-sm text-gray-500">
               You'll receive an email notification once your account is approved.
@@ -213,18 +251,69 @@ export function AffiliateDashboard({ user }: AffiliateDashboardProps) {
             </Button>
           </div>
           <p className="text-sm text-gray-600 mt-2">
-            💡 Commission Rate: {(affiliate.commission_rate * 100).toFixed(1)}%
+            💡 Commission Rate: {((tierProgress?.current_tier?.commission_rate ?? affiliate.commission_rate) * 100).toFixed(1)}%
           </p>
         </CardContent>
       </Card>
 
+      {/* Affiliate Tier */}
+      {tierProgress && (tierProgress.current_tier || tierProgress.next_tier) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              🏆 Your Tier
+              <Badge variant="secondary">
+                {tierProgress.current_tier ? tierProgress.current_tier.name : 'No tier yet'}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              Based on your confirmed students in the last {tierProgress.period_days} days
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="flex justify-between text-sm">
+                <span>👥 {tierProgress.confirmed_registrations} confirmed students</span>
+                <span>💵 Rp {tierProgress.revenue.toLocaleString('id-ID')} revenue</span>
+              </div>
+
+              {tierProgress.next_tier ? (
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <p className="text-sm text-gray-600">
+                      Next: {tierProgress.next_tier.name} ({(tierProgress.next_tier.commission_rate * 100).toFixed(1)}%)
+                    </p>
+                    <p className="text-sm font-semibold">{getNextTierProgress(tierProgress).toFixed(0)}%</p>
+                  </div>
+                  <Progress value={getNextTierProgress(tierProgress)} className="h-2" />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Reach
+                    {tierProgress.next_tier.min_confirmed_registrations !== null &&
+                      ` ${tierProgress.next_tier.min_confirmed_registrations} confirmed students`}
+                    {tierProgress.next_tier.min_confirmed_registrations !== null &&
+                      tierProgress.next_tier.min_revenue !== null && ' or'}
+                    {tierProgress.next_tier.min_revenue !== null &&
+                      ` Rp ${tierProgress.next_tier.min_revenue.toLocaleString('id-ID')} revenue`}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-green-700">🎉 You're in the top tier!</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Management Tabs */}
       <Tabs defaultValue="referral" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-2 lg:grid-cols-4">
+        <TabsList className="grid w-full grid-cols-2 lg:grid-cols-5">
           <TabsTrigger value="referral">🔗 Referral Tools</TabsTrigger>
           <TabsTrigger value="earnings">💰 Earnings</TabsTrigger>
           <TabsTrigger value="students">👥 My Students</TabsTrigger>
           <TabsTrigger value="payouts">💸 Payouts</TabsTrigger>
+          <TabsTrigger value="profile">
+            👤 Profile{unreadNotifications > 0 && ` (${unreadNotifications})`}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="referral">
@@ -232,7 +321,7 @@ export function AffiliateDashboard({ user }: AffiliateDashboardProps) {
         </TabsContent>
 
         <TabsContent value="earnings">
-          <EarningsOverview affiliate={affiliate} stats={stats} />
+          <EarningsOverview affiliate={affiliate} stats={stats} payoutAccounts={payoutAccounts} />
         </TabsContent>
 
         <TabsContent value="students">
@@ -240,7 +329,13 @@ export function AffiliateDashboard({ user }: AffiliateDashboardProps) {
         </TabsContent>
 
         <TabsContent value="payouts">
-          <PayoutHistory affiliate={affiliate} />
+          <PayoutHistory affiliate={affiliate} payoutAccounts={payoutAccounts} onAccountsChange={loadPayoutAccounts} />
+        </TabsContent>
+
+        <TabsContent value="profile" className="space-y-6">
+          <Notifications notifications={notifications} onChange={loadNotifications} />
+          <ProfileSettings user={user} onUserChange={onUserChange} />
+          <TaxSettings affiliate={affiliate} />
         </TabsContent>
       </Tabs>
     </div>
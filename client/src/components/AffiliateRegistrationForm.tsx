@@ -3,12 +3,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { trpc } from '@/utils/trpc';
-import type { CreateUserInput, CreateAffiliateInput } from '../../../server/src/schema';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { emptyPayoutAccountDraft, parsePayoutAccountDraft, type PayoutAccountDraft } from '@/utils/payout_accounts';
+import { PayoutAccountFields } from '@/components/affiliate/PayoutAccountFields';
+import type { RegisterAffiliateInput, SessionUser, PayoutAccountDetails } from '../../../server/src/schema';
 
 interface AffiliateRegistrationFormProps {
-  onSuccess: () => void;
+  onSuccess: (user: SessionUser) => void;
 }
 
 export function AffiliateRegistrationForm({ onSuccess }: AffiliateRegistrationFormProps) {
@@ -16,48 +17,59 @@ export function AffiliateRegistrationForm({ onSuccess }: AffiliateRegistrationFo
   const [error, setError] = useState('');
   const [formData, setFormData] = useState({
     email: '',
+    password: '',
+    confirm_password: '',
     full_name: '',
-    phone: '',
-    bank_name: '',
-    bank_account_number: '',
-    bank_account_name: '',
-    ewallet_type: '',
-    ewallet_number: ''
+    phone: ''
   });
+  const [bankAccount, setBankAccount] = useState<PayoutAccountDraft>(emptyPayoutAccountDraft('bank'));
+  const [ewalletAccount, setEwalletAccount] = useState<PayoutAccountDraft>(emptyPayoutAccountDraft('ewallet'));
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (formData.password.length < 8) {
+      setError('Password must be at least 8 characters long.');
+      return;
+    }
+
+    if (formData.password !== formData.confirm_password) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    // Payout details stay optional, but whatever was started has to be complete before the account is created
+    const payoutAccounts: PayoutAccountDetails[] = [];
+    for (const draft of [bankAccount, ewalletAccount]) {
+      if (!draft.bank_code && !draft.ewallet_provider && !draft.account_number.trim()) {
+        continue;
+      }
+      const { details, error: invalid } = parsePayoutAccountDraft({ ...draft, account_holder: draft.account_holder || formData.full_name });
+      if (!details) {
+        setError(invalid);
+        return;
+      }
+      payoutAccounts.push(details);
+    }
+
     setIsLoading(true);
     setError('');
 
     try {
-      // First create user
-      const userData: CreateUserInput = {
+      // The server creates the user and the affiliate profile together and logs the new affiliate in
+      const registration: RegisterAffiliateInput = {
         email: formData.email,
-        password_hash: 'temp_hash', // In real app, this would be properly hashed
+        password: formData.password,
         full_name: formData.full_name,
         phone: formData.phone || null,
-        role: 'affiliate' as const
-      };
-
-      const user = await trpc.createUser.mutate(userData);
-
-      // Then create affiliate profile
-      const affiliateData: CreateAffiliateInput = {
-        user_id: user.id,
-        bank_name: formData.bank_name || null,
-        bank_account_number: formData.bank_account_number || null,
-        bank_account_name: formData.bank_account_name || null,
-        ewallet_type: formData.ewallet_type || null,
-        ewallet_number: formData.ewallet_number || null,
-        commission_rate: 0.10 // Default 10% commission rate
+        payout_accounts: payoutAccounts
       };
 
-      await trpc.createAffiliate.mutate(affiliateData);
-      onSuccess();
+      const user = await trpc.registerAffiliate.mutate(registration);
+      onSuccess(user);
     } catch (error) {
       console.error('Registration error:', error);
-      setError('Registration failed. Please check your information and try again.');
+      setError(getErrorMessage(error, 'Registration failed. Please check your information and try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -94,6 +106,28 @@ export function AffiliateRegistrationForm({ onSuccess }: AffiliateRegistrationFo
               />
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                type="password"
+                placeholder="Password (min. 8 characters) *"
+                value={formData.password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, password: e.target.value }))
+                }
+                minLength={8}
+                required
+              />
+              <Input
+                type="password"
+                placeholder="Confirm password *"
+                value={formData.confirm_password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, confirm_password: e.target.value }))
+                }
+                required
+              />
+            </div>
+
             <div>
               <Input
                 placeholder="Full name *"
@@ -117,62 +151,17 @@ export function AffiliateRegistrationForm({ onSuccess }: AffiliateRegistrationFo
 
             <div className="space-y-2">
               <h4 className="font-medium">💰 Payout Information (Optional)</h4>
-              <p className="text-sm text-gray-600">You can update this information later</p>
+              <p className="text-sm text-gray-600">You can add or change payout accounts later; an admin verifies them before payouts are sent. The account holder defaults to your full name.</p>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Input
-                placeholder="Bank name"
-                value={formData.bank_name}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setFormData(prev => ({ ...prev, bank_name: e.target.value }))
-                }
-              />
-              <Input
-                placeholder="Account number"
-                value={formData.bank_account_number}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setFormData(prev => ({ ...prev, bank_account_number: e.target.value }))
-                }
-              />
-            </div>
-
-            <div>
-              <Input
-                placeholder="Account holder name"
-                value={formData.bank_account_name}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setFormData(prev => ({ ...prev, bank_account_name: e.target.value }))
-                }
-              />
+            <div className="space-y-2">
+              <p className="text-sm font-medium">🏦 Bank Account</p>
+              <PayoutAccountFields draft={bankAccount} onChange={setBankAccount} />
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Select
-                value={formData.ewallet_type}
-                onValueChange={(value) =>
-                  setFormData(prev => ({ ...prev, ewallet_type: value }))
-                }
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="E-wallet type" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="gopay">GoPay</SelectItem>
-                  <SelectItem value="ovo">OVO</SelectItem>
-                  <SelectItem value="dana">DANA</SelectItem>
-                  <SelectItem value="linkaja">LinkAja</SelectItem>
-                  <SelectItem value="shopeepay">ShopeePay</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Input
-                placeholder="E-wallet number"
-                value={formData.ewallet_number}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setFormData(prev => ({ ...prev, ewallet_number: e.target.value }))
-                }
-              />
+            <div className="space-y-2">
+              <p className="text-sm font-medium">📱 E-Wallet</p>
+              <PayoutAccountFields draft={ewalletAccount} onChange={setEwalletAccount} />
             </div>
           </div>
 
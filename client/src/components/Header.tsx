@@ -1,9 +1,9 @@
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import type { User } from '../../../server/src/schema';
+import type { SessionUser } from '../../../server/src/schema';
 
 interface HeaderProps {
-  user?: User;
+  user?: SessionUser;
   onLogout?: () => void;
 }
 
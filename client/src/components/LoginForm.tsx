@@ -3,15 +3,16 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
-import type { User } from '../../../server/src/schema';
+import { trpc, getErrorCode } from '@/utils/trpc';
+import type { SessionUser } from '../../../server/src/schema';
 
 interface LoginFormProps {
-  onLogin: (user: User) => void;
+  onLogin: (user: SessionUser) => void;
 }
 
 export function LoginForm({ onLogin }: LoginFormProps) {
   const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -21,15 +22,15 @@ export function LoginForm({ onLogin }: LoginFormProps) {
     setError('');
 
     try {
-      const user = await trpc.getUserByEmail.query(email);
-      if (user) {
-        onLogin(user);
-      } else {
-        setError('User not found. Please check your email or register as an affiliate.');
-      }
+      const user = await trpc.login.mutate({ email, password });
+      onLogin(user);
     } catch (error) {
       console.error('Login error:', error);
-      setError('Login failed. Please try again.');
+      // Only a rejected login means bad credentials; anything else is worth retrying as is
+      setError(getErrorCode(error) === 'UNAUTHORIZED'
+        ? 'Invalid email or password. Please try again.'
+        : 'Login failed. Please try again.');
+      setPassword('');
     } finally {
       setIsLoading(false);
     }
@@ -42,7 +43,7 @@ export function LoginForm({ onLogin }: LoginFormProps) {
           🔐 Login
         </CardTitle>
         <CardDescription>
-          Enter your email to access your dashboard
+          Enter your email and password to access your dashboard
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -64,18 +65,21 @@ export function LoginForm({ onLogin }: LoginFormProps) {
             />
           </div>
 
-          <Button type="submit" disabled={isLoading || !email} className="w-full">
+          <div>
+            <Input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+              required
+              className="w-full"
+            />
+          </div>
+
+          <Button type="submit" disabled={isLoading || !email || !password} className="w-full">
             {isLoading ? 'Signing in...' : 'Sign In 🚀'}
           </Button>
         </form>
-
-        <div className="mt-4 p-4 bg-blue-50 rounded-lg">
-          <p className="text-sm text-blue-700 font-medium mb-2">📝 Demo Accounts:</p>
-          <div className="space-y-1 text-xs text-blue-600">
-            <p><strong>Admin:</strong> admin@englishbooster.id</p>
-            <p><strong>Affiliate:</strong> affiliate@example.com</p>
-          </div>
-        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,317 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { Header } from '@/components/Header';
+import type { Program, ProgramIntake, ReferralInfo, RegisterStudentInput, RegistrationStatus } from '../../../server/src/schema';
+
+// Public enrollment page that affiliate referral links (/register?ref=CODE&program=ID) point to
+export function StudentRegistrationPage() {
+  const params = new URLSearchParams(window.location.search);
+  const referralCode = params.get('ref') || '';
+  const requestedProgramId = params.get('program') || '';
+
+  const [clickToken, setClickToken] = useState<string | null>(null);
+  const isClickTracked = useRef(false);
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [intakes, setIntakes] = useState<ProgramIntake[]>([]);
+  const [referral, setReferral] = useState<ReferralInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [registeredStatus, setRegisteredStatus] = useState<RegistrationStatus | null>(null);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({
+    program_id: '',
+    intake_id: '',
+    student_name: '',
+    student_email: '',
+    student_phone: '',
+    student_address: ''
+  });
+
+  const loadPage = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [programData, referralData] = await Promise.all([
+        trpc.getPrograms.query(),
+        referralCode ? trpc.getReferralInfo.query(referralCode) : Promise.resolve(null)
+      ]);
+
+      const activePrograms = programData.filter(p => p.is_active);
+      setPrograms(activePrograms);
+      setReferral(referralData);
+
+      // Preselect the program from the link when it is still on offer
+      if (activePrograms.some(p => p.id.toString() === requestedProgramId)) {
+        setFormData(prev => ({ ...prev, program_id: requestedProgramId }));
+      }
+    } catch (error) {
+      console.error('Failed to load registration page:', error);
+      setError('Failed to load programs. Please refresh the page.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [referralCode, requestedProgramId]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  // Dated programs are booked per intake; the choice resets whenever the program changes
+  const loadIntakes = useCallback(async () => {
+    setIntakes([]);
+    setFormData(prev => ({ ...prev, intake_id: '' }));
+    if (!formData.program_id) {
+      return;
+    }
+
+    try {
+      setIntakes(await trpc.getProgramIntakes.query({ program_id: parseInt(formData.program_id) }));
+    } catch (error) {
+      console.error('Failed to load intakes:', error);
+      setError('Failed to load intake dates. Please refresh the page.');
+    }
+  }, [formData.program_id]);
+
+  useEffect(() => {
+    loadIntakes();
+  }, [loadIntakes]);
+
+  // Record the visit once per browser session; tracking failures never block registration
+  const trackClick = useCallback(async () => {
+    if (!referralCode || isClickTracked.current) {
+      return;
+    }
+    isClickTracked.current = true;
+
+    const storageKey = `eb_click_${referralCode}`;
+    const storedToken = sessionStorage.getItem(storageKey);
+    if (storedToken) {
+      setClickToken(storedToken);
+      return;
+    }
+
+    try {
+      const result = await trpc.trackReferralClick.mutate({
+        referral_code: referralCode,
+        program_id: requestedProgramId ? parseInt(requestedProgramId) || null : null,
+        referrer: document.referrer || null
+      });
+      if (result.click_token) {
+        sessionStorage.setItem(storageKey, result.click_token);
+        setClickToken(result.click_token);
+      }
+    } catch (error) {
+      console.error('Failed to track referral click:', error);
+    }
+  }, [referralCode, requestedProgramId]);
+
+  useEffect(() => {
+    trackClick();
+  }, [trackClick]);
+
+  const formatPrice = (price: number) => {
+    return `Rp ${price.toLocaleString('id-ID')}`;
+  };
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.program_id) {
+      setError('Please choose a program.');
+      return;
+    }
+    if (intakes.length > 0 && !formData.intake_id) {
+      setError('Please choose a start date.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      // An invalid code is passed through; the server registers the student without a referrer
+      const registrationData: RegisterStudentInput = {
+        referral_code: referralCode || null,
+        click_token: clickToken,
+        program_id: parseInt(formData.program_id),
+        intake_id: formData.intake_id ? parseInt(formData.intake_id) : null,
+        student_name: formData.student_name,
+        student_email: formData.student_email,
+        student_phone: formData.student_phone,
+        student_address: formData.student_address || null
+      };
+
+      const registration = await trpc.registerStudent.mutate(registrationData);
+      setRegisteredStatus(registration.status);
+    } catch (error) {
+      console.error('Student registration error:', error);
+      setError(getErrorMessage(error, 'Registration failed. Please check your information and try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const selectedProgram = programs.find(p => p.id.toString() === formData.program_id);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-xl mx-auto">
+          {registeredStatus ? (
+            <Card>
+              <CardHeader className="text-center">
+                <CardTitle>{registeredStatus === 'waitlisted' ? '🕒 You Are on the Waitlist' : '🎉 Registration Received!'}</CardTitle>
+                <CardDescription>
+                  {registeredStatus === 'waitlisted'
+                    ? `Thank you, ${formData.student_name}. This intake is full; we will contact you as soon as a seat opens up.`
+                    : `Thank you, ${formData.student_name}. Our team will contact you shortly to confirm your enrollment.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="text-center text-sm text-gray-600">
+                <p>📞 Questions? Call us at 082231050500</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader className="text-center">
+                <CardTitle className="flex items-center justify-center gap-2">
+                  📝 Student Registration
+                </CardTitle>
+                <CardDescription>
+                  Enroll in an English Booster program
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {referral ? (
+                    <Alert>
+                      <AlertDescription>
+                        🤝 Referred by <span className="font-medium">{referral.affiliate_name}</span>
+                      </AlertDescription>
+                    </Alert>
+                  ) : referralCode && (
+                    <Alert>
+                      <AlertDescription>
+                        We couldn't find this referral link, but you can still register below.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {error && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div>
+                    <Select
+                      value={formData.program_id}
+                      onValueChange={(value) =>
+                        setFormData(prev => ({ ...prev, program_id: value }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a program *" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {programs.map((program) => (
+                          <SelectItem key={program.id} value={program.id.toString()}>
+                            {program.name} - {formatPrice(program.price)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedProgram?.description && (
+                      <p className="text-sm text-gray-600 mt-2">{selectedProgram.description}</p>
+                    )}
+                  </div>
+
+                  {intakes.length > 0 && (
+                    <Select
+                      value={formData.intake_id}
+                      onValueChange={(value) =>
+                        setFormData(prev => ({ ...prev, intake_id: value }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a start date *" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {intakes.map((intake) => (
+                          <SelectItem key={intake.id} value={intake.id.toString()}>
+                            {formatDate(intake.start_date)} - {formatDate(intake.end_date)}
+                            {intake.seats_left > 0 ? ` (${intake.seats_left} seats left)` : ' (full, join the waitlist)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  <Input
+                    placeholder="Full name *"
+                    value={formData.student_name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, student_name: e.target.value }))
+                    }
+                    required
+                  />
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Input
+                      type="email"
+                      placeholder="Email address *"
+                      value={formData.student_email}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData(prev => ({ ...prev, student_email: e.target.value }))
+                      }
+                      required
+                    />
+                    <Input
+                      placeholder="Phone / WhatsApp *"
+                      value={formData.student_phone}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData(prev => ({ ...prev, student_phone: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+
+                  <Textarea
+                    placeholder="Address"
+                    value={formData.student_address}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                      setFormData(prev => ({ ...prev, student_address: e.target.value }))
+                    }
+                  />
+
+                  <Button type="submit" disabled={isSubmitting} className="w-full">
+                    {isSubmitting ? 'Registering...' : 'Register Now 🚀'}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
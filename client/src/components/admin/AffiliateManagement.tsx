@@ -2,11 +2,14 @@ import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { trpc } from '@/utils/trpc';
-import type { Affiliate, AffiliateStatus, UpdateAffiliateStatusInput } from '../../../../server/src/schema';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { StatusTimeline } from '@/components/admin/StatusTimeline';
+import { getProviderName } from '@/utils/payout_accounts';
+import type { Affiliate, AffiliateStatus, UpdateAffiliateStatusInput, PayoutAccount } from '../../../../server/src/schema';
 
 interface AffiliateManagementProps {
   onUpdate: () => void;
@@ -14,20 +17,31 @@ interface AffiliateManagementProps {
 
 export function AffiliateManagement({ onUpdate }: AffiliateManagementProps) {
   const [affiliates, setAffiliates] = useState<Affiliate[]>([]);
+  const [payoutAccounts, setPayoutAccounts] = useState<PayoutAccount[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [filter, setFilter] = useState<AffiliateStatus | 'all'>('all');
   const [selectedAffiliate, setSelectedAffiliate] = useState<Affiliate | null>(null);
+  const [statusReason, setStatusReason] = useState('');
+  const [adjustingAffiliate, setAdjustingAffiliate] = useState<Affiliate | null>(null);
+  const [adjustmentAmount, setAdjustmentAmount] = useState('');
+  const [adjustmentDescription, setAdjustmentDescription] = useState('');
+  const [rejectingAccount, setRejectingAccount] = useState<PayoutAccount | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
 
   const loadAffiliates = useCallback(async () => {
     try {
       setIsLoading(true);
-      const data = await trpc.getAffiliates.query();
+      const [data, accounts] = await Promise.all([
+        trpc.getAffiliates.query(),
+        trpc.getPayoutAccounts.query()
+      ]);
       setAffiliates(data);
+      setPayoutAccounts(accounts);
       setError('');
     } catch (error) {
       console.error('Failed to load affiliates:', error);
-      setError('Failed to load affiliates. Please try again.');
+      setError(getErrorMessage(error, 'Failed to load affiliates. Please try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -42,16 +56,53 @@ export function AffiliateManagement({ onUpdate }: AffiliateManagementProps) {
       const updateData: UpdateAffiliateStatusInput = {
         affiliate_id: affiliateId,
         status,
-        approved_by: 1 // Admin user ID (hardcoded for demo)
+        reason: statusReason.trim() || null
       };
 
       await trpc.updateAffiliateStatus.mutate(updateData);
       await loadAffiliates();
       onUpdate();
       setSelectedAffiliate(null);
+      setStatusReason('');
     } catch (error) {
       console.error('Failed to update affiliate status:', error);
-      setError('Failed to update affiliate status. Please try again.');
+      setError(getErrorMessage(error, 'Failed to update affiliate status. Please try again.'));
+    }
+  };
+
+  const handleAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adjustingAffiliate) return;
+
+    try {
+      await trpc.createLedgerAdjustment.mutate({
+        affiliate_id: adjustingAffiliate.id,
+        amount: parseFloat(adjustmentAmount),
+        description: adjustmentDescription
+      });
+      onUpdate();
+      setAdjustingAffiliate(null);
+      setAdjustmentAmount('');
+      setAdjustmentDescription('');
+    } catch (error) {
+      console.error('Failed to adjust balance:', error);
+      setError(getErrorMessage(error, 'Failed to adjust balance. Please try again.'));
+    }
+  };
+
+  const handleAccountReview = async (account: PayoutAccount, status: 'verified' | 'rejected') => {
+    try {
+      await trpc.reviewPayoutAccount.mutate({
+        payout_account_id: account.id,
+        status,
+        reason: status === 'rejected' ? rejectionReason : null
+      });
+      await loadAffiliates();
+      setRejectingAccount(null);
+      setRejectionReason('');
+    } catch (error) {
+      console.error('Failed to review payout account:', error);
+      setError(getErrorMessage(error, 'Failed to review the payout account. Please try again.'));
     }
   };
 
@@ -79,6 +130,14 @@ export function AffiliateManagement({ onUpdate }: AffiliateManagementProps) {
     filter === 'all' || affiliate.status === filter
   );
 
+  // Details of pending applications are verified together with the approval
+  const accountsAwaitingReview = payoutAccounts.filter(account =>
+    account.verification_status === 'pending' &&
+    affiliates.some(affiliate => affiliate.id === account.affiliate_id && affiliate.status !== 'pending')
+  );
+  const getReferralCode = (affiliateId: number) =>
+    affiliates.find(affiliate => affiliate.id === affiliateId)?.referral_code ?? `#${affiliateId}`;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -118,6 +177,43 @@ export function AffiliateManagement({ onUpdate }: AffiliateManagementProps) {
         </Alert>
       )}
 
+      {accountsAwaitingReview.length > 0 && (
+        <Card className="border-yellow-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">💳 Payout Details Awaiting Verification</CardTitle>
+            <CardDescription>
+              Check that each account belongs to the affiliate; no payouts are sent to it until it is verified
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {accountsAwaitingReview.map((account) => (
+              <div key={account.id} className="flex flex-wrap items-center gap-3 border rounded-lg p-3">
+                <span>{account.account_type === 'bank' ? '🏦' : '📱'}</span>
+                <div className="flex-1 text-sm">
+                  <p className="font-medium">{getProviderName(account)} · {account.account_number}</p>
+                  <p className="text-gray-500">
+                    {account.account_holder} · <span className="font-mono">{getReferralCode(account.affiliate_id)}</span>
+                  </p>
+                </div>
+                <Button size="sm" onClick={() => handleAccountReview(account, 'verified')}>
+                  ✅ Verify
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setRejectingAccount(account);
+                    setRejectionReason('');
+                  }}
+                >
+                  ❌ Reject
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredAffiliates.map((affiliate) => (
           <Card key={affiliate.id} className="relative">
@@ -141,23 +237,19 @@ export function AffiliateManagement({ onUpdate }: AffiliateManagementProps) {
                   <p className="font-semibold">{(affiliate.commission_rate * 100).toFixed(1)}%</p>
                 </div>
 
-                {affiliate.bank_name && (
+                {payoutAccounts.some(account => account.affiliate_id === affiliate.id) && (
                   <div>
-                    <p className="text-sm text-gray-600">Bank Details</p>
-                    <p className="text-sm">
-                      {affiliate.bank_name} - {affiliate.bank_account_number}
-                      <br />
-                      {affiliate.bank_account_name}
-                    </p>
-                  </div>
-                )}
-
-                {affiliate.ewallet_type && (
-                  <div>
-                    <p className="text-sm text-gray-600">E-Wallet</p>
-                    <p className="text-sm">
-                      {affiliate.ewallet_type}: {affiliate.ewallet_number}
-                    </p>
+                    <p className="text-sm text-gray-600">Payout Accounts</p>
+                    {payoutAccounts.filter(account => account.affiliate_id === affiliate.id).map((account) => (
+                      <p key={account.id} className="text-sm">
+                        {account.account_type === 'bank' ? '🏦' : '📱'} {getProviderName(account)} - {account.account_number}
+                        {account.is_default && ' ⭐'}
+                        {account.verification_status === 'pending' && ' ⏳'}
+                        {account.verification_status === 'rejected' && ' ❌'}
+                        <br />
+                        <span className="text-gray-500">{account.account_holder}</span>
+                      </p>
+                    ))}
                   </div>
                 )}
 
@@ -179,7 +271,10 @@ export function AffiliateManagement({ onUpdate }: AffiliateManagementProps) {
                       variant="outline" 
                       size="sm" 
                       className="w-full"
-                      onClick={() => setSelectedAffiliate(affiliate)}
+                      onClick={() => {
+                        setSelectedAffiliate(affiliate);
+                        setStatusReason('');
+                      }}
                     >
                       🔧 Manage Status
                     </Button>
@@ -200,6 +295,12 @@ export function AffiliateManagement({ onUpdate }: AffiliateManagementProps) {
                         </Badge>
                       </div>
 
+                      <Input
+                        placeholder="Reason for the status change (optional)"
+                        value={statusReason}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStatusReason(e.target.value)}
+                      />
+
                       <div className="space-y-2">
                         <p className="text-sm font-medium">Update to:</p>
                         <div className="grid grid-cols-2 gap-2">
@@ -237,15 +338,96 @@ export function AffiliateManagement({ onUpdate }: AffiliateManagementProps) {
                           </Button>
                         </div>
                       </div>
+
+                      <StatusTimeline entityType="affiliate" entityId={affiliate.id} />
                     </div>
                   </DialogContent>
                 </Dialog>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setAdjustingAffiliate(affiliate)}
+                >
+                  ✏️ Adjust Balance
+                </Button>
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      <Dialog open={adjustingAffiliate !== null} onOpenChange={(open: boolean) => !open && setAdjustingAffiliate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust Commission Balance</DialogTitle>
+            <DialogDescription>
+              Post a manual ledger entry for {adjustingAffiliate?.referral_code}; use a negative amount to debit
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleAdjustment} className="space-y-4">
+            <Input
+              type="number"
+              placeholder="Amount (IDR) *"
+              value={adjustmentAmount}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAdjustmentAmount(e.target.value)}
+              step="1000"
+              required
+            />
+            <Input
+              placeholder="Reason *"
+              value={adjustmentDescription}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAdjustmentDescription(e.target.value)}
+              required
+            />
+
+            <div className="flex gap-2 pt-4">
+              <Button type="submit" className="flex-1">Post Adjustment</Button>
+              <Button type="button" variant="outline" onClick={() => setAdjustingAffiliate(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={rejectingAccount !== null} onOpenChange={(open: boolean) => !open && setRejectingAccount(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Payout Details</DialogTitle>
+            <DialogDescription>
+              The affiliate is told the reason and can correct the details or add another account
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            onSubmit={(e: React.FormEvent) => {
+              e.preventDefault();
+              if (rejectingAccount) {
+                handleAccountReview(rejectingAccount, 'rejected');
+              }
+            }}
+            className="space-y-4"
+          >
+            <Input
+              placeholder="Reason *"
+              value={rejectionReason}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRejectionReason(e.target.value)}
+              required
+            />
+
+            <div className="flex gap-2 pt-4">
+              <Button type="submit" variant="destructive" className="flex-1">Reject Details</Button>
+              <Button type="button" variant="outline" onClick={() => setRejectingAccount(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {filteredAffiliates.length === 0 && !isLoading && (
         <Card>
           <CardContent className="text-center py-12">
@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { AuditLogEntry, AuditEntity } from '../../../../server/src/schema';
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  user: '👤 User',
+  affiliate: '👥 Affiliate',
+  affiliate_tier: '🏆 Tier',
+  branch: '🏢 Branch',
+  program: '📚 Program',
+  program_intake: '📅 Intake',
+  commission_rule: '💹 Commission rule',
+  registration: '📝 Registration',
+  payout: '💰 Payout',
+  payout_run: '📦 Payout run',
+  payout_account: '💳 Payout account',
+  ledger_entry: '📒 Ledger entry',
+  tax_profile: '🧾 Tax profile'
+};
+
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [entityType, setEntityType] = useState<AuditEntity | 'all'>('all');
+  const [actor, setActor] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await trpc.getAuditLog.query({
+        ...(entityType !== 'all' && { entity_type: entityType }),
+        ...(actor.trim() && { actor: actor.trim() }),
+        ...(startDate && { start_date: new Date(`${startDate}T00:00:00`) }),
+        ...(endDate && { end_date: new Date(`${endDate}T23:59:59.999`) }) // The whole end day is included
+      });
+      setEntries(data);
+      setError('');
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+      setError(getErrorMessage(error, 'Failed to load audit log. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityType, actor, startDate, endDate]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) {
+      return '—';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">🕵️ Audit Log</h2>
+        <p className="text-gray-600">Every change made through the system, who made it and from where</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Select
+          value={entityType || 'all'}
+          onValueChange={(value: AuditEntity | 'all') => setEntityType(value)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Entities</SelectItem>
+            {(Object.keys(ENTITY_LABELS) as AuditEntity[]).map((entity) => (
+              <SelectItem key={entity} value={entity}>{ENTITY_LABELS[entity]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Actor name or email"
+          value={actor}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setActor(e.target.value)}
+        />
+        <Input
+          type="date"
+          value={startDate}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)}
+        />
+        <Input
+          type="date"
+          value={endDate}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-gray-500">No audit entries match these filters</p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4"
+              onClick={() => {
+                setEntityType('all');
+                setActor('');
+                setStartDate('');
+                setEndDate('');
+              }}
+            >
+              Clear Filters
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => (
+            <Card key={entry.id}>
+              <CardContent className="pt-6 space-y-2">
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-semibold">{entry.procedure}</span>
+                    {entry.entity_type && (
+                      <Badge variant="secondary">
+                        {ENTITY_LABELS[entry.entity_type]}
+                        {entry.entity_id !== null && ` #${entry.entity_id}`}
+                      </Badge>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-500">{new Date(entry.created_at).toLocaleString('id-ID')}</span>
+                </div>
+
+                <p className="text-sm text-gray-600">{entry.actor_name ?? 'Anonymous'}</p>
+
+                {entry.changes && (
+                  <div className="bg-gray-50 rounded-lg p-3 space-y-1">
+                    {Object.entries(entry.changes).map(([field, change]) => (
+                      <p key={field} className="text-xs font-mono break-all">
+                        <span className="font-semibold">{field}:</span>{' '}
+                        <span className="text-red-600">{formatValue(change.before)}</span>
+                        {' → '}
+                        <span className="text-green-700">{formatValue(change.after)}</span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { Branch } from '../../../../server/src/schema';
+
+interface BranchManagementProps {
+  branches: Branch[];
+  onUpdate: () => void;
+}
+
+const emptyBranch = {
+  code: '',
+  name: '',
+  address: '',
+  contact: ''
+};
+
+// Where programs run; a closed branch keeps its programs but takes no new ones
+export function BranchManagement({ branches, onUpdate }: BranchManagementProps) {
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState(emptyBranch);
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [editData, setEditData] = useState(emptyBranch);
+  const [deletingBranch, setDeletingBranch] = useState<Branch | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await trpc.createBranch.mutate({
+        code: formData.code,
+        name: formData.name,
+        address: formData.address || null,
+        contact: formData.contact || null
+      });
+      setFormData(emptyBranch);
+      setError('');
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to create branch:', error);
+      setError(getErrorMessage(error, 'Failed to create branch. Please check the code and try again.'));
+    }
+  };
+
+  const openEditForm = (branch: Branch) => {
+    setEditData({
+      code: branch.code,
+      name: branch.name,
+      address: branch.address ?? '',
+      contact: branch.contact ?? ''
+    });
+    setEditingBranch(branch);
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingBranch) return;
+    try {
+      await trpc.updateBranch.mutate({
+        id: editingBranch.id,
+        name: editData.name,
+        address: editData.address || null,
+        contact: editData.contact || null
+      });
+      setEditingBranch(null);
+      setError('');
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to update branch:', error);
+      setError(getErrorMessage(error, 'Failed to update branch. Please try again.'));
+    }
+  };
+
+  const handleToggleActive = async (branch: Branch) => {
+    try {
+      await trpc.updateBranch.mutate({ id: branch.id, is_active: !branch.is_active });
+      setError('');
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to update branch:', error);
+      setError(getErrorMessage(error, 'Failed to update branch. Please try again.'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingBranch) return;
+    try {
+      await trpc.deleteBranch.mutate({ branch_id: deletingBranch.id });
+      setError('');
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to delete branch:', error);
+      setError(getErrorMessage(error, 'Failed to delete branch. Please try again.'));
+    } finally {
+      setDeletingBranch(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">🏢 Branches</CardTitle>
+        <CardDescription>
+          Where programs run; the code appears in program filters and cannot be changed once created
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+          <Input
+            placeholder="Code, e.g. kediri *"
+            value={formData.code}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData(prev => ({ ...prev, code: e.target.value }))
+            }
+            required
+          />
+          <Input
+            placeholder="Name *"
+            value={formData.name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData(prev => ({ ...prev, name: e.target.value }))
+            }
+            required
+          />
+          <Input
+            placeholder="Address"
+            value={formData.address}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData(prev => ({ ...prev, address: e.target.value }))
+            }
+          />
+          <Input
+            placeholder="Contact"
+            value={formData.contact}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData(prev => ({ ...prev, contact: e.target.value }))
+            }
+          />
+          <Button type="submit">➕ Add Branch</Button>
+        </form>
+
+        {branches.length === 0 ? (
+          <p className="text-sm text-gray-500">No branches yet; add one before creating programs</p>
+        ) : (
+          <div className="space-y-3">
+            {branches.map((branch) => (
+              <div key={branch.id} className="border rounded-lg p-3 flex flex-wrap justify-between items-center gap-2">
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {branch.name}
+                    <span className="text-xs text-gray-500 font-mono">{branch.code}</span>
+                  </div>
+                  {(branch.address || branch.contact) && (
+                    <div className="text-xs text-gray-500">
+                      {[branch.address, branch.contact].filter(Boolean).join(' • ')}
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={branch.is_active ? 'default' : 'secondary'}>
+                    {branch.is_active ? '🟢 Open' : '🔒 Closed'}
+                  </Badge>
+                  <Button size="sm" variant="outline" onClick={() => openEditForm(branch)}>
+                    ✏️ Edit
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleToggleActive(branch)}>
+                    {branch.is_active ? '🔒 Close' : '▶️ Reopen'}
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => setDeletingBranch(branch)}>
+                    🗑️ Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editingBranch !== null} onOpenChange={(open) => !open && setEditingBranch(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Branch</DialogTitle>
+            <DialogDescription>
+              Programs keep referring to the branch by its code, {editingBranch?.code}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleUpdate} className="space-y-4">
+            <Input
+              placeholder="Name *"
+              value={editData.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setEditData(prev => ({ ...prev, name: e.target.value }))
+              }
+              required
+            />
+            <Input
+              placeholder="Address"
+              value={editData.address}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setEditData(prev => ({ ...prev, address: e.target.value }))
+              }
+            />
+            <Input
+              placeholder="Contact"
+              value={editData.contact}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setEditData(prev => ({ ...prev, contact: e.target.value }))
+              }
+            />
+            <div className="flex gap-2 pt-4">
+              <Button type="submit" className="flex-1">Save Changes</Button>
+              <Button type="button" variant="outline" onClick={() => setEditingBranch(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deletingBranch !== null} onOpenChange={(open) => !open && setDeletingBranch(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingBranch?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only branches without programs or commission rules can be deleted. Close the branch instead to stop new programs there.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
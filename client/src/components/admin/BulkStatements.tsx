@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { downloadFile } from '@/utils/download';
+import { getPreviousMonth } from '@/utils/period';
+import type { MonthlyStatementFormat } from '../../../../server/src/schema';
+
+// Month-end statements of every affiliate with a balance or activity, in one PDF or CSV
+export function BulkStatements() {
+  const [period, setPeriod] = useState(getPreviousMonth());
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async (format: MonthlyStatementFormat) => {
+    try {
+      setIsGenerating(true);
+      const file = await trpc.generateMonthlyStatements.query({ period, format });
+      downloadFile(file.filename, file.content, file.content_type);
+      setMessage(`Generated statements for ${file.statement_count} affiliate${file.statement_count === 1 ? '' : 's'}.`);
+      setError('');
+    } catch (error) {
+      console.error('Failed to generate monthly statements:', error);
+      setMessage('');
+      setError(getErrorMessage(error, 'Failed to generate the statements. Please try again.'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">📄 Monthly Statements</CardTitle>
+        <CardDescription>
+          Every affiliate's statement for a month in one file; each affiliate starts on a new page of the PDF
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && !error && (
+          <Alert>
+            <AlertDescription>✅ {message}</AlertDescription>
+          </Alert>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Input
+            type="month"
+            className="w-48"
+            value={period}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPeriod(e.target.value)}
+          />
+          <Button variant="outline" disabled={!period || isGenerating} onClick={() => handleGenerate('pdf')}>
+            ⬇️ All as PDF
+          </Button>
+          <Button variant="outline" disabled={!period || isGenerating} onClick={() => handleGenerate('csv')}>
+            ⬇️ All as CSV
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
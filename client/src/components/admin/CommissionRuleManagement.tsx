@@ -0,0 +1,395 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type {
+  Affiliate,
+  Branch,
+  Program,
+  CommissionRule,
+  CommissionType,
+  CreateCommissionRuleInput,
+  ProgramCategory
+} from '../../../../server/src/schema';
+
+interface CommissionRuleManagementProps {
+  onUpdate: () => void;
+}
+
+// Select value used for "no restriction" on a rule's scope fields
+const ANY = 'any';
+
+const emptyRule: CreateCommissionRuleInput = {
+  name: '',
+  commission_type: 'percentage',
+  value: 0,
+  affiliate_id: null,
+  program_id: null,
+  category: null,
+  location: null,
+  effective_from: null,
+  effective_to: null
+};
+
+export function CommissionRuleManagement({ onUpdate }: CommissionRuleManagementProps) {
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [affiliates, setAffiliates] = useState<Affiliate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [formData, setFormData] = useState<CreateCommissionRuleInput>(emptyRule);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [ruleData, programData, branchData, affiliateData] = await Promise.all([
+        trpc.getCommissionRules.query(),
+        trpc.getPrograms.query({ include_archived: true }),
+        trpc.getBranches.query(),
+        trpc.getAffiliates.query()
+      ]);
+      setRules(ruleData);
+      setPrograms(programData);
+      setBranches(branchData);
+      setAffiliates(affiliateData);
+      setError('');
+    } catch (error) {
+      console.error('Failed to load commission rules:', error);
+      setError(getErrorMessage(error, 'Failed to load commission rules. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await trpc.createCommissionRule.mutate(formData);
+      setShowCreateForm(false);
+      setFormData(emptyRule);
+      await loadRules();
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to create commission rule:', error);
+      setError(getErrorMessage(error, 'Failed to create commission rule. Please check the rule and try again.'));
+    }
+  };
+
+  // Ending a rule keeps it on record for registrations that already used it
+  const handleEndRule = async (rule: CommissionRule) => {
+    try {
+      await trpc.updateCommissionRule.mutate({ id: rule.id, effective_to: new Date() });
+      await loadRules();
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to end commission rule:', error);
+      setError(getErrorMessage(error, 'Failed to end commission rule. Please try again.'));
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return `Rp ${price.toLocaleString('id-ID')}`;
+  };
+
+  const formatValue = (rule: CommissionRule) => {
+    return rule.commission_type === 'percentage'
+      ? `${(rule.value * 100).toFixed(1)}%`
+      : formatPrice(rule.value);
+  };
+
+  const formatDate = (date: Date | null) => {
+    return date ? new Date(date).toLocaleDateString('id-ID') : null;
+  };
+
+  const toDateInput = (date: Date | null) => {
+    return date ? new Date(date).toISOString().slice(0, 10) : '';
+  };
+
+  const isActive = (rule: CommissionRule) => {
+    const now = new Date();
+    return (!rule.effective_from || new Date(rule.effective_from) <= now) &&
+      (!rule.effective_to || new Date(rule.effective_to) > now);
+  };
+
+  const describeScope = (rule: CommissionRule) => {
+    const scope: string[] = [];
+    if (rule.affiliate_id !== null) {
+      const affiliate = affiliates.find(a => a.id === rule.affiliate_id);
+      scope.push(`🤝 ${affiliate ? affiliate.referral_code : `Affiliate #${rule.affiliate_id}`}`);
+    }
+    if (rule.program_id !== null) {
+      const program = programs.find(p => p.id === rule.program_id);
+      scope.push(`📚 ${program ? program.name : `Program #${rule.program_id}`}`);
+    }
+    if (rule.category) {
+      scope.push(`🏷️ ${rule.category}`);
+    }
+    if (rule.location) {
+      const branch = branches.find(b => b.code === rule.location);
+      scope.push(`📍 ${branch ? branch.name : rule.location}`);
+    }
+    return scope.length > 0 ? scope : ['🌐 All programs'];
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">💹 Commission Rules</h2>
+          <p className="text-gray-600">
+            The most specific active rule wins; affiliates without a matching rule earn their default rate
+          </p>
+        </div>
+
+        <Dialog open={showCreateForm} onOpenChange={setShowCreateForm}>
+          <DialogTrigger asChild>
+            <Button>➕ Add New Rule</Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Create Commission Rule</DialogTitle>
+              <DialogDescription>
+                Leave a scope on "Any" to apply the rule across it
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                placeholder="Rule name *"
+                value={formData.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, name: e.target.value }))
+                }
+                required
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  value={formData.commission_type || 'percentage'}
+                  onValueChange={(value: CommissionType) =>
+                    setFormData(prev => ({ ...prev, commission_type: value, value: 0 }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">% Percentage</SelectItem>
+                    <SelectItem value="flat">💵 Flat amount</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {formData.commission_type === 'percentage' ? (
+                  <Input
+                    type="number"
+                    placeholder="Rate (%) *"
+                    value={formData.value ? +(formData.value * 100).toFixed(2) : ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, value: (parseFloat(e.target.value) || 0) / 100 }))
+                    }
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    required
+                  />
+                ) : (
+                  <Input
+                    type="number"
+                    placeholder="Amount (IDR) *"
+                    value={formData.value || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, value: parseFloat(e.target.value) || 0 }))
+                    }
+                    min="0"
+                    step="1000"
+                    required
+                  />
+                )}
+              </div>
+
+              <Select
+                value={formData.affiliate_id?.toString() ?? ANY}
+                onValueChange={(value) =>
+                  setFormData(prev => ({ ...prev, affiliate_id: value === ANY ? null : parseInt(value) }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>🤝 Any affiliate</SelectItem>
+                  {affiliates.map((affiliate) => (
+                    <SelectItem key={affiliate.id} value={affiliate.id.toString()}>
+                      {affiliate.referral_code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={formData.program_id?.toString() ?? ANY}
+                onValueChange={(value) =>
+                  setFormData(prev => ({ ...prev, program_id: value === ANY ? null : parseInt(value) }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>📚 Any program</SelectItem>
+                  {programs.filter(program => !program.archived_at).map((program) => (
+                    <SelectItem key={program.id} value={program.id.toString()}>
+                      {program.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  value={formData.category ?? ANY}
+                  onValueChange={(value) =>
+                    setFormData(prev => ({ ...prev, category: value === ANY ? null : value as ProgramCategory }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>🏷️ Any category</SelectItem>
+                    <SelectItem value="online">💻 Online</SelectItem>
+                    <SelectItem value="offline_pare">🏫 Offline (Pare)</SelectItem>
+                    <SelectItem value="group">👥 Group</SelectItem>
+                    <SelectItem value="branch">🏢 Branch</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={formData.location ?? ANY}
+                  onValueChange={(value) =>
+                    setFormData(prev => ({ ...prev, location: value === ANY ? null : value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>📍 Any branch</SelectItem>
+                    {branches.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.code}>
+                        📍 {branch.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm text-gray-600">Starts</label>
+                  <Input
+                    type="date"
+                    value={toDateInput(formData.effective_from)}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, effective_from: e.target.value ? new Date(e.target.value) : null }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">Ends (exclusive)</label>
+                  <Input
+                    type="date"
+                    value={toDateInput(formData.effective_to)}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, effective_to: e.target.value ? new Date(e.target.value) : null }))
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1">Create Rule</Button>
+                <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {rules.map((rule) => (
+          <Card key={rule.id} className={!isActive(rule) ? 'opacity-60' : ''}>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <CardTitle className="text-lg">{rule.name}</CardTitle>
+                <Badge variant={isActive(rule) ? 'default' : 'secondary'}>
+                  {isActive(rule) ? '✅ Active' : '⏸️ Inactive'}
+                </Badge>
+              </div>
+              <CardDescription className="flex flex-wrap gap-2">
+                {describeScope(rule).map((scope) => (
+                  <span key={scope}>{scope}</span>
+                ))}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                <div className="text-2xl font-bold text-green-600">
+                  {formatValue(rule)}
+                </div>
+
+                <div className="text-xs text-gray-500">
+                  {formatDate(rule.effective_from) ?? 'Always'} → {formatDate(rule.effective_to) ?? 'No end date'}
+                </div>
+
+                {isActive(rule) && (
+                  <Button size="sm" variant="outline" onClick={() => handleEndRule(rule)}>
+                    ⏹️ End Now
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {rules.length === 0 && !isLoading && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-gray-500 mb-4">No commission rules yet; every affiliate earns their default rate</p>
+            <Button onClick={() => setShowCreateForm(true)}>
+              ➕ Create Your First Rule
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
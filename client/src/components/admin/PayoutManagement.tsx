@@ -5,8 +5,13 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { trpc } from '@/utils/trpc';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { StatusTimeline } from '@/components/admin/StatusTimeline';
+import { PayoutRuns } from '@/components/admin/PayoutRuns';
+import { PayoutReconciliation } from '@/components/admin/PayoutReconciliation';
+import { BulkStatements } from '@/components/admin/BulkStatements';
 import type { CommissionPayout, PayoutStatus, UpdatePayoutStatusInput } from '../../../../server/src/schema';
 
 interface PayoutManagementProps {
@@ -20,6 +25,7 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
   const [filter, setFilter] = useState<PayoutStatus | 'all'>('all');
   const [selectedPayout, setSelectedPayout] = useState<CommissionPayout | null>(null);
   const [updateNotes, setUpdateNotes] = useState('');
+  const [updateReason, setUpdateReason] = useState('');
 
   const loadPayouts = useCallback(async () => {
     try {
@@ -29,7 +35,7 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
       setError('');
     } catch (error) {
       console.error('Failed to load payouts:', error);
-      setError('Failed to load payouts. Please try again.');
+      setError(getErrorMessage(error, 'Failed to load payouts. Please try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -39,13 +45,18 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
     loadPayouts();
   }, [loadPayouts]);
 
+  const handlePayoutsChanged = async () => {
+    await loadPayouts();
+    onUpdate();
+  };
+
   const handleStatusUpdate = async (payoutId: number, status: PayoutStatus, notes?: string) => {
     try {
       const updateData: UpdatePayoutStatusInput = {
         payout_id: payoutId,
         status,
-        processed_by: 1, // Admin user ID (hardcoded for demo)
-        notes: notes || null
+        notes: notes || null,
+        reason: updateReason.trim() || null
       };
 
       await trpc.updatePayoutStatus.mutate(updateData);
@@ -53,9 +64,10 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
       onUpdate();
       setSelectedPayout(null);
       setUpdateNotes('');
+      setUpdateReason('');
     } catch (error) {
       console.error('Failed to update payout status:', error);
-      setError('Failed to update payout status. Please try again.');
+      setError(getErrorMessage(error, 'Failed to update payout status. Please try again.'));
     }
   };
 
@@ -134,6 +146,12 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
         </Alert>
       )}
 
+      <PayoutRuns payouts={payouts} onChange={handlePayoutsChanged} />
+
+      <PayoutReconciliation onChange={handlePayoutsChanged} />
+
+      <BulkStatements />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
         {filteredPayouts.map((payout) => (
           <Card key={payout.id} className="relative">
@@ -157,6 +175,11 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
                   <p className="text-xl font-bold text-green-600">
                     {formatAmount(payout.amount)}
                   </p>
+                  {payout.tax_amount > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {payout.tax_type === 'pph23' ? 'PPh 23' : 'PPh 21'} withheld {formatAmount(payout.tax_amount)} · transfer {formatAmount(payout.net_amount)}
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -166,21 +189,29 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
                   </p>
                 </div>
 
-                {payout.bank_details && (
+                {payout.destination && (
                   <div>
-                    <p className="text-sm text-gray-600">Bank Details</p>
+                    <p className="text-sm text-gray-600">{payout.method === 'bank_transfer' ? 'Bank Details' : 'E-Wallet Details'}</p>
                     <p className="text-sm bg-gray-50 p-2 rounded text-xs">
-                      {payout.bank_details}
+                      {payout.destination.provider_name}
+                      {payout.destination.bank_code && ` (${payout.destination.bank_code})`} - {payout.destination.account_number}
+                      <br />
+                      {payout.destination.account_holder}
                     </p>
                   </div>
                 )}
 
-                {payout.ewallet_details && (
+                {payout.bank_reference && (
                   <div>
-                    <p className="text-sm text-gray-600">E-Wallet Details</p>
-                    <p className="text-sm bg-gray-50 p-2 rounded text-xs">
-                      {payout.ewallet_details}
-                    </p>
+                    <p className="text-sm text-gray-600">Bank Reference</p>
+                    <p className="text-sm font-mono">{payout.bank_reference}</p>
+                  </div>
+                )}
+
+                {payout.payout_run_id !== null && (
+                  <div>
+                    <p className="text-sm text-gray-600">Payout Run</p>
+                    <p className="text-sm">📦 Run #{payout.payout_run_id}</p>
                   </div>
                 )}
 
@@ -214,6 +245,7 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
                       onClick={() => {
                         setSelectedPayout(payout);
                         setUpdateNotes(payout.notes || '');
+                        setUpdateReason('');
                       }}
                     >
                       🔧 Update Status
@@ -239,8 +271,12 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
                         <p className="text-sm text-gray-600 mb-2">Payment Details:</p>
                         <div className="bg-gray-50 p-3 rounded text-sm">
                           <p><strong>Method:</strong> {getMethodEmoji(payout.method)} {payout.method}</p>
-                          {payout.bank_details && <p><strong>Bank:</strong> {payout.bank_details}</p>}
-                          {payout.ewallet_details && <p><strong>E-Wallet:</strong> {payout.ewallet_details}</p>}
+                          {payout.destination && (
+                            <p>
+                              <strong>{payout.method === 'bank_transfer' ? 'Bank:' : 'E-Wallet:'}</strong>{' '}
+                              {payout.destination.provider_name} - {payout.destination.account_number} - {payout.destination.account_holder}
+                            </p>
+                          )}
                         </div>
                       </div>
 
@@ -254,6 +290,12 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
                         />
                       </div>
 
+                      <Input
+                        placeholder="Reason for the status change (optional)"
+                        value={updateReason}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUpdateReason(e.target.value)}
+                      />
+
                       <div className="space-y-2">
                         <p className="text-sm font-medium">Update Status:</p>
                         <div className="grid grid-cols-2 gap-2">
@@ -291,6 +333,8 @@ export function PayoutManagement({ onUpdate }: PayoutManagementProps) {
                           </Button>
                         </div>
                       </div>
+
+                      <StatusTimeline entityType="payout" entityId={payout.id} />
                     </div>
                   </DialogContent>
                 </Dialog>
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { ReconciliationLine, ReconciliationPreview } from '../../../../server/src/schema';
+
+interface PayoutReconciliationProps {
+  onChange: () => Promise<void>;
+}
+
+type SettledStatus = 'completed' | 'failed';
+
+// A statement line the admin has accepted, with the outcome they chose for its payout
+interface ReviewedMatch {
+  payout_id: number;
+  status: SettledStatus;
+  bank_reference: string;
+}
+
+const MATCH_LABELS: Record<ReconciliationLine['match'], string> = {
+  reference: '🔗 Reference',
+  account_amount: '🏦 Account & amount',
+  none: '❔ No match'
+};
+
+// Upload a bank statement, review the proposed payout matches and settle the accepted ones together
+export function PayoutReconciliation({ onChange }: PayoutReconciliationProps) {
+  const [preview, setPreview] = useState<ReconciliationPreview | null>(null);
+  const [reviewed, setReviewed] = useState<Record<number, ReviewedMatch>>({}); // Keyed by statement row
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setMessage('');
+      const result = await trpc.previewPayoutReconciliation.mutate({ content: await file.text() });
+      setPreview(result);
+
+      // Clean matches start accepted; anything with issues waits for the admin
+      const accepted: Record<number, ReviewedMatch> = {};
+      for (const line of result.lines) {
+        if (line.payout_id !== null && line.proposed_status !== null && line.issues.length === 0) {
+          accepted[line.line_number] = {
+            payout_id: line.payout_id,
+            status: line.proposed_status,
+            bank_reference: line.bank_reference ?? ''
+          };
+        }
+      }
+      setReviewed(accepted);
+      setError('');
+    } catch (error) {
+      console.error('Failed to read bank statement:', error);
+      setError(getErrorMessage(error, 'Failed to read the bank statement. Please check the file.'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleLine = (line: ReconciliationLine, accepted: boolean) => {
+    setReviewed(prev => {
+      const next = { ...prev };
+      if (accepted && line.payout_id !== null) {
+        next[line.line_number] = {
+          payout_id: line.payout_id,
+          status: line.proposed_status ?? (line.direction === 'credit' ? 'failed' : 'completed'),
+          bank_reference: line.bank_reference ?? ''
+        };
+      } else {
+        delete next[line.line_number];
+      }
+      return next;
+    });
+  };
+
+  const updateLine = (lineNumber: number, changes: Partial<ReviewedMatch>) => {
+    setReviewed(prev => ({ ...prev, [lineNumber]: { ...prev[lineNumber], ...changes } }));
+  };
+
+  const handleApply = async () => {
+    const matches = Object.values(reviewed);
+    try {
+      setIsWorking(true);
+      await trpc.reconcilePayouts.mutate({
+        matches: matches.map(match => ({ ...match, bank_reference: match.bank_reference.trim() || null })),
+        reason: reason.trim() || undefined
+      });
+      await onChange();
+      setPreview(null);
+      setReviewed({});
+      setReason('');
+      setMessage(`${matches.length} payouts settled from the bank statement`);
+      setError('');
+    } catch (error) {
+      console.error('Failed to reconcile payouts:', error);
+      setError(getErrorMessage(error, 'Failed to reconcile payouts. Please try again.'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const formatAmount = (amount: number) => {
+    return `Rp ${amount.toLocaleString('id-ID')}`;
+  };
+
+  const acceptedCount = Object.keys(reviewed).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">🧾 Bank Statement Reconciliation</CardTitle>
+        <CardDescription>
+          Upload the account statement CSV from internet banking to complete or fail the payouts it shows
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        <Input type="file" accept=".csv,text/csv" onChange={handleFile} disabled={isWorking} className="max-w-sm" />
+
+        {preview && (
+          <div className="space-y-4">
+            {preview.lines.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">The statement has no transactions</p>
+            ) : (
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {preview.lines.map((line) => {
+                  const match = reviewed[line.line_number];
+                  return (
+                    <div key={line.line_number} className="border rounded-lg p-3 text-sm space-y-2">
+                      <div className="flex flex-wrap items-center gap-3">
+                        <Checkbox
+                          checked={match !== undefined}
+                          disabled={line.payout_id === null}
+                          onCheckedChange={(checked) => toggleLine(line, checked === true)}
+                        />
+                        <span className="text-gray-500">Row {line.line_number}{line.date && ` · ${line.date}`}</span>
+                        <span className="flex-1 font-medium">{line.description}</span>
+                        <span className={line.direction === 'credit' ? 'text-green-600' : 'text-red-600'}>
+                          {line.direction === 'credit' ? '+' : '-'}{formatAmount(line.amount)}
+                        </span>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="secondary">{MATCH_LABELS[line.match]}</Badge>
+                        {line.payout_id !== null && <Badge variant="outline">💸 Payout #{line.payout_id}</Badge>}
+                        {line.issues.map((issue) => (
+                          <Badge key={issue} className="bg-yellow-100 text-yellow-800">⚠️ {issue}</Badge>
+                        ))}
+                      </div>
+
+                      {match && (
+                        <div className="flex flex-wrap gap-2">
+                          <Select
+                            value={match.status}
+                            onValueChange={(value: SettledStatus) => updateLine(line.line_number, { status: value })}
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="completed">✅ Completed</SelectItem>
+                              <SelectItem value="failed">❌ Failed</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            className="flex-1 min-w-48"
+                            placeholder="Bank reference"
+                            value={match.bank_reference}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              updateLine(line.line_number, { bank_reference: e.target.value })
+                            }
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {preview.unmatched_payout_ids.length > 0 && (
+              <p className="text-sm text-gray-600">
+                Still processing without a statement line: {preview.unmatched_payout_ids.map(id => `#${id}`).join(', ')}
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Input
+                className="flex-1 min-w-48"
+                placeholder="Reason recorded in the payout history (optional)"
+                value={reason}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReason(e.target.value)}
+              />
+              <Button onClick={handleApply} disabled={isWorking || acceptedCount === 0}>
+                Settle {acceptedCount} payouts
+              </Button>
+              <Button variant="outline" onClick={() => { setPreview(null); setReviewed({}); }}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { downloadFile } from '@/utils/download';
+import type { CommissionPayout, PayoutRun, PayoutRunStatus, PayoutExportFormat } from '../../../../server/src/schema';
+
+interface PayoutRunsProps {
+  payouts: CommissionPayout[];
+  onChange: () => Promise<void>;
+}
+
+const EXPORT_LABELS: Record<PayoutExportFormat, string> = {
+  bca: '🏦 BCA',
+  mandiri: '🏦 Mandiri',
+  bri: '🏦 BRI',
+  ewallet: '📱 E-Wallet'
+};
+
+// Batches pending payouts into a run, exports the transfer files and settles the run once the bank has processed it
+export function PayoutRuns({ payouts, onChange }: PayoutRunsProps) {
+  const [runs, setRuns] = useState<PayoutRun[]>([]);
+  const [error, setError] = useState('');
+  const [generatePayouts, setGeneratePayouts] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [failedPayoutIds, setFailedPayoutIds] = useState<number[]>([]);
+  const [failureReason, setFailureReason] = useState('');
+
+  const loadRuns = useCallback(async () => {
+    try {
+      const data = await trpc.getPayoutRuns.query();
+      setRuns(data);
+    } catch (error) {
+      console.error('Failed to load payout runs:', error);
+      setError(getErrorMessage(error, 'Failed to load payout runs. Please try again.'));
+    }
+  }, []);
+
+  // Payouts settled elsewhere, such as by reconciliation, can close a run
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns, payouts]);
+
+  const handleCreateRun = async () => {
+    try {
+      setIsCreating(true);
+      await trpc.createPayoutRun.mutate({ generate_payouts: generatePayouts });
+      await Promise.all([loadRuns(), onChange()]);
+      setError('');
+    } catch (error) {
+      console.error('Failed to create payout run:', error);
+      setError(getErrorMessage(error, 'Failed to create payout run. Please try again.'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleExport = async (runId: number, format: PayoutExportFormat) => {
+    try {
+      const file = await trpc.exportPayoutRun.query({ run_id: runId, format });
+      downloadFile(file.filename, file.content);
+    } catch (error) {
+      console.error('Failed to export payout run:', error);
+      setError(getErrorMessage(error, 'Failed to export payout run. Please try again.'));
+    }
+  };
+
+  const handleCompleteRun = async (runId: number) => {
+    try {
+      await trpc.completePayoutRun.mutate({
+        run_id: runId,
+        failed_payout_ids: failedPayoutIds,
+        reason: failureReason.trim() || undefined
+      });
+      await Promise.all([loadRuns(), onChange()]);
+      resetCompletion();
+      setError('');
+    } catch (error) {
+      console.error('Failed to complete payout run:', error);
+      setError(getErrorMessage(error, 'Failed to complete payout run. Please try again.'));
+    }
+  };
+
+  const resetCompletion = () => {
+    setFailedPayoutIds([]);
+    setFailureReason('');
+  };
+
+  const toggleFailed = (payoutId: number, failed: boolean) => {
+    setFailedPayoutIds(prev => failed ? [...prev, payoutId] : prev.filter(id => id !== payoutId));
+  };
+
+  const getStatusColor = (status: PayoutRunStatus) => {
+    switch (status) {
+      case 'processing': return 'bg-blue-100 text-blue-800';
+      case 'completed': return 'bg-green-100 text-green-800';
+      case 'partially_failed': return 'bg-orange-100 text-orange-800';
+      case 'failed': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const formatAmount = (amount: number) => {
+    return `Rp ${amount.toLocaleString('id-ID')}`;
+  };
+
+  const pendingCount = payouts.filter(payout => payout.status === 'pending' && payout.payout_run_id === null).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">📦 Payout Runs</CardTitle>
+        <CardDescription>
+          Pay all pending payouts in one batch: create a run, upload its transfer file to the bank, then mark the run complete
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4">
+          <Button onClick={handleCreateRun} disabled={isCreating || (pendingCount === 0 && !generatePayouts)}>
+            {isCreating ? 'Creating...' : `📦 Create Payout Run (${pendingCount} pending)`}
+          </Button>
+          <div className="flex items-center space-x-2">
+            <Switch checked={generatePayouts} onCheckedChange={setGeneratePayouts} />
+            <span className="text-sm">Also request payouts for every affiliate above the minimum</span>
+          </div>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No payout runs yet</p>
+        ) : (
+          <div className="space-y-3">
+            {runs.map((run) => {
+              const runPayouts = payouts.filter(payout => payout.payout_run_id === run.id);
+              const processingPayouts = runPayouts.filter(payout => payout.status === 'processing');
+
+              return (
+                <div key={run.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap justify-between items-center gap-2">
+                    <div>
+                      <p className="font-semibold">Run #{run.id}</p>
+                      <p className="text-sm text-gray-600">
+                        {run.payout_count} payouts · {formatAmount(run.total_net_amount)} to transfer
+                        {run.total_net_amount !== run.total_amount && ` (${formatAmount(run.total_amount)} before tax)`}
+                        {run.failed_count > 0 && ` · ${run.failed_count} failed`}
+                        {' · '}{new Date(run.created_at).toLocaleString('id-ID')}
+                      </p>
+                    </div>
+                    <Badge className={getStatusColor(run.status)}>{run.status.replace('_', ' ')}</Badge>
+                  </div>
+
+                  {run.status === 'processing' && (
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(EXPORT_LABELS) as PayoutExportFormat[]).map((format) => (
+                        <Button key={format} variant="outline" size="sm" onClick={() => handleExport(run.id, format)}>
+                          ⬇️ {EXPORT_LABELS[format]}
+                        </Button>
+                      ))}
+
+                      <Dialog onOpenChange={(open) => open && resetCompletion()}>
+                        <DialogTrigger asChild>
+                          <Button size="sm">✅ Complete Run</Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Complete Payout Run #{run.id}</DialogTitle>
+                            <DialogDescription>
+                              Tick the transfers the bank rejected; every other payout in the run is marked completed
+                            </DialogDescription>
+                          </DialogHeader>
+
+                          <div className="space-y-4">
+                            <div className="space-y-2 max-h-64 overflow-y-auto">
+                              {processingPayouts.map((payout) => (
+                                <label key={payout.id} className="flex items-center gap-3 text-sm">
+                                  <Checkbox
+                                    checked={failedPayoutIds.includes(payout.id)}
+                                    onCheckedChange={(checked) => toggleFailed(payout.id, checked === true)}
+                                  />
+                                  <span className="flex-1">
+                                    Payout #{payout.id} · Affiliate #{payout.affiliate_id}
+                                  </span>
+                                  <span className="font-medium">{formatAmount(payout.net_amount)}</span>
+                                </label>
+                              ))}
+                            </div>
+
+                            {failedPayoutIds.length > 0 && (
+                              <Input
+                                placeholder="Why the transfers failed (optional)"
+                                value={failureReason}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFailureReason(e.target.value)}
+                              />
+                            )}
+
+                            <Button className="w-full" onClick={() => handleCompleteRun(run.id)}>
+                              {failedPayoutIds.length > 0
+                                ? `Complete with ${failedPayoutIds.length} failed`
+                                : 'Mark all as completed'}
+                            </Button>
+                          </div>
+                        </DialogContent>
+                      </Dialog>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
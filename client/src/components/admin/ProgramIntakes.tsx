@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { Program, IntakeFillRate } from '../../../../server/src/schema';
+
+interface ProgramIntakesProps {
+  programs: Program[];
+}
+
+const emptyIntake = {
+  program_id: '',
+  start_date: '',
+  end_date: '',
+  registration_deadline: '',
+  capacity: ''
+};
+
+// Dated batches with limited seats; once an intake is full, new students join its waitlist
+export function ProgramIntakes({ programs }: ProgramIntakesProps) {
+  const [intakes, setIntakes] = useState<IntakeFillRate[]>([]);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState(emptyIntake);
+  const [capacities, setCapacities] = useState<Record<number, string>>({});
+
+  const loadIntakes = useCallback(async () => {
+    try {
+      const data = await trpc.getIntakeFillRates.query();
+      setIntakes(data);
+      setCapacities(Object.fromEntries(data.map(intake => [intake.id, intake.capacity.toString()])));
+      setError('');
+    } catch (error) {
+      console.error('Failed to load intakes:', error);
+      setError(getErrorMessage(error, 'Failed to load intakes. Please try again.'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadIntakes();
+  }, [loadIntakes]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await trpc.createProgramIntake.mutate({
+        program_id: parseInt(formData.program_id),
+        start_date: new Date(formData.start_date),
+        end_date: new Date(formData.end_date),
+        registration_deadline: new Date(formData.registration_deadline),
+        capacity: parseInt(formData.capacity)
+      });
+      setFormData(emptyIntake);
+      await loadIntakes();
+    } catch (error) {
+      console.error('Failed to create intake:', error);
+      setError(getErrorMessage(error, 'Failed to create intake. Please check the dates and try again.'));
+    }
+  };
+
+  // Extra seats go to waitlisted students straight away
+  const handleCapacityChange = async (intake: IntakeFillRate) => {
+    try {
+      await trpc.updateProgramIntake.mutate({ id: intake.id, capacity: parseInt(capacities[intake.id]) || 0 });
+      await loadIntakes();
+    } catch (error) {
+      console.error('Failed to update intake:', error);
+      setError(getErrorMessage(error, 'Failed to update intake. Please try again.'));
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('id-ID');
+  };
+
+  const openPrograms = programs.filter(program => !program.archived_at);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">📅 Intakes</CardTitle>
+        <CardDescription>
+          Start dates and seats per program; students pick an intake when registering and are waitlisted once it is full
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-6 gap-2 items-end">
+          <Select
+            value={formData.program_id || undefined}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, program_id: value }))}
+          >
+            <SelectTrigger className="md:col-span-2">
+              <SelectValue placeholder="Program *" />
+            </SelectTrigger>
+            <SelectContent>
+              {openPrograms.map((program) => (
+                <SelectItem key={program.id} value={program.id.toString()}>
+                  {program.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="text-xs text-gray-600">
+            Starts
+            <Input
+              type="date"
+              value={formData.start_date}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, start_date: e.target.value }))
+              }
+              required
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Ends
+            <Input
+              type="date"
+              value={formData.end_date}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, end_date: e.target.value }))
+              }
+              required
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Registration closes
+            <Input
+              type="date"
+              value={formData.registration_deadline}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, registration_deadline: e.target.value }))
+              }
+              required
+            />
+          </label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              placeholder="Seats *"
+              value={formData.capacity}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, capacity: e.target.value }))
+              }
+              min="1"
+              required
+            />
+            <Button type="submit" disabled={!formData.program_id}>➕</Button>
+          </div>
+        </form>
+
+        {intakes.length === 0 ? (
+          <p className="text-sm text-gray-500">No intakes yet; programs without intakes take registrations at any time</p>
+        ) : (
+          <div className="space-y-3">
+            {intakes.map((intake) => (
+              <div key={intake.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                  <div>
+                    <div className="font-medium">{intake.program_name}</div>
+                    <div className="text-xs text-gray-500">
+                      {formatDate(intake.start_date)} - {formatDate(intake.end_date)} • Registration closes {formatDate(intake.registration_deadline)}
+                    </div>
+                  </div>
+                  <Badge variant={intake.is_open ? 'default' : 'secondary'}>
+                    {intake.is_open ? '🟢 Open' : '🔒 Closed'}
+                  </Badge>
+                </div>
+                <Progress value={Math.min(intake.fill_rate, 1) * 100} className="h-2" />
+                <div className="flex flex-wrap justify-between items-center gap-2 text-sm">
+                  <span>
+                    {intake.seats_taken}/{intake.capacity} seats ({(intake.fill_rate * 100).toFixed(0)}%) • {intake.confirmed_count} confirmed
+                    {intake.waitlisted_count > 0 && ` • 🕒 ${intake.waitlisted_count} waitlisted`}
+                  </span>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      className="w-24 h-8"
+                      value={capacities[intake.id] ?? ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setCapacities(prev => ({ ...prev, [intake.id]: e.target.value }))
+                      }
+                      min="1"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={capacities[intake.id] === intake.capacity.toString()}
+                      onClick={() => handleCapacityChange(intake)}
+                    >
+                      Save seats
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,65 +8,162 @@ import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { trpc } from '@/utils/trpc';
-import type { Program, CreateProgramInput, ProgramCategory, ProgramLocation } from '../../../../server/src/schema';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { ProgramIntakes } from '@/components/admin/ProgramIntakes';
+import { BranchManagement } from '@/components/admin/BranchManagement';
+import type {
+  Branch,
+  Program,
+  ProgramPrice,
+  CreateProgramInput,
+  ProgramCategory
+} from '../../../../server/src/schema';
 
 interface ProgramManagementProps {
   onUpdate: () => void;
 }
 
+const emptyProgram: CreateProgramInput = {
+  name: '',
+  description: null,
+  category: 'online' as ProgramCategory,
+  location: '',
+  price: 0,
+  duration_weeks: null,
+  is_active: true
+};
+
 export function ProgramManagement({ onUpdate }: ProgramManagementProps) {
   const [programs, setPrograms] = useState<Program[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
-  const [formData, setFormData] = useState<CreateProgramInput>({
-    name: '',
-    description: null,
-    category: 'online' as ProgramCategory,
-    location: 'online' as ProgramLocation,
-    price: 0,
-    duration_weeks: null,
-    is_active: true
-  });
+  const [formData, setFormData] = useState<CreateProgramInput>(emptyProgram);
+  const [editingProgram, setEditingProgram] = useState<Program | null>(null);
+  const [deletingProgram, setDeletingProgram] = useState<Program | null>(null);
+  const [priceHistoryProgram, setPriceHistoryProgram] = useState<Program | null>(null);
+  const [prices, setPrices] = useState<ProgramPrice[]>([]);
 
   const loadPrograms = useCallback(async () => {
     try {
       setIsLoading(true);
-      const data = await trpc.getPrograms.query();
+      const data = await trpc.getPrograms.query({ include_archived: true });
       setPrograms(data);
       setError('');
     } catch (error) {
       console.error('Failed to load programs:', error);
-      setError('Failed to load programs. Please try again.');
+      setError(getErrorMessage(error, 'Failed to load programs. Please try again.'));
     } finally {
       setIsLoading(false);
     }
   }, []);
 
+  const loadBranches = useCallback(async () => {
+    try {
+      setBranches(await trpc.getBranches.query());
+    } catch (error) {
+      console.error('Failed to load branches:', error);
+      setError(getErrorMessage(error, 'Failed to load branches. Please try again.'));
+    }
+  }, []);
+
   useEffect(() => {
     loadPrograms();
-  }, [loadPrograms]);
+    loadBranches();
+  }, [loadPrograms, loadBranches]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      await trpc.createProgram.mutate(formData);
-      setShowCreateForm(false);
-      setFormData({
-        name: '',
-        description: null,
-        category: 'online' as ProgramCategory,
-        location: 'online' as ProgramLocation,
-        price: 0,
-        duration_weeks: null,
-        is_active: true
-      });
+      if (editingProgram) {
+        await trpc.updateProgram.mutate({ id: editingProgram.id, ...formData });
+        setEditingProgram(null);
+      } else {
+        await trpc.createProgram.mutate(formData);
+        setShowCreateForm(false);
+      }
+      setFormData(emptyProgram);
       await loadPrograms();
       onUpdate();
     } catch (error) {
-      console.error('Failed to create program:', error);
-      setError('Failed to create program. Please try again.');
+      console.error('Failed to save program:', error);
+      setError(getErrorMessage(error, 'Failed to save program. Please try again.'));
+    }
+  };
+
+  const openCreateForm = (open: boolean) => {
+    setFormData(emptyProgram);
+    setShowCreateForm(open);
+  };
+
+  const openEditForm = (program: Program) => {
+    setFormData({
+      name: program.name,
+      description: program.description,
+      category: program.category,
+      location: program.location,
+      price: program.price,
+      duration_weeks: program.duration_weeks,
+      is_active: program.is_active
+    });
+    setEditingProgram(program);
+  };
+
+  const handleToggleActive = async (program: Program) => {
+    try {
+      await trpc.updateProgram.mutate({ id: program.id, is_active: !program.is_active });
+      await loadPrograms();
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to update program:', error);
+      setError(getErrorMessage(error, 'Failed to update program. Please try again.'));
+    }
+  };
+
+  // Archiving keeps the program on record for the registrations that reference it
+  const handleArchive = async (program: Program) => {
+    try {
+      await trpc.archiveProgram.mutate({ program_id: program.id });
+      await loadPrograms();
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to archive program:', error);
+      setError(getErrorMessage(error, 'Failed to archive program. Please try again.'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingProgram) return;
+    try {
+      await trpc.deleteProgram.mutate({ program_id: deletingProgram.id });
+      await loadPrograms();
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to delete program:', error);
+      setError(getErrorMessage(error, 'Failed to delete program. Please try again.'));
+    } finally {
+      setDeletingProgram(null);
+    }
+  };
+
+  const showPriceHistory = async (program: Program) => {
+    try {
+      setPrices(await trpc.getProgramPrices.query({ program_id: program.id }));
+      setPriceHistoryProgram(program);
+    } catch (error) {
+      console.error('Failed to load price history:', error);
+      setError(getErrorMessage(error, 'Failed to load price history. Please try again.'));
     }
   };
 
@@ -84,17 +181,113 @@ export function ProgramManagement({ onUpdate }: ProgramManagementProps) {
     }
   };
 
-  const getLocationEmoji = (location: ProgramLocation) => {
-    switch (location) {
-      case 'online': return '🌐';
-      case 'pare': return '🏫';
-      case 'malang': return '🏢';
-      case 'sidoarjo': return '🏢';
-      case 'nganjuk': return '🏢';
-      default: return '📍';
-    }
+  const getBranchName = (code: string) => {
+    return branches.find(branch => branch.code === code)?.name ?? code;
   };
 
+  // Closed branches take no new programs, but a program already there can stay
+  const branchOptions = branches.filter(branch => branch.is_active || branch.code === editingProgram?.location);
+
+  const renderForm = (submitLabel: string, onCancel: () => void) => (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <Input
+        placeholder="Program name *"
+        value={formData.name}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          setFormData(prev => ({ ...prev, name: e.target.value }))
+        }
+        required
+      />
+
+      <Textarea
+        placeholder="Program description (optional)"
+        value={formData.description || ''}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+          setFormData(prev => ({ ...prev, description: e.target.value || null }))
+        }
+        rows={3}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          value={formData.category || 'online'}
+          onValueChange={(value: ProgramCategory) =>
+            setFormData(prev => ({ ...prev, category: value }))
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="online">💻 Online</SelectItem>
+            <SelectItem value="offline_pare">🏫 Offline (Pare)</SelectItem>
+            <SelectItem value="group">👥 Group</SelectItem>
+            <SelectItem value="branch">🏢 Branch</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={formData.location || undefined}
+          onValueChange={(value) =>
+            setFormData(prev => ({ ...prev, location: value }))
+          }
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Branch *" />
+          </SelectTrigger>
+          <SelectContent>
+            {branchOptions.map((branch) => (
+              <SelectItem key={branch.id} value={branch.code}>
+                📍 {branch.name}{!branch.is_active && ' (closed)'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          type="number"
+          placeholder="Price (IDR) *"
+          value={formData.price}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData(prev => ({ ...prev, price: parseFloat(e.target.value) || 0 }))
+          }
+          min="0"
+          step="1000"
+          required
+        />
+
+        <Input
+          type="number"
+          placeholder="Duration (weeks)"
+          value={formData.duration_weeks || ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData(prev => ({ ...prev, duration_weeks: parseInt(e.target.value) || null }))
+          }
+          min="1"
+        />
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          checked={formData.is_active}
+          onCheckedChange={(checked) =>
+            setFormData(prev => ({ ...prev, is_active: checked }))
+          }
+        />
+        <span className="text-sm">Program is active</span>
+      </div>
+
+      <div className="flex gap-2 pt-4">
+        <Button type="submit" className="flex-1" disabled={!formData.location}>{submitLabel}</Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -111,7 +304,7 @@ export function ProgramManagement({ onUpdate }: ProgramManagementProps) {
           <p className="text-gray-600">Manage English Booster programs and courses</p>
         </div>
         
-        <Dialog open={showCreateForm} onOpenChange={setShowCreateForm}>
+        <Dialog open={showCreateForm} onOpenChange={openCreateForm}>
           <DialogTrigger asChild>
             <Button>➕ Add New Program</Button>
           </DialogTrigger>
@@ -123,103 +316,7 @@ export function ProgramManagement({ onUpdate }: ProgramManagementProps) {
               </DialogDescription>
             </DialogHeader>
             
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <Input
-                placeholder="Program name *"
-                value={formData.name}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setFormData(prev => ({ ...prev, name: e.target.value }))
-                }
-                required
-              />
-
-              <Textarea
-                placeholder="Program description (optional)"
-                value={formData.description || ''}
-                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                  setFormData(prev => ({ ...prev, description: e.target.value || null }))
-                }
-                rows={3}
-              />
-
-              <div className="grid grid-cols-2 gap-4">
-                <Select
-                  value={formData.category}
-                  onValueChange={(value: ProgramCategory) =>
-                    setFormData(prev => ({ ...prev, category: value }))
-                  }
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="online">💻 Online</SelectItem>
-                    <SelectItem value="offline_pare">🏫 Offline (Pare)</SelectItem>
-                    <SelectItem value="group">👥 Group</SelectItem>
-                    <SelectItem value="branch">🏢 Branch</SelectItem>
-                  </SelectContent>
-                </Select>
-
-                <Select
-                  value={formData.location}
-                  onValueChange={(value: ProgramLocation) =>
-                    setFormData(prev => ({ ...prev, location: value }))
-                  }
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="online">🌐 Online</SelectItem>
-                    <SelectItem value="pare">🏫 Pare</SelectItem>
-                    <SelectItem value="malang">🏢 Malang</SelectItem>
-                    <SelectItem value="sidoarjo">🏢 Sidoarjo</SelectItem>
-                    <SelectItem value="nganjuk">🏢 Nganjuk</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <Input
-                  type="number"
-                  placeholder="Price (IDR) *"
-                  value={formData.price}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setFormData(prev => ({ ...prev, price: parseFloat(e.target.value) || 0 }))
-                  }
-                  min="0"
-                  step="1000"
-                  required
-                />
-
-                <Input
-                  type="number"
-                  placeholder="Duration (weeks)"
-                  value={formData.duration_weeks || ''}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setFormData(prev => ({ ...prev, duration_weeks: parseInt(e.target.value) || null }))
-                  }
-                  min="1"
-                />
-              </div>
-
-              <div className="flex items-center space-x-2">
-                <Switch
-                  checked={formData.is_active}
-                  onCheckedChange={(checked) =>
-                    setFormData(prev => ({ ...prev, is_active: checked }))
-                  }
-                />
-                <span className="text-sm">Program is active</span>
-              </div>
-
-              <div className="flex gap-2 pt-4">
-                <Button type="submit" className="flex-1">Create Program</Button>
-                <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)}>
-                  Cancel
-                </Button>
-              </div>
-            </form>
+            {renderForm('Create Program', () => openCreateForm(false))}
           </DialogContent>
         </Dialog>
       </div>
@@ -239,11 +336,11 @@ export function ProgramManagement({ onUpdate }: ProgramManagementProps) {
                   {getCategoryEmoji(program.category)} {program.name}
                 </CardTitle>
                 <Badge variant={program.is_active ? 'default' : 'secondary'}>
-                  {program.is_active ? '✅ Active' : '⏸️ Inactive'}
+                  {program.archived_at ? '🗄️ Archived' : program.is_active ? '✅ Active' : '⏸️ Inactive'}
                 </Badge>
               </div>
               <CardDescription className="flex items-center gap-2">
-                {getLocationEmoji(program.location)} {program.location}
+                📍 {getBranchName(program.location)}
                 {program.duration_weeks && (
                   <>
                     <span>•</span>
@@ -264,18 +361,102 @@ export function ProgramManagement({ onUpdate }: ProgramManagementProps) {
                 
                 <div className="text-xs text-gray-500">
                   Created: {new Date(program.created_at).toLocaleDateString('id-ID')}
+                  {program.archived_at && (
+                    <> • Archived: {new Date(program.archived_at).toLocaleDateString('id-ID')}</>
+                  )}
                 </div>
               </div>
+
+              <div className="flex flex-wrap gap-2 mt-4">
+                {!program.archived_at && (
+                  <>
+                    <Button size="sm" variant="outline" onClick={() => openEditForm(program)}>
+                      ✏️ Edit
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleToggleActive(program)}>
+                      {program.is_active ? '⏸️ Deactivate' : '▶️ Activate'}
+                    </Button>
+                  </>
+                )}
+                <Button size="sm" variant="outline" onClick={() => showPriceHistory(program)}>
+                  📈 Prices
+                </Button>
+                {!program.archived_at && (
+                  <Button size="sm" variant="outline" onClick={() => handleArchive(program)}>
+                    🗄️ Archive
+                  </Button>
+                )}
+                <Button size="sm" variant="destructive" onClick={() => setDeletingProgram(program)}>
+                  🗑️ Delete
+                </Button>
+              </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      <ProgramIntakes programs={programs} />
+
+      <BranchManagement branches={branches} onUpdate={loadBranches} />
+
+      <Dialog open={editingProgram !== null} onOpenChange={(open) => !open && setEditingProgram(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Program</DialogTitle>
+            <DialogDescription>
+              A new price applies to registrations made from now on; existing registrations keep the price they were quoted
+            </DialogDescription>
+          </DialogHeader>
+          {renderForm('Save Changes', () => setEditingProgram(null))}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={priceHistoryProgram !== null} onOpenChange={(open) => !open && setPriceHistoryProgram(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>📈 Price History</DialogTitle>
+            <DialogDescription>{priceHistoryProgram?.name}</DialogDescription>
+          </DialogHeader>
+          {prices.length === 0 ? (
+            <p className="text-sm text-gray-500">No price changes recorded yet</p>
+          ) : (
+            <div className="space-y-2">
+              {prices.map((price) => (
+                <div key={price.id} className="flex justify-between items-center border-b pb-2 text-sm">
+                  <div>
+                    <div className="font-medium">{formatPrice(price.price)}</div>
+                    <div className="text-xs text-gray-500">
+                      From {new Date(price.effective_from).toLocaleDateString('id-ID')}
+                      {price.changed_by_name && ` • by ${price.changed_by_name}`}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deletingProgram !== null} onOpenChange={(open) => !open && setDeletingProgram(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingProgram?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only programs nobody has registered for can be deleted. Its commission rules and price history are deleted with it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {programs.length === 0 && !isLoading && (
         <Card>
           <CardContent className="text-center py-12">
             <p className="text-gray-500 mb-4">No programs found</p>
-            <Button onClick={() => setShowCreateForm(true)}>
+            <Button onClick={() => openCreateForm(true)}>
               ➕ Create Your First Program
             </Button>
           </CardContent>
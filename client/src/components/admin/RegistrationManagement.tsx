@@ -1,12 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { trpc } from '@/utils/trpc';
-import type { StudentRegistration, RegistrationStatus, UpdateRegistrationStatusInput } from '../../../../server/src/schema';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { StatusTimeline } from '@/components/admin/StatusTimeline';
+import type { StudentRegistration, RegistrationStatus, UpdateRegistrationStatusInput, AttributionRule } from '../../../../server/src/schema';
 
 interface RegistrationManagementProps {
   onUpdate: () => void;
@@ -17,6 +19,9 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [filter, setFilter] = useState<RegistrationStatus | 'all'>('all');
+  const [confirmingRegistration, setConfirmingRegistration] = useState<StudentRegistration | null>(null);
+  const [amountPaid, setAmountPaid] = useState('');
+  const [statusReason, setStatusReason] = useState('');
 
   const loadRegistrations = useCallback(async () => {
     try {
@@ -26,7 +31,7 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
       setError('');
     } catch (error) {
       console.error('Failed to load registrations:', error);
-      setError('Failed to load registrations. Please try again.');
+      setError(getErrorMessage(error, 'Failed to load registrations. Please try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -36,20 +41,36 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
     loadRegistrations();
   }, [loadRegistrations]);
 
-  const handleStatusUpdate = async (registrationId: number, status: RegistrationStatus) => {
+  const handleStatusUpdate = async (registrationId: number, status: RegistrationStatus, paid?: number) => {
     try {
       const updateData: UpdateRegistrationStatusInput = {
         registration_id: registrationId,
         status,
-        confirmed_by: 1 // Admin user ID (hardcoded for demo)
+        reason: statusReason.trim() || null,
+        ...(paid !== undefined && { amount_paid: paid })
       };
 
       await trpc.updateRegistrationStatus.mutate(updateData);
+      setConfirmingRegistration(null);
+      setStatusReason('');
       await loadRegistrations();
       onUpdate();
     } catch (error) {
       console.error('Failed to update registration status:', error);
-      setError('Failed to update registration status. Please try again.');
+      setError(getErrorMessage(error, 'Failed to update registration status. Please try again.'));
+    }
+  };
+
+  // Confirmation asks for the amount actually paid; the commission is recomputed from it
+  const openConfirmDialog = (registration: StudentRegistration) => {
+    setAmountPaid((registration.amount_paid ?? registration.registration_fee).toString());
+    setConfirmingRegistration(registration);
+  };
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (confirmingRegistration) {
+      handleStatusUpdate(confirmingRegistration.id, 'confirmed', parseFloat(amountPaid) || 0);
     }
   };
 
@@ -58,6 +79,8 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'confirmed': return 'bg-green-100 text-green-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
+      case 'refunded': return 'bg-orange-100 text-orange-800';
+      case 'waitlisted': return 'bg-blue-100 text-blue-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -67,10 +90,20 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
       case 'pending': return '⏳';
       case 'confirmed': return '✅';
       case 'cancelled': return '❌';
+      case 'refunded': return '💸';
+      case 'waitlisted': return '🕒';
       default: return '❓';
     }
   };
 
+  const getAttributionLabel = (rule: AttributionRule) => {
+    switch (rule) {
+      case 'first_touch': return 'First touch';
+      case 'last_touch': return 'Last touch';
+      case 'referral_code': return 'Referral code only';
+    }
+  };
+
   const formatPrice = (price: number) => {
     return `Rp ${price.toLocaleString('id-ID')}`;
   };
@@ -107,6 +140,8 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
             <SelectItem value="pending">⏳ Pending</SelectItem>
             <SelectItem value="confirmed">✅ Confirmed</SelectItem>
             <SelectItem value="cancelled">❌ Cancelled</SelectItem>
+            <SelectItem value="refunded">💸 Refunded</SelectItem>
+            <SelectItem value="waitlisted">🕒 Waitlisted</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -156,7 +191,7 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <p className="text-sm text-gray-600">Referral Code</p>
-                    <p className="text-sm font-mono font-bold">{registration.referral_code}</p>
+                    <p className="text-sm font-mono font-bold">{registration.referral_code ?? 'Unattributed'}</p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-600">Program ID</p>
@@ -166,19 +201,52 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
 
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <p className="text-sm text-gray-600">Registration Fee</p>
+                    <p className="text-sm text-gray-600">
+                      {registration.amount_paid !== null ? 'Amount Paid' : 'Registration Fee'}
+                    </p>
                     <p className="text-sm font-bold text-blue-600">
-                      {formatPrice(registration.registration_fee)}
+                      {formatPrice(registration.amount_paid ?? registration.registration_fee)}
                     </p>
+                    {registration.amount_paid !== null && registration.amount_paid !== registration.registration_fee && (
+                      <p className="text-xs text-gray-500">Listed at {formatPrice(registration.registration_fee)}</p>
+                    )}
                   </div>
                   <div>
                     <p className="text-sm text-gray-600">Commission</p>
                     <p className="text-sm font-bold text-green-600">
                       {formatPrice(registration.commission_amount)}
                     </p>
+                    {registration.estimated_commission_amount !== null &&
+                      registration.estimated_commission_amount !== registration.commission_amount && (
+                      <p className="text-xs text-gray-500">
+                        Estimated {formatPrice(registration.estimated_commission_amount)}
+                      </p>
+                    )}
                   </div>
                 </div>
 
+                {registration.attribution_rule && (
+                  <div>
+                    <p className="text-sm text-gray-600">Attribution</p>
+                    <p className="text-sm font-medium">
+                      {getAttributionLabel(registration.attribution_rule)}
+                      {registration.attribution_window_days && ` (${registration.attribution_window_days}-day window)`}
+                    </p>
+                    {registration.attribution_touches && registration.attribution_touches.length > 1 && (
+                      <div className="mt-1 space-y-1">
+                        {registration.attribution_touches.map((touch, index) => (
+                          <p
+                            key={index}
+                            className={`text-xs font-mono ${touch.referral_code === registration.referral_code ? 'font-bold' : 'text-gray-500'}`}
+                          >
+                            {touch.referral_code} · {new Date(touch.landed_at).toLocaleString('id-ID')}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div>
                   <p className="text-sm text-gray-600">Registered</p>
                   <p className="text-sm">{new Date(registration.created_at).toLocaleString('id-ID')}</p>
@@ -191,11 +259,18 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
                   </div>
                 )}
 
+                {registration.refunded_at && (
+                  <div>
+                    <p className="text-sm text-gray-600">Refunded</p>
+                    <p className="text-sm text-orange-600">{new Date(registration.refunded_at).toLocaleString('id-ID')}</p>
+                  </div>
+                )}
+
                 {registration.status === 'pending' && (
                   <div className="flex gap-2 pt-2">
                     <Button
                       size="sm"
-                      onClick={() => handleStatusUpdate(registration.id, 'confirmed')}
+                      onClick={() => openConfirmDialog(registration)}
                       className="flex-1"
                     >
                       ✅ Confirm
@@ -212,7 +287,7 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
                 )}
 
                 {registration.status !== 'pending' && (
-                  <Dialog>
+                  <Dialog onOpenChange={(open) => open && setStatusReason('')}>
                     <DialogTrigger asChild>
                       <Button variant="outline" size="sm" className="w-full">
                         🔧 Change Status
@@ -234,34 +309,55 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
                           </Badge>
                         </div>
 
+                        <Input
+                          placeholder="Reason for the status change (optional)"
+                          value={statusReason}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStatusReason(e.target.value)}
+                        />
+
                         <div className="space-y-2">
                           <p className="text-sm font-medium">Update to:</p>
                           <div className="flex gap-2">
                             <Button
                               variant={registration.status === 'confirmed' ? 'default' : 'outline'}
                               size="sm"
-                              onClick={() => handleStatusUpdate(registration.id, 'confirmed')}
-                              disabled={registration.status === 'confirmed'}
+                              onClick={() => openConfirmDialog(registration)}
+                              disabled={['confirmed', 'refunded', 'waitlisted'].includes(registration.status)}
                             >
                               ✅ Confirm
                             </Button>
-                            <Button
-                              variant={registration.status === 'cancelled' ? 'destructive' : 'outline'}
-                              size="sm"
-                              onClick={() => handleStatusUpdate(registration.id, 'cancelled')}
-                              disabled={registration.status === 'cancelled'}
-                            >
-                              ❌ Cancel
-                            </Button>
+                            {/* Confirmed registrations were paid for, so they are refunded rather than cancelled */}
+                            {registration.status === 'confirmed' || registration.status === 'refunded' ? (
+                              <Button
+                                variant={registration.status === 'refunded' ? 'destructive' : 'outline'}
+                                size="sm"
+                                onClick={() => handleStatusUpdate(registration.id, 'refunded')}
+                                disabled={registration.status === 'refunded'}
+                              >
+                                💸 Refund
+                              </Button>
+                            ) : (
+                              <Button
+                                variant={registration.status === 'cancelled' ? 'destructive' : 'outline'}
+                                size="sm"
+                                onClick={() => handleStatusUpdate(registration.id, 'cancelled')}
+                                disabled={registration.status === 'cancelled'}
+                              >
+                                ❌ Cancel
+                              </Button>
+                            )}
                             <Button
                               variant="outline"
                               size="sm"
                               onClick={() => handleStatusUpdate(registration.id, 'pending')}
+                              disabled={!['cancelled', 'waitlisted'].includes(registration.status)}
                             >
                               ⏳ Reset to Pending
                             </Button>
                           </div>
                         </div>
+
+                        <StatusTimeline entityType="registration" entityId={registration.id} />
                       </div>
                     </DialogContent>
                   </Dialog>
@@ -272,6 +368,40 @@ export function RegistrationManagement({ onUpdate }: RegistrationManagementProps
         ))}
       </div>
 
+      <Dialog
+        open={confirmingRegistration !== null}
+        onOpenChange={(open) => !open && setConfirmingRegistration(null)}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Confirm Registration</DialogTitle>
+            <DialogDescription>
+              Enter what {confirmingRegistration?.student_name} actually paid, after discounts or installments.
+              The commission is recalculated from this amount under today's rules.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <Input
+              type="number"
+              placeholder="Amount paid (IDR) *"
+              value={amountPaid}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmountPaid(e.target.value)}
+              min="0"
+              step="1000"
+              required
+            />
+
+            <div className="flex gap-2 pt-2">
+              <Button type="submit" className="flex-1">✅ Confirm</Button>
+              <Button type="button" variant="outline" onClick={() => setConfirmingRegistration(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {filteredRegistrations.length === 0 && !isLoading && (
         <Card>
           <CardContent className="text-center py-12">
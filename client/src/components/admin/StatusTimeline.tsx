@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { StatusEntity, StatusHistoryEntry } from '../../../../server/src/schema';
+
+interface StatusTimelineProps {
+  entityType: StatusEntity;
+  entityId: number;
+}
+
+// Status changes of one registration, affiliate or payout; mounted inside the detail dialogs
+export function StatusTimeline({ entityType, entityId }: StatusTimelineProps) {
+  const [entries, setEntries] = useState<StatusHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    trpc.getStatusHistory.query({ entity_type: entityType, entity_id: entityId })
+      .then(setEntries)
+      .catch((error) => console.error('Failed to load status history:', error))
+      .finally(() => setIsLoading(false));
+  }, [entityType, entityId]);
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-2">History:</p>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No status changes yet</p>
+      ) : (
+        <ol className="border-l-2 border-gray-200 pl-4 space-y-3 max-h-48 overflow-y-auto">
+          {entries.map((entry) => (
+            <li key={entry.id} className="text-sm">
+              <p className="font-medium">
+                {entry.from_status} → {entry.to_status}
+              </p>
+              <p className="text-xs text-gray-500">
+                {new Date(entry.created_at).toLocaleString('id-ID')}
+                {entry.actor_name && ` · ${entry.actor_name}`}
+              </p>
+              {entry.reason && <p className="text-xs text-gray-700 mt-1">{entry.reason}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
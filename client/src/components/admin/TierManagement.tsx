@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { AffiliateTier, CreateAffiliateTierInput } from '../../../../server/src/schema';
+
+interface TierManagementProps {
+  onUpdate: () => void;
+}
+
+const emptyTier: CreateAffiliateTierInput = {
+  name: '',
+  level: 1,
+  commission_rate: 0.1,
+  min_confirmed_registrations: null,
+  min_revenue: null
+};
+
+export function TierManagement({ onUpdate }: TierManagementProps) {
+  const [tiers, setTiers] = useState<AffiliateTier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [editingTierId, setEditingTierId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<CreateAffiliateTierInput>(emptyTier);
+
+  const loadTiers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await trpc.getAffiliateTiers.query();
+      setTiers(data);
+      setError('');
+    } catch (error) {
+      console.error('Failed to load tiers:', error);
+      setError(getErrorMessage(error, 'Failed to load tiers. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTiers();
+  }, [loadTiers]);
+
+  const openCreateForm = () => {
+    const nextLevel = tiers.length > 0 ? tiers[tiers.length - 1].level + 1 : 1;
+    setFormData({ ...emptyTier, level: nextLevel });
+    setEditingTierId(null);
+    setShowForm(true);
+  };
+
+  const openEditForm = (tier: AffiliateTier) => {
+    setFormData({
+      name: tier.name,
+      level: tier.level,
+      commission_rate: tier.commission_rate,
+      min_confirmed_registrations: tier.min_confirmed_registrations,
+      min_revenue: tier.min_revenue
+    });
+    setEditingTierId(tier.id);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (editingTierId === null) {
+        await trpc.createAffiliateTier.mutate(formData);
+      } else {
+        await trpc.updateAffiliateTier.mutate({ ...formData, id: editingTierId });
+      }
+      setShowForm(false);
+      await loadTiers();
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to save tier:', error);
+      setError(getErrorMessage(error, 'Failed to save tier. Tier names and levels must be unique.'));
+    }
+  };
+
+  const handleEvaluate = async () => {
+    try {
+      setIsEvaluating(true);
+      const changes = await trpc.evaluateAffiliateTiers.mutate();
+      setMessage(changes.length === 0
+        ? 'All affiliates are already in the right tier.'
+        : `${changes.length} affiliate(s) moved to a new tier.`);
+      setError('');
+      onUpdate();
+    } catch (error) {
+      console.error('Failed to evaluate tiers:', error);
+      setError(getErrorMessage(error, 'Failed to evaluate tiers. Please try again.'));
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return `Rp ${price.toLocaleString('id-ID')}`;
+  };
+
+  const describeThresholds = (tier: AffiliateTier) => {
+    const thresholds: string[] = [];
+    if (tier.min_confirmed_registrations !== null) {
+      thresholds.push(`${tier.min_confirmed_registrations} confirmed students`);
+    }
+    if (tier.min_revenue !== null) {
+      thresholds.push(`${formatPrice(tier.min_revenue)} revenue`);
+    }
+    return thresholds.length > 0 ? thresholds.join(' or ') : 'Entry tier for every approved affiliate';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">🏆 Affiliate Tiers</h2>
+          <p className="text-gray-600">
+            Affiliates earn the rate of the highest tier they reach; general commission rules never pay them less, while rules for a single affiliate apply as set
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleEvaluate} disabled={isEvaluating}>
+            {isEvaluating ? 'Evaluating...' : '🔄 Re-evaluate Now'}
+          </Button>
+          <Button onClick={openCreateForm}>➕ Add New Tier</Button>
+        </div>
+      </div>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingTierId === null ? 'Create Tier' : 'Edit Tier'}</DialogTitle>
+            <DialogDescription>
+              Meeting either threshold reaches the tier; leave both empty for the entry tier
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                placeholder="Tier name *"
+                value={formData.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, name: e.target.value }))
+                }
+                required
+              />
+              <Input
+                type="number"
+                placeholder="Level *"
+                value={formData.level}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, level: parseInt(e.target.value) || 1 }))
+                }
+                min="1"
+                required
+              />
+            </div>
+
+            <Input
+              type="number"
+              placeholder="Commission rate (%) *"
+              value={formData.commission_rate ? +(formData.commission_rate * 100).toFixed(2) : ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, commission_rate: (parseFloat(e.target.value) || 0) / 100 }))
+              }
+              min="0.1"
+              max="100"
+              step="0.1"
+              required
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                type="number"
+                placeholder="Min. confirmed students"
+                value={formData.min_confirmed_registrations ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({
+                    ...prev,
+                    min_confirmed_registrations: e.target.value === '' ? null : parseInt(e.target.value) || 0
+                  }))
+                }
+                min="0"
+              />
+              <Input
+                type="number"
+                placeholder="Min. revenue (IDR)"
+                value={formData.min_revenue ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({
+                    ...prev,
+                    min_revenue: e.target.value === '' ? null : parseFloat(e.target.value) || 0
+                  }))
+                }
+                min="0"
+                step="100000"
+              />
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button type="submit" className="flex-1">
+                {editingTierId === null ? 'Create Tier' : 'Save Changes'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {message && (
+        <Alert>
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {tiers.map((tier) => (
+          <Card key={tier.id}>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <CardTitle className="text-lg">{tier.name}</CardTitle>
+                <Badge variant="secondary">Level {tier.level}</Badge>
+              </div>
+              <CardDescription>{describeThresholds(tier)}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                <div className="text-2xl font-bold text-green-600">
+                  {(tier.commission_rate * 100).toFixed(1)}%
+                </div>
+                <Button size="sm" variant="outline" onClick={() => openEditForm(tier)}>
+                  ✏️ Edit
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {tiers.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-gray-500 mb-4">No tiers yet; every affiliate earns their own default rate</p>
+            <Button onClick={openCreateForm}>
+              ➕ Create Your First Tier
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import type { Affiliate, AffiliateStats } from '../../../../server/src/schema';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getProviderName } from '@/utils/payout_accounts';
+import { MonthlyStatements } from '@/components/affiliate/MonthlyStatements';
+import type { Affiliate, AffiliateStats, PayoutAccount } from '../../../../server/src/schema';
 
 interface EarningsOverviewProps {
   affiliate: Affiliate;
   stats: AffiliateStats | null;
+  payoutAccounts: PayoutAccount[];
 }
 
-export function EarningsOverview({ affiliate, stats }: EarningsOverviewProps) {
+export function EarningsOverview({ affiliate, stats, payoutAccounts }: EarningsOverviewProps) {
   const formatAmount = (amount: number) => {
     return `Rp ${amount.toLocaleString('id-ID')}`;
   };
@@ -22,6 +26,8 @@ export function EarningsOverview({ affiliate, stats }: EarningsOverviewProps) {
     ? (stats.confirmed_registrations / stats.total_registrations) * 100 
     : 0;
 
+  const clickConversionRate = (stats?.click_conversion_rate || 0) * 100;
+
   return (
     <div className="space-y-6">
       <div>
@@ -29,6 +35,15 @@ export function EarningsOverview({ affiliate, stats }: EarningsOverviewProps) {
         <p className="text-gray-600">Track your commission earnings and performance</p>
       </div>
 
+      {(stats?.commission_balance || 0) < 0 && (
+        <Alert>
+          <AlertDescription>
+            Commission of {formatAmount(-(stats?.commission_balance || 0))} was clawed back after refunds and is
+            deducted from your next earnings before a new payout can be requested.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Earnings Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card className="bg-gradient-to-br from-green-500 to-green-600 text-white">
@@ -63,7 +78,7 @@ export function EarningsOverview({ affiliate, stats }: EarningsOverviewProps) {
             <div className="text-2xl font-bold">
               {formatAmount(stats?.pending_commission || 0)}
             </div>
-            <p className="text-sm opacity-90 mt-1">Awaiting confirmation</p>
+            <p className="text-sm opacity-90 mt-1">Held for requested payouts</p>
           </CardContent>
         </Card>
 
@@ -80,6 +95,38 @@ export function EarningsOverview({ affiliate, stats }: EarningsOverviewProps) {
         </Card>
       </div>
 
+      {/* Commission still in its hold period */}
+      {stats && stats.locked_commission > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              🔒 Locked Commission
+            </CardTitle>
+            <CardDescription>
+              {formatAmount(stats.locked_commission)} is held for a short period after each confirmation in case the
+              student cancels, and becomes available automatically
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {stats.commission_unlocks.map((unlock) => (
+                <div key={unlock.registration_id} className="flex justify-between items-center text-sm">
+                  <span>{unlock.student_name}</span>
+                  <div className="text-right">
+                    <p className="font-semibold">{formatAmount(unlock.amount)}</p>
+                    <p className="text-xs text-gray-500">
+                      Unlocks {new Date(unlock.unlocks_at).toLocaleDateString('id-ID')}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <MonthlyStatements affiliateId={affiliate.id} />
+
       {/* Performance Metrics */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
@@ -93,6 +140,29 @@ export function EarningsOverview({ affiliate, stats }: EarningsOverviewProps) {
           </CardHeader>
           <CardContent>
             <div className="space-y-6">
+              <div className="flex justify-between items-center">
+                <div>
+                  <p className="text-sm text-gray-600">Link Clicks</p>
+                  <p className="text-2xl font-bold">{stats?.total_clicks || 0}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm text-gray-600">Unique Visitors</p>
+                  <p className="text-lg font-semibold text-blue-600">
+                    {stats?.unique_visitors || 0}
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <p className="text-sm text-gray-600">Click to Registration</p>
+                  <p className="text-sm font-semibold">
+                    {clickConversionRate.toFixed(1)}%
+                  </p>
+                </div>
+                <Progress value={clickConversionRate} className="h-2" />
+              </div>
+
               <div className="flex justify-between items-center">
                 <div>
                   <p className="text-sm text-gray-600">Total Referrals</p>
@@ -181,21 +251,19 @@ export function EarningsOverview({ affiliate, stats }: EarningsOverviewProps) {
               <div className="bg-gray-50 rounded-lg p-4">
                 <p className="font-semibold text-sm mb-2">💳 Payment Methods</p>
                 <div className="space-y-2 text-sm">
-                  {affiliate.bank_name && (
-                    <div className="flex justify-between">
-                      <span>🏦 Bank Transfer:</span>
-                      <span>{affiliate.bank_name}</span>
-                    </div>
-                  )}
-                  {affiliate.ewallet_type && (
-                    <div className="flex justify-between">
-                      <span>📱 E-Wallet:</span>
-                      <span>{affiliate.ewallet_type}</span>
+                  {payoutAccounts.map((account) => (
+                    <div key={account.id} className="flex justify-between">
+                      <span>{account.account_type === 'bank' ? '🏦 Bank Transfer:' : '📱 E-Wallet:'}</span>
+                      <span>
+                        {getProviderName(account)} · {account.account_number}
+                        {account.is_default && ' ⭐'}
+                        {account.verification_status !== 'verified' && ' (not verified)'}
+                      </span>
                     </div>
-                  )}
-                  {!affiliate.bank_name && !affiliate.ewallet_type && (
+                  ))}
+                  {payoutAccounts.length === 0 && (
                     <p className="text-gray-500 italic">
-                      No payment methods configured. Please update your profile.
+                      No payment methods configured. Add one in the Payouts tab.
                     </p>
                   )}
                 </div>
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { downloadFile } from '@/utils/download';
+import { getPreviousMonth } from '@/utils/period';
+import type { MonthlyStatementFormat } from '../../../../server/src/schema';
+
+interface MonthlyStatementsProps {
+  affiliateId: number;
+}
+
+// Download the statement of one month: the opening balance, what was earned, clawed back and paid out, and the closing balance
+export function MonthlyStatements({ affiliateId }: MonthlyStatementsProps) {
+  const [period, setPeriod] = useState(getPreviousMonth());
+  const [error, setError] = useState('');
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async (format: MonthlyStatementFormat) => {
+    try {
+      setIsDownloading(true);
+      const statement = await trpc.getMonthlyStatement.query({ affiliate_id: affiliateId, period, format });
+      downloadFile(statement.filename, statement.content, statement.content_type);
+      setError('');
+    } catch (error) {
+      console.error('Failed to download monthly statement:', error);
+      setError(getErrorMessage(error, 'Failed to download the statement. Please try again.'));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">📄 Monthly Statements</CardTitle>
+        <CardDescription>
+          Your confirmed registrations, clawbacks and payouts of a month, from the opening to the closing balance
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Input
+            type="month"
+            className="w-48"
+            value={period}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPeriod(e.target.value)}
+          />
+          <Button variant="outline" disabled={!period || isDownloading} onClick={() => handleDownload('pdf')}>
+            ⬇️ PDF
+          </Button>
+          <Button variant="outline" disabled={!period || isDownloading} onClick={() => handleDownload('csv')}>
+            ⬇️ CSV
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
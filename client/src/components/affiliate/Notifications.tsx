@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { Notification } from '../../../../server/src/schema';
+
+interface NotificationsProps {
+  notifications: Notification[];
+  onChange: () => Promise<void>;
+}
+
+// Messages from admins, such as the outcome of a payout account verification
+export function Notifications({ notifications, onChange }: NotificationsProps) {
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const unreadCount = notifications.filter(notification => notification.read_at === null).length;
+
+  const markRead = async (notificationIds?: number[]) => {
+    try {
+      setIsWorking(true);
+      await trpc.markNotificationsRead.mutate({ notification_ids: notificationIds });
+      await onChange();
+      setError('');
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+      setError(getErrorMessage(error, 'Failed to update notifications. Please try again.'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              🔔 Notifications
+              {unreadCount > 0 && <Badge className="bg-blue-100 text-blue-800">{unreadCount} new</Badge>}
+            </CardTitle>
+            <CardDescription>Updates about your account and payout details</CardDescription>
+          </div>
+          {unreadCount > 0 && (
+            <Button variant="outline" size="sm" disabled={isWorking} onClick={() => markRead()}>
+              Mark All Read
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {notifications.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No notifications yet.</p>
+        ) : (
+          notifications.map((notification) => (
+            <div
+              key={notification.id}
+              className={`border rounded-lg p-3 ${notification.read_at === null ? 'bg-blue-50 border-blue-200' : ''}`}
+            >
+              <div className="flex justify-between items-start gap-3">
+                <div className="text-sm">
+                  <p className="font-medium">{notification.title}</p>
+                  <p className="text-gray-600">{notification.message}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {new Date(notification.created_at).toLocaleString('id-ID')}
+                  </p>
+                </div>
+                {notification.read_at === null && (
+                  <Button size="sm" variant="ghost" disabled={isWorking} onClick={() => markRead([notification.id])}>
+                    Mark Read
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
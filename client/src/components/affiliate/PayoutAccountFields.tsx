@@ -0,0 +1,54 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BANK_OPTIONS, EWALLET_OPTIONS, type PayoutAccountDraft } from '@/utils/payout_accounts';
+
+interface PayoutAccountFieldsProps {
+  draft: PayoutAccountDraft;
+  onChange: (draft: PayoutAccountDraft) => void;
+}
+
+// Bank or e-wallet fields of one payout account, depending on the draft's account type
+export function PayoutAccountFields({ draft, onChange }: PayoutAccountFieldsProps) {
+  const update = (changes: Partial<PayoutAccountDraft>) => onChange({ ...draft, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {draft.account_type === 'bank' ? (
+          <Select value={draft.bank_code} onValueChange={(value) => update({ bank_code: value })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Bank" />
+            </SelectTrigger>
+            <SelectContent>
+              {BANK_OPTIONS.map(([code, name]) => (
+                <SelectItem key={code} value={code}>{name} ({code})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Select value={draft.ewallet_provider} onValueChange={(value) => update({ ewallet_provider: value })}>
+            <SelectTrigger>
+              <SelectValue placeholder="E-wallet type" />
+            </SelectTrigger>
+            <SelectContent>
+              {EWALLET_OPTIONS.map(([provider, name]) => (
+                <SelectItem key={provider} value={provider}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          placeholder={draft.account_type === 'bank' ? 'Account number' : 'E-wallet number (e.g. 081234567890)'}
+          inputMode="numeric"
+          value={draft.account_number}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ account_number: e.target.value })}
+        />
+      </div>
+      <Input
+        placeholder="Account holder name"
+        value={draft.account_holder}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ account_holder: e.target.value })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { emptyPayoutAccountDraft, getProviderName, parsePayoutAccountDraft, toPayoutAccountDraft, type PayoutAccountDraft } from '@/utils/payout_accounts';
+import { PayoutAccountFields } from '@/components/affiliate/PayoutAccountFields';
+import type { Affiliate, PayoutAccount, PayoutAccountType, PayoutAccountVerification } from '../../../../server/src/schema';
+
+interface PayoutAccountsProps {
+  affiliate: Affiliate;
+  accounts: PayoutAccount[];
+  onChange: () => Promise<void>;
+}
+
+const MAX_ACCOUNTS = 5;
+
+const VERIFICATION_BADGES: Record<PayoutAccountVerification, { label: string; className: string }> = {
+  pending: { label: '⏳ Awaiting verification', className: 'bg-yellow-100 text-yellow-800' },
+  verified: { label: '✅ Verified', className: 'bg-green-100 text-green-800' },
+  rejected: { label: '❌ Rejected', className: 'bg-red-100 text-red-800' }
+};
+
+// The affiliate's saved bank accounts and e-wallets; payouts go to the default unless another is chosen
+export function PayoutAccounts({ affiliate, accounts, onChange }: PayoutAccountsProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [draft, setDraft] = useState<PayoutAccountDraft>(emptyPayoutAccountDraft('bank'));
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [editing, setEditing] = useState<PayoutAccount | null>(null);
+  const [editDraft, setEditDraft] = useState<PayoutAccountDraft>(emptyPayoutAccountDraft('bank'));
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { details, error: invalid } = parsePayoutAccountDraft(draft);
+    if (!details) {
+      setError(invalid);
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      await trpc.createPayoutAccount.mutate({ affiliate_id: affiliate.id, account: details, is_default: makeDefault });
+      await onChange();
+      setShowForm(false);
+      setDraft(emptyPayoutAccountDraft('bank'));
+      setMakeDefault(false);
+      setError('');
+    } catch (error) {
+      console.error('Failed to add payout account:', error);
+      setError(getErrorMessage(error, 'Failed to add the payout account. Please check the details.'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const startEditing = (account: PayoutAccount) => {
+    setEditing(account);
+    setEditDraft(toPayoutAccountDraft(account));
+    setError('');
+  };
+
+  // Changed details go back to an admin for verification before they can receive payouts
+  const handleEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) {
+      return;
+    }
+    const { details, error: invalid } = parsePayoutAccountDraft(editDraft);
+    if (!details) {
+      setError(invalid);
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      await trpc.updatePayoutAccount.mutate({ affiliate_id: affiliate.id, payout_account_id: editing.id, account: details });
+      await onChange();
+      setEditing(null);
+      setError('');
+    } catch (error) {
+      console.error('Failed to update payout account:', error);
+      setError(getErrorMessage(error, 'Failed to update the payout account. Please check the details.'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAction = async (account: PayoutAccount, action: 'default' | 'remove') => {
+    try {
+      setIsWorking(true);
+      const input = { affiliate_id: affiliate.id, payout_account_id: account.id };
+      if (action === 'default') {
+        await trpc.setDefaultPayoutAccount.mutate(input);
+      } else {
+        await trpc.removePayoutAccount.mutate(input);
+      }
+      await onChange();
+      setError('');
+    } catch (error) {
+      console.error('Failed to update payout account:', error);
+      setError(getErrorMessage(error, 'Failed to update the payout account. Please try again.'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">💳 Payout Accounts</CardTitle>
+            <CardDescription>
+              Where your commission is sent; new or changed details are verified by an admin before they receive payouts
+            </CardDescription>
+          </div>
+          {accounts.length < MAX_ACCOUNTS && (
+            <Dialog open={showForm} onOpenChange={setShowForm}>
+              <DialogTrigger asChild>
+                <Button variant="outline">➕ Add Account</Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Payout Account</DialogTitle>
+                  <DialogDescription>The name must match the one registered at the bank or e-wallet</DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleAdd} className="space-y-4">
+                  <Select
+                    value={draft.account_type || 'bank'}
+                    onValueChange={(value: PayoutAccountType) => setDraft(emptyPayoutAccountDraft(value, draft.account_holder))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="bank">🏦 Bank Account</SelectItem>
+                      <SelectItem value="ewallet">📱 E-Wallet</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <PayoutAccountFields draft={draft} onChange={setDraft} />
+
+                  {accounts.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <Switch checked={makeDefault} onCheckedChange={setMakeDefault} />
+                      <span className="text-sm">Use for future payouts</span>
+                    </div>
+                  )}
+
+                  <div className="flex gap-2 pt-4">
+                    <Button type="submit" className="flex-1" disabled={isWorking}>Save Account</Button>
+                    <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {accounts.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No payout accounts yet. Add one to request payouts.</p>
+        ) : (
+          accounts.map((account) => (
+            <div key={account.id} className="flex flex-wrap items-center gap-3 border rounded-lg p-3">
+              <span>{account.account_type === 'bank' ? '🏦' : '📱'}</span>
+              <div className="flex-1 text-sm">
+                <p className="font-medium">{getProviderName(account)} · {account.account_number}</p>
+                <p className="text-gray-500">{account.account_holder}</p>
+                {account.verification_status === 'rejected' && account.rejection_reason && (
+                  <p className="text-red-600">Rejected: {account.rejection_reason}</p>
+                )}
+              </div>
+              <Badge className={VERIFICATION_BADGES[account.verification_status].className}>
+                {VERIFICATION_BADGES[account.verification_status].label}
+              </Badge>
+              {account.is_default ? (
+                <Badge className="bg-blue-100 text-blue-800">⭐ Default</Badge>
+              ) : (
+                <Button size="sm" variant="outline" disabled={isWorking} onClick={() => handleAction(account, 'default')}>
+                  Make Default
+                </Button>
+              )}
+              <Button size="sm" variant="outline" disabled={isWorking} onClick={() => startEditing(account)}>
+                Edit
+              </Button>
+              <Button size="sm" variant="ghost" disabled={isWorking} onClick={() => handleAction(account, 'remove')}>
+                Remove
+              </Button>
+            </div>
+          ))
+        )}
+
+        <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit Payout Account</DialogTitle>
+              <DialogDescription>
+                Payouts to this account pause until an admin verifies the new details; payouts already requested are not affected
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleEdit} className="space-y-4">
+              <Select
+                value={editDraft.account_type || 'bank'}
+                onValueChange={(value: PayoutAccountType) => setEditDraft(emptyPayoutAccountDraft(value, editDraft.account_holder))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bank">🏦 Bank Account</SelectItem>
+                  <SelectItem value="ewallet">📱 E-Wallet</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <PayoutAccountFields draft={editDraft} onChange={setEditDraft} />
+
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1" disabled={isWorking}>Save Changes</Button>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
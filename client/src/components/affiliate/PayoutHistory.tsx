@@ -6,31 +6,41 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { trpc } from '@/utils/trpc';
-import type { Affiliate, CommissionPayout, PayoutStatus, CreateCommissionPayoutInput } from '../../../../server/src/schema';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { getProviderName } from '@/utils/payout_accounts';
+import { PayoutAccounts } from '@/components/affiliate/PayoutAccounts';
+import type { Affiliate, CommissionPayout, PayoutStatus, CreateCommissionPayoutInput, LedgerEntry, LedgerEntryType, PayoutAccount } from '../../../../server/src/schema';
 
 interface PayoutHistoryProps {
   affiliate: Affiliate;
+  payoutAccounts: PayoutAccount[];
+  onAccountsChange: () => Promise<void>;
 }
 
-export function PayoutHistory({ affiliate }: PayoutHistoryProps) {
+export function PayoutHistory({ affiliate, payoutAccounts, onAccountsChange }: PayoutHistoryProps) {
   const [payouts, setPayouts] = useState<CommissionPayout[]>([]);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [filter, setFilter] = useState<PayoutStatus | 'all'>('all');
   const [showRequestForm, setShowRequestForm] = useState(false);
   const [requestAmount, setRequestAmount] = useState('');
+  const [requestAccountId, setRequestAccountId] = useState('');
 
   const loadPayouts = useCallback(async () => {
     try {
       setIsLoading(true);
-      // Get payouts for this affiliate only
-      const data = await trpc.getCommissionPayouts.query(affiliate.id);
+      // Get payouts and balance movements for this affiliate only
+      const [data, entries] = await Promise.all([
+        trpc.getCommissionPayouts.query(affiliate.id),
+        trpc.getLedgerEntries.query(affiliate.id)
+      ]);
       setPayouts(data);
+      setLedgerEntries(entries);
       setError('');
     } catch (error) {
       console.error('Failed to load payouts:', error);
-      setError('Failed to load payout history. Please try again.');
+      setError(getErrorMessage(error, 'Failed to load payout history. Please try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -53,21 +63,18 @@ export function PayoutHistory({ affiliate }: PayoutHistoryProps) {
       const payoutData: CreateCommissionPayoutInput = {
         affiliate_id: affiliate.id,
         amount,
-        method: affiliate.bank_name ? 'bank_transfer' : 'ewallet',
-        bank_details: affiliate.bank_name ? 
-          `${affiliate.bank_name} - ${affiliate.bank_account_number} - ${affiliate.bank_account_name}` : null,
-        ewallet_details: affiliate.ewallet_type ? 
-          `${affiliate.ewallet_type} - ${affiliate.ewallet_number}` : null,
+        payout_account_id: requestAccountId ? parseInt(requestAccountId) : undefined, // The default account otherwise
         notes: null
       };
 
       await trpc.createCommissionPayout.mutate(payoutData);
       setShowRequestForm(false);
       setRequestAmount('');
+      setRequestAccountId('');
       await loadPayouts();
     } catch (error) {
       console.error('Failed to request payout:', error);
-      setError('Failed to request payout. Please try again.');
+      setError(getErrorMessage(error, 'Failed to request payout. Please try again.'));
     }
   };
 
@@ -103,6 +110,29 @@ export function PayoutHistory({ affiliate }: PayoutHistoryProps) {
     return `Rp ${amount.toLocaleString('id-ID')}`;
   };
 
+  const getEntryLabel = (type: LedgerEntryType) => {
+    switch (type) {
+      case 'commission_earned': return '💵 Commission earned';
+      case 'commission_reversed': return '↩️ Commission clawback';
+      case 'payout_reserved': return '⏳ Held for payout';
+      case 'payout_released': return '🔓 Released from payout';
+      case 'payout_paid': return '✅ Paid out';
+      case 'adjustment': return '✏️ Adjustment';
+      default: return type;
+    }
+  };
+
+  // How an entry moved the balance available for payout
+  const formatEntryAmount = (entry: LedgerEntry) => {
+    if (entry.to_account === 'available') {
+      return { text: `+${formatAmount(entry.amount)}`, className: 'text-green-600' };
+    }
+    if (entry.from_account === 'available') {
+      return { text: `-${formatAmount(entry.amount)}`, className: 'text-red-600' };
+    }
+    return { text: formatAmount(entry.amount), className: 'text-gray-500' };
+  };
+
   const filteredPayouts = payouts.filter(payout => 
     filter === 'all' || payout.status === filter
   );
@@ -115,7 +145,10 @@ export function PayoutHistory({ affiliate }: PayoutHistoryProps) {
     pending: payouts.filter(p => p.status === 'pending' || p.status === 'processing').length
   };
 
-  const canRequestPayout = affiliate.bank_name || affiliate.ewallet_type;
+  // Payouts only go to details an admin has verified
+  const verifiedAccounts = payoutAccounts.filter(account => account.verification_status === 'verified');
+  const canRequestPayout = verifiedAccounts.length > 0;
+  const defaultAccount = verifiedAccounts.find(account => account.is_default) ?? verifiedAccounts[0];
 
   if (isLoading) {
     return (
@@ -176,25 +209,28 @@ export function PayoutHistory({ affiliate }: PayoutHistoryProps) {
                       required
                     />
                     <p className="text-xs text-gray-500 mt-1">
-                      Minimum payout amount is Rp 100,000
+                      Minimum payout amount is Rp 100,000. Income tax (PPh 21, or PPh 23 for companies) is withheld
+                      from the amount according to your tax profile.
                     </p>
                   </div>
 
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <p className="text-sm font-medium mb-2">Payment Method:</p>
-                    {affiliate.bank_name && (
-                      <div className="text-sm">
-                        <p>🏦 <strong>Bank Transfer</strong></p>
-                        <p>{affiliate.bank_name} - {affiliate.bank_account_number}</p>
-                        <p>{affiliate.bank_account_name}</p>
-                      </div>
-                    )}
-                    {affiliate.ewallet_type && (
-                      <div className="text-sm mt-2">
-                        <p>📱 <strong>E-Wallet</strong></p>
-                        <p>{affiliate.ewallet_type} - {affiliate.ewallet_number}</p>
-                      </div>
-                    )}
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Send To</label>
+                    <Select
+                      value={requestAccountId || String(defaultAccount?.id ?? '')}
+                      onValueChange={setRequestAccountId}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {verifiedAccounts.map((account) => (
+                          <SelectItem key={account.id} value={String(account.id)}>
+                            {account.account_type === 'bank' ? '🏦' : '📱'} {getProviderName(account)} · {account.account_number} · {account.account_holder}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
 
                   <div className="flex gap-2 pt-4">
@@ -219,11 +255,15 @@ export function PayoutHistory({ affiliate }: PayoutHistoryProps) {
       {!canRequestPayout && (
         <Alert>
           <AlertDescription>
-            Please add your bank account or e-wallet details in your profile to request payouts.
+            {payoutAccounts.length === 0
+              ? 'Please add a bank account or e-wallet below to request payouts.'
+              : 'Payouts can be requested once an admin has verified one of your payout accounts.'}
           </AlertDescription>
         </Alert>
       )}
 
+      <PayoutAccounts affiliate={affiliate} accounts={payoutAccounts} onChange={onAccountsChange} />
+
       {/* Summary Stats */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card className="text-center">
@@ -279,21 +319,21 @@ export function PayoutHistory({ affiliate }: PayoutHistoryProps) {
                 <div>
                   <p className="text-sm text-gray-600">Amount</p>
                   <p className="text-xl font-bold text-green-600">
-                    {formatAmount(payout.amount)}
+                    {formatAmount(payout.net_amount)}
                   </p>
+                  {payout.tax_amount > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {formatAmount(payout.amount)} less {formatAmount(payout.tax_amount)} {payout.tax_type === 'pph23' ? 'PPh 23' : 'PPh 21'}
+                    </p>
+                  )}
                 </div>
 
                 <div>
                   <p className="text-sm text-gray-600">Payment Details</p>
                   <div className="text-sm mt-1">
-                    {payout.bank_details && (
+                    {payout.destination && (
                       <p className="bg-gray-50 p-2 rounded text-xs">
-                        🏦 {payout.bank_details}
-                      </p>
-                    )}
-                    {payout.ewallet_details && (
-                      <p className="bg-gray-50 p-2 rounded text-xs">
-                        📱 {payout.ewallet_details}
+                        {getMethodEmoji(payout.method)} {payout.destination.provider_name} - {payout.destination.account_number} - {payout.destination.account_holder}
                       </p>
                     )}
                   </div>
@@ -350,6 +390,39 @@ export function PayoutHistory({ affiliate }: PayoutHistoryProps) {
         </Card>
       )}
 
+      {/* Balance History */}
+      {ledgerEntries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              📒 Balance History
+            </CardTitle>
+            <CardDescription>
+              Every change to your commission balance
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {ledgerEntries.map((entry) => {
+                const amount = formatEntryAmount(entry);
+                return (
+                  <div key={entry.id} className="flex justify-between items-center py-3">
+                    <div>
+                      <p className="text-sm font-medium">{getEntryLabel(entry.entry_type)}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(entry.created_at).toLocaleDateString('id-ID')}
+                        {entry.description && ` · ${entry.description}`}
+                      </p>
+                    </div>
+                    <span className={`font-semibold ${amount.className}`}>{amount.text}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Payout Information */}
       <Card className="bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-200">
         <CardHeader>
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { SessionUser } from '../../../../server/src/schema';
+
+interface ProfileSettingsProps {
+  user: SessionUser;
+  onUserChange: (user: SessionUser) => void;
+}
+
+// The affiliate's own name and phone; payout details are edited with the payout accounts
+export function ProfileSettings({ user, onUserChange }: ProfileSettingsProps) {
+  const [fullName, setFullName] = useState(user.full_name);
+  const [phone, setPhone] = useState(user.phone ?? '');
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (fullName.trim().length < 2) {
+      setError('Enter your full name.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const updated = await trpc.updateMyProfile.mutate({ full_name: fullName, phone });
+      onUserChange(updated);
+      setError('');
+      setSaved(true);
+    } catch (error) {
+      console.error('Failed to update profile:', error);
+      setError(getErrorMessage(error, 'Failed to update your profile. Please try again.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">👤 Profile</CardTitle>
+        <CardDescription>Your email ({user.email}) is your login and cannot be changed here</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {saved && !error && (
+            <Alert>
+              <AlertDescription>✅ Your profile has been updated.</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Full Name</label>
+              <Input
+                value={fullName}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  setFullName(e.target.value);
+                  setSaved(false);
+                }}
+                required
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Phone</label>
+              <Input
+                type="tel"
+                placeholder="e.g. 081234567890"
+                value={phone}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  setPhone(e.target.value);
+                  setSaved(false);
+                }}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Profile'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
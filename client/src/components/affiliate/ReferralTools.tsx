@@ -4,8 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
-import type { Affiliate, Program } from '../../../../server/src/schema';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import type { Affiliate, Branch, Program, ProgramCommission } from '../../../../server/src/schema';
 
 interface ReferralToolsProps {
   affiliate: Affiliate;
@@ -13,6 +13,8 @@ interface ReferralToolsProps {
 
 export function ReferralTools({ affiliate }: ReferralToolsProps) {
   const [programs, setPrograms] = useState<Program[]>([]);
+  const [commissions, setCommissions] = useState<ProgramCommission[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [copiedLink, setCopiedLink] = useState('');
@@ -20,12 +22,18 @@ export function ReferralTools({ affiliate }: ReferralToolsProps) {
   const loadPrograms = useCallback(async () => {
     try {
       setIsLoading(true);
-      const data = await trpc.getPrograms.query();
+      const [data, commissionData, branchData] = await Promise.all([
+        trpc.getPrograms.query(),
+        trpc.getMyProgramCommissions.query(),
+        trpc.getBranches.query()
+      ]);
       setPrograms(data.filter(p => p.is_active));
+      setCommissions(commissionData);
+      setBranches(branchData);
       setError('');
     } catch (error) {
       console.error('Failed to load programs:', error);
-      setError('Failed to load programs. Please try again.');
+      setError(getErrorMessage(error, 'Failed to load programs. Please try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -64,8 +72,10 @@ export function ReferralTools({ affiliate }: ReferralToolsProps) {
     }
   };
 
-  const calculateCommission = (price: number) => {
-    return price * affiliate.commission_rate;
+  // Commission rules may differ per program, so the server resolves the amount
+  const getCommission = (program: Program) => {
+    const commission = commissions.find(c => c.program_id === program.id);
+    return commission ? commission.commission_amount : program.price * affiliate.commission_rate;
   };
 
   if (isLoading) {
@@ -144,7 +154,7 @@ export function ReferralTools({ affiliate }: ReferralToolsProps) {
                     {getCategoryEmoji(program.category)} {program.name}
                   </CardTitle>
                   <Badge variant="outline">
-                    {program.location}
+                    {branches.find(b => b.code === program.location)?.name ?? program.location}
                   </Badge>
                 </div>
                 {program.description && (
@@ -159,7 +169,7 @@ export function ReferralTools({ affiliate }: ReferralToolsProps) {
                         {formatPrice(program.price)}
                       </p>
                       <p className="text-sm text-gray-600">
-                        💰 Your commission: {formatPrice(calculateCommission(program.price))}
+                        💰 Your commission: {formatPrice(getCommission(program))}
                       </p>
                     </div>
                     {program.duration_weeks && (
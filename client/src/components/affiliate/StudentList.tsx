@@ -3,7 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
+import { trpc, getErrorMessage } from '@/utils/trpc';
 import type { Affiliate, StudentRegistration, RegistrationStatus } from '../../../../server/src/schema';
 
 interface StudentListProps {
@@ -26,7 +26,7 @@ export function StudentList({ affiliate, onUpdate }: StudentListProps) {
       setError('');
     } catch (error) {
       console.error('Failed to load registrations:', error);
-      setError('Failed to load student registrations. Please try again.');
+      setError(getErrorMessage(error, 'Failed to load student registrations. Please try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -41,6 +41,8 @@ export function StudentList({ affiliate, onUpdate }: StudentListProps) {
       case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       case 'confirmed': return 'bg-green-100 text-green-800 border-green-200';
       case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
+      case 'refunded': return 'bg-orange-100 text-orange-800 border-orange-200';
+      case 'waitlisted': return 'bg-blue-100 text-blue-800 border-blue-200';
       default: return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
@@ -50,6 +52,8 @@ export function StudentList({ affiliate, onUpdate }: StudentListProps) {
       case 'pending': return '⏳';
       case 'confirmed': return '✅';
       case 'cancelled': return '❌';
+      case 'refunded': return '💸';
+      case 'waitlisted': return '🕒';
       default: return '❓';
     }
   };
@@ -103,6 +107,8 @@ export function StudentList({ affiliate, onUpdate }: StudentListProps) {
             <SelectItem value="pending">⏳ Pending</SelectItem>
             <SelectItem value="confirmed">✅ Confirmed</SelectItem>
             <SelectItem value="cancelled">❌ Cancelled</SelectItem>
+            <SelectItem value="refunded">💸 Refunded</SelectItem>
+            <SelectItem value="waitlisted">🕒 Waitlisted</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -195,6 +201,14 @@ export function StudentList({ affiliate, onUpdate }: StudentListProps) {
                         {formatAmount(registration.commission_amount)}
                       </span>
                     </p>
+                    {registration.status === 'refunded' && (
+                      <p className="text-sm">
+                        <span className="text-gray-500">Clawed back:</span>{' '}
+                        <span className="font-semibold text-red-600">
+                          -{formatAmount(registration.commission_amount)}
+                        </span>
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -215,6 +229,14 @@ export function StudentList({ affiliate, onUpdate }: StudentListProps) {
                         </span>
                       </p>
                     )}
+                    {registration.refunded_at && (
+                      <p className="text-sm">
+                        <span className="text-gray-500">Refunded:</span>{' '}
+                        <span className="font-medium text-orange-600">
+                          {new Date(registration.refunded_at).toLocaleDateString('id-ID')}
+                        </span>
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
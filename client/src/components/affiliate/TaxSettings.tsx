@@ -0,0 +1,176 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getErrorMessage } from '@/utils/trpc';
+import { downloadFile } from '@/utils/download';
+import { getPreviousMonth } from '@/utils/period';
+import type { Affiliate, TaxpayerType } from '../../../../server/src/schema';
+
+interface TaxSettingsProps {
+  affiliate: Affiliate;
+}
+
+// The tax profile deciding how much income tax is withheld from payouts, and the monthly withholding slips
+export function TaxSettings({ affiliate }: TaxSettingsProps) {
+  const [taxpayerType, setTaxpayerType] = useState<TaxpayerType>('individual');
+  const [npwp, setNpwp] = useState('');
+  const [registeredName, setRegisteredName] = useState('');
+  const [address, setAddress] = useState('');
+  const [period, setPeriod] = useState(getPreviousMonth());
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTaxProfile = useCallback(async () => {
+    try {
+      const profile = await trpc.getTaxProfile.query(affiliate.id);
+      setTaxpayerType(profile.taxpayer_type);
+      setNpwp(profile.npwp ?? '');
+      setRegisteredName(profile.registered_name ?? '');
+      setAddress(profile.address ?? '');
+    } catch (error) {
+      console.error('Failed to load tax profile:', error);
+      setError(getErrorMessage(error, 'Failed to load your tax profile. Please try again.'));
+    }
+  }, [affiliate.id]);
+
+  useEffect(() => {
+    loadTaxProfile();
+  }, [loadTaxProfile]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const digits = npwp.replace(/[\s.-]/g, '');
+    if (digits !== '' && !/^\d{15,16}$/.test(digits)) {
+      setError('NPWP must be 15 or 16 digits.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await trpc.updateTaxProfile.mutate({
+        affiliate_id: affiliate.id,
+        taxpayer_type: taxpayerType,
+        npwp: digits || null,
+        registered_name: registeredName || null,
+        address: address || null
+      });
+      await loadTaxProfile();
+      setError('');
+      setSaved(true);
+    } catch (error) {
+      console.error('Failed to update tax profile:', error);
+      setError(getErrorMessage(error, 'Failed to update your tax profile. Please check the details.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownloadSlip = async () => {
+    try {
+      const slip = await trpc.getWithholdingSlip.query({ affiliate_id: affiliate.id, period });
+      downloadFile(slip.filename, slip.content);
+      setError('');
+    } catch (error) {
+      console.error('Failed to download withholding slip:', error);
+      setError(getErrorMessage(error, 'Failed to download the withholding slip. Please try again.'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">🧾 Tax</CardTitle>
+        <CardDescription>
+          Income tax is withheld from each payout: PPh 21 for individuals, PPh 23 for companies. Without an NPWP the rate is higher.
+          Changes apply to payouts requested afterwards.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {saved && !error && (
+          <Alert>
+            <AlertDescription>✅ Your tax profile has been updated.</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Taxpayer</label>
+              <Select
+                value={taxpayerType || 'individual'}
+                onValueChange={(value: TaxpayerType) => {
+                  setTaxpayerType(value);
+                  setSaved(false);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="individual">👤 Individual (PPh 21)</SelectItem>
+                  <SelectItem value="company">🏢 Company (PPh 23)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">NPWP</label>
+              <Input
+                placeholder="Leave empty if you have none"
+                inputMode="numeric"
+                value={npwp}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  setNpwp(e.target.value);
+                  setSaved(false);
+                }}
+              />
+            </div>
+          </div>
+          <Input
+            placeholder="Name as registered on the NPWP"
+            value={registeredName}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setRegisteredName(e.target.value);
+              setSaved(false);
+            }}
+          />
+          <Input
+            placeholder="Address"
+            value={address}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setAddress(e.target.value);
+              setSaved(false);
+            }}
+          />
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Tax Profile'}
+          </Button>
+        </form>
+
+        <div className="border-t pt-4 space-y-2">
+          <p className="text-sm font-medium">Withholding Slip (Bukti Potong)</p>
+          <p className="text-sm text-gray-600">Tax withheld from the payouts completed in a month, for your annual tax return</p>
+          <div className="flex gap-2">
+            <Input
+              type="month"
+              className="w-48"
+              value={period}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPeriod(e.target.value)}
+            />
+            <Button variant="outline" disabled={!period} onClick={handleDownloadSlip}>
+              ⬇️ Download
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
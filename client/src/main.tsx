@@ -2,9 +2,13 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { StudentRegistrationPage } from './components/StudentRegistrationPage.tsx'
+
+// Referral links land on /register; everything else is the partner app
+const isStudentRegistration = window.location.pathname.replace(/\/+$/, '') === '/register'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isStudentRegistration ? <StudentRegistrationPage /> : <App />}
   </StrictMode>,
 )
@@ -0,0 +1,9 @@
+// Save text generated by the server, such as a CSV export, as a file in the browser
+export const downloadFile = (filename: string, content: string, type = 'text/csv;charset=utf-8'): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,68 @@
+import {
+  BANK_NAMES,
+  EWALLET_PROVIDER_NAMES,
+  payoutAccountDetailsSchema,
+  type BankCode,
+  type EwalletProvider,
+  type PayoutAccount,
+  type PayoutAccountDetails,
+  type PayoutAccountType
+} from '../../../server/src/schema';
+
+// Form state of a payout account before it is validated
+export interface PayoutAccountDraft {
+  account_type: PayoutAccountType;
+  bank_code: string;
+  ewallet_provider: string;
+  account_number: string;
+  account_holder: string;
+}
+
+export const emptyPayoutAccountDraft = (accountType: PayoutAccountType, accountHolder = ''): PayoutAccountDraft => ({
+  account_type: accountType,
+  bank_code: '',
+  ewallet_provider: '',
+  account_number: '',
+  account_holder: accountHolder
+});
+
+// Prefill the form with a saved account's details to edit them
+export const toPayoutAccountDraft = (account: PayoutAccount): PayoutAccountDraft => ({
+  account_type: account.account_type,
+  bank_code: account.bank_code ?? '',
+  ewallet_provider: account.ewallet_provider ?? '',
+  account_number: account.account_number,
+  account_holder: account.account_holder
+});
+
+// Validate a draft with the server's rules, so mistakes show before anything is submitted
+export const parsePayoutAccountDraft = (draft: PayoutAccountDraft): { details: PayoutAccountDetails | null; error: string } => {
+  const result = payoutAccountDetailsSchema.safeParse(draft.account_type === 'bank'
+    ? { account_type: 'bank', bank_code: draft.bank_code, account_number: draft.account_number, account_holder: draft.account_holder }
+    : { account_type: 'ewallet', ewallet_provider: draft.ewallet_provider, account_number: draft.account_number, account_holder: draft.account_holder });
+
+  if (result.success) {
+    return { details: result.data, error: '' };
+  }
+
+  const issue = result.error.issues[0];
+  switch (issue.path[0]) {
+    case 'bank_code': return { details: null, error: 'Choose the bank of the account.' };
+    case 'ewallet_provider': return { details: null, error: 'Choose the e-wallet provider.' };
+    case 'account_holder': return { details: null, error: 'Enter the name the account is registered to.' };
+    default: return { details: null, error: `${issue.message}.` };
+  }
+};
+
+// Works for saved accounts and for the destination snapshot on a payout
+export const getProviderName = (account: { account_type: PayoutAccountType; bank_code: string | null; ewallet_provider: EwalletProvider | null }): string => {
+  if (account.account_type === 'bank') {
+    return account.bank_code ? BANK_NAMES[account.bank_code as BankCode] ?? account.bank_code : 'Bank';
+  }
+  return account.ewallet_provider ? EWALLET_PROVIDER_NAMES[account.ewallet_provider] : 'E-wallet';
+};
+
+export const BANK_OPTIONS = (Object.entries(BANK_NAMES) as [BankCode, string][])
+  .sort(([, a], [, b]) => a.localeCompare(b));
+
+export const EWALLET_OPTIONS = Object.entries(EWALLET_PROVIDER_NAMES) as [EwalletProvider, string][];
@@ -0,0 +1,7 @@
+// Last month as YYYY-MM, the most recent one monthly slips and statements can be complete for
+export const getPreviousMonth = (): string => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
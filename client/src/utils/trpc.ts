@@ -1,4 +1,4 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, loggerLink, TRPCClientError } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
@@ -12,3 +12,23 @@ export const trpc = createTRPCClient<AppRouter>({
         }),
   ],
 });
+
+export const getErrorCode = (error: unknown): string | undefined =>
+  error instanceof TRPCClientError ? error.data?.code : undefined;
+
+// Authorization failures and rejected status transitions carry a message meant for the user; anything else gets the fallback
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof TRPCClientError) {
+    const code = error.data?.code;
+    if (code === 'UNAUTHORIZED') {
+      return 'Your session has expired. Please log in again.';
+    }
+    if (code === 'FORBIDDEN') {
+      return `Access denied: ${error.message}`;
+    }
+    if (code === 'CONFLICT') {
+      return error.message;
+    }
+  }
+  return fallback;
+};
@@ -0,0 +1,29 @@
+import { attributionSettingsSchema, type AttributionSettings, type AttributionModel } from './schema';
+
+const DEFAULT_ATTRIBUTION_SETTINGS: AttributionSettings = {
+  model: 'last_touch',
+  window_days: 30
+};
+
+// Attribution is configured per deployment with ATTRIBUTION_MODEL and ATTRIBUTION_WINDOW_DAYS
+export const getAttributionSettings = (): AttributionSettings => {
+  const result = attributionSettingsSchema.safeParse({
+    model: process.env['ATTRIBUTION_MODEL'] ?? DEFAULT_ATTRIBUTION_SETTINGS.model,
+    window_days: Number(process.env['ATTRIBUTION_WINDOW_DAYS'] ?? DEFAULT_ATTRIBUTION_SETTINGS.window_days)
+  });
+
+  if (!result.success) {
+    console.error('Invalid attribution settings, using defaults:', result.error.flatten().fieldErrors);
+    return DEFAULT_ATTRIBUTION_SETTINGS;
+  }
+
+  return result.data;
+};
+
+// Touches must be ordered by landing time, oldest first
+export const selectAttributedTouch = <T>(touches: T[], model: AttributionModel): T | null => {
+  if (touches.length === 0) {
+    return null;
+  }
+  return model === 'first_touch' ? touches[0] : touches[touches.length - 1];
+};
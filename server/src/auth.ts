@@ -0,0 +1,87 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+
+// Session cookie configuration
+export const SESSION_COOKIE_NAME = 'eb_session';
+export const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+const SCRYPT_KEY_LENGTH = 64;
+
+const scryptAsync = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+
+// Hash a plain text password as "scrypt$<salt hex>$<key hex>"
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const derivedKey = await scryptAsync(password, salt);
+  return `scrypt$${salt.toString('hex')}$${derivedKey.toString('hex')}`;
+};
+
+// Verify a plain text password against a stored hash; unknown formats never match
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const [algorithm, saltHex, keyHex] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !saltHex || !keyHex) {
+    return false;
+  }
+
+  const storedKey = Buffer.from(keyHex, 'hex');
+  const derivedKey = await scryptAsync(password, Buffer.from(saltHex, 'hex'));
+  return storedKey.length === derivedKey.length && timingSafeEqual(storedKey, derivedKey);
+};
+
+// Session tokens are random; only their SHA-256 digest is stored in the database
+export const generateSessionToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashSessionToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+// Read a single cookie value from the request's Cookie header
+export const getCookieFromRequest = (req: IncomingMessage, cookieName: string): string | null => {
+  const header = req.headers.cookie;
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(';')) {
+    const [name, ...valueParts] = part.trim().split('=');
+    if (name === cookieName) {
+      // A malformed value is treated as no cookie rather than failing every request from the client
+      try {
+        return decodeURIComponent(valueParts.join('='));
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return null;
+};
+
+export const getSessionTokenFromRequest = (req: IncomingMessage): string | null =>
+  getCookieFromRequest(req, SESSION_COOKIE_NAME);
+
+// Build a Set-Cookie header value; pass a null token to clear the cookie
+export const serializeSessionCookie = (token: string | null, secure: boolean): string => {
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${token ? encodeURIComponent(token) : ''}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${token ? Math.floor(SESSION_TTL_MS / 1000) : 0}`
+  ];
+
+  if (secure) {
+    attributes.push('Secure');
+  }
+
+  return attributes.join('; ');
+};
+
+// Requests arrive through Caddy, which reports the original scheme
+export const isSecureRequest = (req: IncomingMessage): boolean =>
+  req.headers['x-forwarded-proto'] === 'https';
@@ -0,0 +1,25 @@
+import { commissionHoldSettingsSchema, type CommissionHoldSettings } from './schema';
+
+const DEFAULT_COMMISSION_HOLD_SETTINGS: CommissionHoldSettings = {
+  hold_days: 14,
+  until_program_start: false
+};
+
+// Commission becomes withdrawable COMMISSION_HOLD_DAYS days after the registration is confirmed;
+// with COMMISSION_HOLD_UNTIL_PROGRAM_START=true it also waits for the registration's intake to start
+export const getCommissionHoldSettings = (): CommissionHoldSettings => {
+  const untilProgramStart = process.env['COMMISSION_HOLD_UNTIL_PROGRAM_START'];
+  const result = commissionHoldSettingsSchema.safeParse({
+    hold_days: Number(process.env['COMMISSION_HOLD_DAYS'] ?? DEFAULT_COMMISSION_HOLD_SETTINGS.hold_days),
+    until_program_start: untilProgramStart === undefined
+      ? DEFAULT_COMMISSION_HOLD_SETTINGS.until_program_start
+      : untilProgramStart === 'true'
+  });
+
+  if (!result.success) {
+    console.error('Invalid commission hold settings, using defaults:', result.error.flatten().fieldErrors);
+    return DEFAULT_COMMISSION_HOLD_SETTINGS;
+  }
+
+  return result.data;
+};
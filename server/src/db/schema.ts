@@ -1,14 +1,31 @@
-import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, varchar, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, varchar, index, uniqueIndex, jsonb } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import { type AttributionTouch, type AuditChanges, type PayoutDestination } from '../schema';
 
 // Enum definitions
 export const userRoleEnum = pgEnum('user_role', ['admin', 'affiliate']);
 export const affiliateStatusEnum = pgEnum('affiliate_status', ['pending', 'approved', 'rejected', 'suspended']);
 export const programCategoryEnum = pgEnum('program_category', ['online', 'offline_pare', 'group', 'branch']);
-export const programLocationEnum = pgEnum('program_location', ['online', 'pare', 'malang', 'sidoarjo', 'nganjuk']);
-export const registrationStatusEnum = pgEnum('registration_status', ['pending', 'confirmed', 'cancelled']);
+export const registrationStatusEnum = pgEnum('registration_status', ['pending', 'confirmed', 'cancelled', 'refunded', 'waitlisted']);
 export const payoutStatusEnum = pgEnum('payout_status', ['pending', 'processing', 'completed', 'failed']);
+export const commissionTypeEnum = pgEnum('commission_type', ['percentage', 'flat']);
+export const attributionRuleEnum = pgEnum('attribution_rule', ['first_touch', 'last_touch', 'referral_code']);
 export const payoutMethodEnum = pgEnum('payout_method', ['bank_transfer', 'ewallet']);
+export const ledgerEntryTypeEnum = pgEnum('ledger_entry_type', [
+  'commission_earned', 'commission_reversed', 'payout_reserved', 'payout_released', 'payout_paid', 'adjustment'
+]);
+export const statusEntityEnum = pgEnum('status_entity', ['registration', 'affiliate', 'payout']);
+export const ledgerAccountEnum = pgEnum('ledger_account', ['company', 'available', 'reserved', 'paid']);
+export const payoutAccountTypeEnum = pgEnum('payout_account_type', ['bank', 'ewallet']);
+export const ewalletProviderEnum = pgEnum('ewallet_provider', ['gopay', 'ovo', 'dana', 'shopeepay']);
+export const payoutAccountVerificationEnum = pgEnum('payout_account_verification', ['pending', 'verified', 'rejected']);
+export const taxpayerTypeEnum = pgEnum('taxpayer_type', ['individual', 'company']);
+export const withholdingTaxEnum = pgEnum('withholding_tax', ['pph21', 'pph23']);
+export const payoutRunStatusEnum = pgEnum('payout_run_status', ['processing', 'completed', 'partially_failed', 'failed']);
+export const auditEntityEnum = pgEnum('audit_entity', [
+  'user', 'affiliate', 'affiliate_tier', 'branch', 'program', 'program_intake', 'commission_rule', 'registration', 'payout',
+  'payout_run', 'payout_account', 'ledger_entry', 'tax_profile'
+]);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -26,17 +43,32 @@ export const usersTable = pgTable('users', {
   };
 });
 
+// Affiliate tiers table; tiers are ranked by level and replace the default rate of affiliates who reach them
+export const affiliateTiersTable = pgTable('affiliate_tiers', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull().unique(),
+  level: integer('level').notNull().unique(),
+  commission_rate: numeric('commission_rate', { precision: 5, scale: 4 }).notNull(),
+  min_confirmed_registrations: integer('min_confirmed_registrations'),
+  min_revenue: numeric('min_revenue', { precision: 14, scale: 2 }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Affiliates table
 export const affiliatesTable = pgTable('affiliates', {
   id: serial('id').primaryKey(),
   user_id: integer('user_id').notNull().references(() => usersTable.id),
   referral_code: varchar('referral_code', { length: 50 }).notNull().unique(),
+  // Legacy free-text payout details, superseded by payout_accounts and read only by the payout account backfill
   bank_name: varchar('bank_name', { length: 100 }),
   bank_account_number: varchar('bank_account_number', { length: 50 }),
   bank_account_name: varchar('bank_account_name', { length: 255 }),
   ewallet_type: varchar('ewallet_type', { length: 50 }),
   ewallet_number: varchar('ewallet_number', { length: 50 }),
   commission_rate: numeric('commission_rate', { precision: 5, scale: 4 }).notNull(), // e.g., 0.0500 for 5%
+  tier_id: integer('tier_id').references(() => affiliateTiersTable.id),
+  tier_evaluated_at: timestamp('tier_evaluated_at'),
   status: affiliateStatusEnum('status').notNull().default('pending'),
   approved_by: integer('approved_by').references(() => usersTable.id),
   approved_at: timestamp('approved_at'),
@@ -50,16 +82,29 @@ export const affiliatesTable = pgTable('affiliates', {
   };
 });
 
+// Branches programs run at; programs and commission rules refer to a branch by its code, so opening one needs no schema change
+export const branchesTable = pgTable('branches', {
+  id: serial('id').primaryKey(),
+  code: varchar('code', { length: 50 }).notNull().unique(), // Never changes once programs use it, e.g. 'pare'
+  name: varchar('name', { length: 255 }).notNull(),
+  address: text('address'),
+  contact: varchar('contact', { length: 255 }), // Phone or WhatsApp number of the branch
+  is_active: boolean('is_active').notNull().default(true), // Closed branches take no new programs
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Programs table
 export const programsTable = pgTable('programs', {
   id: serial('id').primaryKey(),
   name: varchar('name', { length: 255 }).notNull(),
   description: text('description'),
   category: programCategoryEnum('category').notNull(),
-  location: programLocationEnum('location').notNull(),
+  location: varchar('location', { length: 50 }).notNull().references(() => branchesTable.code), // Branch code
   price: numeric('price', { precision: 12, scale: 2 }).notNull(),
   duration_weeks: integer('duration_weeks'),
   is_active: boolean('is_active').notNull().default(true),
+  archived_at: timestamp('archived_at'), // Archived programs are inactive for good and hidden from program lists
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => {
@@ -70,55 +115,287 @@ export const programsTable = pgTable('programs', {
   };
 });
 
+// Every price a program has had; the latest is the program's current price and registrations point at the one they were quoted
+export const programPricesTable = pgTable('program_prices', {
+  id: serial('id').primaryKey(),
+  program_id: integer('program_id').notNull().references(() => programsTable.id),
+  price: numeric('price', { precision: 12, scale: 2 }).notNull(),
+  effective_from: timestamp('effective_from').defaultNow().notNull(),
+  changed_by: integer('changed_by').references(() => usersTable.id), // Null for prices recorded from existing programs
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    programIdx: index('program_prices_program_idx').on(table.program_id),
+  };
+});
+
+// Dated batches of a program with limited seats; pending and confirmed registrations take a seat, later ones are waitlisted
+export const programIntakesTable = pgTable('program_intakes', {
+  id: serial('id').primaryKey(),
+  program_id: integer('program_id').notNull().references(() => programsTable.id),
+  start_date: timestamp('start_date').notNull(),
+  end_date: timestamp('end_date').notNull(),
+  capacity: integer('capacity').notNull(),
+  registration_deadline: timestamp('registration_deadline').notNull(), // No registrations, waitlisted or not, after this
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    programIdx: index('program_intakes_program_idx').on(table.program_id),
+    startDateIdx: index('program_intakes_start_date_idx').on(table.start_date),
+  };
+});
+
+// Commission rules table; null scope columns act as wildcards
+export const commissionRulesTable = pgTable('commission_rules', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  commission_type: commissionTypeEnum('commission_type').notNull(),
+  value: numeric('value', { precision: 12, scale: 4 }).notNull(), // Fraction for percentage rules, IDR for flat rules
+  affiliate_id: integer('affiliate_id').references(() => affiliatesTable.id),
+  program_id: integer('program_id').references(() => programsTable.id),
+  category: programCategoryEnum('category'),
+  location: varchar('location', { length: 50 }).references(() => branchesTable.code), // Branch code
+  effective_from: timestamp('effective_from'),
+  effective_to: timestamp('effective_to'), // Exclusive
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    affiliateIdx: index('commission_rules_affiliate_idx').on(table.affiliate_id),
+    programIdx: index('commission_rules_program_idx').on(table.program_id),
+  };
+});
+
 // Student registrations table
 export const studentRegistrationsTable = pgTable('student_registrations', {
   id: serial('id').primaryKey(),
-  affiliate_id: integer('affiliate_id').notNull().references(() => affiliatesTable.id),
+  affiliate_id: integer('affiliate_id').references(() => affiliatesTable.id), // Null when no valid referral was given
   program_id: integer('program_id').notNull().references(() => programsTable.id),
   student_name: varchar('student_name', { length: 255 }).notNull(),
   student_email: varchar('student_email', { length: 255 }).notNull(),
   student_phone: varchar('student_phone', { length: 20 }).notNull(),
   student_address: text('student_address'),
-  referral_code: varchar('referral_code', { length: 50 }).notNull(),
+  referral_code: varchar('referral_code', { length: 50 }),
   status: registrationStatusEnum('status').notNull().default('pending'),
-  registration_fee: numeric('registration_fee', { precision: 12, scale: 2 }).notNull(),
-  commission_amount: numeric('commission_amount', { precision: 12, scale: 2 }).notNull(),
+  registration_fee: numeric('registration_fee', { precision: 12, scale: 2 }).notNull(), // Program price at registration
+  program_price_id: integer('program_price_id').references(() => programPricesTable.id), // The quoted price; null before price history
+  intake_id: integer('intake_id').references(() => programIntakesTable.id), // Null for programs without intakes
+  amount_paid: numeric('amount_paid', { precision: 12, scale: 2 }), // Set on confirmation
+  commission_amount: numeric('commission_amount', { precision: 12, scale: 2 }).notNull(), // Recomputed on confirmation
+  estimated_commission_amount: numeric('estimated_commission_amount', { precision: 12, scale: 2 }), // Commission quoted at registration
+  commission_rule_id: integer('commission_rule_id').references(() => commissionRulesTable.id), // Null when the affiliate's default rate was used
+  attribution_rule: attributionRuleEnum('attribution_rule'), // Null when unattributed
+  attribution_window_days: integer('attribution_window_days'),
+  attribution_touches: jsonb('attribution_touches').$type<AttributionTouch[]>(),
   confirmed_by: integer('confirmed_by').references(() => usersTable.id),
   confirmed_at: timestamp('confirmed_at'),
+  refunded_at: timestamp('refunded_at'), // Set while refunded; the confirmation is kept as the record of payment
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => {
   return {
     affiliateIdx: index('student_registrations_affiliate_idx').on(table.affiliate_id),
     programIdx: index('student_registrations_program_idx').on(table.program_id),
+    intakeIdx: index('student_registrations_intake_idx').on(table.intake_id),
     statusIdx: index('student_registrations_status_idx').on(table.status),
     referralCodeIdx: index('student_registrations_referral_code_idx').on(table.referral_code),
     createdAtIdx: index('student_registrations_created_at_idx').on(table.created_at),
   };
 });
 
+// Payout accounts table; accounts are deactivated rather than deleted, and payouts keep a snapshot of theirs
+export const payoutAccountsTable = pgTable('payout_accounts', {
+  id: serial('id').primaryKey(),
+  affiliate_id: integer('affiliate_id').notNull().references(() => affiliatesTable.id),
+  account_type: payoutAccountTypeEnum('account_type').notNull(),
+  bank_code: varchar('bank_code', { length: 3 }), // Null for e-wallets
+  ewallet_provider: ewalletProviderEnum('ewallet_provider'), // Null for bank accounts
+  account_number: varchar('account_number', { length: 50 }).notNull(),
+  account_holder: varchar('account_holder', { length: 255 }).notNull(),
+  is_default: boolean('is_default').notNull().default(false),
+  is_active: boolean('is_active').notNull().default(true),
+  verification_status: payoutAccountVerificationEnum('verification_status').notNull().default('pending'), // Payouts only go to verified accounts
+  verified_by: integer('verified_by').references(() => usersTable.id), // The admin who verified or rejected the details
+  verified_at: timestamp('verified_at'),
+  rejection_reason: text('rejection_reason'),
+  submitted_with_application: boolean('submitted_with_application').notNull().default(false), // Given at sign-up and not edited since
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    affiliateIdx: index('payout_accounts_affiliate_idx').on(table.affiliate_id),
+    verificationIdx: index('payout_accounts_verification_idx').on(table.verification_status),
+  };
+});
+
+// Tax profile deciding how income tax is withheld from an affiliate's payouts; affiliates without one
+// are treated as individuals without an NPWP
+export const affiliateTaxProfilesTable = pgTable('affiliate_tax_profiles', {
+  id: serial('id').primaryKey(),
+  affiliate_id: integer('affiliate_id').notNull().references(() => affiliatesTable.id),
+  taxpayer_type: taxpayerTypeEnum('taxpayer_type').notNull().default('individual'),
+  npwp: varchar('npwp', { length: 16 }), // Digits only; null when the affiliate has no NPWP
+  registered_name: varchar('registered_name', { length: 255 }), // Name on the NPWP, printed on withholding slips
+  address: text('address'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    affiliateIdx: uniqueIndex('affiliate_tax_profiles_affiliate_idx').on(table.affiliate_id),
+  };
+});
+
+// Batch of payouts moved to processing together and sent in one bank transfer file
+export const payoutRunsTable = pgTable('payout_runs', {
+  id: serial('id').primaryKey(),
+  status: payoutRunStatusEnum('status').notNull().default('processing'),
+  created_by: integer('created_by').notNull().references(() => usersTable.id),
+  completed_by: integer('completed_by').references(() => usersTable.id),
+  completed_at: timestamp('completed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Commission payouts table
 export const commissionPayoutsTable = pgTable('commission_payouts', {
   id: serial('id').primaryKey(),
   affiliate_id: integer('affiliate_id').notNull().references(() => affiliatesTable.id),
   amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
   method: payoutMethodEnum('method').notNull(),
-  bank_details: text('bank_details'), // JSON string for bank transfer details
-  ewallet_details: text('ewallet_details'), // JSON string for e-wallet details
+  payout_account_id: integer('payout_account_id').references(() => payoutAccountsTable.id),
+  destination: jsonb('destination').$type<PayoutDestination>(), // Copy of the account at request time; null only before the backfill
+  // Legacy free-text details of payouts requested before payout accounts, read only by the backfill
+  bank_details: text('bank_details'),
+  ewallet_details: text('ewallet_details'),
   status: payoutStatusEnum('status').notNull().default('pending'),
   processed_by: integer('processed_by').references(() => usersTable.id),
   processed_at: timestamp('processed_at'),
   notes: text('notes'),
+  payout_run_id: integer('payout_run_id').references(() => payoutRunsTable.id),
+  bank_reference: text('bank_reference'), // Transaction reference from the bank statement the payout was reconciled against
+  // Income tax withheld from the amount, fixed when the payout is requested; null tax type on payouts made before withholding
+  tax_type: withholdingTaxEnum('tax_type'),
+  tax_base: numeric('tax_base', { precision: 12, scale: 2 }).notNull().default('0'),
+  tax_rate: numeric('tax_rate', { precision: 6, scale: 4 }).notNull().default('0'), // Effective rate on the tax base
+  tax_amount: numeric('tax_amount', { precision: 12, scale: 2 }).notNull().default('0'),
+  tax_npwp: varchar('tax_npwp', { length: 16 }), // The NPWP the rate was based on
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => {
   return {
     affiliateIdx: index('commission_payouts_affiliate_idx').on(table.affiliate_id),
+    payoutRunIdx: index('commission_payouts_payout_run_idx').on(table.payout_run_id),
     statusIdx: index('commission_payouts_status_idx').on(table.status),
     createdAtIdx: index('commission_payouts_created_at_idx').on(table.created_at),
   };
 });
 
+// Sessions table
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: varchar('token_hash', { length: 64 }).notNull(), // SHA-256 of the cookie token
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    tokenHashIdx: uniqueIndex('sessions_token_hash_idx').on(table.token_hash),
+    userIdIdx: index('sessions_user_id_idx').on(table.user_id),
+  };
+});
+
+// Referral clicks table (one row per visit to a referral link)
+export const referralClicksTable = pgTable('referral_clicks', {
+  id: serial('id').primaryKey(),
+  affiliate_id: integer('affiliate_id').notNull().references(() => affiliatesTable.id),
+  referral_code: varchar('referral_code', { length: 50 }).notNull(),
+  program_id: integer('program_id').references(() => programsTable.id),
+  click_token: varchar('click_token', { length: 64 }).notNull(), // Handed to the browser to link the eventual registration
+  visitor_id: varchar('visitor_id', { length: 64 }), // From the visitor cookie, shared by all clicks of one browser
+  user_agent: text('user_agent'),
+  referrer: text('referrer'),
+  ip_hash: varchar('ip_hash', { length: 64 }), // SHA-256 of the visitor IP, never the raw address
+  registration_id: integer('registration_id').references(() => studentRegistrationsTable.id),
+  landed_at: timestamp('landed_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    affiliateIdx: index('referral_clicks_affiliate_idx').on(table.affiliate_id),
+    clickTokenIdx: uniqueIndex('referral_clicks_click_token_idx').on(table.click_token),
+    visitorIdx: index('referral_clicks_visitor_idx').on(table.visitor_id),
+    registrationIdx: index('referral_clicks_registration_idx').on(table.registration_id),
+    landedAtIdx: index('referral_clicks_landed_at_idx').on(table.landed_at),
+  };
+});
+
+// Commission ledger; append-only, each entry moves an amount between two of the affiliate's accounts
+export const ledgerEntriesTable = pgTable('ledger_entries', {
+  id: serial('id').primaryKey(),
+  affiliate_id: integer('affiliate_id').notNull().references(() => affiliatesTable.id),
+  entry_type: ledgerEntryTypeEnum('entry_type').notNull(),
+  from_account: ledgerAccountEnum('from_account').notNull(),
+  to_account: ledgerAccountEnum('to_account').notNull(),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(), // Always positive
+  registration_id: integer('registration_id').references(() => studentRegistrationsTable.id),
+  payout_id: integer('payout_id').references(() => commissionPayoutsTable.id),
+  description: text('description'),
+  created_by: integer('created_by').references(() => usersTable.id), // Null for system entries
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    affiliateIdx: index('ledger_entries_affiliate_idx').on(table.affiliate_id),
+    registrationIdx: index('ledger_entries_registration_idx').on(table.registration_id),
+    payoutIdx: index('ledger_entries_payout_idx').on(table.payout_id),
+  };
+});
+
+// Every status change of a registration, affiliate or payout, oldest first
+export const statusHistoryTable = pgTable('status_history', {
+  id: serial('id').primaryKey(),
+  entity_type: statusEntityEnum('entity_type').notNull(),
+  entity_id: integer('entity_id').notNull(),
+  from_status: text('from_status').notNull(),
+  to_status: text('to_status').notNull(),
+  actor_id: integer('actor_id').references(() => usersTable.id),
+  reason: text('reason'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    entityIdx: index('status_history_entity_idx').on(table.entity_type, table.entity_id),
+  };
+});
+
+// One row per successful mutation by a logged-in user, with the fields it changed
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  actor_id: integer('actor_id').references(() => usersTable.id), // Null on entries written before anonymous calls were left out
+  procedure: text('procedure').notNull(),
+  entity_type: auditEntityEnum('entity_type'),
+  entity_id: integer('entity_id'),
+  changes: jsonb('changes').$type<AuditChanges>(),
+  ip_hash: text('ip_hash'), // Salted SHA-256 of the caller's IP, as for referral clicks
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    entityIdx: index('audit_log_entity_idx').on(table.entity_type, table.entity_id),
+    actorIdx: index('audit_log_actor_idx').on(table.actor_id),
+    createdAtIdx: index('audit_log_created_at_idx').on(table.created_at),
+  };
+});
+
+// Messages shown to a user in the app, such as the outcome of a payout account review
+export const notificationsTable = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  title: varchar('title', { length: 255 }).notNull(),
+  message: text('message').notNull(),
+  read_at: timestamp('read_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('notifications_user_idx').on(table.user_id, table.created_at),
+  };
+});
+
 // Relations
 export const usersRelations = relations(usersTable, ({ one, many }) => ({
   affiliate: one(affiliatesTable, {
@@ -134,6 +411,15 @@ export const usersRelations = relations(usersTable, ({ one, many }) => ({
   processedPayouts: many(commissionPayoutsTable, {
     relationName: 'processedBy',
   }),
+  sessions: many(sessionsTable),
+  verifiedPayoutAccounts: many(payoutAccountsTable, {
+    relationName: 'verifiedBy',
+  }),
+  notifications: many(notificationsTable),
+}));
+
+export const affiliateTiersRelations = relations(affiliateTiersTable, ({ many }) => ({
+  affiliates: many(affiliatesTable),
 }));
 
 export const affiliatesRelations = relations(affiliatesTable, ({ one, many }) => ({
@@ -141,6 +427,10 @@ export const affiliatesRelations = relations(affiliatesTable, ({ one, many }) =>
     fields: [affiliatesTable.user_id],
     references: [usersTable.id],
   }),
+  tier: one(affiliateTiersTable, {
+    fields: [affiliatesTable.tier_id],
+    references: [affiliateTiersTable.id],
+  }),
   approvedBy: one(usersTable, {
     fields: [affiliatesTable.approved_by],
     references: [usersTable.id],
@@ -148,9 +438,65 @@ export const affiliatesRelations = relations(affiliatesTable, ({ one, many }) =>
   }),
   registrations: many(studentRegistrationsTable),
   payouts: many(commissionPayoutsTable),
+  clicks: many(referralClicksTable),
+  commissionRules: many(commissionRulesTable),
+  ledgerEntries: many(ledgerEntriesTable),
+  payoutAccounts: many(payoutAccountsTable),
+  taxProfile: one(affiliateTaxProfilesTable, {
+    fields: [affiliatesTable.id],
+    references: [affiliateTaxProfilesTable.affiliate_id],
+  }),
+}));
+
+export const branchesRelations = relations(branchesTable, ({ many }) => ({
+  programs: many(programsTable),
+  commissionRules: many(commissionRulesTable),
 }));
 
-export const programsRelations = relations(programsTable, ({ many }) => ({
+export const programsRelations = relations(programsTable, ({ one, many }) => ({
+  branch: one(branchesTable, {
+    fields: [programsTable.location],
+    references: [branchesTable.code],
+  }),
+  registrations: many(studentRegistrationsTable),
+  commissionRules: many(commissionRulesTable),
+  prices: many(programPricesTable),
+  intakes: many(programIntakesTable),
+}));
+
+export const programPricesRelations = relations(programPricesTable, ({ one, many }) => ({
+  program: one(programsTable, {
+    fields: [programPricesTable.program_id],
+    references: [programsTable.id],
+  }),
+  changedBy: one(usersTable, {
+    fields: [programPricesTable.changed_by],
+    references: [usersTable.id],
+  }),
+  registrations: many(studentRegistrationsTable),
+}));
+
+export const programIntakesRelations = relations(programIntakesTable, ({ one, many }) => ({
+  program: one(programsTable, {
+    fields: [programIntakesTable.program_id],
+    references: [programsTable.id],
+  }),
+  registrations: many(studentRegistrationsTable),
+}));
+
+export const commissionRulesRelations = relations(commissionRulesTable, ({ one, many }) => ({
+  affiliate: one(affiliatesTable, {
+    fields: [commissionRulesTable.affiliate_id],
+    references: [affiliatesTable.id],
+  }),
+  branch: one(branchesTable, {
+    fields: [commissionRulesTable.location],
+    references: [branchesTable.code],
+  }),
+  program: one(programsTable, {
+    fields: [commissionRulesTable.program_id],
+    references: [programsTable.id],
+  }),
   registrations: many(studentRegistrationsTable),
 }));
 
@@ -163,6 +509,18 @@ export const studentRegistrationsRelations = relations(studentRegistrationsTable
     fields: [studentRegistrationsTable.program_id],
     references: [programsTable.id],
   }),
+  commissionRule: one(commissionRulesTable, {
+    fields: [studentRegistrationsTable.commission_rule_id],
+    references: [commissionRulesTable.id],
+  }),
+  programPrice: one(programPricesTable, {
+    fields: [studentRegistrationsTable.program_price_id],
+    references: [programPricesTable.id],
+  }),
+  intake: one(programIntakesTable, {
+    fields: [studentRegistrationsTable.intake_id],
+    references: [programIntakesTable.id],
+  }),
   confirmedBy: one(usersTable, {
     fields: [studentRegistrationsTable.confirmed_by],
     references: [usersTable.id],
@@ -180,29 +538,177 @@ export const commissionPayoutsRelations = relations(commissionPayoutsTable, ({ o
     references: [usersTable.id],
     relationName: 'processedBy',
   }),
+  payoutRun: one(payoutRunsTable, {
+    fields: [commissionPayoutsTable.payout_run_id],
+    references: [payoutRunsTable.id],
+  }),
+  payoutAccount: one(payoutAccountsTable, {
+    fields: [commissionPayoutsTable.payout_account_id],
+    references: [payoutAccountsTable.id],
+  }),
+}));
+
+export const payoutAccountsRelations = relations(payoutAccountsTable, ({ one, many }) => ({
+  affiliate: one(affiliatesTable, {
+    fields: [payoutAccountsTable.affiliate_id],
+    references: [affiliatesTable.id],
+  }),
+  verifier: one(usersTable, {
+    fields: [payoutAccountsTable.verified_by],
+    references: [usersTable.id],
+    relationName: 'verifiedBy',
+  }),
+  payouts: many(commissionPayoutsTable),
+}));
+
+export const payoutRunsRelations = relations(payoutRunsTable, ({ many }) => ({
+  payouts: many(commissionPayoutsTable),
+}));
+
+export const referralClicksRelations = relations(referralClicksTable, ({ one }) => ({
+  affiliate: one(affiliatesTable, {
+    fields: [referralClicksTable.affiliate_id],
+    references: [affiliatesTable.id],
+  }),
+  program: one(programsTable, {
+    fields: [referralClicksTable.program_id],
+    references: [programsTable.id],
+  }),
+  registration: one(studentRegistrationsTable, {
+    fields: [referralClicksTable.registration_id],
+    references: [studentRegistrationsTable.id],
+  }),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntriesTable, ({ one }) => ({
+  affiliate: one(affiliatesTable, {
+    fields: [ledgerEntriesTable.affiliate_id],
+    references: [affiliatesTable.id],
+  }),
+  registration: one(studentRegistrationsTable, {
+    fields: [ledgerEntriesTable.registration_id],
+    references: [studentRegistrationsTable.id],
+  }),
+  payout: one(commissionPayoutsTable, {
+    fields: [ledgerEntriesTable.payout_id],
+    references: [commissionPayoutsTable.id],
+  }),
+  createdBy: one(usersTable, {
+    fields: [ledgerEntriesTable.created_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const statusHistoryRelations = relations(statusHistoryTable, ({ one }) => ({
+  actor: one(usersTable, {
+    fields: [statusHistoryTable.actor_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const auditLogRelations = relations(auditLogTable, ({ one }) => ({
+  actor: one(usersTable, {
+    fields: [auditLogTable.actor_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notificationsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [notificationsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const affiliateTaxProfilesRelations = relations(affiliateTaxProfilesTable, ({ one }) => ({
+  affiliate: one(affiliatesTable, {
+    fields: [affiliateTaxProfilesTable.affiliate_id],
+    references: [affiliatesTable.id],
+  }),
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
 }));
 
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type AffiliateTier = typeof affiliateTiersTable.$inferSelect;
+export type NewAffiliateTier = typeof affiliateTiersTable.$inferInsert;
+
 export type Affiliate = typeof affiliatesTable.$inferSelect;
 export type NewAffiliate = typeof affiliatesTable.$inferInsert;
 
+export type Branch = typeof branchesTable.$inferSelect;
+export type NewBranch = typeof branchesTable.$inferInsert;
+
 export type Program = typeof programsTable.$inferSelect;
 export type NewProgram = typeof programsTable.$inferInsert;
+export type ProgramPrice = typeof programPricesTable.$inferSelect;
+export type NewProgramPrice = typeof programPricesTable.$inferInsert;
+export type ProgramIntake = typeof programIntakesTable.$inferSelect;
+export type NewProgramIntake = typeof programIntakesTable.$inferInsert;
+
+export type CommissionRule = typeof commissionRulesTable.$inferSelect;
+export type NewCommissionRule = typeof commissionRulesTable.$inferInsert;
 
 export type StudentRegistration = typeof studentRegistrationsTable.$inferSelect;
 export type NewStudentRegistration = typeof studentRegistrationsTable.$inferInsert;
 
+export type PayoutAccount = typeof payoutAccountsTable.$inferSelect;
+export type NewPayoutAccount = typeof payoutAccountsTable.$inferInsert;
+
+export type AffiliateTaxProfile = typeof affiliateTaxProfilesTable.$inferSelect;
+export type NewAffiliateTaxProfile = typeof affiliateTaxProfilesTable.$inferInsert;
+
+export type PayoutRun = typeof payoutRunsTable.$inferSelect;
+export type NewPayoutRun = typeof payoutRunsTable.$inferInsert;
+
 export type CommissionPayout = typeof commissionPayoutsTable.$inferSelect;
 export type NewCommissionPayout = typeof commissionPayoutsTable.$inferInsert;
 
+export type ReferralClick = typeof referralClicksTable.$inferSelect;
+export type NewReferralClick = typeof referralClicksTable.$inferInsert;
+
+export type LedgerEntry = typeof ledgerEntriesTable.$inferSelect;
+export type NewLedgerEntry = typeof ledgerEntriesTable.$inferInsert;
+
+export type StatusHistory = typeof statusHistoryTable.$inferSelect;
+export type NewStatusHistory = typeof statusHistoryTable.$inferInsert;
+
+export type AuditLog = typeof auditLogTable.$inferSelect;
+export type NewAuditLog = typeof auditLogTable.$inferInsert;
+
+export type Notification = typeof notificationsTable.$inferSelect;
+export type NewNotification = typeof notificationsTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
   users: usersTable,
+  affiliateTiers: affiliateTiersTable,
   affiliates: affiliatesTable,
+  branches: branchesTable,
   programs: programsTable,
+  programPrices: programPricesTable,
+  programIntakes: programIntakesTable,
+  commissionRules: commissionRulesTable,
   studentRegistrations: studentRegistrationsTable,
+  payoutAccounts: payoutAccountsTable,
+  affiliateTaxProfiles: affiliateTaxProfilesTable,
+  payoutRuns: payoutRunsTable,
   commissionPayouts: commissionPayoutsTable,
+  sessions: sessionsTable,
+  referralClicks: referralClicksTable,
+  ledgerEntries: ledgerEntriesTable,
+  statusHistory: statusHistoryTable,
+  auditLog: auditLogTable,
+  notifications: notificationsTable,
 };
\ No newline at end of file
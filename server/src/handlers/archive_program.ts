@@ -0,0 +1,38 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { programsTable } from '../db/schema';
+import { type ProgramActionInput, type Program } from '../schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { toProgram } from '../helpers/programs';
+
+// Retire a program for good while its registrations, commission and price history stay on record
+export const archiveProgram = async (input: ProgramActionInput, actorId: number): Promise<Program> => {
+  try {
+    await requireAdmin(actorId);
+
+    const existing = await db.select()
+      .from(programsTable)
+      .where(eq(programsTable.id, input.program_id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Program with ID ${input.program_id} not found`);
+    }
+    if (existing[0].archived_at !== null) {
+      throw new TRPCError({ code: 'CONFLICT', message: `Program "${existing[0].name}" is already archived` });
+    }
+
+    const now = new Date();
+    const result = await db.update(programsTable)
+      .set({ is_active: false, archived_at: now, updated_at: now })
+      .where(eq(programsTable.id, input.program_id))
+      .returning()
+      .execute();
+
+    return toProgram(result[0]);
+  } catch (error) {
+    console.error('Program archiving failed:', error);
+    throw error;
+  }
+};
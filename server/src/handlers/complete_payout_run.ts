@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { payoutRunsTable, commissionPayoutsTable } from '../db/schema';
+import { type CompletePayoutRunInput, type PayoutRun } from '../schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { changePayoutStatus } from '../helpers/payouts';
+import { loadPayoutRuns, settlePayoutRun } from '../helpers/payout_runs';
+
+export const completePayoutRun = async (input: CompletePayoutRunInput, actorId: number): Promise<PayoutRun> => {
+  try {
+    // The acting admin is taken from the session, never from the request body
+    await requireAdmin(actorId);
+
+    const existing = await db.select()
+      .from(payoutRunsTable)
+      .where(eq(payoutRunsTable.id, input.run_id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Payout run with ID ${input.run_id} not found`);
+    }
+    if (existing[0].status !== 'processing') {
+      throw new Error(`Payout run #${input.run_id} has already been completed`);
+    }
+
+    // Payouts already settled one by one keep their status
+    const payouts = await db.select()
+      .from(commissionPayoutsTable)
+      .where(and(
+        eq(commissionPayoutsTable.payout_run_id, input.run_id),
+        eq(commissionPayoutsTable.status, 'processing')
+      ))
+      .orderBy(asc(commissionPayoutsTable.id))
+      .execute();
+
+    const processingIds = payouts.map(payout => payout.id);
+    const unknownIds = input.failed_payout_ids.filter(id => !processingIds.includes(id));
+    if (unknownIds.length > 0) {
+      throw new Error(`Payouts ${unknownIds.join(', ')} are not processing in payout run #${input.run_id}`);
+    }
+
+    await db.transaction(async (tx) => {
+      for (const payout of payouts) {
+        const failed = input.failed_payout_ids.includes(payout.id);
+        await changePayoutStatus(tx, payout, {
+          status: failed ? 'failed' : 'completed',
+          reason: failed ? input.reason ?? `Failed in payout run #${input.run_id}` : `Payout run #${input.run_id}`
+        }, actorId);
+      }
+
+      await settlePayoutRun(tx, input.run_id, actorId);
+    });
+
+    const [summary] = await loadPayoutRuns([input.run_id]);
+    return summary;
+  } catch (error) {
+    console.error('Payout run completion failed:', error);
+    throw error;
+  }
+};
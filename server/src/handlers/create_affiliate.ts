@@ -2,6 +2,7 @@ import { db } from '../db';
 import { affiliatesTable, usersTable } from '../db/schema';
 import { type CreateAffiliateInput, type Affiliate } from '../schema';
 import { eq } from 'drizzle-orm';
+import { insertAffiliate } from '../helpers/affiliates';
 
 export const createAffiliate = async (input: CreateAffiliateInput): Promise<Affiliate> => {
   try {
@@ -25,46 +26,10 @@ export const createAffiliate = async (input: CreateAffiliateInput): Promise<Affi
       throw new Error('User already has an affiliate profile');
     }
 
-    // Generate unique referral code
-    let referralCode: string;
-    let isUnique = false;
-    let attempts = 0;
-    const maxAttempts = 10;
-
-    do {
-      referralCode = `EB${Math.random().toString(36).substr(2, 8).toUpperCase()}`;
-      
-      const existingCode = await db.select()
-        .from(affiliatesTable)
-        .where(eq(affiliatesTable.referral_code, referralCode))
-        .execute();
-
-      isUnique = existingCode.length === 0;
-      attempts++;
-
-      if (attempts >= maxAttempts && !isUnique) {
-        throw new Error('Unable to generate unique referral code');
-      }
-    } while (!isUnique);
-
-    // Insert affiliate record
-    const result = await db.insert(affiliatesTable)
-      .values({
-        user_id: input.user_id,
-        referral_code: referralCode,
-        bank_name: input.bank_name,
-        bank_account_number: input.bank_account_number,
-        bank_account_name: input.bank_account_name,
-        ewallet_type: input.ewallet_type,
-        ewallet_number: input.ewallet_number,
-        commission_rate: input.commission_rate.toString(), // Convert number to string for numeric column
-        status: 'pending' // Default status for admin approval
-      })
-      .returning()
-      .execute();
+    // Insert affiliate record together with the payout accounts given at sign-up
+    const affiliate = await db.transaction(tx => insertAffiliate(tx, input.user_id, input.payout_accounts, input.commission_rate));
 
     // Convert numeric fields back to numbers before returning
-    const affiliate = result[0];
     return {
       ...affiliate,
       commission_rate: parseFloat(affiliate.commission_rate) // Convert string back to number
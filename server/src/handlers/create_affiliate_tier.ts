@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { affiliateTiersTable } from '../db/schema';
+import { type CreateAffiliateTierInput, type AffiliateTier } from '../schema';
+import { validateAffiliateTier, toAffiliateTier } from '../helpers/affiliate_tiers';
+
+export const createAffiliateTier = async (input: CreateAffiliateTierInput): Promise<AffiliateTier> => {
+  try {
+    await validateAffiliateTier(input);
+
+    const result = await db.insert(affiliateTiersTable)
+      .values({
+        name: input.name,
+        level: input.level,
+        commission_rate: input.commission_rate.toString(), // Convert numbers to strings for numeric columns
+        min_confirmed_registrations: input.min_confirmed_registrations,
+        min_revenue: input.min_revenue === null ? null : input.min_revenue.toString()
+      })
+      .returning()
+      .execute();
+
+    return toAffiliateTier(result[0]);
+  } catch (error) {
+    console.error('Affiliate tier creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { branchesTable } from '../db/schema';
+import { type CreateBranchInput, type Branch } from '../schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+
+export const createBranch = async (input: CreateBranchInput, actorId: number): Promise<Branch> => {
+  try {
+    await requireAdmin(actorId);
+
+    const existing = await db.select({ id: branchesTable.id })
+      .from(branchesTable)
+      .where(eq(branchesTable.code, input.code))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: `A branch with code "${input.code}" already exists` });
+    }
+
+    const result = await db.insert(branchesTable)
+      .values({
+        code: input.code,
+        name: input.name,
+        address: input.address,
+        contact: input.contact,
+        is_active: input.is_active
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Branch creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { commissionRulesTable } from '../db/schema';
+import { type CreateCommissionRuleInput, type CommissionRule } from '../schema';
+import { validateCommissionRule } from '../helpers/commission_rules';
+
+export const createCommissionRule = async (input: CreateCommissionRuleInput): Promise<CommissionRule> => {
+  try {
+    await validateCommissionRule(input);
+
+    const result = await db.insert(commissionRulesTable)
+      .values({
+        name: input.name,
+        commission_type: input.commission_type,
+        value: input.value.toString(), // Convert number to string for numeric column
+        affiliate_id: input.affiliate_id,
+        program_id: input.program_id,
+        category: input.category,
+        location: input.location,
+        effective_from: input.effective_from,
+        effective_to: input.effective_to
+      })
+      .returning()
+      .execute();
+
+    const rule = result[0];
+    return {
+      ...rule,
+      value: parseFloat(rule.value) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Commission rule creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { affiliatesTable } from '../db/schema';
+import { type CreateLedgerAdjustmentInput, type LedgerEntry } from '../schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { lockLedgerBalances, postLedgerEntry, toLedgerEntry } from '../helpers/ledger';
+
+export const createLedgerAdjustment = async (input: CreateLedgerAdjustmentInput, actorId: number): Promise<LedgerEntry> => {
+  try {
+    // The acting admin is taken from the session, never from the request body
+    await requireAdmin(actorId);
+
+    const affiliate = await db.select({ id: affiliatesTable.id })
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, input.affiliate_id))
+      .execute();
+
+    if (affiliate.length === 0) {
+      throw new Error(`Affiliate with ID ${input.affiliate_id} not found`);
+    }
+
+    const entry = await db.transaction(async (tx) => {
+      // A debit can only take back money the affiliate has not already requested or been paid
+      const { available } = await lockLedgerBalances(tx, input.affiliate_id);
+      if (input.amount < 0 && -input.amount > available) {
+        throw new Error(`Adjustment exceeds the available balance. Available: ${available}, Debit: ${-input.amount}`);
+      }
+
+      return postLedgerEntry(tx, {
+        affiliate_id: input.affiliate_id,
+        entry_type: 'adjustment',
+        amount: input.amount,
+        description: input.description,
+        created_by: actorId
+      });
+    });
+
+    return toLedgerEntry(entry);
+  } catch (error) {
+    console.error('Ledger adjustment failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { affiliatesTable } from '../db/schema';
+import { type CreatePayoutAccountInput, type PayoutAccount } from '../schema';
+import { eq } from 'drizzle-orm';
+import { insertPayoutAccount, toPayoutAccount } from '../helpers/payout_accounts';
+
+export const createPayoutAccount = async (input: CreatePayoutAccountInput): Promise<PayoutAccount> => {
+  try {
+    const affiliate = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, input.affiliate_id))
+      .execute();
+
+    if (affiliate.length === 0) {
+      throw new Error(`Affiliate with ID ${input.affiliate_id} not found`);
+    }
+
+    // Replacing the default and inserting the new account happen together
+    const account = await db.transaction(tx => insertPayoutAccount(tx, input.affiliate_id, input.account, input.is_default));
+
+    return toPayoutAccount(account);
+  } catch (error) {
+    console.error('Payout account creation failed:', error);
+    throw error;
+  }
+};
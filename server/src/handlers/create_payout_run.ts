@@ -0,0 +1,98 @@
+import { db, type DbTransaction } from '../db';
+import { payoutRunsTable, commissionPayoutsTable, affiliatesTable, payoutAccountsTable } from '../db/schema';
+import { type CreatePayoutRunInput, type PayoutRun, MIN_PAYOUT_AMOUNT } from '../schema';
+import { eq, and, inArray, isNull, asc, SQL } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { lockLedgerBalances, getWithdrawableBalance } from '../helpers/ledger';
+import { changePayoutStatus, requestPayout } from '../helpers/payouts';
+import { loadPayoutRuns } from '../helpers/payout_runs';
+
+// Request a payout of the whole withdrawable balance to the default account of every approved affiliate at or above the minimum
+const generatePayouts = async (tx: DbTransaction): Promise<void> => {
+  // Affiliates without a verified default account have nowhere to send the money yet
+  const rows = await tx.select({ affiliate: affiliatesTable })
+    .from(affiliatesTable)
+    .innerJoin(payoutAccountsTable, and(
+      eq(payoutAccountsTable.affiliate_id, affiliatesTable.id),
+      eq(payoutAccountsTable.is_active, true),
+      eq(payoutAccountsTable.is_default, true),
+      eq(payoutAccountsTable.verification_status, 'verified')
+    ))
+    .where(eq(affiliatesTable.status, 'approved'))
+    .orderBy(asc(affiliatesTable.id))
+    .execute();
+
+  for (const { affiliate } of rows) {
+    const balances = await lockLedgerBalances(tx, affiliate.id);
+    const { withdrawable } = await getWithdrawableBalance(tx, affiliate.id, balances);
+    if (withdrawable < MIN_PAYOUT_AMOUNT) {
+      continue;
+    }
+
+    await requestPayout(tx, {
+      affiliate_id: affiliate.id,
+      amount: withdrawable,
+      notes: 'Requested automatically for a payout run'
+    });
+  }
+};
+
+export const createPayoutRun = async (input: CreatePayoutRunInput, actorId: number): Promise<PayoutRun> => {
+  try {
+    // The acting admin is taken from the session, never from the request body
+    await requireAdmin(actorId);
+
+    // Generated payouts and the run are created together, so a failure leaves no stray pending payouts behind
+    const run = await db.transaction(async (tx) => {
+      if (input.generate_payouts) {
+        await generatePayouts(tx);
+      }
+
+      // Only pending payouts of approved affiliates that are not in another run can be sent
+      const conditions: SQL<unknown>[] = [
+        eq(commissionPayoutsTable.status, 'pending'),
+        eq(affiliatesTable.status, 'approved'),
+        isNull(commissionPayoutsTable.payout_run_id)
+      ];
+      if (input.payout_ids !== undefined) {
+        conditions.push(inArray(commissionPayoutsTable.id, input.payout_ids));
+      }
+
+      const rows = await tx.select()
+        .from(commissionPayoutsTable)
+        .innerJoin(affiliatesTable, eq(commissionPayoutsTable.affiliate_id, affiliatesTable.id))
+        .where(and(...conditions))
+        .orderBy(asc(commissionPayoutsTable.id))
+        .execute();
+      const payouts = rows.map(row => row.commission_payouts);
+
+      if (input.payout_ids !== undefined && payouts.length !== new Set(input.payout_ids).size) {
+        throw new Error('Only pending payouts of approved affiliates that are not in another payout run can be added');
+      }
+      if (payouts.length === 0) {
+        throw new Error('There are no pending payouts to include in a payout run');
+      }
+
+      // The whole batch moves to processing or none of it does
+      const result = await tx.insert(payoutRunsTable)
+        .values({ created_by: actorId })
+        .returning()
+        .execute();
+
+      for (const payout of payouts) {
+        await changePayoutStatus(tx, payout, {
+          status: 'processing',
+          payout_run_id: result[0].id,
+          reason: `Payout run #${result[0].id}`
+        }, actorId);
+      }
+      return result[0];
+    });
+
+    const [summary] = await loadPayoutRuns([run.id]);
+    return summary;
+  } catch (error) {
+    console.error('Payout run creation failed:', error);
+    throw error;
+  }
+};
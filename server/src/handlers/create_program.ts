@@ -1,31 +1,35 @@
 import { db } from '../db';
 import { programsTable } from '../db/schema';
 import { type CreateProgramInput, type Program } from '../schema';
+import { recordProgramPrice, toProgram } from '../helpers/programs';
+import { requireOpenBranch } from '../helpers/branches';
 
-export const createProgram = async (input: CreateProgramInput): Promise<Program> => {
+export const createProgram = async (input: CreateProgramInput, actorId: number | null = null): Promise<Program> => {
   try {
-    // Insert program record
-    const result = await db.insert(programsTable)
-      .values({
-        name: input.name,
-        description: input.description,
-        category: input.category,
-        location: input.location,
-        price: input.price.toString(), // Convert number to string for numeric column
-        duration_weeks: input.duration_weeks, // Integer column - no conversion needed
-        is_active: input.is_active // Boolean column - no conversion needed
-      })
-      .returning()
-      .execute();
+    // The starting price opens the program's price history
+    const program = await db.transaction(async (tx) => {
+      await requireOpenBranch(tx, input.location);
 
-    // Convert numeric fields back to numbers before returning
-    const program = result[0];
-    return {
-      ...program,
-      price: parseFloat(program.price) // Convert string back to number
-    };
+      const result = await tx.insert(programsTable)
+        .values({
+          name: input.name,
+          description: input.description,
+          category: input.category,
+          location: input.location,
+          price: input.price.toString(), // Convert number to string for numeric column
+          duration_weeks: input.duration_weeks, // Integer column - no conversion needed
+          is_active: input.is_active // Boolean column - no conversion needed
+        })
+        .returning()
+        .execute();
+
+      await recordProgramPrice(tx, result[0].id, result[0].price, actorId, result[0].created_at);
+      return result[0];
+    });
+
+    return toProgram(program);
   } catch (error) {
     console.error('Program creation failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
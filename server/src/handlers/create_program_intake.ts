@@ -0,0 +1,43 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { programsTable, programIntakesTable } from '../db/schema';
+import { type CreateProgramIntakeInput, type ProgramIntake } from '../schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { assertIntakeDates, toProgramIntake } from '../helpers/intakes';
+
+export const createProgramIntake = async (input: CreateProgramIntakeInput, actorId: number): Promise<ProgramIntake> => {
+  try {
+    await requireAdmin(actorId);
+
+    const program = await db.select()
+      .from(programsTable)
+      .where(eq(programsTable.id, input.program_id))
+      .execute();
+
+    if (program.length === 0) {
+      throw new Error(`Program with ID ${input.program_id} not found`);
+    }
+    if (program[0].archived_at !== null) {
+      throw new TRPCError({ code: 'CONFLICT', message: `Program "${program[0].name}" is archived and can no longer be changed` });
+    }
+
+    assertIntakeDates(input);
+
+    const result = await db.insert(programIntakesTable)
+      .values({
+        program_id: input.program_id,
+        start_date: input.start_date,
+        end_date: input.end_date,
+        capacity: input.capacity,
+        registration_deadline: input.registration_deadline
+      })
+      .returning()
+      .execute();
+
+    return toProgramIntake(result[0], undefined);
+  } catch (error) {
+    console.error('Program intake creation failed:', error);
+    throw error;
+  }
+};
@@ -2,6 +2,10 @@ import { db } from '../db';
 import { studentRegistrationsTable, affiliatesTable, programsTable } from '../db/schema';
 import { type CreateStudentRegistrationInput, type StudentRegistration } from '../schema';
 import { eq, and } from 'drizzle-orm';
+import { resolveCommission } from '../helpers/commission_rules';
+import { toStudentRegistration } from '../helpers/registrations';
+import { getCurrentProgramPrice } from '../helpers/programs';
+import { resolveIntakeStatus } from '../helpers/intakes';
 
 export const createStudentRegistration = async (input: CreateStudentRegistrationInput): Promise<StudentRegistration> => {
   try {
@@ -39,37 +43,38 @@ export const createStudentRegistration = async (input: CreateStudentRegistration
       throw new Error('Program is not active');
     }
 
-    // Calculate commission amount based on program price and affiliate commission rate
-    const programPrice = parseFloat(program[0].price);
-    const commissionRate = parseFloat(affiliate[0].commission_rate);
-    const commissionAmount = programPrice * commissionRate;
+    // Commission comes from the matching commission rule, or the affiliate's tier or default rate
+    const quotedPrice = await getCurrentProgramPrice(db, program[0]);
+    const commission = await resolveCommission(affiliate[0], program[0]);
 
-    // Insert the student registration
-    const result = await db.insert(studentRegistrationsTable)
-      .values({
-        affiliate_id: input.affiliate_id,
-        program_id: input.program_id,
-        student_name: input.student_name,
-        student_email: input.student_email,
-        student_phone: input.student_phone,
-        student_address: input.student_address,
-        referral_code: input.referral_code,
-        status: 'pending',
-        registration_fee: programPrice.toString(),
-        commission_amount: commissionAmount.toString(),
-        confirmed_by: null,
-        confirmed_at: null
-      })
-      .returning()
-      .execute();
+    // Insert the student registration, waitlisted when the chosen intake has no seats left
+    const result = await db.transaction(async (tx) => {
+      const status = await resolveIntakeStatus(tx, program[0], input.intake_id);
+      return tx.insert(studentRegistrationsTable)
+        .values({
+          affiliate_id: input.affiliate_id,
+          program_id: input.program_id,
+          student_name: input.student_name,
+          student_email: input.student_email,
+          student_phone: input.student_phone,
+          student_address: input.student_address,
+          referral_code: input.referral_code,
+          status,
+          registration_fee: quotedPrice.price,
+          program_price_id: quotedPrice.id,
+          intake_id: input.intake_id ?? null,
+          commission_amount: commission.commission_amount.toString(),
+          estimated_commission_amount: commission.commission_amount.toString(),
+          commission_rule_id: commission.commission_rule_id,
+          confirmed_by: null,
+          confirmed_at: null,
+          refunded_at: null
+        })
+        .returning()
+        .execute();
+    });
 
-    // Convert numeric fields back to numbers before returning
-    const registration = result[0];
-    return {
-      ...registration,
-      registration_fee: parseFloat(registration.registration_fee),
-      commission_amount: parseFloat(registration.commission_amount)
-    };
+    return toStudentRegistration(result[0]);
   } catch (error) {
     console.error('Student registration creation failed:', error);
     throw error;
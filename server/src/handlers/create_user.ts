@@ -1,14 +1,18 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
-import { type CreateUserInput, type User } from '../schema';
+import { type CreateUserInput, type SessionUser } from '../schema';
+import { hashPassword } from '../auth';
 
-export const createUser = async (input: CreateUserInput): Promise<User> => {
+export const createUser = async (input: CreateUserInput): Promise<SessionUser> => {
   try {
+    // Hash the password before it is stored
+    const passwordHash = await hashPassword(input.password);
+
     // Insert user record
     const result = await db.insert(usersTable)
       .values({
         email: input.email,
-        password_hash: input.password_hash,
+        password_hash: passwordHash,
         full_name: input.full_name,
         phone: input.phone,
         role: input.role
@@ -16,11 +20,11 @@ export const createUser = async (input: CreateUserInput): Promise<User> => {
       .returning()
       .execute();
 
-    // Return the created user
-    const user = result[0];
+    // Return the created user without the password hash
+    const { password_hash, ...user } = result[0];
     return user;
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
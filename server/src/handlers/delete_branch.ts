@@ -0,0 +1,46 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { branchesTable, programsTable, commissionRulesTable } from '../db/schema';
+import { type BranchActionInput, type Branch } from '../schema';
+import { eq, count } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+
+// Only for branches nothing refers to yet; the rest can be closed instead
+export const deleteBranch = async (input: BranchActionInput, actorId: number): Promise<Branch> => {
+  try {
+    await requireAdmin(actorId);
+
+    const existing = await db.select()
+      .from(branchesTable)
+      .where(eq(branchesTable.id, input.branch_id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Branch with ID ${input.branch_id} not found`);
+    }
+
+    const branch = existing[0];
+    const programs = await db.select({ total: count() })
+      .from(programsTable)
+      .where(eq(programsTable.location, branch.code))
+      .execute();
+    const rules = await db.select({ total: count() })
+      .from(commissionRulesTable)
+      .where(eq(commissionRulesTable.location, branch.code))
+      .execute();
+
+    if (programs[0].total > 0 || rules[0].total > 0) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: `Branch "${branch.name}" is used by ${programs[0].total} program${programs[0].total === 1 ? '' : 's'} and ${rules[0].total} commission rule${rules[0].total === 1 ? '' : 's'} and cannot be deleted; close it instead`
+      });
+    }
+
+    await db.delete(branchesTable).where(eq(branchesTable.id, input.branch_id)).execute();
+
+    return branch;
+  } catch (error) {
+    console.error('Branch deletion failed:', error);
+    throw error;
+  }
+};
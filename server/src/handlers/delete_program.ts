@@ -0,0 +1,59 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import {
+  programsTable,
+  programPricesTable,
+  programIntakesTable,
+  studentRegistrationsTable,
+  commissionRulesTable,
+  referralClicksTable
+} from '../db/schema';
+import { type ProgramActionInput, type Program } from '../schema';
+import { eq, count } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { toProgram } from '../helpers/programs';
+
+// Only for programs created by mistake: once anyone has registered, the program can only be archived
+export const deleteProgram = async (input: ProgramActionInput, actorId: number): Promise<Program> => {
+  try {
+    await requireAdmin(actorId);
+
+    const existing = await db.select()
+      .from(programsTable)
+      .where(eq(programsTable.id, input.program_id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Program with ID ${input.program_id} not found`);
+    }
+
+    const registrations = await db.select({ total: count() })
+      .from(studentRegistrationsTable)
+      .where(eq(studentRegistrationsTable.program_id, input.program_id))
+      .execute();
+
+    if (registrations[0].total > 0) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: `Program "${existing[0].name}" has ${registrations[0].total} registration${registrations[0].total === 1 ? '' : 's'} and cannot be deleted; archive it instead`
+      });
+    }
+
+    // Rules scoped to the program can never match again; clicks on its links stay counted for the affiliate
+    await db.transaction(async (tx) => {
+      await tx.delete(commissionRulesTable).where(eq(commissionRulesTable.program_id, input.program_id)).execute();
+      await tx.update(referralClicksTable)
+        .set({ program_id: null })
+        .where(eq(referralClicksTable.program_id, input.program_id))
+        .execute();
+      await tx.delete(programPricesTable).where(eq(programPricesTable.program_id, input.program_id)).execute();
+      await tx.delete(programIntakesTable).where(eq(programIntakesTable.program_id, input.program_id)).execute();
+      await tx.delete(programsTable).where(eq(programsTable.id, input.program_id)).execute();
+    });
+
+    return toProgram(existing[0]);
+  } catch (error) {
+    console.error('Program deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { affiliatesTable } from '../db/schema';
+import { type TierSettings, type TierChange } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getTierSettings } from '../tiers';
+import { getTiersByLevel, evaluateAffiliateTier } from '../helpers/affiliate_tiers';
+
+// Re-evaluates every approved affiliate, demoting those whose older registrations have left the period
+export const evaluateAffiliateTiers = async (settings: TierSettings = getTierSettings()): Promise<TierChange[]> => {
+  try {
+    const tiers = await getTiersByLevel();
+    const affiliates = await db.select({ id: affiliatesTable.id })
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.status, 'approved'))
+      .execute();
+
+    const now = new Date();
+    const changes: TierChange[] = [];
+    for (const affiliate of affiliates) {
+      const change = await evaluateAffiliateTier(affiliate.id, tiers, settings, now);
+      if (change) {
+        changes.push(change);
+      }
+    }
+
+    return changes;
+  } catch (error) {
+    console.error('Affiliate tier evaluation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { payoutRunsTable, commissionPayoutsTable } from '../db/schema';
+import { type ExportPayoutRunInput, type PayoutRunExport } from '../schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { PAYOUT_EXPORT_LAYOUTS, getTransferReference, type TransferLine } from '../helpers/payout_runs';
+import { toCsv } from '../helpers/csv';
+import { getNetAmount } from '../helpers/payouts';
+
+export const exportPayoutRun = async (input: ExportPayoutRunInput): Promise<PayoutRunExport> => {
+  try {
+    const run = await db.select()
+      .from(payoutRunsTable)
+      .where(eq(payoutRunsTable.id, input.run_id))
+      .execute();
+
+    if (run.length === 0) {
+      throw new Error(`Payout run with ID ${input.run_id} not found`);
+    }
+
+    // Bank files carry the run's bank transfers, the e-wallet file the rest; settled payouts are left out
+    const payouts = await db.select()
+      .from(commissionPayoutsTable)
+      .where(and(
+        eq(commissionPayoutsTable.payout_run_id, input.run_id),
+        eq(commissionPayoutsTable.status, 'processing'),
+        eq(commissionPayoutsTable.method, input.format === 'ewallet' ? 'ewallet' : 'bank_transfer')
+      ))
+      .orderBy(asc(commissionPayoutsTable.id))
+      .execute();
+
+    const lines: TransferLine[] = payouts.map(payout => ({
+      reference: getTransferReference(payout.id),
+      provider: payout.destination?.provider_name ?? '',
+      account_number: payout.destination?.account_number ?? '',
+      account_name: payout.destination?.account_holder ?? '',
+      amount: getNetAmount(payout) // The withheld tax stays with the company until it is paid to the tax office
+    }));
+
+    const layout = PAYOUT_EXPORT_LAYOUTS[input.format];
+    return {
+      filename: `payout-run-${input.run_id}-${input.format}.csv`,
+      content: toCsv([layout.header, ...lines.map(layout.row)]),
+      row_count: lines.length
+    };
+  } catch (error) {
+    console.error('Payout run export failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { TRPCError } from '@trpc/server';
+import { type GenerateMonthlyStatementsInput, type MonthlyStatementFile } from '../schema';
+import {
+  getStatementPeriod,
+  findStatementAffiliateIds,
+  loadStatementAffiliates,
+  buildMonthlyStatement,
+  toStatementFile,
+  type MonthlyStatement
+} from '../helpers/statements';
+
+// Every affiliate's statement in one file, for sending out at month end; affiliates with nothing to report are left out
+export const generateMonthlyStatements = async (input: GenerateMonthlyStatementsInput): Promise<MonthlyStatementFile> => {
+  try {
+    const { end } = getStatementPeriod(input.period);
+    const affiliates = await loadStatementAffiliates(await findStatementAffiliateIds(end));
+
+    const statements: MonthlyStatement[] = [];
+    for (const affiliate of affiliates) {
+      const statement = await buildMonthlyStatement(affiliate, input.period);
+      if (statement.lines.length > 0 || statement.opening_balance !== 0) {
+        statements.push(statement);
+      }
+    }
+
+    if (statements.length === 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: `No affiliate had a commission balance or activity in ${input.period}` });
+    }
+
+    return toStatementFile(statements, input.format, `statements-${input.period}`);
+  } catch (error) {
+    console.error('Monthly statements generation failed:', error);
+    throw error;
+  }
+};
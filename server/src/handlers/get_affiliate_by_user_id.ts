@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { affiliatesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { type Affiliate } from '../schema';
+
+export const getAffiliateByUserId = async (userId: number): Promise<Affiliate | null> => {
+  try {
+    const result = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.user_id, userId))
+      .limit(1)
+      .execute();
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    const affiliate = result[0];
+    return {
+      ...affiliate,
+      commission_rate: parseFloat(affiliate.commission_rate) // Convert numeric field to number
+    };
+  } catch (error) {
+    console.error('Failed to get affiliate by user ID:', error);
+    throw error;
+  }
+};
@@ -1,7 +1,8 @@
 import { db } from '../db';
-import { studentRegistrationsTable, commissionPayoutsTable } from '../db/schema';
-import { type GetAffiliateStatsInput, type AffiliateStats } from '../schema';
-import { eq, and, gte, lte, SQL } from 'drizzle-orm';
+import { studentRegistrationsTable, referralClicksTable } from '../db/schema';
+import { type GetAffiliateStatsInput, type AffiliateStats, MIN_PAYOUT_AMOUNT } from '../schema';
+import { eq, and, gte, lte, count, countDistinct, sql, SQL } from 'drizzle-orm';
+import { getLedgerBalances, getLedgerFlows, getWithdrawableBalance } from '../helpers/ledger';
 
 export const getAffiliateStats = async (input: GetAffiliateStatsInput): Promise<AffiliateStats> => {
   try {
@@ -10,19 +11,19 @@ export const getAffiliateStats = async (input: GetAffiliateStatsInput): Promise<
       eq(studentRegistrationsTable.affiliate_id, input.affiliate_id)
     ];
 
-    const payoutConditions: SQL<unknown>[] = [
-      eq(commissionPayoutsTable.affiliate_id, input.affiliate_id)
+    const clickConditions: SQL<unknown>[] = [
+      eq(referralClicksTable.affiliate_id, input.affiliate_id)
     ];
 
     // Apply date filters if provided
     if (input.start_date) {
       registrationConditions.push(gte(studentRegistrationsTable.created_at, input.start_date));
-      payoutConditions.push(gte(commissionPayoutsTable.created_at, input.start_date));
+      clickConditions.push(gte(referralClicksTable.landed_at, input.start_date));
     }
 
     if (input.end_date) {
       registrationConditions.push(lte(studentRegistrationsTable.created_at, input.end_date));
-      payoutConditions.push(lte(commissionPayoutsTable.created_at, input.end_date));
+      clickConditions.push(lte(referralClicksTable.landed_at, input.end_date));
     }
 
     // Query registrations with proper condition handling
@@ -35,45 +36,46 @@ export const getAffiliateStats = async (input: GetAffiliateStatsInput): Promise<
       )
       .execute();
 
-    // Query payouts with proper condition handling
-    const payouts = await db.select()
-      .from(commissionPayoutsTable)
-      .where(
-        payoutConditions.length === 1 
-          ? payoutConditions[0] 
-          : and(...payoutConditions)
-      )
+    // Query click funnel totals in the database rather than loading every click.
+    // Visitors are told apart by their cookie; clicks recorded without one fall back to the hashed IP
+    const clicks = await db.select({
+      total: count(),
+      unique_visitors: countDistinct(sql`coalesce(${referralClicksTable.visitor_id}, 'ip:' || ${referralClicksTable.ip_hash})`),
+      converted: count(referralClicksTable.registration_id)
+    })
+      .from(referralClicksTable)
+      .where(and(...clickConditions))
       .execute();
 
+    const totalClicks = clicks[0].total;
+    const clickConversionRate = totalClicks > 0 ? clicks[0].converted / totalClicks : 0;
+
     // Calculate registration statistics
     const totalRegistrations = registrations.length;
     const confirmedRegistrations = registrations.filter(reg => reg.status === 'confirmed').length;
     const pendingRegistrations = registrations.filter(reg => reg.status === 'pending').length;
 
-    // Calculate commission amounts with proper numeric conversion
-    const totalCommissionEarned = registrations
-      .filter(reg => reg.status === 'confirmed')
-      .reduce((sum, reg) => sum + parseFloat(reg.commission_amount), 0);
-
-    const totalCommissionPaid = payouts
-      .filter(payout => payout.status === 'completed')
-      .reduce((sum, payout) => sum + parseFloat(payout.amount), 0);
-
-    const pendingCommission = payouts
-      .filter(payout => payout.status === 'pending' || payout.status === 'processing')
-      .reduce((sum, payout) => sum + parseFloat(payout.amount), 0);
+    // Commission flows follow the date filter; balances are always as of now
+    const flows = await getLedgerFlows(input.affiliate_id, input.start_date, input.end_date);
+    const balances = await getLedgerBalances(input.affiliate_id);
+    const { withdrawable, locked, unlocks } = await getWithdrawableBalance(db, input.affiliate_id, balances);
 
-    // Calculate available for payout (minimum IDR 100,000)
-    const availableAmount = totalCommissionEarned - totalCommissionPaid - pendingCommission;
-    const availableForPayout = availableAmount >= 100000 ? availableAmount : 0;
+    // Nothing is available for payout below the minimum
+    const availableForPayout = withdrawable >= MIN_PAYOUT_AMOUNT ? withdrawable : 0;
 
     return {
+      total_clicks: totalClicks,
+      unique_visitors: clicks[0].unique_visitors,
+      click_conversion_rate: clickConversionRate,
       total_registrations: totalRegistrations,
       confirmed_registrations: confirmedRegistrations,
       pending_registrations: pendingRegistrations,
-      total_commission_earned: totalCommissionEarned,
-      total_commission_paid: totalCommissionPaid,
-      pending_commission: pendingCommission,
+      total_commission_earned: flows.earned,
+      total_commission_paid: flows.paid,
+      pending_commission: balances.reserved,
+      commission_balance: balances.available,
+      locked_commission: locked,
+      commission_unlocks: unlocks,
       available_for_payout: availableForPayout
     };
   } catch (error) {
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { affiliatesTable } from '../db/schema';
+import { type TierSettings, type AffiliateTierProgress } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getTierSettings } from '../tiers';
+import { getTiersByLevel, getAffiliatePerformance, getTierPeriodStart, toAffiliateTier } from '../helpers/affiliate_tiers';
+
+// The current tier is the one last assigned; performance is live so affiliates can see where they stand
+export const getAffiliateTierProgress = async (
+  affiliateId: number,
+  settings: TierSettings = getTierSettings()
+): Promise<AffiliateTierProgress> => {
+  try {
+    const affiliate = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+
+    if (affiliate.length === 0) {
+      throw new Error(`Affiliate with ID ${affiliateId} not found`);
+    }
+
+    const tiers = await getTiersByLevel();
+    const currentTier = tiers.find(tier => tier.id === affiliate[0].tier_id) ?? null;
+    const nextTier = tiers.find(tier => currentTier === null || tier.level > currentTier.level) ?? null;
+
+    const performance = await getAffiliatePerformance(affiliateId, getTierPeriodStart(settings));
+
+    return {
+      current_tier: currentTier ? toAffiliateTier(currentTier) : null,
+      next_tier: nextTier ? toAffiliateTier(nextTier) : null,
+      period_days: settings.period_days,
+      confirmed_registrations: performance.confirmed_registrations,
+      revenue: performance.revenue,
+      evaluated_at: affiliate[0].tier_evaluated_at
+    };
+  } catch (error) {
+    console.error('Failed to get affiliate tier progress:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,12 @@
+import { type AffiliateTier } from '../schema';
+import { getTiersByLevel, toAffiliateTier } from '../helpers/affiliate_tiers';
+
+export const getAffiliateTiers = async (): Promise<AffiliateTier[]> => {
+  try {
+    const tiers = await getTiersByLevel();
+    return tiers.map(toAffiliateTier);
+  } catch (error) {
+    console.error('Failed to get affiliate tiers:', error);
+    throw error;
+  }
+};
@@ -24,12 +24,9 @@ export const getAffiliates = async (input: Partial<GetAffiliatesInput> = {}): Pr
       id: affiliatesTable.id,
       user_id: affiliatesTable.user_id,
       referral_code: affiliatesTable.referral_code,
-      bank_name: affiliatesTable.bank_name,
-      bank_account_number: affiliatesTable.bank_account_number,
-      bank_account_name: affiliatesTable.bank_account_name,
-      ewallet_type: affiliatesTable.ewallet_type,
-      ewallet_number: affiliatesTable.ewallet_number,
       commission_rate: affiliatesTable.commission_rate,
+      tier_id: affiliatesTable.tier_id,
+      tier_evaluated_at: affiliatesTable.tier_evaluated_at,
       status: affiliatesTable.status,
       approved_by: affiliatesTable.approved_by,
       approved_at: affiliatesTable.approved_at,
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { auditLogTable, usersTable } from '../db/schema';
+import { type GetAuditLogInput, type AuditLogEntry } from '../schema';
+import { eq, and, or, gte, lte, ilike, desc, SQL } from 'drizzle-orm';
+
+export const getAuditLog = async (input: GetAuditLogInput): Promise<AuditLogEntry[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.entity_type !== undefined) {
+      conditions.push(eq(auditLogTable.entity_type, input.entity_type));
+    }
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditLogTable.entity_id, input.entity_id));
+    }
+    if (input.actor !== undefined) {
+      conditions.push(or(
+        ilike(usersTable.full_name, `%${input.actor}%`),
+        ilike(usersTable.email, `%${input.actor}%`)
+      )!);
+    }
+    if (input.start_date !== undefined) {
+      conditions.push(gte(auditLogTable.created_at, input.start_date));
+    }
+    if (input.end_date !== undefined) {
+      conditions.push(lte(auditLogTable.created_at, input.end_date));
+    }
+
+    const results = await db.select({
+      id: auditLogTable.id,
+      actor_id: auditLogTable.actor_id,
+      actor_name: usersTable.full_name,
+      procedure: auditLogTable.procedure,
+      entity_type: auditLogTable.entity_type,
+      entity_id: auditLogTable.entity_id,
+      changes: auditLogTable.changes,
+      ip_hash: auditLogTable.ip_hash,
+      created_at: auditLogTable.created_at,
+    })
+      .from(auditLogTable)
+      .leftJoin(usersTable, eq(auditLogTable.actor_id, usersTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogTable.created_at), desc(auditLogTable.id))
+      .limit(input.limit)
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Getting audit log failed:', error);
+    throw error;
+  }
+};
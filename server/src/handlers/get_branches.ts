@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { branchesTable } from '../db/schema';
+import { type Branch } from '../schema';
+import { asc } from 'drizzle-orm';
+
+// Closed branches are listed too: their programs keep running and still need a name
+export const getBranches = async (): Promise<Branch[]> => {
+  try {
+    return await db.select()
+      .from(branchesTable)
+      .orderBy(asc(branchesTable.name), asc(branchesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch branches:', error);
+    throw error;
+  }
+};
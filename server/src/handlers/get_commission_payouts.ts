@@ -2,6 +2,7 @@ import { db } from '../db';
 import { commissionPayoutsTable } from '../db/schema';
 import { type CommissionPayout, type PayoutStatus } from '../schema';
 import { eq, gte, lte, and, desc } from 'drizzle-orm';
+import { toCommissionPayout } from '../helpers/payouts';
 import type { SQL } from 'drizzle-orm';
 import { z } from 'zod';
 
@@ -53,10 +54,7 @@ const getCommissionPayoutsInternal = async (input: GetCommissionPayoutsInput): P
       .execute();
 
     // Convert numeric fields back to numbers
-    return results.map(payout => ({
-      ...payout,
-      amount: parseFloat(payout.amount)
-    }));
+    return results.map(toCommissionPayout);
   } catch (error) {
     console.error('Failed to get commission payouts:', error);
     throw error;
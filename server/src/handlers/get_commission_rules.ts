@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { commissionRulesTable } from '../db/schema';
+import { type CommissionRule } from '../schema';
+import { desc } from 'drizzle-orm';
+
+export const getCommissionRules = async (): Promise<CommissionRule[]> => {
+  try {
+    const results = await db.select()
+      .from(commissionRulesTable)
+      .orderBy(desc(commissionRulesTable.created_at), desc(commissionRulesTable.id))
+      .execute();
+
+    return results.map(rule => ({
+      ...rule,
+      value: parseFloat(rule.value) // Convert numeric field to number
+    }));
+  } catch (error) {
+    console.error('Failed to get commission rules:', error);
+    throw error;
+  }
+};
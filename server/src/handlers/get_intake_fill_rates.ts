@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { programIntakesTable, programsTable } from '../db/schema';
+import { type GetIntakeFillRatesInput, type IntakeFillRate } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+import { countIntakeRegistrations, toProgramIntake } from '../helpers/intakes';
+
+// Every intake, closed ones included, latest start first
+export const getIntakeFillRates = async (input: GetIntakeFillRatesInput = {}): Promise<IntakeFillRate[]> => {
+  try {
+    const baseQuery = db.select()
+      .from(programIntakesTable)
+      .innerJoin(programsTable, eq(programIntakesTable.program_id, programsTable.id));
+
+    const results = input.program_id !== undefined
+      ? await baseQuery
+          .where(eq(programIntakesTable.program_id, input.program_id))
+          .orderBy(desc(programIntakesTable.start_date), desc(programIntakesTable.id))
+          .execute()
+      : await baseQuery
+          .orderBy(desc(programIntakesTable.start_date), desc(programIntakesTable.id))
+          .execute();
+
+    const now = new Date();
+    const counts = await countIntakeRegistrations(db, results.map(result => result.program_intakes.id));
+    return results.map(result => ({
+      ...toProgramIntake(result.program_intakes, counts.get(result.program_intakes.id), now),
+      program_name: result.programs.name
+    }));
+  } catch (error) {
+    console.error('Failed to fetch intake fill rates:', error);
+    throw error;
+  }
+};
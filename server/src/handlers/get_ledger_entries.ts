@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { ledgerEntriesTable } from '../db/schema';
+import { type LedgerEntry } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+import { toLedgerEntry } from '../helpers/ledger';
+
+export const getLedgerEntries = async (affiliateId?: number): Promise<LedgerEntry[]> => {
+  try {
+    const baseQuery = db.select().from(ledgerEntriesTable);
+
+    // Newest first; the id breaks ties between entries posted in the same transaction
+    const results = affiliateId !== undefined
+      ? await baseQuery
+          .where(eq(ledgerEntriesTable.affiliate_id, affiliateId))
+          .orderBy(desc(ledgerEntriesTable.created_at), desc(ledgerEntriesTable.id))
+          .execute()
+      : await baseQuery
+          .orderBy(desc(ledgerEntriesTable.created_at), desc(ledgerEntriesTable.id))
+          .execute();
+
+    return results.map(toLedgerEntry);
+  } catch (error) {
+    console.error('Getting ledger entries failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,17 @@
+import { type GetMonthlyStatementInput, type MonthlyStatementFile } from '../schema';
+import { loadStatementAffiliates, buildMonthlyStatement, toStatementFile } from '../helpers/statements';
+
+export const getMonthlyStatement = async (input: GetMonthlyStatementInput): Promise<MonthlyStatementFile> => {
+  try {
+    const affiliates = await loadStatementAffiliates([input.affiliate_id]);
+    if (affiliates.length === 0) {
+      throw new Error(`Affiliate with ID ${input.affiliate_id} not found`);
+    }
+
+    const statement = await buildMonthlyStatement(affiliates[0], input.period);
+    return toStatementFile([statement], input.format, `statement-${affiliates[0].referral_code}-${input.period}`);
+  } catch (error) {
+    console.error('Monthly statement generation failed:', error);
+    throw error;
+  }
+};
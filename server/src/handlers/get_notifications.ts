@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { type Notification } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+
+const NOTIFICATION_LIMIT = 50;
+
+// The user's most recent notifications, newest first
+export const getNotifications = async (userId: number): Promise<Notification[]> => {
+  try {
+    return await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, userId))
+      .orderBy(desc(notificationsTable.created_at), desc(notificationsTable.id))
+      .limit(NOTIFICATION_LIMIT)
+      .execute();
+  } catch (error) {
+    console.error('Getting notifications failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { payoutAccountsTable } from '../db/schema';
+import { type PayoutAccount } from '../schema';
+import { eq, and, desc, asc } from 'drizzle-orm';
+import { toPayoutAccount } from '../helpers/payout_accounts';
+
+// Active accounts, the default first; all affiliates' when no ID is given
+export const getPayoutAccounts = async (affiliateId?: number): Promise<PayoutAccount[]> => {
+  try {
+    const conditions = [eq(payoutAccountsTable.is_active, true)];
+    if (affiliateId !== undefined) {
+      conditions.push(eq(payoutAccountsTable.affiliate_id, affiliateId));
+    }
+
+    const results = await db.select()
+      .from(payoutAccountsTable)
+      .where(and(...conditions))
+      .orderBy(asc(payoutAccountsTable.affiliate_id), desc(payoutAccountsTable.is_default), asc(payoutAccountsTable.id))
+      .execute();
+
+    return results.map(toPayoutAccount);
+  } catch (error) {
+    console.error('Getting payout accounts failed:', error);
+    throw error;
+  }
+};
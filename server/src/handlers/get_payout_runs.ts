@@ -0,0 +1,11 @@
+import { type PayoutRun } from '../schema';
+import { loadPayoutRuns } from '../helpers/payout_runs';
+
+export const getPayoutRuns = async (): Promise<PayoutRun[]> => {
+  try {
+    return await loadPayoutRuns();
+  } catch (error) {
+    console.error('Getting payout runs failed:', error);
+    throw error;
+  }
+};
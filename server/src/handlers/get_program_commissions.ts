@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { affiliatesTable, programsTable } from '../db/schema';
+import { type ProgramCommission } from '../schema';
+import { eq } from 'drizzle-orm';
+import { resolveCommission } from '../helpers/commission_rules';
+
+// What the affiliate would earn today on each active program, for the referral tools
+export const getProgramCommissions = async (affiliateId: number): Promise<ProgramCommission[]> => {
+  try {
+    const affiliate = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+
+    if (affiliate.length === 0) {
+      throw new Error(`Affiliate with ID ${affiliateId} not found`);
+    }
+
+    const programs = await db.select()
+      .from(programsTable)
+      .where(eq(programsTable.is_active, true))
+      .execute();
+
+    return Promise.all(programs.map(async program => ({
+      program_id: program.id,
+      ...await resolveCommission(affiliate[0], program)
+    })));
+  } catch (error) {
+    console.error('Failed to get program commissions:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { programIntakesTable } from '../db/schema';
+import { type ProgramActionInput, type ProgramIntake } from '../schema';
+import { eq, and, gte, asc } from 'drizzle-orm';
+import { countIntakeRegistrations, toProgramIntake } from '../helpers/intakes';
+
+// The intakes students can still register for, soonest first; full ones take registrations onto the waitlist
+export const getProgramIntakes = async (input: ProgramActionInput): Promise<ProgramIntake[]> => {
+  try {
+    const now = new Date();
+    const intakes = await db.select()
+      .from(programIntakesTable)
+      .where(
+        and(
+          eq(programIntakesTable.program_id, input.program_id),
+          gte(programIntakesTable.registration_deadline, now)
+        )
+      )
+      .orderBy(asc(programIntakesTable.start_date), asc(programIntakesTable.id))
+      .execute();
+
+    const counts = await countIntakeRegistrations(db, intakes.map(intake => intake.id));
+    return intakes.map(intake => toProgramIntake(intake, counts.get(intake.id), now));
+  } catch (error) {
+    console.error('Failed to fetch program intakes:', error);
+    throw error;
+  }
+};
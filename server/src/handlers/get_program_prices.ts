@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { programPricesTable, usersTable } from '../db/schema';
+import { type ProgramActionInput, type ProgramPrice } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+
+// Newest first, so the current price leads
+export const getProgramPrices = async (input: ProgramActionInput): Promise<ProgramPrice[]> => {
+  try {
+    const results = await db.select({
+      id: programPricesTable.id,
+      program_id: programPricesTable.program_id,
+      price: programPricesTable.price,
+      effective_from: programPricesTable.effective_from,
+      changed_by: programPricesTable.changed_by,
+      changed_by_name: usersTable.full_name,
+      created_at: programPricesTable.created_at
+    })
+      .from(programPricesTable)
+      .leftJoin(usersTable, eq(programPricesTable.changed_by, usersTable.id))
+      .where(eq(programPricesTable.program_id, input.program_id))
+      .orderBy(desc(programPricesTable.effective_from), desc(programPricesTable.id))
+      .execute();
+
+    return results.map(price => ({
+      ...price,
+      price: parseFloat(price.price)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch program prices:', error);
+    throw error;
+  }
+};
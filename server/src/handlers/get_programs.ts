@@ -1,12 +1,14 @@
 import { db } from '../db';
 import { programsTable } from '../db/schema';
 import { type Program, type ProgramCategory, type ProgramLocation } from '../schema';
-import { eq, and, SQL } from 'drizzle-orm';
+import { eq, and, isNull, SQL } from 'drizzle-orm';
+import { toProgram } from '../helpers/programs';
 
 export interface GetProgramsFilters {
   is_active?: boolean;
   category?: ProgramCategory;
   location?: ProgramLocation;
+  include_archived?: boolean; // Archived programs are only listed for the admin
 }
 
 export const getPrograms = async (filters: GetProgramsFilters = {}): Promise<Program[]> => {
@@ -14,6 +16,10 @@ export const getPrograms = async (filters: GetProgramsFilters = {}): Promise<Pro
     // Build conditions array
     const conditions: SQL<unknown>[] = [];
 
+    if (!filters.include_archived) {
+      conditions.push(isNull(programsTable.archived_at));
+    }
+
     if (filters.is_active !== undefined) {
       conditions.push(eq(programsTable.is_active, filters.is_active));
     }
@@ -35,12 +41,9 @@ export const getPrograms = async (filters: GetProgramsFilters = {}): Promise<Pro
           .execute();
 
     // Convert numeric fields back to numbers
-    return results.map(program => ({
-      ...program,
-      price: parseFloat(program.price)
-    }));
+    return results.map(toProgram);
   } catch (error) {
     console.error('Failed to fetch programs:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
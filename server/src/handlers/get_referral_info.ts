@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { affiliatesTable, usersTable } from '../db/schema';
+import { eq, and } from 'drizzle-orm';
+import { type ReferralInfo } from '../schema';
+
+export const getReferralInfo = async (referralCode: string): Promise<ReferralInfo | null> => {
+  try {
+    // Only approved affiliates can accept registrations, so other codes resolve to nothing
+    const result = await db.select({
+      referral_code: affiliatesTable.referral_code,
+      affiliate_name: usersTable.full_name
+    })
+      .from(affiliatesTable)
+      .innerJoin(usersTable, eq(affiliatesTable.user_id, usersTable.id))
+      .where(
+        and(
+          eq(affiliatesTable.referral_code, referralCode),
+          eq(affiliatesTable.status, 'approved')
+        )
+      )
+      .limit(1)
+      .execute();
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Failed to get referral info:', error);
+    throw error;
+  }
+};
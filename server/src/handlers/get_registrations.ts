@@ -2,6 +2,7 @@ import { db } from '../db';
 import { studentRegistrationsTable, affiliatesTable, programsTable, usersTable } from '../db/schema';
 import { type StudentRegistration } from '../schema';
 import { eq, desc } from 'drizzle-orm';
+import { toStudentRegistration } from '../helpers/registrations';
 
 export const getRegistrations = async (affiliateId?: number): Promise<StudentRegistration[]> => {
   try {
@@ -17,14 +18,23 @@ export const getRegistrations = async (affiliateId?: number): Promise<StudentReg
       referral_code: studentRegistrationsTable.referral_code,
       status: studentRegistrationsTable.status,
       registration_fee: studentRegistrationsTable.registration_fee,
+      program_price_id: studentRegistrationsTable.program_price_id,
+      intake_id: studentRegistrationsTable.intake_id,
+      amount_paid: studentRegistrationsTable.amount_paid,
       commission_amount: studentRegistrationsTable.commission_amount,
+      estimated_commission_amount: studentRegistrationsTable.estimated_commission_amount,
+      commission_rule_id: studentRegistrationsTable.commission_rule_id,
+      attribution_rule: studentRegistrationsTable.attribution_rule,
+      attribution_window_days: studentRegistrationsTable.attribution_window_days,
+      attribution_touches: studentRegistrationsTable.attribution_touches,
       confirmed_by: studentRegistrationsTable.confirmed_by,
       confirmed_at: studentRegistrationsTable.confirmed_at,
+      refunded_at: studentRegistrationsTable.refunded_at,
       created_at: studentRegistrationsTable.created_at,
       updated_at: studentRegistrationsTable.updated_at,
     })
     .from(studentRegistrationsTable)
-    .innerJoin(affiliatesTable, eq(studentRegistrationsTable.affiliate_id, affiliatesTable.id))
+    .leftJoin(affiliatesTable, eq(studentRegistrationsTable.affiliate_id, affiliatesTable.id)) // Keep unattributed registrations
     .innerJoin(programsTable, eq(studentRegistrationsTable.program_id, programsTable.id));
 
     // Apply conditional filtering and execute in one chain
@@ -37,12 +47,7 @@ export const getRegistrations = async (affiliateId?: number): Promise<StudentReg
           .orderBy(desc(studentRegistrationsTable.created_at))
           .execute();
 
-    // Convert numeric fields back to numbers
-    return results.map(registration => ({
-      ...registration,
-      registration_fee: parseFloat(registration.registration_fee),
-      commission_amount: parseFloat(registration.commission_amount)
-    }));
+    return results.map(toStudentRegistration);
   } catch (error) {
     console.error('Getting registrations failed:', error);
     throw error;
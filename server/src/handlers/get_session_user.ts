@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type SessionUser } from '../schema';
+import { hashSessionToken } from '../auth';
+import { eq, and, gt } from 'drizzle-orm';
+
+export const getSessionUser = async (token: string | null): Promise<SessionUser | null> => {
+  try {
+    if (!token) {
+      return null;
+    }
+
+    // Only unexpired sessions resolve to a user
+    const results = await db.select({
+      id: usersTable.id,
+      email: usersTable.email,
+      full_name: usersTable.full_name,
+      phone: usersTable.phone,
+      role: usersTable.role,
+      created_at: usersTable.created_at,
+      updated_at: usersTable.updated_at
+    })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.token_hash, hashSessionToken(token)),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .limit(1)
+      .execute();
+
+    return results.length === 0 ? null : results[0];
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+};
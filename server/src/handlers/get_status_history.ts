@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { statusHistoryTable, usersTable } from '../db/schema';
+import { type GetStatusHistoryInput, type StatusHistoryEntry } from '../schema';
+import { eq, and, asc } from 'drizzle-orm';
+
+export const getStatusHistory = async (input: GetStatusHistoryInput): Promise<StatusHistoryEntry[]> => {
+  try {
+    const results = await db.select({
+      id: statusHistoryTable.id,
+      entity_type: statusHistoryTable.entity_type,
+      entity_id: statusHistoryTable.entity_id,
+      from_status: statusHistoryTable.from_status,
+      to_status: statusHistoryTable.to_status,
+      actor_id: statusHistoryTable.actor_id,
+      actor_name: usersTable.full_name,
+      reason: statusHistoryTable.reason,
+      created_at: statusHistoryTable.created_at,
+    })
+      .from(statusHistoryTable)
+      .leftJoin(usersTable, eq(statusHistoryTable.actor_id, usersTable.id))
+      .where(and(
+        eq(statusHistoryTable.entity_type, input.entity_type),
+        eq(statusHistoryTable.entity_id, input.entity_id)
+      ))
+      .orderBy(asc(statusHistoryTable.created_at), asc(statusHistoryTable.id))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Getting status history failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,12 @@
+import { db } from '../db';
+import { type TaxProfile } from '../schema';
+import { loadTaxProfile } from '../helpers/tax_withholding';
+
+export const getTaxProfile = async (affiliateId: number): Promise<TaxProfile> => {
+  try {
+    return await loadTaxProfile(db, affiliateId);
+  } catch (error) {
+    console.error('Getting tax profile failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,96 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { affiliatesTable, usersTable, commissionPayoutsTable } from '../db/schema';
+import { type GetWithholdingSlipInput, type WithholdingSlip } from '../schema';
+import { eq, and, gte, lt, isNotNull, asc } from 'drizzle-orm';
+import { toCsv } from '../helpers/csv';
+import { toCommissionPayout } from '../helpers/payouts';
+import { loadTaxProfile, roundToCents } from '../helpers/tax_withholding';
+import { getTaxWithholderSettings } from '../tax_withholder';
+
+const formatRate = (rate: number): string => `${(rate * 100).toFixed(2)}%`;
+
+// Tax is due when commission is paid, so the slip covers payouts completed in the month
+export const getWithholdingSlip = async (input: GetWithholdingSlipInput): Promise<WithholdingSlip> => {
+  try {
+    const rows = await db.select()
+      .from(affiliatesTable)
+      .innerJoin(usersTable, eq(affiliatesTable.user_id, usersTable.id))
+      .where(eq(affiliatesTable.id, input.affiliate_id))
+      .execute();
+
+    if (rows.length === 0) {
+      throw new Error(`Affiliate with ID ${input.affiliate_id} not found`);
+    }
+    const { affiliates: affiliate, users: user } = rows[0];
+
+    const [year, month] = input.period.split('-').map(Number);
+    const payouts = (await db.select()
+      .from(commissionPayoutsTable)
+      .where(and(
+        eq(commissionPayoutsTable.affiliate_id, input.affiliate_id),
+        eq(commissionPayoutsTable.status, 'completed'),
+        isNotNull(commissionPayoutsTable.tax_type),
+        gte(commissionPayoutsTable.processed_at, new Date(year, month - 1, 1)),
+        lt(commissionPayoutsTable.processed_at, new Date(year, month, 1))
+      ))
+      .orderBy(asc(commissionPayoutsTable.processed_at), asc(commissionPayoutsTable.id))
+      .execute()).map(toCommissionPayout);
+
+    if (payouts.length === 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: `No payouts with tax withheld were completed in ${input.period}` });
+    }
+
+    const profile = await loadTaxProfile(db, input.affiliate_id);
+    const withholder = getTaxWithholderSettings();
+    const taxTypes = [...new Set(payouts.map(payout => payout.tax_type?.toUpperCase()))].join('-');
+    const slipNumber = `EB/${taxTypes}/${input.period.replace('-', '')}/${String(input.affiliate_id).padStart(6, '0')}`;
+    // The NPWP the latest withholding was based on, which is what the tax office sees
+    const npwp = payouts[payouts.length - 1].tax_npwp;
+
+    const totals = {
+      gross_amount: roundToCents(payouts.reduce((total, payout) => total + payout.amount, 0)),
+      tax_base: roundToCents(payouts.reduce((total, payout) => total + payout.tax_base, 0)),
+      tax_amount: roundToCents(payouts.reduce((total, payout) => total + payout.tax_amount, 0)),
+      net_amount: roundToCents(payouts.reduce((total, payout) => total + payout.net_amount, 0))
+    };
+
+    const content = toCsv([
+      ['BUKTI PEMOTONGAN PAJAK PENGHASILAN'],
+      ['Nomor', slipNumber],
+      ['Masa Pajak', `${String(month).padStart(2, '0')}/${year}`],
+      ['Pemotong', withholder.name],
+      ['NPWP Pemotong', withholder.npwp || '-'],
+      ['Penerima Penghasilan', profile.registered_name ?? user.full_name],
+      ['NPWP Penerima', npwp ?? '-'],
+      ['Alamat Penerima', profile.address ?? '-'],
+      [],
+      ['Tanggal Bayar', 'Payout', 'Jenis Pajak', 'Penghasilan Bruto', 'Dasar Pengenaan Pajak', 'Tarif', 'PPh Dipotong', 'Dibayarkan'],
+      ...payouts.map(payout => [
+        payout.processed_at ? payout.processed_at.toISOString().slice(0, 10) : '',
+        `#${payout.id}`,
+        payout.tax_type === 'pph23' ? 'PPh 23' : 'PPh 21',
+        payout.amount.toFixed(2),
+        payout.tax_base.toFixed(2),
+        formatRate(payout.tax_rate),
+        payout.tax_amount.toFixed(2),
+        payout.net_amount.toFixed(2)
+      ]),
+      ['Jumlah', '', '', totals.gross_amount.toFixed(2), totals.tax_base.toFixed(2), '', totals.tax_amount.toFixed(2), totals.net_amount.toFixed(2)]
+    ]);
+
+    return {
+      slip_number: slipNumber,
+      period: input.period,
+      filename: `bukti-potong-${affiliate.referral_code}-${input.period}.csv`,
+      content,
+      payout_count: payouts.length,
+      gross_amount: totals.gross_amount,
+      tax_base: totals.tax_base,
+      tax_amount: totals.tax_amount
+    };
+  } catch (error) {
+    console.error('Withholding slip generation failed:', error);
+    throw error;
+  }
+};
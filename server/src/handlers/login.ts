@@ -0,0 +1,36 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type LoginInput, type SessionUser } from '../schema';
+import { verifyPassword } from '../auth';
+import { createSession } from '../helpers/sessions';
+import { eq } from 'drizzle-orm';
+
+export interface LoginResult {
+  user: SessionUser;
+  token: string;
+  expires_at: Date;
+}
+
+export const login = async (input: LoginInput): Promise<LoginResult> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .limit(1)
+      .execute();
+
+    // Use the same message for unknown emails and wrong passwords
+    if (users.length === 0 || !(await verifyPassword(input.password, users[0].password_hash))) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid email or password' });
+    }
+
+    const session = await createSession(db, users[0].id);
+
+    const { password_hash, ...user } = users[0];
+    return { user, ...session };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { hashSessionToken } from '../auth';
+import { eq } from 'drizzle-orm';
+
+export const logout = async (token: string | null): Promise<{ success: boolean }> => {
+  try {
+    // Nothing to revoke when the request carried no session cookie
+    if (!token) {
+      return { success: true };
+    }
+
+    await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashSessionToken(token)))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { type MarkNotificationsReadInput, type Notification } from '../schema';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+
+// Only the user's own unread notifications are touched, so IDs of other users' notifications are ignored
+export const markNotificationsRead = async (userId: number, input: MarkNotificationsReadInput): Promise<Notification[]> => {
+  try {
+    const conditions = [eq(notificationsTable.user_id, userId), isNull(notificationsTable.read_at)];
+    if (input.notification_ids !== undefined) {
+      if (input.notification_ids.length === 0) {
+        return [];
+      }
+      conditions.push(inArray(notificationsTable.id, input.notification_ids));
+    }
+
+    return await db.update(notificationsTable)
+      .set({ read_at: new Date() })
+      .where(and(...conditions))
+      .returning()
+      .execute();
+  } catch (error) {
+    console.error('Marking notifications read failed:', error);
+    throw error;
+  }
+};
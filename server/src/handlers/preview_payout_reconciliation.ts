@@ -0,0 +1,127 @@
+import { db } from '../db';
+import { commissionPayoutsTable } from '../db/schema';
+import { type PreviewPayoutReconciliationInput, type ReconciliationPreview, type ReconciliationLine } from '../schema';
+import { inArray, eq, asc } from 'drizzle-orm';
+import { parseBankStatement, type StatementLine } from '../helpers/bank_statements';
+import { TRANSFER_REFERENCE_PATTERN } from '../helpers/payout_runs';
+import { getNetAmount } from '../helpers/payouts';
+
+const digitsOf = (value: string | null | undefined): string => (value ?? '').replace(/\D/g, '');
+
+const formatAmount = (amount: number): string => `Rp ${amount.toLocaleString('id-ID')}`;
+
+// Payout IDs are int4 serials; a larger number in a statement cannot name a payout
+const MAX_PAYOUT_ID = 2147483647;
+
+// The payout a line names through its transfer reference, in the description or the bank's reference column
+const findReferencedId = (line: StatementLine): number | null => {
+  const reference = line.description.match(TRANSFER_REFERENCE_PATTERN) ?? line.bank_reference?.match(TRANSFER_REFERENCE_PATTERN);
+  if (!reference) {
+    return null;
+  }
+  const id = parseInt(reference[1]);
+  return id >= 1 && id <= MAX_PAYOUT_ID ? id : null;
+};
+
+export const previewPayoutReconciliation = async (input: PreviewPayoutReconciliationInput): Promise<ReconciliationPreview> => {
+  try {
+    const statement = parseBankStatement(input.content);
+
+    // Lines naming a payout by its transfer reference, whatever its status, plus every payout still awaiting the bank
+    const referencedIds = statement
+      .map(findReferencedId)
+      .filter((id): id is number => id !== null);
+
+    const referenced = referencedIds.length > 0
+      ? await db.select().from(commissionPayoutsTable).where(inArray(commissionPayoutsTable.id, referencedIds)).execute()
+      : [];
+    const processing = await db.select()
+      .from(commissionPayoutsTable)
+      .where(eq(commissionPayoutsTable.status, 'processing'))
+      .orderBy(asc(commissionPayoutsTable.id))
+      .execute();
+
+    const payoutsById = new Map([...referenced, ...processing].map(payout => [payout.id, payout]));
+    const matchedLines = new Map<number, number>(); // Payout ID to the statement line claiming it
+
+    const matchLine = (line: StatementLine): ReconciliationLine => {
+      const issues: string[] = [];
+      const lineAccount = digitsOf(line.account_number);
+      let match: ReconciliationLine['match'] = 'none';
+      let payoutId = findReferencedId(line);
+
+      if (payoutId !== null) {
+        match = 'reference';
+      } else {
+        // Without a reference the transferred amount has to agree, and the account too when the line names one
+        const candidates = processing.filter(payout => {
+          const account = digitsOf(payout.destination?.account_number);
+          return !matchedLines.has(payout.id) &&
+            Math.abs(getNetAmount(payout) - line.amount) < 0.005 &&
+            account !== '' &&
+            (lineAccount !== '' ? lineAccount === account : digitsOf(line.description).includes(account));
+        });
+
+        if (candidates.length === 1) {
+          payoutId = candidates[0].id;
+          match = 'account_amount';
+        } else if (candidates.length > 1) {
+          issues.push(`Matches several payouts: ${candidates.map(payout => `#${payout.id}`).join(', ')}`);
+        }
+      }
+
+      const payout = payoutId !== null ? payoutsById.get(payoutId) : undefined;
+      let proposedStatus: ReconciliationLine['proposed_status'] = null;
+
+      if (payoutId !== null && !payout) {
+        issues.push(`Payout #${payoutId} does not exist`);
+      } else if (payout) {
+        const amount = getNetAmount(payout);
+        const account = digitsOf(payout.destination?.account_number);
+
+        if (payout.status !== 'processing') {
+          issues.push(`Payout #${payout.id} is ${payout.status}, not processing`);
+        } else {
+          // A credit is the receiving bank returning the transfer
+          proposedStatus = line.direction === 'credit' ? 'failed' : 'completed';
+        }
+        if (Math.abs(amount - line.amount) >= 0.005) {
+          issues.push(`Amount differs from the payout's ${formatAmount(amount)}`);
+        }
+        if (lineAccount !== '' && account !== '' && lineAccount !== account) {
+          issues.push(`Account differs from the payout's ${account}`);
+        }
+
+        const claimedBy = matchedLines.get(payout.id);
+        if (claimedBy !== undefined) {
+          issues.push(`Payout #${payout.id} is already matched on row ${claimedBy}`);
+          proposedStatus = null;
+        } else if (proposedStatus !== null) {
+          matchedLines.set(payout.id, line.line_number);
+        }
+      }
+
+      return {
+        ...line,
+        match,
+        payout_id: payout ? payout.id : null,
+        proposed_status: proposedStatus,
+        issues
+      };
+    };
+
+    // Reference matches claim their payouts first, so a bare amount match cannot take a payout named elsewhere
+    const lines = [
+      ...statement.filter(line => findReferencedId(line) !== null),
+      ...statement.filter(line => findReferencedId(line) === null)
+    ].map(matchLine);
+
+    return {
+      lines: lines.sort((a, b) => a.line_number - b.line_number),
+      unmatched_payout_ids: processing.map(payout => payout.id).filter(id => !matchedLines.has(id))
+    };
+  } catch (error) {
+    console.error('Payout reconciliation preview failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { commissionPayoutsTable } from '../db/schema';
+import { type ReconcilePayoutsInput, type CommissionPayout } from '../schema';
+import { inArray } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { changePayoutStatus, toCommissionPayout } from '../helpers/payouts';
+import { settlePayoutRun } from '../helpers/payout_runs';
+
+export const reconcilePayouts = async (input: ReconcilePayoutsInput, actorId: number): Promise<CommissionPayout[]> => {
+  try {
+    // The acting admin is taken from the session, never from the request body
+    await requireAdmin(actorId);
+
+    const payoutIds = input.matches.map(match => match.payout_id);
+    const duplicateIds = payoutIds.filter((id, index) => payoutIds.indexOf(id) !== index);
+    if (duplicateIds.length > 0) {
+      throw new Error(`Payouts ${[...new Set(duplicateIds)].join(', ')} are matched more than once`);
+    }
+
+    const payouts = await db.select()
+      .from(commissionPayoutsTable)
+      .where(inArray(commissionPayoutsTable.id, payoutIds))
+      .execute();
+
+    const missingIds = payoutIds.filter(id => !payouts.some(payout => payout.id === id));
+    if (missingIds.length > 0) {
+      throw new Error(`Commission payouts with IDs ${missingIds.join(', ')} not found`);
+    }
+
+    // Every payout settles, or none does; payout runs left with nothing processing are closed along the way
+    const settled = await db.transaction(async (tx) => {
+      const updated = [];
+      for (const match of input.matches) {
+        const payout = payouts.find(candidate => candidate.id === match.payout_id);
+        if (!payout) {
+          continue;
+        }
+        updated.push(await changePayoutStatus(tx, payout, {
+          status: match.status,
+          bank_reference: match.bank_reference,
+          reason: input.reason ?? 'Bank statement reconciliation'
+        }, actorId));
+      }
+
+      const runIds = new Set(updated.map(payout => payout.payout_run_id).filter((id): id is number => id !== null));
+      for (const runId of runIds) {
+        await settlePayoutRun(tx, runId, actorId);
+      }
+
+      return updated;
+    });
+
+    return settled.map(toCommissionPayout);
+  } catch (error) {
+    console.error('Payout reconciliation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,47 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type RegisterAffiliateInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { hashPassword } from '../auth';
+import { insertAffiliate } from '../helpers/affiliates';
+import { createSession } from '../helpers/sessions';
+import { type LoginResult } from './login';
+
+// Sign up as an affiliate and log in; nothing is kept if any step fails, so the form can simply be submitted again
+export const registerAffiliate = async (input: RegisterAffiliateInput): Promise<LoginResult> => {
+  try {
+    const passwordHash = await hashPassword(input.password);
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(eq(usersTable.email, input.email))
+        .execute();
+
+      if (existing.length > 0) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'An account with this email already exists. Please log in instead.' });
+      }
+
+      const result = await tx.insert(usersTable)
+        .values({
+          email: input.email,
+          password_hash: passwordHash,
+          full_name: input.full_name,
+          phone: input.phone,
+          role: 'affiliate'
+        })
+        .returning()
+        .execute();
+
+      await insertAffiliate(tx, result[0].id, input.payout_accounts);
+      const session = await createSession(tx, result[0].id);
+
+      const { password_hash, ...user } = result[0];
+      return { user, ...session };
+    });
+  } catch (error) {
+    console.error('Affiliate registration failed:', error);
+    throw error;
+  }
+};
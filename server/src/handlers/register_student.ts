@@ -0,0 +1,159 @@
+import { db } from '../db';
+import { studentRegistrationsTable, affiliatesTable, programsTable, referralClicksTable } from '../db/schema';
+import {
+  type RegisterStudentInput,
+  type StudentRegistration,
+  type AttributionSettings,
+  type AttributionRule,
+  type AttributionTouch
+} from '../schema';
+import { eq, and, or, gte, isNull, asc, SQL } from 'drizzle-orm';
+import { getAttributionSettings, selectAttributedTouch } from '../attribution';
+import { resolveCommission } from '../helpers/commission_rules';
+import { toStudentRegistration } from '../helpers/registrations';
+import { getCurrentProgramPrice } from '../helpers/programs';
+import { resolveIntakeStatus } from '../helpers/intakes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const registerStudent = async (
+  input: RegisterStudentInput,
+  visitorId: string | null = null,
+  settings: AttributionSettings = getAttributionSettings()
+): Promise<StudentRegistration> => {
+  try {
+    // Validate that the program exists and is active
+    const program = await db.select()
+      .from(programsTable)
+      .where(eq(programsTable.id, input.program_id))
+      .execute();
+
+    if (program.length === 0) {
+      throw new Error('Program not found');
+    }
+
+    if (!program[0].is_active) {
+      throw new Error('Program is not active');
+    }
+
+    // Collect this visitor's unconverted clicks on approved affiliates' links inside the attribution window
+    const visitorConditions: SQL<unknown>[] = [];
+    if (visitorId) {
+      visitorConditions.push(eq(referralClicksTable.visitor_id, visitorId));
+    }
+    if (input.click_token) {
+      visitorConditions.push(eq(referralClicksTable.click_token, input.click_token));
+    }
+
+    const touches = visitorConditions.length > 0
+      ? await db.select({
+          click_id: referralClicksTable.id,
+          affiliate_id: referralClicksTable.affiliate_id,
+          referral_code: referralClicksTable.referral_code,
+          landed_at: referralClicksTable.landed_at,
+          commission_rate: affiliatesTable.commission_rate,
+          tier_id: affiliatesTable.tier_id
+        })
+          .from(referralClicksTable)
+          .innerJoin(affiliatesTable, eq(referralClicksTable.affiliate_id, affiliatesTable.id))
+          .where(
+            and(
+              or(...visitorConditions),
+              gte(referralClicksTable.landed_at, new Date(Date.now() - settings.window_days * DAY_MS)),
+              eq(affiliatesTable.status, 'approved'),
+              isNull(referralClicksTable.registration_id)
+            )
+          )
+          .orderBy(asc(referralClicksTable.landed_at), asc(referralClicksTable.id))
+          .execute()
+      : [];
+
+    const winningTouch = selectAttributedTouch(touches, settings.model);
+
+    // Without tracked clicks, fall back to the submitted code; unknown or non-approved codes stay unattributed
+    let attributedAffiliate: { id: number; referral_code: string; commission_rate: string; tier_id: number | null } | null = null;
+    let attributionRule: AttributionRule | null = null;
+
+    if (winningTouch) {
+      attributedAffiliate = {
+        id: winningTouch.affiliate_id,
+        referral_code: winningTouch.referral_code,
+        commission_rate: winningTouch.commission_rate,
+        tier_id: winningTouch.tier_id
+      };
+      attributionRule = settings.model;
+    } else {
+      const referralCode = input.referral_code?.trim() || null;
+      const affiliate = referralCode
+        ? await db.select()
+            .from(affiliatesTable)
+            .where(eq(affiliatesTable.referral_code, referralCode))
+            .execute()
+        : [];
+
+      if (affiliate.length > 0 && affiliate[0].status === 'approved') {
+        attributedAffiliate = affiliate[0];
+        attributionRule = 'referral_code';
+      }
+    }
+
+    const attributionTouches: AttributionTouch[] | null = touches.length > 0
+      ? touches.map(touch => ({
+          affiliate_id: touch.affiliate_id,
+          referral_code: touch.referral_code,
+          landed_at: touch.landed_at.toISOString()
+        }))
+      : null;
+
+    // Commission comes from the matching commission rule, or the affiliate's tier or default rate
+    const quotedPrice = await getCurrentProgramPrice(db, program[0]);
+    const commission = attributedAffiliate
+      ? await resolveCommission(attributedAffiliate, program[0])
+      : { commission_amount: 0, commission_rule_id: null };
+
+    // Waitlisted when the chosen intake has no seats left
+    const result = await db.transaction(async (tx) => {
+      const status = await resolveIntakeStatus(tx, program[0], input.intake_id);
+      return tx.insert(studentRegistrationsTable)
+        .values({
+          affiliate_id: attributedAffiliate?.id ?? null,
+          program_id: input.program_id,
+          student_name: input.student_name,
+          student_email: input.student_email,
+          student_phone: input.student_phone,
+          student_address: input.student_address,
+          referral_code: attributedAffiliate?.referral_code ?? null,
+          status,
+          registration_fee: quotedPrice.price,
+          program_price_id: quotedPrice.id,
+          intake_id: input.intake_id ?? null,
+          commission_amount: commission.commission_amount.toString(),
+          estimated_commission_amount: commission.commission_amount.toString(),
+          commission_rule_id: commission.commission_rule_id,
+          attribution_rule: attributionRule,
+          attribution_window_days: attributionRule ? settings.window_days : null,
+          attribution_touches: attributionTouches,
+          confirmed_by: null,
+          confirmed_at: null,
+          refunded_at: null
+        })
+        .returning()
+        .execute();
+    });
+
+    const registration = result[0];
+
+    // Close the funnel on the click that won the attribution
+    if (winningTouch) {
+      await db.update(referralClicksTable)
+        .set({ registration_id: registration.id })
+        .where(eq(referralClicksTable.id, winningTouch.click_id))
+        .execute();
+    }
+
+    return toStudentRegistration(registration);
+  } catch (error) {
+    console.error('Student registration failed:', error);
+    throw error;
+  }
+};
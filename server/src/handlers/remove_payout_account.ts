@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { payoutAccountsTable } from '../db/schema';
+import { type PayoutAccountActionInput, type PayoutAccount } from '../schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { resolvePayoutAccount, toPayoutAccount } from '../helpers/payout_accounts';
+
+// Accounts are deactivated, not deleted, because payouts reference them; payouts already requested keep their snapshot
+export const removePayoutAccount = async (input: PayoutAccountActionInput): Promise<PayoutAccount> => {
+  try {
+    const account = await resolvePayoutAccount(db, input.affiliate_id, input.payout_account_id);
+
+    const result = await db.transaction(async (tx) => {
+      const now = new Date();
+      const removed = await tx.update(payoutAccountsTable)
+        .set({ is_active: false, is_default: false, updated_at: now })
+        .where(eq(payoutAccountsTable.id, account.id))
+        .returning()
+        .execute();
+
+      // The oldest remaining account takes over as default
+      if (account.is_default) {
+        const remaining = await tx.select({ id: payoutAccountsTable.id })
+          .from(payoutAccountsTable)
+          .where(and(eq(payoutAccountsTable.affiliate_id, input.affiliate_id), eq(payoutAccountsTable.is_active, true)))
+          .orderBy(asc(payoutAccountsTable.id))
+          .limit(1)
+          .execute();
+
+        if (remaining.length > 0) {
+          await tx.update(payoutAccountsTable)
+            .set({ is_default: true, updated_at: now })
+            .where(eq(payoutAccountsTable.id, remaining[0].id))
+            .execute();
+        }
+      }
+
+      return removed;
+    });
+
+    return toPayoutAccount(result[0]);
+  } catch (error) {
+    console.error('Payout account removal failed:', error);
+    throw error;
+  }
+};
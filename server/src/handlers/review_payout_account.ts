@@ -0,0 +1,69 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { payoutAccountsTable, affiliatesTable } from '../db/schema';
+import { type ReviewPayoutAccountInput, type PayoutAccount } from '../schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { toPayoutAccount, toPayoutDestination } from '../helpers/payout_accounts';
+import { notifyUser } from '../helpers/notifications';
+
+export const reviewPayoutAccount = async (input: ReviewPayoutAccountInput, actorId: number): Promise<PayoutAccount> => {
+  try {
+    // The acting admin is taken from the session, never from the request body
+    await requireAdmin(actorId);
+
+    const rows = await db.select()
+      .from(payoutAccountsTable)
+      .innerJoin(affiliatesTable, eq(payoutAccountsTable.affiliate_id, affiliatesTable.id))
+      .where(eq(payoutAccountsTable.id, input.payout_account_id))
+      .execute();
+
+    if (rows.length === 0 || !rows[0].payout_accounts.is_active) {
+      throw new Error(`Payout account with ID ${input.payout_account_id} not found`);
+    }
+
+    const { payout_accounts: account, affiliates: affiliate } = rows[0];
+    if (account.verification_status !== 'pending') {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: `Payout account #${account.id} is already ${account.verification_status}`
+      });
+    }
+
+    const { provider_name } = toPayoutDestination(account);
+    const description = `${provider_name} account ${account.account_number}`;
+
+    // The review and the affiliate's notification are saved together
+    const reviewed = await db.transaction(async (tx) => {
+      const result = await tx.update(payoutAccountsTable)
+        .set({
+          verification_status: input.status,
+          verified_by: actorId,
+          verified_at: new Date(),
+          rejection_reason: input.status === 'rejected' ? input.reason ?? null : null,
+          updated_at: new Date()
+        })
+        .where(eq(payoutAccountsTable.id, account.id))
+        .returning()
+        .execute();
+
+      if (input.status === 'verified') {
+        await notifyUser(tx, affiliate.user_id, 'Payout account verified', `Your ${description} is verified and can receive payouts.`);
+      } else {
+        await notifyUser(
+          tx,
+          affiliate.user_id,
+          'Payout account rejected',
+          `Your ${description} could not be verified: ${input.reason}. Update the details or add another account to request payouts.`
+        );
+      }
+
+      return result[0];
+    });
+
+    return toPayoutAccount(reviewed);
+  } catch (error) {
+    console.error('Payout account review failed:', error);
+    throw error;
+  }
+};
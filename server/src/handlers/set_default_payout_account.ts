@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { payoutAccountsTable } from '../db/schema';
+import { type PayoutAccountActionInput, type PayoutAccount } from '../schema';
+import { eq } from 'drizzle-orm';
+import { resolvePayoutAccount, toPayoutAccount } from '../helpers/payout_accounts';
+
+export const setDefaultPayoutAccount = async (input: PayoutAccountActionInput): Promise<PayoutAccount> => {
+  try {
+    // Only the affiliate's own active accounts can become the default
+    const account = await resolvePayoutAccount(db, input.affiliate_id, input.payout_account_id);
+
+    const result = await db.transaction(async (tx) => {
+      const now = new Date();
+      await tx.update(payoutAccountsTable)
+        .set({ is_default: false, updated_at: now })
+        .where(eq(payoutAccountsTable.affiliate_id, input.affiliate_id))
+        .execute();
+
+      return tx.update(payoutAccountsTable)
+        .set({ is_default: true, updated_at: now })
+        .where(eq(payoutAccountsTable.id, account.id))
+        .returning()
+        .execute();
+    });
+
+    return toPayoutAccount(result[0]);
+  } catch (error) {
+    console.error('Setting the default payout account failed:', error);
+    throw error;
+  }
+};
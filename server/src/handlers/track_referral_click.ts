@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { referralClicksTable, affiliatesTable, programsTable } from '../db/schema';
+import { type TrackReferralClickInput, type ReferralClickVisitor, type TrackReferralClickResult } from '../schema';
+import { eq, and } from 'drizzle-orm';
+import { generateClickToken, hashIpAddress } from '../tracking';
+
+export const trackReferralClick = async (
+  input: TrackReferralClickInput,
+  visitor: ReferralClickVisitor
+): Promise<TrackReferralClickResult> => {
+  try {
+    // Only links of approved affiliates are tracked; anything else is not a referral
+    const affiliate = await db.select()
+      .from(affiliatesTable)
+      .where(
+        and(
+          eq(affiliatesTable.referral_code, input.referral_code),
+          eq(affiliatesTable.status, 'approved')
+        )
+      )
+      .execute();
+
+    if (affiliate.length === 0) {
+      return { click_token: null };
+    }
+
+    // Ignore program IDs from hand-edited links that don't exist
+    let programId: number | null = null;
+    if (input.program_id !== null) {
+      const program = await db.select({ id: programsTable.id })
+        .from(programsTable)
+        .where(eq(programsTable.id, input.program_id))
+        .execute();
+      programId = program.length > 0 ? program[0].id : null;
+    }
+
+    const clickToken = generateClickToken();
+
+    await db.insert(referralClicksTable)
+      .values({
+        affiliate_id: affiliate[0].id,
+        referral_code: affiliate[0].referral_code,
+        program_id: programId,
+        click_token: clickToken,
+        visitor_id: visitor.visitor_id,
+        user_agent: visitor.user_agent,
+        referrer: input.referrer,
+        ip_hash: visitor.ip_address ? hashIpAddress(visitor.ip_address) : null
+      })
+      .execute();
+
+    return { click_token: clickToken };
+  } catch (error) {
+    console.error('Referral click tracking failed:', error);
+    throw error;
+  }
+};
@@ -1,10 +1,26 @@
 import { db } from '../db';
-import { affiliatesTable } from '../db/schema';
+import { affiliatesTable, payoutAccountsTable } from '../db/schema';
 import { type UpdateAffiliateStatusInput, type Affiliate } from '../schema';
-import { eq } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { assertStatusTransition, recordStatusChange, AFFILIATE_TRANSITIONS } from '../helpers/status_transitions';
 
-export const updateAffiliateStatus = async (input: UpdateAffiliateStatusInput): Promise<Affiliate> => {
+export const updateAffiliateStatus = async (input: UpdateAffiliateStatusInput, actorId: number): Promise<Affiliate> => {
   try {
+    // The acting admin is taken from the session, never from the request body
+    await requireAdmin(actorId);
+
+    const existing = await db.select({ status: affiliatesTable.status })
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, input.affiliate_id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Affiliate with id ${input.affiliate_id} not found`);
+    }
+
+    assertStatusTransition('affiliate', AFFILIATE_TRANSITIONS, existing[0].status, input.status);
+
     // Prepare update data
     const updateData: any = {
       status: input.status,
@@ -13,7 +29,7 @@ export const updateAffiliateStatus = async (input: UpdateAffiliateStatusInput):
 
     // If status is 'approved', set approved_by and approved_at
     if (input.status === 'approved') {
-      updateData.approved_by = input.approved_by;
+      updateData.approved_by = actorId;
       updateData.approved_at = new Date();
     }
 
@@ -23,19 +39,40 @@ export const updateAffiliateStatus = async (input: UpdateAffiliateStatusInput):
       updateData.approved_at = null;
     }
 
-    // Update the affiliate record
-    const result = await db.update(affiliatesTable)
-      .set(updateData)
-      .where(eq(affiliatesTable.id, input.affiliate_id))
-      .returning()
-      .execute();
+    // Update the affiliate record and its history together
+    const affiliate = await db.transaction(async (tx) => {
+      const result = await tx.update(affiliatesTable)
+        .set(updateData)
+        .where(eq(affiliatesTable.id, input.affiliate_id))
+        .returning()
+        .execute();
 
-    if (result.length === 0) {
-      throw new Error(`Affiliate with id ${input.affiliate_id} not found`);
-    }
+      await recordStatusChange(tx, {
+        entity_type: 'affiliate',
+        entity_id: input.affiliate_id,
+        from_status: existing[0].status,
+        to_status: input.status,
+        actor_id: actorId,
+        reason: input.reason
+      });
+
+      // Approving an application also verifies the payout details it was submitted with;
+      // accounts added or edited after sign-up still go through the verification queue
+      if (input.status === 'approved' && existing[0].status === 'pending') {
+        await tx.update(payoutAccountsTable)
+          .set({ verification_status: 'verified', verified_by: actorId, verified_at: new Date(), updated_at: new Date() })
+          .where(and(
+            eq(payoutAccountsTable.affiliate_id, input.affiliate_id),
+            eq(payoutAccountsTable.is_active, true),
+            eq(payoutAccountsTable.verification_status, 'pending'),
+            eq(payoutAccountsTable.submitted_with_application, true)
+          ))
+          .execute();
+      }
+      return result[0];
+    });
 
     // Convert numeric fields back to numbers before returning
-    const affiliate = result[0];
     return {
       ...affiliate,
       commission_rate: parseFloat(affiliate.commission_rate)
@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { affiliateTiersTable } from '../db/schema';
+import { type UpdateAffiliateTierInput, type CreateAffiliateTierInput, type AffiliateTier } from '../schema';
+import { eq } from 'drizzle-orm';
+import { validateAffiliateTier, toAffiliateTier } from '../helpers/affiliate_tiers';
+
+// New thresholds and rates apply from the next tier evaluation
+export const updateAffiliateTier = async (input: UpdateAffiliateTierInput): Promise<AffiliateTier> => {
+  try {
+    const existing = await db.select()
+      .from(affiliateTiersTable)
+      .where(eq(affiliateTiersTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Affiliate tier with ID ${input.id} not found`);
+    }
+
+    // Omitted fields keep their value, null removes a threshold
+    const current = toAffiliateTier(existing[0]);
+    const merged: CreateAffiliateTierInput = {
+      name: input.name ?? current.name,
+      level: input.level ?? current.level,
+      commission_rate: input.commission_rate ?? current.commission_rate,
+      min_confirmed_registrations: input.min_confirmed_registrations === undefined
+        ? current.min_confirmed_registrations
+        : input.min_confirmed_registrations,
+      min_revenue: input.min_revenue === undefined ? current.min_revenue : input.min_revenue
+    };
+    await validateAffiliateTier(merged, input.id);
+
+    const result = await db.update(affiliateTiersTable)
+      .set({
+        name: merged.name,
+        level: merged.level,
+        commission_rate: merged.commission_rate.toString(),
+        min_confirmed_registrations: merged.min_confirmed_registrations,
+        min_revenue: merged.min_revenue === null ? null : merged.min_revenue.toString(),
+        updated_at: new Date()
+      })
+      .where(eq(affiliateTiersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toAffiliateTier(result[0]);
+  } catch (error) {
+    console.error('Affiliate tier update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { branchesTable } from '../db/schema';
+import { type UpdateBranchInput, type Branch } from '../schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+
+// Closing a branch keeps its programs running but stops new programs from being added to it
+export const updateBranch = async (input: UpdateBranchInput, actorId: number): Promise<Branch> => {
+  try {
+    await requireAdmin(actorId);
+
+    const existing = await db.select()
+      .from(branchesTable)
+      .where(eq(branchesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Branch with ID ${input.id} not found`);
+    }
+
+    // Omitted fields keep their value, null clears the address or contact
+    const current = existing[0];
+    const result = await db.update(branchesTable)
+      .set({
+        name: input.name ?? current.name,
+        address: input.address === undefined ? current.address : input.address,
+        contact: input.contact === undefined ? current.contact : input.contact,
+        is_active: input.is_active ?? current.is_active,
+        updated_at: new Date()
+      })
+      .where(eq(branchesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Branch update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { commissionRulesTable } from '../db/schema';
+import { type UpdateCommissionRuleInput, type CreateCommissionRuleInput, type CommissionRule } from '../schema';
+import { eq } from 'drizzle-orm';
+import { validateCommissionRule } from '../helpers/commission_rules';
+
+export const updateCommissionRule = async (input: UpdateCommissionRuleInput): Promise<CommissionRule> => {
+  try {
+    const existing = await db.select()
+      .from(commissionRulesTable)
+      .where(eq(commissionRulesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Commission rule with ID ${input.id} not found`);
+    }
+
+    // Validate the rule as it will look after the update; omitted fields keep their value, null clears a scope
+    const current = existing[0];
+    const merged: CreateCommissionRuleInput = {
+      name: input.name ?? current.name,
+      commission_type: input.commission_type ?? current.commission_type,
+      value: input.value ?? parseFloat(current.value),
+      affiliate_id: input.affiliate_id === undefined ? current.affiliate_id : input.affiliate_id,
+      program_id: input.program_id === undefined ? current.program_id : input.program_id,
+      category: input.category === undefined ? current.category : input.category,
+      location: input.location === undefined ? current.location : input.location,
+      effective_from: input.effective_from === undefined ? current.effective_from : input.effective_from,
+      effective_to: input.effective_to === undefined ? current.effective_to : input.effective_to
+    };
+    await validateCommissionRule(merged);
+
+    const result = await db.update(commissionRulesTable)
+      .set({
+        name: merged.name,
+        commission_type: merged.commission_type,
+        value: merged.value.toString(),
+        affiliate_id: merged.affiliate_id,
+        program_id: merged.program_id,
+        category: merged.category,
+        location: merged.location,
+        effective_from: merged.effective_from,
+        effective_to: merged.effective_to,
+        updated_at: new Date()
+      })
+      .where(eq(commissionRulesTable.id, input.id))
+      .returning()
+      .execute();
+
+    const rule = result[0];
+    return {
+      ...rule,
+      value: parseFloat(rule.value)
+    };
+  } catch (error) {
+    console.error('Commission rule update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { type UpdatePayoutAccountInput, type PayoutAccount } from '../schema';
+import { resolvePayoutAccount, replacePayoutAccountDetails, toPayoutAccount } from '../helpers/payout_accounts';
+
+// Payouts already requested keep the details they were requested with; new ones wait for the re-verification
+export const updatePayoutAccount = async (input: UpdatePayoutAccountInput): Promise<PayoutAccount> => {
+  try {
+    const account = await resolvePayoutAccount(db, input.affiliate_id, input.payout_account_id);
+    const updated = await replacePayoutAccountDetails(db, account.id, input.account);
+
+    return toPayoutAccount(updated);
+  } catch (error) {
+    console.error('Payout account update failed:', error);
+    throw error;
+  }
+};
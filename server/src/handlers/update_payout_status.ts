@@ -2,9 +2,14 @@ import { db } from '../db';
 import { commissionPayoutsTable } from '../db/schema';
 import { type UpdatePayoutStatusInput, type CommissionPayout } from '../schema';
 import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { changePayoutStatus, toCommissionPayout } from '../helpers/payouts';
 
-export const updatePayoutStatus = async (input: UpdatePayoutStatusInput): Promise<CommissionPayout> => {
+export const updatePayoutStatus = async (input: UpdatePayoutStatusInput, actorId: number): Promise<CommissionPayout> => {
   try {
+    // The acting admin is taken from the session, never from the request body
+    await requireAdmin(actorId);
+
     // First, check if the payout exists
     const existingPayout = await db.select()
       .from(commissionPayoutsTable)
@@ -16,38 +21,16 @@ export const updatePayoutStatus = async (input: UpdatePayoutStatusInput): Promis
       throw new Error(`Commission payout with ID ${input.payout_id} not found`);
     }
 
-    // Prepare update data
-    const updateData: any = {
+    // Check the transition, update the payout record and move its money in the ledger together
+    const payout = await db.transaction(tx => changePayoutStatus(tx, existingPayout[0], {
       status: input.status,
-      updated_at: new Date()
-    };
-
-    // Set processed_by and processed_at when status changes to 'completed' or 'failed'
-    if (input.status === 'completed' || input.status === 'failed') {
-      updateData.processed_by = input.processed_by;
-      updateData.processed_at = new Date();
-    }
-
-    // Add notes if provided
-    if (input.notes !== undefined) {
-      updateData.notes = input.notes;
-    }
-
-    // Update the payout record
-    const result = await db.update(commissionPayoutsTable)
-      .set(updateData)
-      .where(eq(commissionPayoutsTable.id, input.payout_id))
-      .returning()
-      .execute();
+      notes: input.notes,
+      reason: input.reason
+    }, actorId));
 
-    // Convert numeric fields back to numbers before returning
-    const payout = result[0];
-    return {
-      ...payout,
-      amount: parseFloat(payout.amount) // Convert string back to number
-    };
+    return toCommissionPayout(payout);
   } catch (error) {
     console.error('Payout status update failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type UpdateProfileInput, type SessionUser } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// The user is taken from the session, so everyone can only edit their own profile
+export const updateProfile = async (userId: number, input: UpdateProfileInput): Promise<SessionUser> => {
+  try {
+    const result = await db.update(usersTable)
+      .set({
+        full_name: input.full_name,
+        phone: input.phone,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    // Never hand the password hash back to the client
+    const { password_hash, ...user } = result[0];
+    return user;
+  } catch (error) {
+    console.error('Profile update failed:', error);
+    throw error;
+  }
+};
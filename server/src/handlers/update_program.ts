@@ -0,0 +1,66 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { programsTable } from '../db/schema';
+import { type UpdateProgramInput, type Program } from '../schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { getCurrentProgramPrice, recordProgramPrice, toProgram } from '../helpers/programs';
+import { requireOpenBranch } from '../helpers/branches';
+
+// Fix details, change the price or switch a program on and off; registrations already made keep the price they were quoted
+export const updateProgram = async (input: UpdateProgramInput, actorId: number): Promise<Program> => {
+  try {
+    await requireAdmin(actorId);
+
+    const existing = await db.select()
+      .from(programsTable)
+      .where(eq(programsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Program with ID ${input.id} not found`);
+    }
+
+    const current = existing[0];
+    if (current.archived_at !== null) {
+      throw new TRPCError({ code: 'CONFLICT', message: `Program "${current.name}" is archived and can no longer be changed` });
+    }
+
+    // Omitted fields keep their value, null clears the description or duration
+    const price = input.price === undefined ? current.price : input.price.toFixed(2);
+    const program = await db.transaction(async (tx) => {
+      // Moving a program needs an open branch; programs at a closed branch can stay where they are
+      if (input.location !== undefined && input.location !== current.location) {
+        await requireOpenBranch(tx, input.location);
+      }
+
+      if (price !== current.price) {
+        // Record the old price first when the program predates price history
+        await getCurrentProgramPrice(tx, current);
+        await recordProgramPrice(tx, current.id, price, actorId);
+      }
+
+      const result = await tx.update(programsTable)
+        .set({
+          name: input.name ?? current.name,
+          description: input.description === undefined ? current.description : input.description,
+          category: input.category ?? current.category,
+          location: input.location ?? current.location,
+          price,
+          duration_weeks: input.duration_weeks === undefined ? current.duration_weeks : input.duration_weeks,
+          is_active: input.is_active ?? current.is_active,
+          updated_at: new Date()
+        })
+        .where(eq(programsTable.id, input.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    return toProgram(program);
+  } catch (error) {
+    console.error('Program update failed:', error);
+    throw error;
+  }
+};
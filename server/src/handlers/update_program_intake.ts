@@ -0,0 +1,53 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { programIntakesTable } from '../db/schema';
+import { type UpdateProgramIntakeInput, type ProgramIntake } from '../schema';
+import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { assertIntakeDates, countIntakeRegistrations, describeIntake, promoteWaitlist, toProgramIntake } from '../helpers/intakes';
+
+export const updateProgramIntake = async (input: UpdateProgramIntakeInput, actorId: number): Promise<ProgramIntake> => {
+  try {
+    await requireAdmin(actorId);
+
+    const existing = await db.select()
+      .from(programIntakesTable)
+      .where(eq(programIntakesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Program intake with ID ${input.id} not found`);
+    }
+
+    const { id, ...changes } = input;
+    const updated = { ...existing[0], ...changes };
+    assertIntakeDates(updated);
+
+    // Seats already given stay given; extra seats go to the waitlist straight away
+    const intake = await db.transaction(async (tx) => {
+      const counts = await countIntakeRegistrations(tx, [id]);
+      const seatsTaken = counts.get(id)?.seats_taken ?? 0;
+      if (updated.capacity < seatsTaken) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `${seatsTaken} seats on ${describeIntake(existing[0])} are already taken`
+        });
+      }
+
+      const result = await tx.update(programIntakesTable)
+        .set({ ...changes, updated_at: new Date() })
+        .where(eq(programIntakesTable.id, id))
+        .returning()
+        .execute();
+
+      await promoteWaitlist(tx, id, actorId);
+      return result[0];
+    });
+
+    const counts = await countIntakeRegistrations(db, [intake.id]);
+    return toProgramIntake(intake, counts.get(intake.id));
+  } catch (error) {
+    console.error('Program intake update failed:', error);
+    throw error;
+  }
+};
@@ -1,46 +1,127 @@
 import { db } from '../db';
-import { studentRegistrationsTable } from '../db/schema';
+import { studentRegistrationsTable, affiliatesTable, programsTable, type NewStudentRegistration } from '../db/schema';
 import { type UpdateRegistrationStatusInput, type StudentRegistration } from '../schema';
 import { eq } from 'drizzle-orm';
+import { requireAdmin } from '../helpers/require_admin';
+import { getTiersByLevel, evaluateAffiliateTier } from '../helpers/affiliate_tiers';
+import { resolveCommission } from '../helpers/commission_rules';
+import { toStudentRegistration } from '../helpers/registrations';
+import { syncRegistrationLedger } from '../helpers/ledger';
+import { SEAT_STATUSES, assertIntakeSeatFree, promoteWaitlist } from '../helpers/intakes';
+import { assertStatusTransition, recordStatusChange, REGISTRATION_TRANSITIONS } from '../helpers/status_transitions';
+import { getTierSettings } from '../tiers';
 
-export const updateRegistrationStatus = async (input: UpdateRegistrationStatusInput): Promise<StudentRegistration> => {
+export const updateRegistrationStatus = async (input: UpdateRegistrationStatusInput, actorId: number): Promise<StudentRegistration> => {
   try {
-    // Prepare the update data
-    const updateData: any = {
-      status: input.status,
-      updated_at: new Date()
-    };
-
-    // Set confirmed_by and confirmed_at when status changes to 'confirmed'
-    if (input.status === 'confirmed') {
-      updateData.confirmed_by = input.confirmed_by || null;
-      updateData.confirmed_at = new Date();
-    } else {
-      // Clear confirmation fields for other statuses
-      updateData.confirmed_by = null;
-      updateData.confirmed_at = null;
+    // The acting admin is taken from the session, never from the request body
+    await requireAdmin(actorId);
+
+    if (input.amount_paid !== undefined && input.status !== 'confirmed') {
+      throw new Error('Amount paid can only be recorded when confirming a registration');
     }
 
-    // Update the registration
-    const result = await db.update(studentRegistrationsTable)
-      .set(updateData)
-      .where(eq(studentRegistrationsTable.id, input.registration_id))
-      .returning()
-      .execute();
+    // Confirming credits the commission in the ledger; a refund claws it back, even if already paid out.
+    // The row stays locked until commit so two admins acting at once cannot both pass the transition check.
+    const registration = await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(studentRegistrationsTable)
+        .where(eq(studentRegistrationsTable.id, input.registration_id))
+        .for('update')
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Student registration with ID ${input.registration_id} not found`);
+      }
+
+      const current = existing[0];
+
+      // A confirmed registration has been paid for, so it can be refunded but no longer cancelled
+      assertStatusTransition('registration', REGISTRATION_TRANSITIONS, current.status, input.status);
+
+      const now = new Date();
+      const updateData: Partial<NewStudentRegistration> = {
+        status: input.status,
+        updated_at: now
+      };
+
+      if (input.status === 'confirmed') {
+        // Correcting the amount paid keeps the original confirmation time, so the commission hold does not restart
+        updateData.confirmed_by = actorId;
+        updateData.confirmed_at = current.status === 'confirmed' ? current.confirmed_at : now;
+
+        // Commission is settled on what the student actually paid, by default the price they were quoted, under the rules in force today
+        const program = await tx.select()
+          .from(programsTable)
+          .where(eq(programsTable.id, current.program_id))
+          .execute();
+        const amountPaid = input.amount_paid ?? parseFloat(current.registration_fee);
+        updateData.amount_paid = amountPaid.toString();
+        updateData.estimated_commission_amount = current.estimated_commission_amount ?? current.commission_amount;
+
+        if (current.affiliate_id !== null) {
+          const affiliate = await tx.select()
+            .from(affiliatesTable)
+            .where(eq(affiliatesTable.id, current.affiliate_id))
+            .execute();
+          const commission = await resolveCommission(
+            affiliate[0],
+            { ...program[0], price: amountPaid.toString() },
+            now
+          );
+          updateData.commission_amount = commission.commission_amount.toString();
+          updateData.commission_rule_id = commission.commission_rule_id;
+        }
+      } else if (input.status === 'refunded') {
+        updateData.refunded_at = now;
+      } else {
+        // Clear confirmation fields for other statuses
+        updateData.confirmed_by = null;
+        updateData.confirmed_at = null;
+        updateData.amount_paid = null;
+      }
+
+      const takesSeat = SEAT_STATUSES.includes(input.status);
+      const heldSeat = SEAT_STATUSES.includes(current.status);
+      if (current.intake_id !== null && takesSeat && !heldSeat) {
+        await assertIntakeSeatFree(tx, current.intake_id);
+      }
+
+      const result = await tx.update(studentRegistrationsTable)
+        .set(updateData)
+        .where(eq(studentRegistrationsTable.id, input.registration_id))
+        .returning()
+        .execute();
+
+      await syncRegistrationLedger(tx, result[0], actorId);
+      await recordStatusChange(tx, {
+        entity_type: 'registration',
+        entity_id: current.id,
+        from_status: current.status,
+        to_status: input.status,
+        actor_id: actorId,
+        reason: input.reason
+      });
+
+      // A cancelled or refunded registration frees its seat for the next student on the waitlist
+      if (current.intake_id !== null && heldSeat && !takesSeat) {
+        await promoteWaitlist(tx, current.intake_id, actorId);
+      }
+      return result[0];
+    });
 
-    if (result.length === 0) {
-      throw new Error(`Student registration with ID ${input.registration_id} not found`);
+    // Confirmations and cancellations move the affiliate's tier straight away; the change is already saved,
+    // so a failure here is only logged and the daily tier run catches up
+    if (registration.affiliate_id !== null) {
+      try {
+        await evaluateAffiliateTier(registration.affiliate_id, await getTiersByLevel(), getTierSettings());
+      } catch (error) {
+        console.error(`Tier evaluation for affiliate ${registration.affiliate_id} failed:`, error);
+      }
     }
 
-    // Convert numeric fields back to numbers before returning
-    const registration = result[0];
-    return {
-      ...registration,
-      registration_fee: parseFloat(registration.registration_fee),
-      commission_amount: parseFloat(registration.commission_amount)
-    };
+    return toStudentRegistration(registration);
   } catch (error) {
     console.error('Registration status update failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
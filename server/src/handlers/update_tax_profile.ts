@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { affiliatesTable, affiliateTaxProfilesTable } from '../db/schema';
+import { type UpdateTaxProfileInput, type TaxProfile } from '../schema';
+import { eq } from 'drizzle-orm';
+import { toTaxProfile } from '../helpers/tax_withholding';
+
+// Applies to payouts requested from now on; payouts already requested keep the withholding they were given
+export const updateTaxProfile = async (input: UpdateTaxProfileInput): Promise<TaxProfile> => {
+  try {
+    const affiliate = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, input.affiliate_id))
+      .execute();
+
+    if (affiliate.length === 0) {
+      throw new Error(`Affiliate with ID ${input.affiliate_id} not found`);
+    }
+
+    const profile = {
+      taxpayer_type: input.taxpayer_type,
+      npwp: input.npwp,
+      registered_name: input.registered_name,
+      address: input.address
+    };
+    const result = await db.insert(affiliateTaxProfilesTable)
+      .values({ affiliate_id: input.affiliate_id, ...profile })
+      .onConflictDoUpdate({
+        target: affiliateTaxProfilesTable.affiliate_id,
+        set: { ...profile, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return toTaxProfile(result[0]);
+  } catch (error) {
+    console.error('Tax profile update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,112 @@
+import { db } from '../db';
+import { affiliatesTable, affiliateTiersTable, studentRegistrationsTable, type AffiliateTier } from '../db/schema';
+import { type TierSettings, type TierChange, type CreateAffiliateTierInput, type AffiliateTier as AffiliateTierOutput } from '../schema';
+import { eq, ne, and, or, gte, asc, count, sum, sql } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AffiliatePerformance {
+  confirmed_registrations: number;
+  revenue: number;
+}
+
+export const getTierPeriodStart = (settings: TierSettings, now: Date = new Date()): Date =>
+  new Date(now.getTime() - settings.period_days * DAY_MS);
+
+// Confirmed registrations and what the students paid, counted by confirmation date
+export const getAffiliatePerformance = async (affiliateId: number, since: Date): Promise<AffiliatePerformance> => {
+  const result = await db.select({
+    confirmed_registrations: count(),
+    revenue: sum(sql`coalesce(${studentRegistrationsTable.amount_paid}, ${studentRegistrationsTable.registration_fee})`)
+  })
+    .from(studentRegistrationsTable)
+    .where(
+      and(
+        eq(studentRegistrationsTable.affiliate_id, affiliateId),
+        eq(studentRegistrationsTable.status, 'confirmed'),
+        gte(studentRegistrationsTable.confirmed_at, since)
+      )
+    )
+    .execute();
+
+  return {
+    confirmed_registrations: result[0].confirmed_registrations,
+    revenue: parseFloat(result[0].revenue ?? '0')
+  };
+};
+
+// A tier without thresholds is the entry tier; otherwise meeting either threshold is enough
+export const qualifiesForTier = (tier: AffiliateTier, performance: AffiliatePerformance): boolean => {
+  if (tier.min_confirmed_registrations === null && tier.min_revenue === null) {
+    return true;
+  }
+  return (tier.min_confirmed_registrations !== null && performance.confirmed_registrations >= tier.min_confirmed_registrations) ||
+    (tier.min_revenue !== null && performance.revenue >= parseFloat(tier.min_revenue));
+};
+
+// Tiers must be ordered by level, lowest first
+export const selectTier = (tiers: AffiliateTier[], performance: AffiliatePerformance): AffiliateTier | null =>
+  tiers.filter(tier => qualifiesForTier(tier, performance)).pop() ?? null;
+
+export const getTiersByLevel = (): Promise<AffiliateTier[]> =>
+  db.select()
+    .from(affiliateTiersTable)
+    .orderBy(asc(affiliateTiersTable.level))
+    .execute();
+
+// Promote or demote one affiliate to the tier their performance in the current period earns
+export const evaluateAffiliateTier = async (
+  affiliateId: number,
+  tiers: AffiliateTier[],
+  settings: TierSettings,
+  now: Date = new Date()
+): Promise<TierChange | null> => {
+  const affiliate = await db.select({ tier_id: affiliatesTable.tier_id })
+    .from(affiliatesTable)
+    .where(eq(affiliatesTable.id, affiliateId))
+    .execute();
+
+  if (affiliate.length === 0) {
+    throw new Error(`Affiliate with ID ${affiliateId} not found`);
+  }
+
+  const performance = await getAffiliatePerformance(affiliateId, getTierPeriodStart(settings, now));
+  const tier = selectTier(tiers, performance);
+  const previousTierId = affiliate[0].tier_id;
+
+  await db.update(affiliatesTable)
+    .set({ tier_id: tier?.id ?? null, tier_evaluated_at: now })
+    .where(eq(affiliatesTable.id, affiliateId))
+    .execute();
+
+  return previousTierId === (tier?.id ?? null)
+    ? null
+    : { affiliate_id: affiliateId, previous_tier_id: previousTierId, tier_id: tier?.id ?? null };
+};
+
+// Convert numeric fields of a tier row to numbers
+export const toAffiliateTier = (tier: AffiliateTier): AffiliateTierOutput => ({
+  ...tier,
+  commission_rate: parseFloat(tier.commission_rate),
+  min_revenue: tier.min_revenue === null ? null : parseFloat(tier.min_revenue)
+});
+
+// Tier names and levels must be unique; `tierId` excludes the tier being edited
+export const validateAffiliateTier = async (tier: CreateAffiliateTierInput, tierId: number | null = null): Promise<void> => {
+  const conflicts = await db.select()
+    .from(affiliateTiersTable)
+    .where(
+      and(
+        or(eq(affiliateTiersTable.level, tier.level), eq(affiliateTiersTable.name, tier.name)),
+        tierId === null ? undefined : ne(affiliateTiersTable.id, tierId)
+      )
+    )
+    .execute();
+
+  const conflict = conflicts[0];
+  if (conflict) {
+    throw new Error(conflict.level === tier.level
+      ? `Tier level ${tier.level} is already used by ${conflict.name}`
+      : `A tier named ${tier.name} already exists`);
+  }
+};
@@ -0,0 +1,53 @@
+import { type DbTransaction } from '../db';
+import { affiliatesTable, type Affiliate as AffiliateRow } from '../db/schema';
+import { type PayoutAccountDetails } from '../schema';
+import { eq } from 'drizzle-orm';
+import { insertPayoutAccount } from './payout_accounts';
+
+// Default rate for new affiliates; commission rules take precedence where they apply
+export const DEFAULT_COMMISSION_RATE = 0.10;
+
+// Insert a pending affiliate with a fresh referral code, together with the payout accounts given at sign-up
+export const insertAffiliate = async (
+  tx: DbTransaction,
+  userId: number,
+  payoutAccounts: PayoutAccountDetails[],
+  commissionRate: number = DEFAULT_COMMISSION_RATE
+): Promise<AffiliateRow> => {
+  // Generate unique referral code
+  let referralCode: string;
+  let isUnique = false;
+  let attempts = 0;
+  const maxAttempts = 10;
+
+  do {
+    referralCode = `EB${Math.random().toString(36).substr(2, 8).toUpperCase()}`;
+
+    const existingCode = await tx.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.referral_code, referralCode))
+      .execute();
+
+    isUnique = existingCode.length === 0;
+    attempts++;
+
+    if (attempts >= maxAttempts && !isUnique) {
+      throw new Error('Unable to generate unique referral code');
+    }
+  } while (!isUnique);
+
+  const result = await tx.insert(affiliatesTable)
+    .values({
+      user_id: userId,
+      referral_code: referralCode,
+      commission_rate: commissionRate.toString(), // Convert number to string for numeric column
+      status: 'pending' // Default status for admin approval
+    })
+    .returning()
+    .execute();
+
+  for (const account of payoutAccounts) {
+    await insertPayoutAccount(tx, result[0].id, account, false, 'pending', true);
+  }
+  return result[0];
+};
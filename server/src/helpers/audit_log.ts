@@ -0,0 +1,161 @@
+import { db } from '../db';
+import {
+  auditLogTable,
+  usersTable,
+  affiliatesTable,
+  affiliateTiersTable,
+  branchesTable,
+  programsTable,
+  programIntakesTable,
+  commissionRulesTable,
+  studentRegistrationsTable,
+  commissionPayoutsTable,
+  payoutRunsTable,
+  payoutAccountsTable,
+  ledgerEntriesTable,
+  affiliateTaxProfilesTable
+} from '../db/schema';
+import { type AuditEntity, type AuditChanges } from '../schema';
+import { eq } from 'drizzle-orm';
+
+interface AuditTarget {
+  entity_type: AuditEntity;
+  input_key?: string; // Updates name the entity in their input; creates only know it once the result is back
+  is_actor?: boolean; // The entity is the calling user, as when editing one's own profile
+}
+
+// The entity each mutation touches, keyed by procedure path; mutations missing here are logged without one
+export const AUDIT_TARGETS: Record<string, AuditTarget> = {
+  login: { entity_type: 'user' },
+  createUser: { entity_type: 'user' },
+  updateMyProfile: { entity_type: 'user', is_actor: true },
+  createAffiliate: { entity_type: 'affiliate' },
+  updateAffiliateStatus: { entity_type: 'affiliate', input_key: 'affiliate_id' },
+  createBranch: { entity_type: 'branch' },
+  updateBranch: { entity_type: 'branch', input_key: 'id' },
+  deleteBranch: { entity_type: 'branch', input_key: 'branch_id' },
+  createProgram: { entity_type: 'program' },
+  updateProgram: { entity_type: 'program', input_key: 'id' },
+  archiveProgram: { entity_type: 'program', input_key: 'program_id' },
+  deleteProgram: { entity_type: 'program', input_key: 'program_id' },
+  createProgramIntake: { entity_type: 'program_intake' },
+  updateProgramIntake: { entity_type: 'program_intake', input_key: 'id' },
+  createAffiliateTier: { entity_type: 'affiliate_tier' },
+  updateAffiliateTier: { entity_type: 'affiliate_tier', input_key: 'id' },
+  createCommissionRule: { entity_type: 'commission_rule' },
+  updateCommissionRule: { entity_type: 'commission_rule', input_key: 'id' },
+  registerStudent: { entity_type: 'registration' },
+  createStudentRegistration: { entity_type: 'registration' },
+  updateRegistrationStatus: { entity_type: 'registration', input_key: 'registration_id' },
+  createCommissionPayout: { entity_type: 'payout' },
+  updatePayoutStatus: { entity_type: 'payout', input_key: 'payout_id' },
+  createPayoutRun: { entity_type: 'payout_run' },
+  completePayoutRun: { entity_type: 'payout_run', input_key: 'run_id' },
+  createPayoutAccount: { entity_type: 'payout_account' },
+  setDefaultPayoutAccount: { entity_type: 'payout_account', input_key: 'payout_account_id' },
+  removePayoutAccount: { entity_type: 'payout_account', input_key: 'payout_account_id' },
+  updatePayoutAccount: { entity_type: 'payout_account', input_key: 'payout_account_id' },
+  reviewPayoutAccount: { entity_type: 'payout_account', input_key: 'payout_account_id' },
+  updateTaxProfile: { entity_type: 'tax_profile' },
+  createLedgerAdjustment: { entity_type: 'ledger_entry' }
+};
+
+const loadEntity = async (entity: AuditEntity, id: number): Promise<Record<string, unknown> | null> => {
+  const rows = await (() => {
+    switch (entity) {
+      case 'user': return db.select().from(usersTable).where(eq(usersTable.id, id)).execute();
+      case 'affiliate': return db.select().from(affiliatesTable).where(eq(affiliatesTable.id, id)).execute();
+      case 'affiliate_tier': return db.select().from(affiliateTiersTable).where(eq(affiliateTiersTable.id, id)).execute();
+      case 'branch': return db.select().from(branchesTable).where(eq(branchesTable.id, id)).execute();
+      case 'program': return db.select().from(programsTable).where(eq(programsTable.id, id)).execute();
+      case 'program_intake': return db.select().from(programIntakesTable).where(eq(programIntakesTable.id, id)).execute();
+      case 'commission_rule': return db.select().from(commissionRulesTable).where(eq(commissionRulesTable.id, id)).execute();
+      case 'registration': return db.select().from(studentRegistrationsTable).where(eq(studentRegistrationsTable.id, id)).execute();
+      case 'payout': return db.select().from(commissionPayoutsTable).where(eq(commissionPayoutsTable.id, id)).execute();
+      case 'payout_run': return db.select().from(payoutRunsTable).where(eq(payoutRunsTable.id, id)).execute();
+      case 'payout_account': return db.select().from(payoutAccountsTable).where(eq(payoutAccountsTable.id, id)).execute();
+      case 'ledger_entry': return db.select().from(ledgerEntriesTable).where(eq(ledgerEntriesTable.id, id)).execute();
+      case 'tax_profile': return db.select().from(affiliateTaxProfilesTable).where(eq(affiliateTaxProfilesTable.id, id)).execute();
+    }
+  })();
+
+  return rows.length > 0 ? rows[0] : null;
+};
+
+// Secrets never reach the log, and updated_at only repeats the time of the entry itself
+const IGNORED_FIELDS = ['password_hash', 'updated_at'];
+
+// Fields whose value differs between two snapshots of the same row; dates compare by their JSON form
+export const diffAuditState = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges | null => {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) {
+      continue;
+    }
+    const previous = JSON.parse(JSON.stringify(before?.[field] ?? null));
+    const next = JSON.parse(JSON.stringify(after?.[field] ?? null));
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+const getNumericId = (value: unknown, key: string): number | null => {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const id = (value as Record<string, unknown>)[key];
+  return typeof id === 'number' && Number.isInteger(id) ? id : null;
+};
+
+export interface AuditedMutation {
+  procedure: string;
+  actor_id: number;
+  ip_hash: string | null;
+  input: unknown; // Raw, unvalidated input
+}
+
+// Snapshot the entity, run the mutation, then log what it changed; only successful mutations are logged
+export const auditMutation = async <R extends { ok: boolean; data?: unknown }>(
+  mutation: AuditedMutation,
+  run: () => Promise<R>
+): Promise<R> => {
+  const target = AUDIT_TARGETS[mutation.procedure];
+  const inputId = target?.is_actor
+    ? mutation.actor_id
+    : target?.input_key ? getNumericId(mutation.input, target.input_key) : null;
+  const before = target && inputId !== null ? await loadEntity(target.entity_type, inputId) : null;
+
+  const result = await run();
+  if (!result.ok) {
+    return result;
+  }
+
+  // The change is already committed, so a failed write is reported rather than failing the request
+  try {
+    const entityId = inputId ?? getNumericId(result.data, 'id');
+    const after = target && entityId !== null ? await loadEntity(target.entity_type, entityId) : null;
+
+    await db.insert(auditLogTable)
+      .values({
+        actor_id: mutation.actor_id,
+        procedure: mutation.procedure,
+        entity_type: target?.entity_type ?? null,
+        entity_id: target ? entityId : null,
+        changes: diffAuditState(before, after),
+        ip_hash: mutation.ip_hash
+      })
+      .execute();
+  } catch (error) {
+    console.error(`Audit log write for ${mutation.procedure} failed:`, error);
+  }
+
+  return result;
+};
@@ -0,0 +1,12 @@
+import { backfillLedger } from './ledger';
+
+// Post ledger entries for registrations and payouts recorded before the ledger existed: bun src/helpers/backfill_ledger.ts
+backfillLedger()
+  .then((posted) => {
+    console.log(`Ledger backfill complete: ${posted} entries posted`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Ledger backfill failed:', error);
+    process.exit(1);
+  });
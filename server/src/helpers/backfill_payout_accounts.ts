@@ -0,0 +1,15 @@
+import { backfillPayoutAccounts } from './payout_accounts';
+
+// Turn payout details recorded before payout accounts existed into accounts and payout snapshots: bun src/helpers/backfill_payout_accounts.ts
+backfillPayoutAccounts()
+  .then((result) => {
+    console.log(`Payout account backfill complete: ${result.accounts} accounts created, ${result.payouts} payouts updated`);
+    for (const skipped of result.skipped) {
+      console.warn(`Skipped ${skipped}: unknown provider, ask the affiliate to add the account again`);
+    }
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Payout account backfill failed:', error);
+    process.exit(1);
+  });
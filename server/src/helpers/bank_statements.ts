@@ -0,0 +1,129 @@
+import { type StatementDirection } from '../schema';
+import { parseCsv } from './csv';
+
+// One money movement read from a bank statement
+export interface StatementLine {
+  line_number: number;
+  date: string | null;
+  description: string;
+  account_number: string | null;
+  amount: number;
+  direction: StatementDirection;
+  bank_reference: string | null;
+}
+
+type StatementColumn = 'date' | 'description' | 'reference' | 'account' | 'amount' | 'debit' | 'credit' | 'direction';
+
+// Header names used by the statement exports of BCA, Mandiri and BRI internet banking, in English and Indonesian
+const COLUMN_PATTERNS: [StatementColumn, RegExp][] = [
+  ['date', /^(tanggal|tgl|date|posting date|transaction date)/],
+  ['direction', /^(d\/k|db\/cr|d\/c|dk|jenis|type)$/],
+  ['debit', /^(debit|debet|db|mutasi debet|mutasi debit)$/],
+  ['credit', /^(kredit|credit|cr|mutasi kredit)$/],
+  ['amount', /^(jumlah|amount|nominal|mutasi)/],
+  ['reference', /(referensi|reference|ref no|no\. ref)/],
+  ['account', /(rekening|norek|account no|account number|beneficiary account)/],
+  ['description', /^(keterangan|description|remark|berita|uraian|narrative|transaction details)/]
+];
+
+const CREDIT_MARKERS = ['cr', 'c', 'k', 'kr', 'kredit', 'credit'];
+const DEBIT_MARKERS = ['db', 'd', 'debet', 'debit'];
+
+const findColumns = (row: string[]): Partial<Record<StatementColumn, number>> => {
+  const columns: Partial<Record<StatementColumn, number>> = {};
+  row.forEach((cell, index) => {
+    const header = cell.trim().toLowerCase();
+    const match = COLUMN_PATTERNS.find(([column, pattern]) => columns[column] === undefined && pattern.test(header));
+    if (match) {
+      columns[match[0]] = index;
+    }
+  });
+  return columns;
+};
+
+// Accepts "1.500.000,00", "1,500,000.00" and "1500000", with an optional DB/CR marker or minus sign
+export const parseStatementAmount = (value: string): { amount: number; direction: StatementDirection | null } | null => {
+  const text = value.trim();
+  const marker = text.match(/([a-z]+)\.?$/i)?.[1].toLowerCase();
+  let direction: StatementDirection | null = marker && CREDIT_MARKERS.includes(marker)
+    ? 'credit'
+    : marker && DEBIT_MARKERS.includes(marker) ? 'debit' : null;
+  if (/^-|^\(.*\)$/.test(text)) {
+    direction = 'debit';
+  }
+
+  let digits = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(digits)) {
+    return null;
+  }
+
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  const decimalSeparator = lastDot >= 0 && lastComma >= 0
+    ? (lastDot > lastComma ? '.' : ',')
+    : [',', '.'].find(separator =>
+      digits.split(separator).length === 2 && /^\d{1,2}$/.test(digits.split(separator)[1]));
+
+  if (decimalSeparator) {
+    const [whole, fraction] = [digits.slice(0, digits.lastIndexOf(decimalSeparator)), digits.slice(digits.lastIndexOf(decimalSeparator) + 1)];
+    digits = `${whole.replace(/[.,]/g, '')}.${fraction}`;
+  } else {
+    digits = digits.replace(/[.,]/g, '');
+  }
+
+  return { amount: parseFloat(digits), direction };
+};
+
+const cellAt = (row: string[], index: number | undefined): string =>
+  index === undefined ? '' : (row[index] ?? '').trim();
+
+// Read the money movements of a statement CSV; preamble rows above the header and balance rows are skipped
+export const parseBankStatement = (content: string): StatementLine[] => {
+  const rows = parseCsv(content);
+
+  const headerIndex = rows.findIndex(row => {
+    const columns = findColumns(row);
+    return columns.description !== undefined &&
+      (columns.amount !== undefined || columns.debit !== undefined || columns.credit !== undefined);
+  });
+  if (headerIndex === -1) {
+    throw new Error('Could not find the header row of the bank statement; it needs a description and an amount column');
+  }
+
+  const columns = findColumns(rows[headerIndex]);
+  const lines: StatementLine[] = [];
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const debit = parseStatementAmount(cellAt(row, columns.debit));
+    const credit = parseStatementAmount(cellAt(row, columns.credit));
+    const amount = parseStatementAmount(cellAt(row, columns.amount));
+
+    let movement: { amount: number; direction: StatementDirection } | null = null;
+    if (debit && debit.amount > 0) {
+      movement = { amount: debit.amount, direction: 'debit' };
+    } else if (credit && credit.amount > 0) {
+      movement = { amount: credit.amount, direction: 'credit' };
+    } else if (amount && amount.amount > 0) {
+      const marker = cellAt(row, columns.direction).toLowerCase();
+      movement = {
+        amount: amount.amount,
+        direction: CREDIT_MARKERS.includes(marker) ? 'credit' : amount.direction ?? 'debit'
+      };
+    }
+
+    if (!movement) {
+      return;
+    }
+
+    lines.push({
+      line_number: headerIndex + offset + 2,
+      date: cellAt(row, columns.date) || null,
+      description: cellAt(row, columns.description),
+      account_number: cellAt(row, columns.account) || null,
+      bank_reference: cellAt(row, columns.reference) || null,
+      ...movement
+    });
+  });
+
+  return lines;
+};
@@ -0,0 +1,75 @@
+import { TRPCError } from '@trpc/server';
+import { db, type DbExecutor } from '../db';
+import { branchesTable, type Branch } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+
+// The locations programs could have before branches were data; each becomes a branch with the same code
+export const LEGACY_BRANCHES = [
+  { code: 'online', name: 'Online' },
+  { code: 'pare', name: 'Pare' },
+  { code: 'malang', name: 'Malang' },
+  { code: 'sidoarjo', name: 'Sidoarjo' },
+  { code: 'nganjuk', name: 'Nganjuk' }
+];
+
+export const requireBranch = async (executor: DbExecutor, code: string): Promise<Branch> => {
+  const branch = await executor.select()
+    .from(branchesTable)
+    .where(eq(branchesTable.code, code))
+    .execute();
+
+  if (branch.length === 0) {
+    throw new Error(`Branch "${code}" not found`);
+  }
+
+  return branch[0];
+};
+
+// New programs only go to branches that are open
+export const requireOpenBranch = async (executor: DbExecutor, code: string): Promise<Branch> => {
+  const branch = await requireBranch(executor, code);
+
+  if (!branch.is_active) {
+    throw new TRPCError({ code: 'CONFLICT', message: `Branch "${branch.name}" is closed and takes no new programs` });
+  }
+
+  return branch;
+};
+
+// Run before the schema push drops the program_location enum: the location columns keep their values as branch codes.
+// Safe to run again; on a new database it only creates the branches.
+export const migrateLocationsToBranches = async (): Promise<void> => {
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS "branches" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "code" varchar(50) NOT NULL,
+        "name" varchar(255) NOT NULL,
+        "address" text,
+        "contact" varchar(255),
+        "is_active" boolean DEFAULT true NOT NULL,
+        "created_at" timestamp DEFAULT now() NOT NULL,
+        "updated_at" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "branches_code_unique" UNIQUE("code")
+      )
+    `);
+
+    await tx.insert(branchesTable)
+      .values(LEGACY_BRANCHES)
+      .onConflictDoNothing({ target: branchesTable.code })
+      .execute();
+
+    for (const table of ['programs', 'commission_rules']) {
+      await tx.execute(sql.raw(`
+        DO $$ BEGIN
+          IF EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_schema = 'public' AND table_name = '${table}' AND column_name = 'location' AND data_type = 'USER-DEFINED'
+          ) THEN
+            ALTER TABLE "${table}" ALTER COLUMN "location" SET DATA TYPE varchar(50);
+          END IF;
+        END $$
+      `));
+    }
+  });
+};
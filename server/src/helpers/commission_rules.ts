@@ -0,0 +1,129 @@
+import { db } from '../db';
+import { commissionRulesTable, affiliatesTable, affiliateTiersTable, programsTable, type CommissionRule } from '../db/schema';
+import { type ProgramCategory, type ProgramLocation, type CreateCommissionRuleInput } from '../schema';
+import { eq, and, or, isNull, lte, gt } from 'drizzle-orm';
+import { requireBranch } from './branches';
+import { roundToCents } from './tax_withholding';
+
+interface CommissionAffiliate {
+  id: number;
+  commission_rate: string; // Default rate when no rule or tier applies
+  tier_id: number | null;
+}
+
+interface CommissionProgram {
+  id: number;
+  category: ProgramCategory;
+  location: ProgramLocation;
+  price: string;
+}
+
+export interface ResolvedCommission {
+  commission_amount: number;
+  commission_rule_id: number | null;
+}
+
+// Affiliate overrides beat everything, then program, location and category scopes
+const getSpecificity = (rule: CommissionRule): number =>
+  (rule.affiliate_id !== null ? 8 : 0) +
+  (rule.program_id !== null ? 4 : 0) +
+  (rule.location !== null ? 2 : 0) +
+  (rule.category !== null ? 1 : 0);
+
+const getTierCommissionRate = async (affiliate: CommissionAffiliate): Promise<number | null> => {
+  if (affiliate.tier_id === null) {
+    return null;
+  }
+  const tier = await db.select({ commission_rate: affiliateTiersTable.commission_rate })
+    .from(affiliateTiersTable)
+    .where(eq(affiliateTiersTable.id, affiliate.tier_id))
+    .execute();
+  return tier.length > 0 ? parseFloat(tier[0].commission_rate) : null;
+};
+
+// Pick the most specific rule in force at `at`; ties go to the rule that took effect last.
+// An affiliate's tier rate replaces their own rate and is the least any rule not scoped to them pays;
+// rules scoped to the affiliate are negotiated overrides and apply as they are
+export const resolveCommission = async (
+  affiliate: CommissionAffiliate,
+  program: CommissionProgram,
+  at: Date = new Date()
+): Promise<ResolvedCommission> => {
+  const rules = await db.select()
+    .from(commissionRulesTable)
+    .where(
+      and(
+        or(isNull(commissionRulesTable.affiliate_id), eq(commissionRulesTable.affiliate_id, affiliate.id)),
+        or(isNull(commissionRulesTable.program_id), eq(commissionRulesTable.program_id, program.id)),
+        or(isNull(commissionRulesTable.category), eq(commissionRulesTable.category, program.category)),
+        or(isNull(commissionRulesTable.location), eq(commissionRulesTable.location, program.location)),
+        or(isNull(commissionRulesTable.effective_from), lte(commissionRulesTable.effective_from, at)),
+        or(isNull(commissionRulesTable.effective_to), gt(commissionRulesTable.effective_to, at))
+      )
+    )
+    .execute();
+
+  const programPrice = parseFloat(program.price);
+
+  const [rule] = rules.sort((a, b) =>
+    getSpecificity(b) - getSpecificity(a) ||
+    (b.effective_from?.getTime() ?? 0) - (a.effective_from?.getTime() ?? 0) ||
+    b.id - a.id
+  );
+
+  const tierRate = await getTierCommissionRate(affiliate);
+  const tierCommission = tierRate === null ? null : roundToCents(programPrice * tierRate);
+
+  if (!rule) {
+    return {
+      commission_amount: tierCommission ?? roundToCents(programPrice * parseFloat(affiliate.commission_rate)),
+      commission_rule_id: null
+    };
+  }
+
+  const value = parseFloat(rule.value);
+  const ruleCommission = roundToCents(rule.commission_type === 'percentage' ? programPrice * value : value);
+  if (rule.affiliate_id === null && tierCommission !== null && tierCommission > ruleCommission) {
+    return { commission_amount: tierCommission, commission_rule_id: null };
+  }
+
+  return {
+    commission_amount: ruleCommission,
+    commission_rule_id: rule.id
+  };
+};
+
+// Shared checks for creating and editing rules; scoped affiliates and programs must exist
+export const validateCommissionRule = async (rule: CreateCommissionRuleInput): Promise<void> => {
+  if (rule.commission_type === 'percentage' && rule.value > 1) {
+    throw new Error('Percentage commission must be a fraction between 0 and 1');
+  }
+
+  if (rule.effective_from && rule.effective_to && rule.effective_from >= rule.effective_to) {
+    throw new Error('Commission rule must end after it starts');
+  }
+
+  if (rule.affiliate_id !== null) {
+    const affiliate = await db.select({ id: affiliatesTable.id })
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, rule.affiliate_id))
+      .execute();
+    if (affiliate.length === 0) {
+      throw new Error(`Affiliate with ID ${rule.affiliate_id} not found`);
+    }
+  }
+
+  if (rule.program_id !== null) {
+    const program = await db.select({ id: programsTable.id })
+      .from(programsTable)
+      .where(eq(programsTable.id, rule.program_id))
+      .execute();
+    if (program.length === 0) {
+      throw new Error(`Program with ID ${rule.program_id} not found`);
+    }
+  }
+
+  if (rule.location !== null) {
+    await requireBranch(db, rule.location);
+  }
+};
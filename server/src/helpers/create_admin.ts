@@ -0,0 +1,16 @@
+import { createUser } from '../handlers/create_user';
+
+// Bootstrap an admin account: bun src/helpers/create_admin.ts <email> <password> "<full name>"
+const [email, password, fullName] = process.argv.slice(2);
+
+if (!email || !password || !fullName) {
+  console.error('Usage: bun src/helpers/create_admin.ts <email> <password> "<full name>"');
+  process.exit(1);
+}
+
+createUser({ email, password, full_name: fullName, phone: null, role: 'admin' })
+  .then((user) => {
+    console.log(`Admin user created: ${user.email}`);
+    process.exit(0);
+  })
+  .catch(() => process.exit(1));
@@ -0,0 +1,61 @@
+// Text that spreadsheet tools would run as a formula; plain numbers such as negative amounts and a lone dash are left as they are
+const FORMULA_START = /^[=+\-@\t\r]./s;
+const PLAIN_NUMBER = /^[-+]?\d+(\.\d+)?$/;
+
+// Quote fields containing separators, quotes or line breaks and prefix formula-like text with an apostrophe so it opens as text;
+// lines end in CRLF as spreadsheet tools expect
+export const toCsv = (rows: (string | number | null)[][]): string =>
+  rows.map(row => row.map(field => {
+    const text = field === null ? '' : String(field);
+    const value = FORMULA_START.test(text) && !PLAIN_NUMBER.test(text) ? `'${text}` : text;
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }).join(',')).join('\r\n') + '\r\n';
+
+// Split CSV text into rows of fields; the delimiter is guessed from the first line, as Indonesian bank exports often use semicolons
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
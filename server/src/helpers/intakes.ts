@@ -0,0 +1,193 @@
+import { TRPCError } from '@trpc/server';
+import { type DbExecutor } from '../db';
+import {
+  programIntakesTable,
+  studentRegistrationsTable,
+  type Program as ProgramRow,
+  type ProgramIntake as ProgramIntakeRow,
+  type StudentRegistration as StudentRegistrationRow
+} from '../db/schema';
+import { type ProgramIntake, type RegistrationStatus } from '../schema';
+import { recordStatusChange } from './status_transitions';
+import { eq, and, inArray, asc, count } from 'drizzle-orm';
+
+// Registrations in these statuses hold a seat on their intake
+export const SEAT_STATUSES: RegistrationStatus[] = ['pending', 'confirmed'];
+
+interface IntakeCounts {
+  seats_taken: number;
+  confirmed_count: number;
+  waitlisted_count: number;
+}
+
+export const countIntakeRegistrations = async (executor: DbExecutor, intakeIds: number[]): Promise<Map<number, IntakeCounts>> => {
+  const counts = new Map<number, IntakeCounts>();
+  if (intakeIds.length === 0) {
+    return counts;
+  }
+
+  const rows = await executor.select({
+    intake_id: studentRegistrationsTable.intake_id,
+    status: studentRegistrationsTable.status,
+    total: count()
+  })
+    .from(studentRegistrationsTable)
+    .where(inArray(studentRegistrationsTable.intake_id, intakeIds))
+    .groupBy(studentRegistrationsTable.intake_id, studentRegistrationsTable.status)
+    .execute();
+
+  for (const row of rows) {
+    if (row.intake_id === null) {
+      continue;
+    }
+    const totals = counts.get(row.intake_id) ?? { seats_taken: 0, confirmed_count: 0, waitlisted_count: 0 };
+    if (SEAT_STATUSES.includes(row.status)) {
+      totals.seats_taken += row.total;
+    }
+    if (row.status === 'confirmed') {
+      totals.confirmed_count += row.total;
+    } else if (row.status === 'waitlisted') {
+      totals.waitlisted_count += row.total;
+    }
+    counts.set(row.intake_id, totals);
+  }
+
+  return counts;
+};
+
+export const toProgramIntake = (intake: ProgramIntakeRow, counts: IntakeCounts | undefined, now: Date = new Date()): ProgramIntake => {
+  const seatsTaken = counts?.seats_taken ?? 0;
+  return {
+    ...intake,
+    seats_taken: seatsTaken,
+    confirmed_count: counts?.confirmed_count ?? 0,
+    waitlisted_count: counts?.waitlisted_count ?? 0,
+    seats_left: Math.max(intake.capacity - seatsTaken, 0),
+    fill_rate: seatsTaken / intake.capacity,
+    is_open: now <= intake.registration_deadline
+  };
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const describeIntake = (intake: ProgramIntakeRow) => `the intake starting ${formatDate(intake.start_date)}`;
+
+// An intake ends after it starts, and registration closes by the first day
+export const assertIntakeDates = (intake: Pick<ProgramIntakeRow, 'start_date' | 'end_date' | 'registration_deadline'>): void => {
+  if (intake.end_date < intake.start_date) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'An intake cannot end before it starts' });
+  }
+  if (intake.registration_deadline > intake.start_date) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'The registration deadline cannot be after the intake starts' });
+  }
+};
+
+// Lock the intake row so registrations racing for its last seats count them one at a time
+const lockIntake = async (executor: DbExecutor, intakeId: number): Promise<ProgramIntakeRow> => {
+  const intake = await executor.select()
+    .from(programIntakesTable)
+    .where(eq(programIntakesTable.id, intakeId))
+    .for('update')
+    .execute();
+
+  if (intake.length === 0) {
+    throw new Error(`Program intake with ID ${intakeId} not found`);
+  }
+
+  return intake[0];
+};
+
+const getSeatsTaken = async (executor: DbExecutor, intakeId: number): Promise<number> => {
+  const counts = await countIntakeRegistrations(executor, [intakeId]);
+  return counts.get(intakeId)?.seats_taken ?? 0;
+};
+
+// Status of a new registration: programs with intakes need an open one picked, and once its seats are gone students are waitlisted
+export const resolveIntakeStatus = async (
+  executor: DbExecutor,
+  program: ProgramRow,
+  intakeId: number | null | undefined,
+  now: Date = new Date()
+): Promise<'pending' | 'waitlisted'> => {
+  if (intakeId === null || intakeId === undefined) {
+    const intakes = await executor.select({ id: programIntakesTable.id })
+      .from(programIntakesTable)
+      .where(eq(programIntakesTable.program_id, program.id))
+      .limit(1)
+      .execute();
+
+    if (intakes.length > 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: `Choose an intake to register for ${program.name}` });
+    }
+    return 'pending';
+  }
+
+  const intake = await lockIntake(executor, intakeId);
+  if (intake.program_id !== program.id) {
+    throw new Error(`Program intake with ID ${intakeId} not found`);
+  }
+
+  if (now > intake.registration_deadline) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `Registration for ${describeIntake(intake)} closed on ${formatDate(intake.registration_deadline)}`
+    });
+  }
+
+  return await getSeatsTaken(executor, intake.id) < intake.capacity ? 'pending' : 'waitlisted';
+};
+
+// A registration moving back to pending takes a seat again, so one must be free
+export const assertIntakeSeatFree = async (executor: DbExecutor, intakeId: number): Promise<void> => {
+  const intake = await lockIntake(executor, intakeId);
+
+  if (await getSeatsTaken(executor, intake.id) >= intake.capacity) {
+    throw new TRPCError({ code: 'CONFLICT', message: `No seats are left on ${describeIntake(intake)}` });
+  }
+};
+
+// Give free seats to waitlisted registrations, first come first served
+export const promoteWaitlist = async (
+  executor: DbExecutor,
+  intakeId: number,
+  actorId: number | null
+): Promise<StudentRegistrationRow[]> => {
+  const intake = await lockIntake(executor, intakeId);
+  const freeSeats = intake.capacity - await getSeatsTaken(executor, intake.id);
+  if (freeSeats <= 0) {
+    return [];
+  }
+
+  const waitlisted = await executor.select()
+    .from(studentRegistrationsTable)
+    .where(
+      and(
+        eq(studentRegistrationsTable.intake_id, intake.id),
+        eq(studentRegistrationsTable.status, 'waitlisted')
+      )
+    )
+    .orderBy(asc(studentRegistrationsTable.created_at), asc(studentRegistrationsTable.id))
+    .limit(freeSeats)
+    .execute();
+
+  const promoted: StudentRegistrationRow[] = [];
+  for (const registration of waitlisted) {
+    const result = await executor.update(studentRegistrationsTable)
+      .set({ status: 'pending', updated_at: new Date() })
+      .where(eq(studentRegistrationsTable.id, registration.id))
+      .returning()
+      .execute();
+
+    await recordStatusChange(executor, {
+      entity_type: 'registration',
+      entity_id: registration.id,
+      from_status: 'waitlisted',
+      to_status: 'pending',
+      actor_id: actorId,
+      reason: `A seat opened up on ${describeIntake(intake)}`
+    });
+    promoted.push(result[0]);
+  }
+
+  return promoted;
+};
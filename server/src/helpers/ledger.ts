@@ -0,0 +1,362 @@
+import { db, type DbExecutor, type DbTransaction } from '../db';
+import {
+  affiliatesTable,
+  ledgerEntriesTable,
+  studentRegistrationsTable,
+  programIntakesTable,
+  commissionPayoutsTable,
+  type LedgerEntry as LedgerEntryRow,
+  type StudentRegistration,
+  type CommissionPayout
+} from '../db/schema';
+import {
+  type LedgerAccount,
+  type LedgerEntryType,
+  type LedgerBalances,
+  type LedgerEntry,
+  type LockedCommission,
+  type PayoutStatus,
+  type CommissionHoldSettings
+} from '../schema';
+import { eq, and, or, gt, gte, lt, lte, inArray, desc, asc, sum, count, SQL } from 'drizzle-orm';
+import { getCommissionHoldSettings } from '../commission_hold';
+
+// Every entry type moves money along one fixed path; adjustments run backwards when negative
+const ENTRY_ACCOUNTS: Record<LedgerEntryType, { from: LedgerAccount; to: LedgerAccount }> = {
+  commission_earned: { from: 'company', to: 'available' },
+  commission_reversed: { from: 'available', to: 'company' },
+  payout_reserved: { from: 'available', to: 'reserved' },
+  payout_released: { from: 'reserved', to: 'available' },
+  payout_paid: { from: 'reserved', to: 'paid' },
+  adjustment: { from: 'company', to: 'available' }
+};
+
+// Where a payout's money sits for each payout status
+const PAYOUT_ACCOUNTS: Record<PayoutStatus, LedgerAccount> = {
+  pending: 'reserved',
+  processing: 'reserved',
+  completed: 'paid',
+  failed: 'available'
+};
+
+export interface PostLedgerEntry {
+  affiliate_id: number;
+  entry_type: LedgerEntryType;
+  amount: number; // Signed only for adjustments
+  registration_id?: number | null;
+  payout_id?: number | null;
+  description?: string | null;
+  created_by?: number | null;
+  created_at?: Date; // Defaults to now; set when backfilling history
+}
+
+// Convert numeric fields of a ledger entry row back to numbers
+export const toLedgerEntry = (entry: LedgerEntryRow): LedgerEntry => ({
+  ...entry,
+  amount: parseFloat(entry.amount)
+});
+
+// Append one entry; the ledger is never updated or deleted from
+export const postLedgerEntry = async (executor: DbExecutor, entry: PostLedgerEntry): Promise<LedgerEntryRow> => {
+  if (entry.amount === 0) {
+    throw new Error('Ledger entries cannot be for a zero amount');
+  }
+  if (entry.amount < 0 && entry.entry_type !== 'adjustment') {
+    throw new Error('Only adjustments can be posted with a negative amount');
+  }
+
+  const accounts = ENTRY_ACCOUNTS[entry.entry_type];
+  const [from, to] = entry.amount > 0 ? [accounts.from, accounts.to] : [accounts.to, accounts.from];
+
+  const result = await executor.insert(ledgerEntriesTable)
+    .values({
+      affiliate_id: entry.affiliate_id,
+      entry_type: entry.entry_type,
+      from_account: from,
+      to_account: to,
+      amount: Math.abs(entry.amount).toString(),
+      registration_id: entry.registration_id ?? null,
+      payout_id: entry.payout_id ?? null,
+      description: entry.description ?? null,
+      created_by: entry.created_by ?? null,
+      created_at: entry.created_at
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+// Sum of what flowed into each account minus what flowed out of it
+const getAccountTotals = async (executor: DbExecutor, conditions: SQL<unknown>[]): Promise<Record<LedgerAccount, number>> => {
+  const totals: Record<LedgerAccount, number> = { company: 0, available: 0, reserved: 0, paid: 0 };
+
+  const inflows = await executor.select({ account: ledgerEntriesTable.to_account, total: sum(ledgerEntriesTable.amount) })
+    .from(ledgerEntriesTable)
+    .where(and(...conditions))
+    .groupBy(ledgerEntriesTable.to_account)
+    .execute();
+
+  const outflows = await executor.select({ account: ledgerEntriesTable.from_account, total: sum(ledgerEntriesTable.amount) })
+    .from(ledgerEntriesTable)
+    .where(and(...conditions))
+    .groupBy(ledgerEntriesTable.from_account)
+    .execute();
+
+  for (const row of inflows) {
+    totals[row.account] += parseFloat(row.total ?? '0');
+  }
+  for (const row of outflows) {
+    totals[row.account] -= parseFloat(row.total ?? '0');
+  }
+
+  // Amounts are whole cents; drop the floating point noise from the subtraction
+  for (const account of Object.keys(totals) as LedgerAccount[]) {
+    totals[account] = Math.round(totals[account] * 100) / 100;
+  }
+
+  return totals;
+};
+
+export const getLedgerBalances = async (affiliateId: number, executor: DbExecutor = db): Promise<LedgerBalances> => {
+  const totals = await getAccountTotals(executor, [eq(ledgerEntriesTable.affiliate_id, affiliateId)]);
+  return { available: totals.available, reserved: totals.reserved, paid: totals.paid };
+};
+
+// Commission owed to the affiliate but not yet paid out just before a moment, including what is reserved for requested payouts
+export const getUnpaidBalanceAt = async (affiliateId: number, at: Date, executor: DbExecutor = db): Promise<number> => {
+  const totals = await getAccountTotals(executor, [eq(ledgerEntriesTable.affiliate_id, affiliateId), lt(ledgerEntriesTable.created_at, at)]);
+  return Math.round((totals.available + totals.reserved) * 100) / 100;
+};
+
+// Lock the affiliate row so transactions that spend the balance queue behind each other, then read it
+export const lockLedgerBalances = async (tx: DbTransaction, affiliateId: number): Promise<LedgerBalances> => {
+  const affiliate = await tx.select({ id: affiliatesTable.id })
+    .from(affiliatesTable)
+    .where(eq(affiliatesTable.id, affiliateId))
+    .for('update')
+    .execute();
+
+  if (affiliate.length === 0) {
+    throw new Error(`Affiliate with ID ${affiliateId} not found`);
+  }
+
+  return getLedgerBalances(affiliateId, tx);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Commission of registrations confirmed within the hold period or, if so configured, whose intake has not started yet;
+// soonest to unlock first. Registrations confirmed before confirmation times were recorded have no confirmed_at and only wait for their intake.
+export const getLockedCommissions = async (
+  affiliateId: number,
+  executor: DbExecutor = db,
+  settings: CommissionHoldSettings = getCommissionHoldSettings(),
+  now: Date = new Date()
+): Promise<LockedCommission[]> => {
+  const holdMs = settings.hold_days * DAY_MS;
+
+  // Registrations without an intake have no start date, so only the hold days apply to them
+  const stillLocked: SQL<unknown>[] = [gt(studentRegistrationsTable.confirmed_at, new Date(now.getTime() - holdMs))];
+  if (settings.until_program_start) {
+    stillLocked.push(gt(programIntakesTable.start_date, now));
+  }
+
+  const registrations = await executor.select({
+    id: studentRegistrationsTable.id,
+    student_name: studentRegistrationsTable.student_name,
+    commission_amount: studentRegistrationsTable.commission_amount,
+    confirmed_at: studentRegistrationsTable.confirmed_at,
+    intake_start_date: programIntakesTable.start_date
+  })
+    .from(studentRegistrationsTable)
+    .leftJoin(programIntakesTable, eq(programIntakesTable.id, studentRegistrationsTable.intake_id))
+    .where(and(
+      eq(studentRegistrationsTable.affiliate_id, affiliateId),
+      eq(studentRegistrationsTable.status, 'confirmed'),
+      or(...stillLocked)
+    ))
+    .execute();
+
+  return registrations
+    .map(registration => {
+      const unlockTimes = [registration.confirmed_at ? registration.confirmed_at.getTime() + holdMs : 0];
+      if (settings.until_program_start && registration.intake_start_date) {
+        unlockTimes.push(registration.intake_start_date.getTime());
+      }
+      return {
+        registration_id: registration.id,
+        student_name: registration.student_name,
+        amount: parseFloat(registration.commission_amount),
+        unlocks_at: new Date(Math.max(...unlockTimes))
+      };
+    })
+    .filter(locked => locked.amount > 0)
+    .sort((a, b) => a.unlocks_at.getTime() - b.unlocks_at.getTime() || a.registration_id - b.registration_id);
+};
+
+// What can be paid out now: the available balance less commission still in its hold period
+export const getWithdrawableBalance = async (
+  executor: DbExecutor,
+  affiliateId: number,
+  balances: LedgerBalances
+): Promise<{ withdrawable: number; locked: number; unlocks: LockedCommission[] }> => {
+  const unlocks = await getLockedCommissions(affiliateId, executor);
+  const locked = Math.round(unlocks.reduce((total, item) => total + item.amount, 0) * 100) / 100;
+  return { withdrawable: Math.round((balances.available - locked) * 100) / 100, locked, unlocks };
+};
+
+// Net commission credited to the affiliate and paid out to them between two dates
+export const getLedgerFlows = async (
+  affiliateId: number,
+  startDate?: Date,
+  endDate?: Date
+): Promise<{ earned: number; paid: number }> => {
+  const conditions: SQL<unknown>[] = [eq(ledgerEntriesTable.affiliate_id, affiliateId)];
+  if (startDate) {
+    conditions.push(gte(ledgerEntriesTable.created_at, startDate));
+  }
+  if (endDate) {
+    conditions.push(lte(ledgerEntriesTable.created_at, endDate));
+  }
+
+  const totals = await getAccountTotals(db, conditions);
+  const paid = await db.select({ total: sum(ledgerEntriesTable.amount) })
+    .from(ledgerEntriesTable)
+    .where(and(...conditions, eq(ledgerEntriesTable.entry_type, 'payout_paid')))
+    .execute();
+
+  return {
+    earned: 0 - totals.company, // Everything the company credited, less what it took back
+    paid: parseFloat(paid[0].total ?? '0')
+  };
+};
+
+// Bring the ledger in line with a registration: confirmed commission is earned, anything else is not
+export const syncRegistrationLedger = async (
+  executor: DbExecutor,
+  registration: StudentRegistration,
+  createdBy: number | null = null,
+  createdAt?: Date
+): Promise<void> => {
+  if (registration.affiliate_id === null) {
+    return;
+  }
+
+  const target = registration.status === 'confirmed' ? parseFloat(registration.commission_amount) : 0;
+
+  const posted = await executor.select({ entry_type: ledgerEntriesTable.entry_type, total: sum(ledgerEntriesTable.amount) })
+    .from(ledgerEntriesTable)
+    .where(and(
+      eq(ledgerEntriesTable.registration_id, registration.id),
+      inArray(ledgerEntriesTable.entry_type, ['commission_earned', 'commission_reversed'])
+    ))
+    .groupBy(ledgerEntriesTable.entry_type)
+    .execute();
+
+  const current = posted.reduce((net, row) => {
+    const total = parseFloat(row.total ?? '0');
+    return row.entry_type === 'commission_earned' ? net + total : net - total;
+  }, 0);
+
+  // Round to cents so floating point noise never posts an entry
+  const difference = Math.round((target - current) * 100) / 100;
+  if (difference === 0) {
+    return;
+  }
+
+  await postLedgerEntry(executor, {
+    affiliate_id: registration.affiliate_id,
+    entry_type: difference > 0 ? 'commission_earned' : 'commission_reversed',
+    amount: Math.abs(difference),
+    registration_id: registration.id,
+    description: `Registration #${registration.id} ${registration.status}`,
+    created_by: createdBy,
+    created_at: createdAt
+  });
+};
+
+// Move a payout's money to the account its status calls for
+export const syncPayoutLedger = async (
+  executor: DbExecutor,
+  payout: CommissionPayout,
+  createdBy: number | null = null,
+  createdAt?: Date
+): Promise<void> => {
+  const latest = await executor.select({ to_account: ledgerEntriesTable.to_account })
+    .from(ledgerEntriesTable)
+    .where(eq(ledgerEntriesTable.payout_id, payout.id))
+    .orderBy(desc(ledgerEntriesTable.id))
+    .limit(1)
+    .execute();
+
+  // Payouts with no entries yet never held any money
+  const current: LedgerAccount = latest.length > 0 ? latest[0].to_account : 'available';
+  const target = PAYOUT_ACCOUNTS[payout.status];
+  if (current === target) {
+    return;
+  }
+
+  if (current === 'paid') {
+    throw new Error('A completed payout has already been paid out and cannot change status');
+  }
+
+  const entry = {
+    affiliate_id: payout.affiliate_id,
+    amount: parseFloat(payout.amount),
+    payout_id: payout.id,
+    description: `Payout #${payout.id} ${payout.status}`,
+    created_by: createdBy,
+    created_at: createdAt
+  };
+
+  // Money is always paid out of a reservation
+  if (current === 'available') {
+    await postLedgerEntry(executor, { ...entry, entry_type: 'payout_reserved' });
+  }
+  if (target === 'paid') {
+    await postLedgerEntry(executor, { ...entry, entry_type: 'payout_paid' });
+  } else if (target === 'available') {
+    await postLedgerEntry(executor, { ...entry, entry_type: 'payout_released' });
+  }
+};
+
+const countLedgerEntries = async (): Promise<number> => {
+  const result = await db.select({ total: count() }).from(ledgerEntriesTable).execute();
+  return result[0].total;
+};
+
+// Post entries for registrations and payouts that predate the ledger; safe to run more than once
+export const backfillLedger = async (): Promise<number> => {
+  const before = await countLedgerEntries();
+
+  const registrations = await db.select()
+    .from(studentRegistrationsTable)
+    .orderBy(asc(studentRegistrationsTable.id))
+    .execute();
+
+  for (const registration of registrations) {
+    await syncRegistrationLedger(db, registration, null, registration.confirmed_at ?? registration.created_at);
+  }
+
+  const payouts = await db.select()
+    .from(commissionPayoutsTable)
+    .orderBy(asc(commissionPayoutsTable.id))
+    .execute();
+
+  for (const payout of payouts) {
+    const posted = await db.select({ id: ledgerEntriesTable.id })
+      .from(ledgerEntriesTable)
+      .where(eq(ledgerEntriesTable.payout_id, payout.id))
+      .limit(1)
+      .execute();
+
+    // Reserve when the payout was requested, then settle it when it was processed
+    if (posted.length === 0) {
+      await syncPayoutLedger(db, { ...payout, status: 'pending' }, null, payout.created_at);
+    }
+    await syncPayoutLedger(db, payout, payout.processed_by, payout.processed_at ?? payout.updated_at);
+  }
+
+  return (await countLedgerEntries()) - before;
+};
@@ -0,0 +1,12 @@
+import { migrateLocationsToBranches } from './branches';
+
+// Turn the fixed program locations into branches before the schema push drops them: bun src/helpers/migrate_branches.ts
+migrateLocationsToBranches()
+  .then(() => {
+    console.log('Branch migration complete');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Branch migration failed:', error);
+    process.exit(1);
+  });
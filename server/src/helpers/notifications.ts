@@ -0,0 +1,14 @@
+import { type DbExecutor } from '../db';
+import { notificationsTable } from '../db/schema';
+
+// Written inside the caller's transaction, so a notification only exists if the change it reports does
+export const notifyUser = async (
+  executor: DbExecutor,
+  userId: number,
+  title: string,
+  message: string
+): Promise<void> => {
+  await executor.insert(notificationsTable)
+    .values({ user_id: userId, title, message })
+    .execute();
+};
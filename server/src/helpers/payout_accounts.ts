@@ -0,0 +1,278 @@
+import { TRPCError } from '@trpc/server';
+import { db, type DbExecutor } from '../db';
+import { payoutAccountsTable, affiliatesTable, usersTable, commissionPayoutsTable, type PayoutAccount as PayoutAccountRow } from '../db/schema';
+import {
+  type PayoutAccount,
+  type PayoutAccountDetails,
+  type PayoutDestination,
+  type PayoutAccountVerification,
+  type BankCode,
+  type EwalletProvider,
+  BANK_NAMES,
+  EWALLET_PROVIDER_NAMES,
+  bankCodeSchema,
+  ewalletProviderSchema
+} from '../schema';
+import { eq, and, isNull, asc } from 'drizzle-orm';
+
+// Narrow the varchar bank code back to the codes the schema accepts
+export const toPayoutAccount = (account: PayoutAccountRow): PayoutAccount => ({
+  ...account,
+  bank_code: account.bank_code as BankCode | null
+});
+
+// The snapshot stored on a payout, so later edits to the account never change where an old payout went
+export const toPayoutDestination = (account: PayoutAccountRow): PayoutDestination => ({
+  account_type: account.account_type,
+  bank_code: account.bank_code,
+  ewallet_provider: account.ewallet_provider,
+  provider_name: account.account_type === 'bank'
+    ? BANK_NAMES[account.bank_code as BankCode] ?? account.bank_code ?? ''
+    : EWALLET_PROVIDER_NAMES[account.ewallet_provider as EwalletProvider] ?? '',
+  account_number: account.account_number,
+  account_holder: account.account_holder
+});
+
+// The columns holding an account's details, shared by new and edited accounts
+const toAccountColumns = (details: PayoutAccountDetails) => ({
+  account_type: details.account_type,
+  bank_code: details.account_type === 'bank' ? details.bank_code : null,
+  ewallet_provider: details.account_type === 'ewallet' ? details.ewallet_provider : null,
+  account_number: details.account_number,
+  account_holder: details.account_holder
+});
+
+// Save a validated account; an affiliate's first active account always becomes the default.
+// New details wait for an admin unless they were already trusted, as with backfilled accounts.
+export const insertPayoutAccount = async (
+  executor: DbExecutor,
+  affiliateId: number,
+  details: PayoutAccountDetails,
+  isDefault: boolean,
+  verificationStatus: PayoutAccountVerification = 'pending',
+  submittedWithApplication = false
+): Promise<PayoutAccountRow> => {
+  const existingDefault = await executor.select({ id: payoutAccountsTable.id })
+    .from(payoutAccountsTable)
+    .where(and(
+      eq(payoutAccountsTable.affiliate_id, affiliateId),
+      eq(payoutAccountsTable.is_active, true),
+      eq(payoutAccountsTable.is_default, true)
+    ))
+    .execute();
+
+  const makeDefault = isDefault || existingDefault.length === 0;
+  if (makeDefault && existingDefault.length > 0) {
+    await executor.update(payoutAccountsTable)
+      .set({ is_default: false, updated_at: new Date() })
+      .where(eq(payoutAccountsTable.affiliate_id, affiliateId))
+      .execute();
+  }
+
+  const result = await executor.insert(payoutAccountsTable)
+    .values({
+      affiliate_id: affiliateId,
+      ...toAccountColumns(details),
+      is_default: makeDefault,
+      verification_status: verificationStatus,
+      submitted_with_application: submittedWithApplication
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+// The account a payout request goes to: the one named, or the affiliate's default
+export const resolvePayoutAccount = async (
+  executor: DbExecutor,
+  affiliateId: number,
+  accountId?: number
+): Promise<PayoutAccountRow> => {
+  const conditions = [eq(payoutAccountsTable.affiliate_id, affiliateId), eq(payoutAccountsTable.is_active, true)];
+  conditions.push(accountId !== undefined ? eq(payoutAccountsTable.id, accountId) : eq(payoutAccountsTable.is_default, true));
+
+  const accounts = await executor.select()
+    .from(payoutAccountsTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (accounts.length === 0) {
+    throw new Error(accountId !== undefined
+      ? `Payout account with ID ${accountId} not found`
+      : 'Add a payout account before requesting a payout');
+  }
+  return accounts[0];
+};
+
+// Replace an account's details; the account is unusable for payouts until an admin verifies it again
+export const replacePayoutAccountDetails = async (
+  executor: DbExecutor,
+  accountId: number,
+  details: PayoutAccountDetails
+): Promise<PayoutAccountRow> => {
+  const result = await executor.update(payoutAccountsTable)
+    .set({
+      ...toAccountColumns(details),
+      verification_status: 'pending',
+      verified_by: null,
+      verified_at: null,
+      rejection_reason: null,
+      submitted_with_application: false, // Approving the application no longer vouches for these details
+      updated_at: new Date()
+    })
+    .where(eq(payoutAccountsTable.id, accountId))
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+// Payouts are only sent to details an admin has checked
+export const assertPayoutAccountVerified = (account: PayoutAccountRow): void => {
+  if (account.verification_status === 'pending') {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `Payout account #${account.id} is awaiting verification by an admin; payouts resume once it is verified`
+    });
+  }
+  if (account.verification_status === 'rejected') {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `Payout account #${account.id} was rejected${account.rejection_reason ? `: ${account.rejection_reason}` : ''}; update or replace it to request payouts`
+    });
+  }
+};
+
+// Resolve a free-text bank name such as "bca" or "Bank Mandiri" to its code
+const findBankCode = (name: string): BankCode | null => {
+  const normalized = name.trim().toLowerCase().replace(/^bank\s+/, '');
+  const code = bankCodeSchema.safeParse(normalized);
+  if (code.success) {
+    return code.data;
+  }
+  const match = (Object.entries(BANK_NAMES) as [BankCode, string][])
+    .find(([, bankName]) => bankName.toLowerCase().replace(/^bank\s+/, '') === normalized);
+  return match ? match[0] : null;
+};
+
+const findEwalletProvider = (name: string): EwalletProvider | null => {
+  const provider = ewalletProviderSchema.safeParse(name.trim().toLowerCase().replace(/\s+/g, ''));
+  return provider.success ? provider.data : null;
+};
+
+// Legacy payout details were "bank - number - holder" and "provider - number", or JSON from older clients
+export const parseLegacyPayoutDetails = (
+  details: string,
+  accountType: PayoutDestination['account_type']
+): PayoutDestination => {
+  let provider = '';
+  let accountNumber = '';
+  let holder = '';
+
+  try {
+    const parsed = JSON.parse(details);
+    if (typeof parsed !== 'object' || parsed === null) {
+      throw new Error('Not an object');
+    }
+    provider = String(parsed.bank_name ?? parsed.ewallet_type ?? '');
+    accountNumber = String(parsed.account_number ?? parsed.ewallet_number ?? '');
+    holder = String(parsed.account_name ?? '');
+  } catch {
+    const parts = details.split(' - ').map(part => part.trim());
+    [provider = '', accountNumber = ''] = parts;
+    holder = parts.slice(2).join(' - ');
+  }
+
+  const bankCode = accountType === 'bank' ? findBankCode(provider) : null;
+  const ewalletProvider = accountType === 'ewallet' ? findEwalletProvider(provider) : null;
+  return {
+    account_type: accountType,
+    bank_code: bankCode,
+    ewallet_provider: ewalletProvider,
+    provider_name: bankCode ? BANK_NAMES[bankCode] : ewalletProvider ? EWALLET_PROVIDER_NAMES[ewalletProvider] : provider,
+    account_number: accountNumber,
+    account_holder: holder
+  };
+};
+
+export interface PayoutAccountBackfillResult {
+  accounts: number; // Payout accounts created from affiliate profiles
+  payouts: number; // Payouts given a destination snapshot
+  skipped: string[]; // Profile details that could not be turned into an account
+}
+
+// Move payout details recorded before payout accounts existed into the new model; safe to run more than once
+export const backfillPayoutAccounts = async (): Promise<PayoutAccountBackfillResult> => {
+  const result: PayoutAccountBackfillResult = { accounts: 0, payouts: 0, skipped: [] };
+
+  const rows = await db.select()
+    .from(affiliatesTable)
+    .innerJoin(usersTable, eq(affiliatesTable.user_id, usersTable.id))
+    .orderBy(asc(affiliatesTable.id))
+    .execute();
+
+  for (const { affiliates: affiliate, users: user } of rows) {
+    const existing = await db.select({ id: payoutAccountsTable.id })
+      .from(payoutAccountsTable)
+      .where(eq(payoutAccountsTable.affiliate_id, affiliate.id))
+      .execute();
+    if (existing.length > 0) {
+      continue;
+    }
+
+    const legacy: { details: PayoutAccountDetails | null; description: string }[] = [];
+    if (affiliate.bank_name && affiliate.bank_account_number) {
+      const bankCode = findBankCode(affiliate.bank_name);
+      legacy.push({
+        description: `bank "${affiliate.bank_name}" of affiliate #${affiliate.id}`,
+        details: bankCode ? {
+          account_type: 'bank',
+          bank_code: bankCode,
+          account_number: affiliate.bank_account_number.replace(/[\s.-]/g, ''),
+          account_holder: affiliate.bank_account_name || user.full_name
+        } : null
+      });
+    }
+    if (affiliate.ewallet_type && affiliate.ewallet_number) {
+      const provider = findEwalletProvider(affiliate.ewallet_type);
+      legacy.push({
+        description: `e-wallet "${affiliate.ewallet_type}" of affiliate #${affiliate.id}`,
+        details: provider ? {
+          account_type: 'ewallet',
+          ewallet_provider: provider,
+          account_number: affiliate.ewallet_number.replace(/[\s.-]/g, ''),
+          account_holder: user.full_name // The profile never asked who owns the e-wallet
+        } : null
+      });
+    }
+
+    for (const { details, description } of legacy) {
+      if (!details) {
+        result.skipped.push(description);
+        continue;
+      }
+      await insertPayoutAccount(db, affiliate.id, details, false, 'verified'); // Already in use before verification existed
+      result.accounts++;
+    }
+  }
+
+  const payouts = await db.select()
+    .from(commissionPayoutsTable)
+    .where(isNull(commissionPayoutsTable.destination))
+    .orderBy(asc(commissionPayoutsTable.id))
+    .execute();
+  for (const payout of payouts) {
+    const details = payout.method === 'bank_transfer' ? payout.bank_details : payout.ewallet_details;
+    if (!details) {
+      continue;
+    }
+    await db.update(commissionPayoutsTable)
+      .set({ destination: parseLegacyPayoutDetails(details, payout.method === 'bank_transfer' ? 'bank' : 'ewallet') })
+      .where(eq(commissionPayoutsTable.id, payout.id))
+      .execute();
+    result.payouts++;
+  }
+
+  return result;
+};
@@ -0,0 +1,107 @@
+import { db, type DbTransaction } from '../db';
+import { payoutRunsTable, commissionPayoutsTable, type PayoutRun as PayoutRunRow } from '../db/schema';
+import { type PayoutRun, type PayoutRunStatus, type PayoutExportFormat } from '../schema';
+import { eq, and, inArray, desc } from 'drizzle-orm';
+import { getNetAmount } from './payouts';
+
+// Attach payout counts and totals to run rows
+const summarizePayoutRuns = async (runs: PayoutRunRow[]): Promise<PayoutRun[]> => {
+  if (runs.length === 0) {
+    return [];
+  }
+
+  const payouts = await db.select({
+    payout_run_id: commissionPayoutsTable.payout_run_id,
+    amount: commissionPayoutsTable.amount,
+    tax_amount: commissionPayoutsTable.tax_amount,
+    status: commissionPayoutsTable.status
+  })
+    .from(commissionPayoutsTable)
+    .where(inArray(commissionPayoutsTable.payout_run_id, runs.map(run => run.id)))
+    .execute();
+
+  return runs.map(run => {
+    const runPayouts = payouts.filter(payout => payout.payout_run_id === run.id);
+    return {
+      ...run,
+      payout_count: runPayouts.length,
+      failed_count: runPayouts.filter(payout => payout.status === 'failed').length,
+      total_amount: Math.round(runPayouts.reduce((total, payout) => total + parseFloat(payout.amount), 0) * 100) / 100,
+      total_net_amount: Math.round(runPayouts.reduce((total, payout) => total + getNetAmount(payout), 0) * 100) / 100
+    };
+  });
+};
+
+// Newest first; limited to the given runs when IDs are passed
+export const loadPayoutRuns = async (runIds?: number[]): Promise<PayoutRun[]> => {
+  const baseQuery = db.select().from(payoutRunsTable);
+
+  const runs = runIds !== undefined
+    ? await baseQuery.where(inArray(payoutRunsTable.id, runIds)).orderBy(desc(payoutRunsTable.id)).execute()
+    : await baseQuery.orderBy(desc(payoutRunsTable.id)).execute();
+
+  return summarizePayoutRuns(runs);
+};
+
+// Close a run once none of its payouts is still processing; the outcome follows how many of them failed
+export const settlePayoutRun = async (tx: DbTransaction, runId: number, actorId: number): Promise<PayoutRunStatus> => {
+  const statuses = await tx.select({ status: commissionPayoutsTable.status })
+    .from(commissionPayoutsTable)
+    .where(eq(commissionPayoutsTable.payout_run_id, runId))
+    .execute();
+
+  if (statuses.some(payout => payout.status === 'processing')) {
+    return 'processing';
+  }
+
+  const failedCount = statuses.filter(payout => payout.status === 'failed').length;
+  const status: PayoutRunStatus = failedCount === 0
+    ? 'completed'
+    : failedCount === statuses.length ? 'failed' : 'partially_failed';
+
+  await tx.update(payoutRunsTable)
+    .set({ status, completed_by: actorId, completed_at: new Date() })
+    .where(and(eq(payoutRunsTable.id, runId), eq(payoutRunsTable.status, 'processing')))
+    .execute();
+
+  return status;
+};
+
+// One line of a bulk transfer file
+export interface TransferLine {
+  reference: string; // Printed on the transfer so statement lines can be matched back to the payout
+  provider: string;
+  account_number: string;
+  account_name: string;
+  amount: number;
+}
+
+export const getTransferReference = (payoutId: number): string => `EBPAYOUT${payoutId}`;
+
+// Finds the reference inside statement descriptions, which banks may space or case differently
+export const TRANSFER_REFERENCE_PATTERN = /EBPAYOUT\s*(\d+)/i;
+
+interface ExportLayout {
+  header: string[];
+  row: (line: TransferLine, index: number) => (string | number)[];
+}
+
+// Column layouts of the CSV bulk transfer uploads of each bank's business internet banking, and of the e-wallet disbursement batch
+export const PAYOUT_EXPORT_LAYOUTS: Record<PayoutExportFormat, ExportLayout> = {
+  bca: {
+    header: ['No', 'Rekening Tujuan', 'Nama Penerima', 'Bank Tujuan', 'Jumlah', 'Berita'],
+    row: (line, index) => [index + 1, line.account_number, line.account_name, line.provider, line.amount.toFixed(2), line.reference]
+  },
+  mandiri: {
+    header: ['Account No', 'Account Name', 'Bank Name', 'Currency', 'Amount', 'Remark', 'Reference No'],
+    row: (line) => [line.account_number, line.account_name, line.provider, 'IDR', line.amount.toFixed(2), 'Komisi English Booster', line.reference]
+  },
+  bri: {
+    header: ['NO', 'NOREK', 'NAMA', 'BANK', 'NOMINAL', 'KETERANGAN'],
+    row: (line, index) => [index + 1, line.account_number, line.account_name, line.provider, line.amount.toFixed(2), line.reference]
+  },
+  ewallet: {
+    header: ['No', 'Provider', 'Nomor', 'Nama', 'Nominal', 'Referensi'],
+    row: (line, index) => [index + 1, line.provider, line.account_number, line.account_name, line.amount.toFixed(2), line.reference]
+  }
+};
@@ -0,0 +1,134 @@
+import { TRPCError } from '@trpc/server';
+import { type DbTransaction } from '../db';
+import { commissionPayoutsTable, type CommissionPayout as CommissionPayoutRow, type NewCommissionPayout } from '../db/schema';
+import { type CommissionPayout, type CreateCommissionPayoutInput, type PayoutStatus } from '../schema';
+import { eq } from 'drizzle-orm';
+import { lockLedgerBalances, getWithdrawableBalance, syncPayoutLedger } from './ledger';
+import { resolvePayoutAccount, assertPayoutAccountVerified, toPayoutDestination } from './payout_accounts';
+import { calculateWithholding, roundToCents } from './tax_withholding';
+import { assertStatusTransition, recordStatusChange, PAYOUT_TRANSITIONS } from './status_transitions';
+
+// What is transferred to the affiliate: the gross amount less the tax withheld
+export const getNetAmount = (payout: Pick<CommissionPayoutRow, 'amount' | 'tax_amount'>): number =>
+  roundToCents(parseFloat(payout.amount) - parseFloat(payout.tax_amount));
+
+// Convert numeric fields of a payout row back to numbers
+export const toCommissionPayout = (payout: CommissionPayoutRow): CommissionPayout => ({
+  ...payout,
+  amount: parseFloat(payout.amount),
+  tax_base: parseFloat(payout.tax_base),
+  tax_rate: parseFloat(payout.tax_rate),
+  tax_amount: parseFloat(payout.tax_amount),
+  net_amount: getNetAmount(payout)
+});
+
+// Insert a pending payout inside the caller's transaction once the withdrawable balance covers it
+export const requestPayout = async (tx: DbTransaction, input: CreateCommissionPayoutInput): Promise<CommissionPayoutRow> => {
+  // Concurrent requests wait here, so each one sees the amounts reserved by the others
+  const balances = await lockLedgerBalances(tx, input.affiliate_id);
+  const { withdrawable, locked } = await getWithdrawableBalance(tx, input.affiliate_id, balances);
+
+  if (input.amount > withdrawable) {
+    const held = balances.reserved > 0 ? ` (${balances.reserved} held by payouts in progress)` : '';
+    const hold = locked > 0 ? ` (${locked} locked in the hold period)` : '';
+    throw new TRPCError({ code: 'CONFLICT', message: `Insufficient commission balance. Available: ${withdrawable}, Requested: ${input.amount}${held}${hold}` });
+  }
+
+  // The payout keeps a copy of the account, so later changes to it never redirect this payout
+  const account = await resolvePayoutAccount(tx, input.affiliate_id, input.payout_account_id);
+  assertPayoutAccountVerified(account);
+
+  // Income tax is withheld from the requested amount; the affiliate's balance is still charged the gross
+  const withholding = await calculateWithholding(tx, input.affiliate_id, input.amount);
+
+  const result = await tx.insert(commissionPayoutsTable)
+    .values({
+      affiliate_id: input.affiliate_id,
+      amount: input.amount.toString(), // Convert number to string for numeric column
+      method: account.account_type === 'bank' ? 'bank_transfer' : 'ewallet',
+      payout_account_id: account.id,
+      destination: toPayoutDestination(account),
+      status: 'pending',
+      notes: input.notes,
+      tax_type: withholding.tax_type,
+      tax_base: withholding.tax_base.toString(),
+      tax_rate: withholding.tax_rate.toString(),
+      tax_amount: withholding.tax_amount.toString(),
+      tax_npwp: withholding.tax_npwp
+    })
+    .returning()
+    .execute();
+
+  // Hold the requested amount until the payout completes or fails
+  await syncPayoutLedger(tx, result[0]);
+  return result[0];
+};
+
+export interface PayoutStatusChange {
+  status: PayoutStatus;
+  notes?: string | null;
+  reason?: string | null;
+  payout_run_id?: number;
+  bank_reference?: string | null;
+}
+
+// Move one payout to a new status inside the caller's transaction, along with its ledger entries and history
+export const changePayoutStatus = async (
+  tx: DbTransaction,
+  payout: CommissionPayoutRow,
+  change: PayoutStatusChange,
+  actorId: number
+): Promise<CommissionPayoutRow> => {
+  assertStatusTransition('payout', PAYOUT_TRANSITIONS, payout.status, change.status);
+
+  const now = new Date();
+  const updateData: Partial<NewCommissionPayout> = {
+    status: change.status,
+    updated_at: now
+  };
+
+  // Set processed_by and processed_at when status changes to 'completed' or 'failed'
+  if (change.status === 'completed' || change.status === 'failed') {
+    updateData.processed_by = actorId;
+    updateData.processed_at = now;
+  }
+
+  if (change.notes !== undefined) {
+    updateData.notes = change.notes;
+  }
+  if (change.payout_run_id !== undefined) {
+    updateData.payout_run_id = change.payout_run_id;
+  }
+  if (change.bank_reference !== undefined) {
+    updateData.bank_reference = change.bank_reference;
+  }
+
+  const balances = await lockLedgerBalances(tx, payout.affiliate_id);
+
+  // Retrying a failed payout spends its amount again, so the withdrawable balance must still cover it
+  const amount = parseFloat(payout.amount);
+  if (payout.status === 'failed' && change.status !== 'failed') {
+    const { withdrawable } = await getWithdrawableBalance(tx, payout.affiliate_id, balances);
+    if (amount > withdrawable) {
+      throw new TRPCError({ code: 'CONFLICT', message: `Insufficient commission balance to retry payout. Available: ${withdrawable}, Requested: ${amount}` });
+    }
+  }
+
+  const result = await tx.update(commissionPayoutsTable)
+    .set(updateData)
+    .where(eq(commissionPayoutsTable.id, payout.id))
+    .returning()
+    .execute();
+
+  await syncPayoutLedger(tx, result[0], actorId);
+  await recordStatusChange(tx, {
+    entity_type: 'payout',
+    entity_id: payout.id,
+    from_status: payout.status,
+    to_status: change.status,
+    actor_id: actorId,
+    reason: change.reason
+  });
+
+  return result[0];
+};
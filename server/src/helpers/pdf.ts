@@ -0,0 +1,89 @@
+// Minimal PDF writer for generated documents: text in the standard Helvetica fonts on A4 pages.
+// The output is plain ASCII, so it can be returned as a string like the CSV exports.
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  x: number;
+  y: number; // Measured from the bottom of the page, as in PDF itself
+  text: string;
+  size?: number; // Points; 10 by default
+  bold?: boolean;
+  align?: 'left' | 'right'; // Right-aligned text ends at x
+}
+
+// Helvetica widths in thousandths of the font size for the characters amounts and dates are made of; other characters are estimated
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278, '.': 278, ',': 278, '/': 278, ':': 278, '-': 333, '(': 333, ')': 333, '%': 889, '#': 556, 'R': 722, 'p': 556
+};
+const DEFAULT_WIDTH = 556;
+
+// Only printable ASCII is drawn; accents are dropped and anything else becomes a question mark
+const toPrintable = (text: string): string => text
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/[^\x20-\x7e]/g, '?');
+
+export const measureText = (text: string, size = 10): number =>
+  toPrintable(text).split('').reduce((width, char) => width + (HELVETICA_WIDTHS[char] ?? DEFAULT_WIDTH), 0) * size / 1000;
+
+// Shorten text with an ellipsis so it fits a table column
+export const fitText = (text: string, width: number, size = 10): string => {
+  if (measureText(text, size) <= width) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+};
+
+const toPdfString = (text: string): string => toPrintable(text).replace(/[\\()]/g, char => `\\${char}`);
+
+const toContentStream = (texts: PdfText[]): string => texts.map(item => {
+  const size = item.size ?? 10;
+  const x = item.align === 'right' ? item.x - measureText(item.text, size) : item.x;
+  return `BT /${item.bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${item.y.toFixed(2)} Td (${toPdfString(item.text)}) Tj ET`;
+}).join('\n');
+
+// Lay the pages out as numbered objects and finish with the cross-reference table readers use to find them
+export const toPdf = (pages: PdfText[][]): string => {
+  if (pages.length === 0) {
+    throw new Error('A PDF needs at least one page');
+  }
+
+  const firstPageId = 5;
+  const pageIds = pages.map((_, index) => firstPageId + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+
+  pages.forEach((texts, index) => {
+    const stream = toContentStream(texts);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Every character is one byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+};
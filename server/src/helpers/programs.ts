@@ -0,0 +1,41 @@
+import { type DbExecutor } from '../db';
+import { programPricesTable, type Program as ProgramRow, type ProgramPrice as ProgramPriceRow } from '../db/schema';
+import { type Program } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+
+// Convert numeric fields of a program row back to numbers
+export const toProgram = (program: ProgramRow): Program => ({
+  ...program,
+  price: parseFloat(program.price)
+});
+
+export const recordProgramPrice = async (
+  executor: DbExecutor,
+  programId: number,
+  price: string,
+  changedBy: number | null,
+  effectiveFrom: Date = new Date()
+): Promise<ProgramPriceRow> => {
+  const result = await executor.insert(programPricesTable)
+    .values({ program_id: programId, price, changed_by: changedBy, effective_from: effectiveFrom })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+// The price history entry of the program's current price, which new registrations are quoted.
+// Programs created before price history get their price recorded from their creation the first time it is needed.
+export const getCurrentProgramPrice = async (executor: DbExecutor, program: ProgramRow): Promise<ProgramPriceRow> => {
+  const latest = await executor.select()
+    .from(programPricesTable)
+    .where(eq(programPricesTable.program_id, program.id))
+    .orderBy(desc(programPricesTable.effective_from), desc(programPricesTable.id))
+    .limit(1)
+    .execute();
+
+  if (latest.length > 0 && latest[0].price === program.price) {
+    return latest[0];
+  }
+  return recordProgramPrice(executor, program.id, program.price, null, latest.length > 0 ? new Date() : program.created_at);
+};
@@ -0,0 +1,13 @@
+import { type StudentRegistration as StudentRegistrationRow } from '../db/schema';
+import { type StudentRegistration } from '../schema';
+
+// Convert numeric fields of a registration row back to numbers
+export const toStudentRegistration = (registration: StudentRegistrationRow): StudentRegistration => ({
+  ...registration,
+  registration_fee: parseFloat(registration.registration_fee),
+  amount_paid: registration.amount_paid === null ? null : parseFloat(registration.amount_paid),
+  commission_amount: parseFloat(registration.commission_amount),
+  estimated_commission_amount: registration.estimated_commission_amount === null
+    ? null
+    : parseFloat(registration.estimated_commission_amount)
+});
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { usersTable, type User } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Load the acting user and make sure they are an admin before a privileged change is recorded
+export const requireAdmin = async (actorId: number): Promise<User> => {
+  const actors = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, actorId))
+    .limit(1)
+    .execute();
+
+  if (actors.length === 0) {
+    throw new Error(`User with ID ${actorId} not found`);
+  }
+
+  if (actors[0].role !== 'admin') {
+    throw new Error('Only admins can perform this action');
+  }
+
+  return actors[0];
+};
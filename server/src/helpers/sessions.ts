@@ -0,0 +1,24 @@
+import { type DbExecutor } from '../db';
+import { sessionsTable } from '../db/schema';
+import { generateSessionToken, hashSessionToken, SESSION_TTL_MS } from '../auth';
+
+export interface CreatedSession {
+  token: string;
+  expires_at: Date;
+}
+
+// Create a server-side session; the raw token only ever leaves in the cookie
+export const createSession = async (executor: DbExecutor, userId: number): Promise<CreatedSession> => {
+  const token = generateSessionToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await executor.insert(sessionsTable)
+    .values({
+      user_id: userId,
+      token_hash: hashSessionToken(token),
+      expires_at: expiresAt
+    })
+    .execute();
+
+  return { token, expires_at: expiresAt };
+};
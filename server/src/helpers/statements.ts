@@ -0,0 +1,362 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import {
+  affiliatesTable,
+  usersTable,
+  ledgerEntriesTable,
+  studentRegistrationsTable,
+  programsTable,
+  commissionPayoutsTable
+} from '../db/schema';
+import { type MonthlyStatementFile, type MonthlyStatementFormat } from '../schema';
+import { eq, and, gte, lt, inArray, asc } from 'drizzle-orm';
+import { getUnpaidBalanceAt } from './ledger';
+import { getNetAmount } from './payouts';
+import { roundToCents } from './tax_withholding';
+import { toCsv } from './csv';
+import { toPdf, fitText, PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT, type PdfText } from './pdf';
+import { getTaxWithholderSettings } from '../tax_withholder';
+
+export type StatementLineType = 'commission' | 'clawback' | 'adjustment' | 'payout';
+
+export interface StatementLine {
+  type: StatementLineType;
+  date: Date;
+  reference: string; // The registration or payout the money moved for
+  student_name: string | null;
+  program_name: string | null;
+  description: string | null;
+  amount: number; // Change to the balance; negative for clawbacks, payouts and debit adjustments
+  tax_amount: number; // Withheld from payouts
+  net_amount: number | null; // Transferred for payouts
+}
+
+export interface StatementAffiliate {
+  id: number;
+  full_name: string;
+  referral_code: string;
+}
+
+// The balance is commission credited but not yet paid out, so it includes what is reserved for requested payouts
+export interface MonthlyStatement {
+  affiliate: StatementAffiliate;
+  period: string;
+  opening_balance: number;
+  closing_balance: number;
+  totals: Record<StatementLineType, number>;
+  lines: StatementLine[];
+}
+
+const LINE_LABELS: Record<StatementLineType, string> = {
+  commission: 'Commission',
+  clawback: 'Clawback',
+  adjustment: 'Adjustment',
+  payout: 'Payout'
+};
+
+// The month as local dates, as with withholding slips; months that have not started have no statement yet
+export const getStatementPeriod = (period: string, now: Date = new Date()): { start: Date; end: Date } => {
+  const [year, month] = period.split('-').map(Number);
+  const start = new Date(year, month - 1, 1);
+  if (start > now) {
+    throw new TRPCError({ code: 'CONFLICT', message: `There is no statement for ${period} yet` });
+  }
+  return { start, end: new Date(year, month, 1) };
+};
+
+export const loadStatementAffiliates = async (affiliateIds: number[]): Promise<StatementAffiliate[]> => {
+  if (affiliateIds.length === 0) {
+    return [];
+  }
+  return db.select({
+    id: affiliatesTable.id,
+    full_name: usersTable.full_name,
+    referral_code: affiliatesTable.referral_code
+  })
+    .from(affiliatesTable)
+    .innerJoin(usersTable, eq(affiliatesTable.user_id, usersTable.id))
+    .where(inArray(affiliatesTable.id, affiliateIds))
+    .orderBy(asc(affiliatesTable.id))
+    .execute();
+};
+
+// Affiliates with ledger entries before the end of the month, the only ones that can have a balance or activity in it
+export const findStatementAffiliateIds = async (end: Date): Promise<number[]> => {
+  const rows = await db.selectDistinct({ affiliate_id: ledgerEntriesTable.affiliate_id })
+    .from(ledgerEntriesTable)
+    .where(lt(ledgerEntriesTable.created_at, end))
+    .execute();
+  return rows.map(row => row.affiliate_id);
+};
+
+// Built from the ledger, joined to the registrations and payouts behind each entry.
+// Reserving and releasing payouts only moves money within the balance, so those entries are left out.
+export const buildMonthlyStatement = async (affiliate: StatementAffiliate, period: string): Promise<MonthlyStatement> => {
+  const { start, end } = getStatementPeriod(period);
+  const openingBalance = await getUnpaidBalanceAt(affiliate.id, start);
+
+  const rows = await db.select({
+    entry: ledgerEntriesTable,
+    student_name: studentRegistrationsTable.student_name,
+    program_name: programsTable.name,
+    payout: commissionPayoutsTable
+  })
+    .from(ledgerEntriesTable)
+    .leftJoin(studentRegistrationsTable, eq(ledgerEntriesTable.registration_id, studentRegistrationsTable.id))
+    .leftJoin(programsTable, eq(studentRegistrationsTable.program_id, programsTable.id))
+    .leftJoin(commissionPayoutsTable, eq(ledgerEntriesTable.payout_id, commissionPayoutsTable.id))
+    .where(and(
+      eq(ledgerEntriesTable.affiliate_id, affiliate.id),
+      inArray(ledgerEntriesTable.entry_type, ['commission_earned', 'commission_reversed', 'adjustment', 'payout_paid']),
+      gte(ledgerEntriesTable.created_at, start),
+      lt(ledgerEntriesTable.created_at, end)
+    ))
+    .orderBy(asc(ledgerEntriesTable.created_at), asc(ledgerEntriesTable.id))
+    .execute();
+
+  const lines = rows.map(({ entry, student_name, program_name, payout }): StatementLine => {
+    const amount = parseFloat(entry.amount);
+    const line: StatementLine = {
+      type: 'commission',
+      date: entry.created_at,
+      reference: entry.registration_id !== null ? `Registration #${entry.registration_id}` : '',
+      student_name,
+      program_name,
+      description: entry.description,
+      amount,
+      tax_amount: 0,
+      net_amount: null
+    };
+
+    switch (entry.entry_type) {
+      case 'commission_reversed':
+        return { ...line, type: 'clawback', amount: -amount };
+      case 'adjustment':
+        return { ...line, type: 'adjustment', amount: entry.to_account === 'available' ? amount : -amount };
+      case 'payout_paid':
+        return {
+          ...line,
+          type: 'payout',
+          reference: `Payout #${entry.payout_id}`,
+          amount: -amount,
+          tax_amount: payout ? parseFloat(payout.tax_amount) : 0,
+          net_amount: payout ? getNetAmount(payout) : amount
+        };
+      default:
+        return line;
+    }
+  });
+
+  const totals: Record<StatementLineType, number> = { commission: 0, clawback: 0, adjustment: 0, payout: 0 };
+  for (const line of lines) {
+    totals[line.type] = roundToCents(totals[line.type] + line.amount);
+  }
+
+  return {
+    affiliate,
+    period,
+    opening_balance: openingBalance,
+    closing_balance: roundToCents(openingBalance + lines.reduce((total, line) => total + line.amount, 0)),
+    totals,
+    lines
+  };
+};
+
+const formatDate = (date: Date): string =>
+  `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+
+// Spreadsheets sort ISO dates correctly
+const formatIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatAmount = (amount: number): string =>
+  `${amount < 0 ? '-' : ''}Rp ${Math.abs(amount).toLocaleString('id-ID')}`;
+
+const formatPeriod = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+};
+
+// One row per line between the opening and closing balance, with the affiliate on every row so bulk files can be filtered
+const toStatementCsv = (statements: MonthlyStatement[]): string => toCsv([
+  ['Referral Code', 'Affiliate', 'Period', 'Date', 'Type', 'Reference', 'Student', 'Program', 'Description', 'Amount', 'Tax Withheld', 'Transferred'],
+  ...statements.flatMap(statement => {
+    const { start, end } = getStatementPeriod(statement.period);
+    const affiliate = [statement.affiliate.referral_code, statement.affiliate.full_name, statement.period];
+    return [
+      [...affiliate, formatIsoDate(start), 'Opening balance', '', '', '', '', statement.opening_balance.toFixed(2), '', ''],
+      ...statement.lines.map(line => [
+        ...affiliate,
+        formatIsoDate(line.date),
+        LINE_LABELS[line.type],
+        line.reference,
+        line.student_name,
+        line.program_name,
+        line.description,
+        line.amount.toFixed(2),
+        line.type === 'payout' ? line.tax_amount.toFixed(2) : '',
+        line.net_amount !== null ? line.net_amount.toFixed(2) : ''
+      ]),
+      [...affiliate, formatIsoDate(new Date(end.getTime() - 1)), 'Closing balance', '', '', '', '', statement.closing_balance.toFixed(2), '', '']
+    ];
+  })
+]);
+
+const MARGIN = 50;
+const ROW_HEIGHT = 14;
+
+interface PdfColumn {
+  label: string;
+  x: number;
+  width: number;
+  align?: 'right';
+}
+
+const REGISTRATION_COLUMNS: PdfColumn[] = [
+  { label: 'Date', x: 50, width: 60 },
+  { label: 'Registration', x: 110, width: 70 },
+  { label: 'Student', x: 180, width: 150 },
+  { label: 'Program', x: 335, width: 125 },
+  { label: 'Amount', x: 465, width: 80, align: 'right' }
+];
+
+const ADJUSTMENT_COLUMNS: PdfColumn[] = [
+  { label: 'Date', x: 50, width: 60 },
+  { label: 'Description', x: 110, width: 330 },
+  { label: 'Amount', x: 445, width: 100, align: 'right' }
+];
+
+const PAYOUT_COLUMNS: PdfColumn[] = [
+  { label: 'Date', x: 50, width: 60 },
+  { label: 'Payout', x: 110, width: 70 },
+  { label: 'Gross', x: 180, width: 120, align: 'right' },
+  { label: 'Tax withheld', x: 300, width: 120, align: 'right' },
+  { label: 'Transferred', x: 420, width: 125, align: 'right' }
+];
+
+// Statements start on a new page and flow onto more pages as needed, numbered per statement
+const renderStatementPages = (statement: MonthlyStatement, companyName: string): PdfText[][] => {
+  const pages: PdfText[][] = [];
+  const periodLabel = formatPeriod(statement.period);
+  let page: PdfText[] = [];
+  let y = 0;
+
+  const startPage = () => {
+    page = [];
+    pages.push(page);
+    y = PDF_PAGE_HEIGHT - MARGIN;
+  };
+
+  const addRow = (texts: Omit<PdfText, 'y'>[], height = ROW_HEIGHT) => {
+    if (y - height < MARGIN) {
+      startPage();
+      y -= ROW_HEIGHT;
+      page.push({ x: MARGIN, y, text: `${statement.affiliate.referral_code} - ${periodLabel} (continued)`, size: 8 });
+      y -= ROW_HEIGHT / 2;
+    }
+    y -= height;
+    page.push(...texts.map(text => ({ ...text, y })));
+  };
+
+  const addTable = (title: string, columns: PdfColumn[], rows: string[][]) => {
+    addRow([{ x: MARGIN, text: title, size: 12, bold: true }], 28);
+    addRow(columns.map(column => ({
+      x: column.align === 'right' ? column.x + column.width : column.x,
+      text: column.label,
+      size: 9,
+      bold: true,
+      align: column.align
+    })));
+    if (rows.length === 0) {
+      addRow([{ x: MARGIN, text: 'None this month', size: 9 }]);
+    }
+    for (const row of rows) {
+      addRow(columns.map((column, index) => ({
+        x: column.align === 'right' ? column.x + column.width : column.x,
+        text: fitText(row[index], column.width - 5, 9),
+        size: 9,
+        align: column.align
+      })));
+    }
+  };
+
+  startPage();
+  addRow([{ x: MARGIN, text: 'Commission Statement', size: 18, bold: true }], 18);
+  addRow([{ x: MARGIN, text: companyName }], 16);
+  addRow([
+    { x: MARGIN, text: `${statement.affiliate.full_name} (${statement.affiliate.referral_code})`, bold: true },
+    { x: PDF_PAGE_WIDTH - MARGIN, text: periodLabel, bold: true, align: 'right' }
+  ], 28);
+
+  const summary: [string, number][] = [
+    ['Opening balance', statement.opening_balance],
+    ['Commission earned', statement.totals.commission],
+    ['Clawed back', statement.totals.clawback],
+    ['Adjustments', statement.totals.adjustment],
+    ['Paid out', statement.totals.payout]
+  ];
+  for (const [label, amount] of summary) {
+    addRow([{ x: MARGIN, text: label }, { x: 330, text: formatAmount(amount), align: 'right' }]);
+  }
+  addRow([
+    { x: MARGIN, text: 'Closing balance', bold: true },
+    { x: 330, text: formatAmount(statement.closing_balance), bold: true, align: 'right' }
+  ], 18);
+
+  const registrationRows = (type: StatementLineType) => statement.lines
+    .filter(line => line.type === type)
+    .map(line => [formatDate(line.date), line.reference.replace('Registration ', ''), line.student_name ?? '-', line.program_name ?? '-', formatAmount(line.amount)]);
+
+  addTable('Confirmed registrations', REGISTRATION_COLUMNS, registrationRows('commission'));
+  addTable('Clawbacks', REGISTRATION_COLUMNS, registrationRows('clawback'));
+  if (statement.lines.some(line => line.type === 'adjustment')) {
+    addTable('Adjustments', ADJUSTMENT_COLUMNS, statement.lines
+      .filter(line => line.type === 'adjustment')
+      .map(line => [formatDate(line.date), line.description ?? '-', formatAmount(line.amount)]));
+  }
+  addTable('Payouts', PAYOUT_COLUMNS, statement.lines
+    .filter(line => line.type === 'payout')
+    .map(line => [
+      formatDate(line.date),
+      line.reference.replace('Payout ', ''),
+      formatAmount(-line.amount),
+      formatAmount(line.tax_amount),
+      formatAmount(line.net_amount ?? 0)
+    ]));
+
+  addRow([{ x: MARGIN, text: 'The balance is commission credited to you and not yet paid out, including payouts you have requested.', size: 8 }], 28);
+  addRow([{ x: MARGIN, text: 'Payouts reduce it by the gross amount; the income tax withheld is listed on your monthly withholding slip.', size: 8 }], 11);
+
+  pages.forEach((texts, index) => texts.push({
+    x: PDF_PAGE_WIDTH - MARGIN,
+    y: MARGIN / 2,
+    text: `Page ${index + 1} of ${pages.length}`,
+    size: 8,
+    align: 'right'
+  }));
+
+  return pages;
+};
+
+export const toStatementFile = (
+  statements: MonthlyStatement[],
+  format: MonthlyStatementFormat,
+  basename: string
+): MonthlyStatementFile => {
+  if (format === 'pdf') {
+    const companyName = getTaxWithholderSettings().name; // The company named on withholding slips issues statements too
+    return {
+      filename: `${basename}.pdf`,
+      content: toPdf(statements.flatMap(statement => renderStatementPages(statement, companyName))),
+      content_type: 'application/pdf',
+      statement_count: statements.length
+    };
+  }
+
+  return {
+    filename: `${basename}.csv`,
+    content: toStatementCsv(statements),
+    content_type: 'text/csv;charset=utf-8',
+    statement_count: statements.length
+  };
+};
@@ -0,0 +1,66 @@
+import { TRPCError } from '@trpc/server';
+import { type DbExecutor } from '../db';
+import { statusHistoryTable } from '../db/schema';
+import { type AffiliateStatus, type RegistrationStatus, type PayoutStatus, type StatusEntity } from '../schema';
+
+// Allowed target statuses from each current status; anything missing is rejected
+export const REGISTRATION_TRANSITIONS: Record<RegistrationStatus, RegistrationStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['confirmed', 'refunded'], // Confirming again records a corrected amount paid
+  cancelled: ['pending'],
+  refunded: [],
+  waitlisted: ['pending', 'cancelled'] // Pending once a seat on the intake is free
+};
+
+export const AFFILIATE_TRANSITIONS: Record<AffiliateStatus, AffiliateStatus[]> = {
+  pending: ['approved', 'rejected'],
+  approved: ['suspended', 'pending'],
+  suspended: ['approved', 'rejected'],
+  rejected: ['pending']
+};
+
+export const PAYOUT_TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  pending: ['processing', 'completed', 'failed'],
+  processing: ['completed', 'failed'],
+  failed: ['pending'], // Retry
+  completed: []
+};
+
+// Surfaced to clients as a CONFLICT with the entity and both statuses attached
+export class InvalidStatusTransitionError extends TRPCError {
+  constructor(
+    public readonly entity: StatusEntity,
+    public readonly from: string,
+    public readonly to: string
+  ) {
+    super({ code: 'CONFLICT', message: `Cannot change ${entity} status from ${from} to ${to}` });
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+export const assertStatusTransition = <S extends string>(
+  entity: StatusEntity,
+  transitions: Record<S, S[]>,
+  from: S,
+  to: S
+): void => {
+  if (!transitions[from].includes(to)) {
+    throw new InvalidStatusTransitionError(entity, from, to);
+  }
+};
+
+export interface StatusChange {
+  entity_type: StatusEntity;
+  entity_id: number;
+  from_status: string;
+  to_status: string;
+  actor_id: number | null;
+  reason?: string | null;
+}
+
+// Write the history row in the same transaction as the status change it describes
+export const recordStatusChange = async (executor: DbExecutor, change: StatusChange): Promise<void> => {
+  await executor.insert(statusHistoryTable)
+    .values({ ...change, reason: change.reason ?? null })
+    .execute();
+};
@@ -0,0 +1,129 @@
+import { type DbExecutor } from '../db';
+import { affiliateTaxProfilesTable, commissionPayoutsTable, type AffiliateTaxProfile } from '../db/schema';
+import { type TaxProfile, type WithholdingTax } from '../schema';
+import { eq, and, ne, gte, lt, sum } from 'drizzle-orm';
+
+// Article 17 brackets applied to the cumulative PPh 21 base of the calendar year
+export const PPH21_BRACKETS: { up_to: number; rate: number }[] = [
+  { up_to: 60_000_000, rate: 0.05 },
+  { up_to: 250_000_000, rate: 0.15 },
+  { up_to: 500_000_000, rate: 0.25 },
+  { up_to: 5_000_000_000, rate: 0.30 },
+  { up_to: Infinity, rate: 0.35 }
+];
+
+// Commission of a non-employee is taxed on half of the gross amount
+export const PPH21_TAXABLE_SHARE = 0.5;
+
+export const PPH23_RATE = 0.02;
+
+// Without an NPWP, PPh 21 is withheld at 120% and PPh 23 at 200% of the normal amount
+export const NO_NPWP_SURCHARGE: Record<WithholdingTax, number> = {
+  pph21: 1.2,
+  pph23: 2
+};
+
+export interface Withholding {
+  tax_type: WithholdingTax;
+  tax_base: number;
+  tax_rate: number; // Effective rate on the base, so it reflects brackets and the surcharge
+  tax_amount: number;
+  tax_npwp: string | null;
+}
+
+export const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Article 17 tax on a yearly income
+const bracketTax = (income: number): number => {
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of PPH21_BRACKETS) {
+    if (income <= lower) {
+      break;
+    }
+    tax += (Math.min(income, bracket.up_to) - lower) * bracket.rate;
+    lower = bracket.up_to;
+  }
+  return tax;
+};
+
+// Tax withheld from one payout; priorTaxBase is the PPh 21 base already withheld on this year,
+// so later payouts in the year move up the brackets. Tax is rounded down to whole rupiah.
+export const computeWithholding = (
+  profile: Pick<TaxProfile, 'taxpayer_type' | 'npwp'>,
+  grossAmount: number,
+  priorTaxBase = 0
+): Withholding => {
+  const taxType: WithholdingTax = profile.taxpayer_type === 'company' ? 'pph23' : 'pph21';
+  const taxBase = roundToCents(taxType === 'pph21' ? grossAmount * PPH21_TAXABLE_SHARE : grossAmount);
+
+  const tax = taxType === 'pph21'
+    ? bracketTax(priorTaxBase + taxBase) - bracketTax(priorTaxBase)
+    : taxBase * PPH23_RATE;
+  const taxAmount = Math.floor(profile.npwp ? tax : tax * NO_NPWP_SURCHARGE[taxType]);
+
+  return {
+    tax_type: taxType,
+    tax_base: taxBase,
+    tax_rate: taxBase > 0 ? Math.round(taxAmount / taxBase * 10000) / 10000 : 0,
+    tax_amount: taxAmount,
+    tax_npwp: profile.npwp
+  };
+};
+
+export const toTaxProfile = (profile: AffiliateTaxProfile): TaxProfile => ({
+  id: profile.id,
+  affiliate_id: profile.affiliate_id,
+  taxpayer_type: profile.taxpayer_type,
+  npwp: profile.npwp,
+  registered_name: profile.registered_name,
+  address: profile.address,
+  updated_at: profile.updated_at
+});
+
+// Affiliates who never filled in their profile are withheld from as individuals without an NPWP
+export const loadTaxProfile = async (executor: DbExecutor, affiliateId: number): Promise<TaxProfile> => {
+  const profiles = await executor.select()
+    .from(affiliateTaxProfilesTable)
+    .where(eq(affiliateTaxProfilesTable.affiliate_id, affiliateId))
+    .execute();
+
+  if (profiles.length > 0) {
+    return toTaxProfile(profiles[0]);
+  }
+  return {
+    id: null,
+    affiliate_id: affiliateId,
+    taxpayer_type: 'individual',
+    npwp: null,
+    registered_name: null,
+    address: null,
+    updated_at: null
+  };
+};
+
+// Withholding on a new payout; callers hold the affiliate's ledger lock, so concurrent requests see each other's base
+export const calculateWithholding = async (
+  executor: DbExecutor,
+  affiliateId: number,
+  grossAmount: number,
+  at: Date = new Date()
+): Promise<Withholding> => {
+  const profile = await loadTaxProfile(executor, affiliateId);
+
+  // Failed payouts were never paid, so their base does not count towards the year
+  const yearStart = new Date(at.getFullYear(), 0, 1);
+  const nextYearStart = new Date(at.getFullYear() + 1, 0, 1);
+  const [prior] = await executor.select({ tax_base: sum(commissionPayoutsTable.tax_base) })
+    .from(commissionPayoutsTable)
+    .where(and(
+      eq(commissionPayoutsTable.affiliate_id, affiliateId),
+      eq(commissionPayoutsTable.tax_type, 'pph21'),
+      ne(commissionPayoutsTable.status, 'failed'),
+      gte(commissionPayoutsTable.created_at, yearStart),
+      lt(commissionPayoutsTable.created_at, nextYearStart)
+    ))
+    .execute();
+
+  return computeWithholding(profile, grossAmount, prior?.tax_base ? parseFloat(prior.tax_base) : 0);
+};
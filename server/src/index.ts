@@ -1,47 +1,137 @@
-import { initTRPC } from '@trpc/server';
+import { TRPCError } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
+import {
+  router,
+  publicProcedure,
+  adminProcedure,
+  affiliateProcedure,
+  partnerProcedure,
+  protectedProcedure,
+  scopeAffiliateId,
+  createContext
+} from './trpc';
 
 // Import schemas
 import { 
   createUserInputSchema,
+  loginInputSchema,
   createAffiliateInputSchema,
+  registerAffiliateInputSchema,
   updateAffiliateStatusInputSchema,
+  createBranchInputSchema,
+  updateBranchInputSchema,
+  branchActionInputSchema,
   createProgramInputSchema,
+  updateProgramInputSchema,
+  programActionInputSchema,
+  getProgramsInputSchema,
+  createProgramIntakeInputSchema,
+  updateProgramIntakeInputSchema,
+  getIntakeFillRatesInputSchema,
   createStudentRegistrationInputSchema,
+  createAffiliateTierInputSchema,
+  updateAffiliateTierInputSchema,
+  createCommissionRuleInputSchema,
+  updateCommissionRuleInputSchema,
+  registerStudentInputSchema,
+  trackReferralClickInputSchema,
   updateRegistrationStatusInputSchema,
   getAffiliateStatsInputSchema,
   createCommissionPayoutInputSchema,
-  updatePayoutStatusInputSchema
+  updatePayoutStatusInputSchema,
+  createLedgerAdjustmentInputSchema,
+  createPayoutRunInputSchema,
+  completePayoutRunInputSchema,
+  exportPayoutRunInputSchema,
+  previewPayoutReconciliationInputSchema,
+  createPayoutAccountInputSchema,
+  payoutAccountActionInputSchema,
+  updatePayoutAccountInputSchema,
+  reviewPayoutAccountInputSchema,
+  updateProfileInputSchema,
+  markNotificationsReadInputSchema,
+  updateTaxProfileInputSchema,
+  getWithholdingSlipInputSchema,
+  getMonthlyStatementInputSchema,
+  generateMonthlyStatementsInputSchema,
+  reconcilePayoutsInputSchema,
+  getStatusHistoryInputSchema,
+  getAuditLogInputSchema
 } from './schema';
 
 // Import handlers
 import { createUser } from './handlers/create_user';
 import { createAffiliate } from './handlers/create_affiliate';
+import { registerAffiliate } from './handlers/register_affiliate';
 import { updateAffiliateStatus } from './handlers/update_affiliate_status';
 import { getAffiliates } from './handlers/get_affiliates';
 import { getAffiliateByReferralCode } from './handlers/get_affiliate_by_referral_code';
+import { getReferralInfo } from './handlers/get_referral_info';
+import { createBranch } from './handlers/create_branch';
+import { updateBranch } from './handlers/update_branch';
+import { deleteBranch } from './handlers/delete_branch';
+import { getBranches } from './handlers/get_branches';
 import { createProgram } from './handlers/create_program';
 import { getPrograms } from './handlers/get_programs';
+import { updateProgram } from './handlers/update_program';
+import { archiveProgram } from './handlers/archive_program';
+import { deleteProgram } from './handlers/delete_program';
+import { getProgramPrices } from './handlers/get_program_prices';
+import { createProgramIntake } from './handlers/create_program_intake';
+import { updateProgramIntake } from './handlers/update_program_intake';
+import { getProgramIntakes } from './handlers/get_program_intakes';
+import { getIntakeFillRates } from './handlers/get_intake_fill_rates';
 import { createStudentRegistration } from './handlers/create_student_registration';
+import { createAffiliateTier } from './handlers/create_affiliate_tier';
+import { updateAffiliateTier } from './handlers/update_affiliate_tier';
+import { getAffiliateTiers } from './handlers/get_affiliate_tiers';
+import { evaluateAffiliateTiers } from './handlers/evaluate_affiliate_tiers';
+import { getAffiliateTierProgress } from './handlers/get_affiliate_tier_progress';
+import { createCommissionRule } from './handlers/create_commission_rule';
+import { updateCommissionRule } from './handlers/update_commission_rule';
+import { getCommissionRules } from './handlers/get_commission_rules';
+import { getProgramCommissions } from './handlers/get_program_commissions';
+import { registerStudent } from './handlers/register_student';
+import { trackReferralClick } from './handlers/track_referral_click';
 import { updateRegistrationStatus } from './handlers/update_registration_status';
 import { getRegistrations } from './handlers/get_registrations';
 import { getAffiliateStats } from './handlers/get_affiliate_stats';
 import { createCommissionPayout } from './handlers/create_commission_payout';
 import { updatePayoutStatus } from './handlers/update_payout_status';
 import { getCommissionPayouts } from './handlers/get_commission_payouts';
-import { getUserByEmail } from './handlers/get_user_by_email';
+import { createPayoutRun } from './handlers/create_payout_run';
+import { completePayoutRun } from './handlers/complete_payout_run';
+import { getPayoutRuns } from './handlers/get_payout_runs';
+import { exportPayoutRun } from './handlers/export_payout_run';
+import { previewPayoutReconciliation } from './handlers/preview_payout_reconciliation';
+import { reconcilePayouts } from './handlers/reconcile_payouts';
+import { getPayoutAccounts } from './handlers/get_payout_accounts';
+import { createPayoutAccount } from './handlers/create_payout_account';
+import { setDefaultPayoutAccount } from './handlers/set_default_payout_account';
+import { removePayoutAccount } from './handlers/remove_payout_account';
+import { updatePayoutAccount } from './handlers/update_payout_account';
+import { reviewPayoutAccount } from './handlers/review_payout_account';
+import { updateProfile } from './handlers/update_profile';
+import { getNotifications } from './handlers/get_notifications';
+import { markNotificationsRead } from './handlers/mark_notifications_read';
+import { getTaxProfile } from './handlers/get_tax_profile';
+import { updateTaxProfile } from './handlers/update_tax_profile';
+import { getWithholdingSlip } from './handlers/get_withholding_slip';
+import { getMonthlyStatement } from './handlers/get_monthly_statement';
+import { generateMonthlyStatements } from './handlers/generate_monthly_statements';
+import { getLedgerEntries } from './handlers/get_ledger_entries';
+import { createLedgerAdjustment } from './handlers/create_ledger_adjustment';
+import { getStatusHistory } from './handlers/get_status_history';
+import { getAuditLog } from './handlers/get_audit_log';
+import { login } from './handlers/login';
+import { logout } from './handlers/logout';
+import { serializeSessionCookie, isSecureRequest } from './auth';
+import { getClientIp, getUserAgent, generateVisitorId, getVisitorIdFromRequest, serializeVisitorCookie } from './tracking';
+import { getAttributionSettings } from './attribution';
 import { z } from 'zod';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
@@ -52,73 +142,364 @@ const appRouter = router({
     };
   }),
 
+  // Authentication
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const result = await login(input);
+      ctx.res.setHeader('Set-Cookie', serializeSessionCookie(result.token, isSecureRequest(ctx.req)));
+      return result.user;
+    }),
+
+  logout: publicProcedure
+    .mutation(async ({ ctx }) => {
+      const result = await logout(ctx.sessionToken);
+      ctx.res.setHeader('Set-Cookie', serializeSessionCookie(null, isSecureRequest(ctx.req)));
+      return result;
+    }),
+
+  me: publicProcedure
+    .query(({ ctx }) => ctx.user),
+
   // User management
   createUser: publicProcedure
     .input(createUserInputSchema)
-    .mutation(({ input }) => createUser(input)),
-  
-  getUserByEmail: publicProcedure
-    .input(z.string().email())
-    .query(({ input }) => getUserByEmail(input)),
+    .mutation(({ input, ctx }) => {
+      // Anyone may sign up as an affiliate; only admins can create other admins
+      if (input.role === 'admin' && ctx.user?.role !== 'admin') {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only admins can create admin users' });
+      }
+      return createUser(input);
+    }),
+
+  // Users edit their own name and phone; the session decides whose
+  updateMyProfile: protectedProcedure
+    .input(updateProfileInputSchema)
+    .mutation(({ input, ctx }) => updateProfile(ctx.user.id, input)),
+
+  getMyNotifications: protectedProcedure
+    .query(({ ctx }) => getNotifications(ctx.user.id)),
+
+  markNotificationsRead: protectedProcedure
+    .input(markNotificationsReadInputSchema)
+    .mutation(({ input, ctx }) => markNotificationsRead(ctx.user.id, input)),
 
   // Affiliate management
-  createAffiliate: publicProcedure
+  // Public sign-up: creates the user and the affiliate profile together and logs the new affiliate in
+  registerAffiliate: publicProcedure
+    .input(registerAffiliateInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const result = await registerAffiliate(input);
+      ctx.res.setHeader('Set-Cookie', serializeSessionCookie(result.token, isSecureRequest(ctx.req)));
+      return result.user;
+    }),
+
+  createAffiliate: protectedProcedure
     .input(createAffiliateInputSchema)
-    .mutation(({ input }) => createAffiliate(input)),
+    .mutation(({ input, ctx }) => {
+      if (ctx.user.role !== 'admin' && input.user_id !== ctx.user.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only create your own affiliate profile' });
+      }
+      // Only admins may choose a commission rate; self sign-ups get the default
+      if (ctx.user.role !== 'admin') {
+        return createAffiliate({ ...input, commission_rate: undefined });
+      }
+      return createAffiliate(input);
+    }),
   
-  updateAffiliateStatus: publicProcedure
+  updateAffiliateStatus: adminProcedure
     .input(updateAffiliateStatusInputSchema)
-    .mutation(({ input }) => updateAffiliateStatus(input)),
+    .mutation(({ input, ctx }) => updateAffiliateStatus(input, ctx.user.id)),
   
-  getAffiliates: publicProcedure
+  getAffiliates: adminProcedure
     .query(() => getAffiliates()),
   
-  getAffiliateByReferralCode: publicProcedure
+  getAffiliateByReferralCode: adminProcedure
     .input(z.string())
     .query(({ input }) => getAffiliateByReferralCode(input)),
 
+  // Public lookup used by the student registration page behind referral links
+  getReferralInfo: publicProcedure
+    .input(z.string())
+    .query(({ input }) => getReferralInfo(input)),
+
+  getMyAffiliate: affiliateProcedure
+    .query(({ ctx }) => ctx.affiliate),
+
+  // Branches; programs and commission rules refer to them by code
+  createBranch: adminProcedure
+    .input(createBranchInputSchema)
+    .mutation(({ input, ctx }) => createBranch(input, ctx.user.id)),
+
+  updateBranch: adminProcedure
+    .input(updateBranchInputSchema)
+    .mutation(({ input, ctx }) => updateBranch(input, ctx.user.id)),
+
+  // Branches in use can only be closed, never deleted
+  deleteBranch: adminProcedure
+    .input(branchActionInputSchema)
+    .mutation(({ input, ctx }) => deleteBranch(input, ctx.user.id)),
+
+  getBranches: publicProcedure
+    .query(() => getBranches()),
+
   // Program management
-  createProgram: publicProcedure
+  createProgram: adminProcedure
     .input(createProgramInputSchema)
-    .mutation(({ input }) => createProgram(input)),
+    .mutation(({ input, ctx }) => createProgram(input, ctx.user.id)),
+
+  updateProgram: adminProcedure
+    .input(updateProgramInputSchema)
+    .mutation(({ input, ctx }) => updateProgram(input, ctx.user.id)),
+
+  // Programs with registrations can only be archived, never deleted
+  archiveProgram: adminProcedure
+    .input(programActionInputSchema)
+    .mutation(({ input, ctx }) => archiveProgram(input, ctx.user.id)),
+
+  deleteProgram: adminProcedure
+    .input(programActionInputSchema)
+    .mutation(({ input, ctx }) => deleteProgram(input, ctx.user.id)),
+
+  getProgramPrices: adminProcedure
+    .input(programActionInputSchema)
+    .query(({ input }) => getProgramPrices(input)),
   
   getPrograms: publicProcedure
-    .query(() => getPrograms()),
+    .input(getProgramsInputSchema.optional())
+    .query(({ input }) => getPrograms(input)),
+
+  // Program intakes; students pick an open intake when registering
+  createProgramIntake: adminProcedure
+    .input(createProgramIntakeInputSchema)
+    .mutation(({ input, ctx }) => createProgramIntake(input, ctx.user.id)),
+
+  updateProgramIntake: adminProcedure
+    .input(updateProgramIntakeInputSchema)
+    .mutation(({ input, ctx }) => updateProgramIntake(input, ctx.user.id)),
+
+  getProgramIntakes: publicProcedure
+    .input(programActionInputSchema)
+    .query(({ input }) => getProgramIntakes(input)),
+
+  getIntakeFillRates: adminProcedure
+    .input(getIntakeFillRatesInputSchema.optional())
+    .query(({ input }) => getIntakeFillRates(input)),
+
+  // Affiliate tiers
+  createAffiliateTier: adminProcedure
+    .input(createAffiliateTierInputSchema)
+    .mutation(({ input }) => createAffiliateTier(input)),
+
+  updateAffiliateTier: adminProcedure
+    .input(updateAffiliateTierInputSchema)
+    .mutation(({ input }) => updateAffiliateTier(input)),
+
+  getAffiliateTiers: adminProcedure
+    .query(() => getAffiliateTiers()),
+
+  evaluateAffiliateTiers: adminProcedure
+    .mutation(() => evaluateAffiliateTiers()),
+
+  getMyTierProgress: affiliateProcedure
+    .query(({ ctx }) => getAffiliateTierProgress(ctx.affiliate.id)),
+
+  // Commission rules
+  createCommissionRule: adminProcedure
+    .input(createCommissionRuleInputSchema)
+    .mutation(({ input }) => createCommissionRule(input)),
+
+  updateCommissionRule: adminProcedure
+    .input(updateCommissionRuleInputSchema)
+    .mutation(({ input }) => updateCommissionRule(input)),
+
+  getCommissionRules: adminProcedure
+    .query(() => getCommissionRules()),
+
+  getMyProgramCommissions: affiliateProcedure
+    .query(({ ctx }) => getProgramCommissions(ctx.affiliate.id)),
 
   // Student registration management
-  createStudentRegistration: publicProcedure
+  // Public: records a visit to a referral link and returns a token for the registration form
+  trackReferralClick: publicProcedure
+    .input(trackReferralClickInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const visitorId = getVisitorIdFromRequest(ctx.req) ?? generateVisitorId();
+      const result = await trackReferralClick(input, {
+        visitor_id: visitorId,
+        user_agent: getUserAgent(ctx.req),
+        ip_address: getClientIp(ctx.req)
+      });
+      const { window_days } = getAttributionSettings();
+      ctx.res.setHeader('Set-Cookie', serializeVisitorCookie(visitorId, window_days, isSecureRequest(ctx.req)));
+      return result;
+    }),
+
+  // Public enrollment from referral links; the affiliate is resolved from the code
+  registerStudent: publicProcedure
+    .input(registerStudentInputSchema)
+    .mutation(({ input, ctx }) => registerStudent(input, getVisitorIdFromRequest(ctx.req))),
+
+  createStudentRegistration: adminProcedure
     .input(createStudentRegistrationInputSchema)
     .mutation(({ input }) => createStudentRegistration(input)),
   
-  updateRegistrationStatus: publicProcedure
+  updateRegistrationStatus: adminProcedure
     .input(updateRegistrationStatusInputSchema)
-    .mutation(({ input }) => updateRegistrationStatus(input)),
+    .mutation(({ input, ctx }) => updateRegistrationStatus(input, ctx.user.id)),
   
-  getRegistrations: publicProcedure
+  getRegistrations: partnerProcedure
     .input(z.number().optional())
-    .query(({ input }) => getRegistrations(input)),
+    .query(async ({ input, ctx }) => {
+      const registrations = await getRegistrations(scopeAffiliateId(ctx, input));
+      // Competing touches name other affiliates, so only admins get to see them
+      return ctx.affiliate
+        ? registrations.map(registration => ({ ...registration, attribution_touches: null }))
+        : registrations;
+    }),
 
   // Affiliate statistics
-  getAffiliateStats: publicProcedure
+  getAffiliateStats: partnerProcedure
     .input(getAffiliateStatsInputSchema)
-    .query(({ input }) => getAffiliateStats(input)),
+    .query(({ input, ctx }) => getAffiliateStats({
+      ...input,
+      affiliate_id: scopeAffiliateId(ctx, input.affiliate_id)
+    })),
+
+  // Payout accounts: where an affiliate's payouts are sent
+  getPayoutAccounts: partnerProcedure
+    .input(z.number().optional())
+    .query(({ input, ctx }) => getPayoutAccounts(scopeAffiliateId(ctx, input))),
+
+  createPayoutAccount: partnerProcedure
+    .input(createPayoutAccountInputSchema)
+    .mutation(({ input, ctx }) => createPayoutAccount({
+      ...input,
+      affiliate_id: scopeAffiliateId(ctx, input.affiliate_id)
+    })),
+
+  setDefaultPayoutAccount: partnerProcedure
+    .input(payoutAccountActionInputSchema)
+    .mutation(({ input, ctx }) => setDefaultPayoutAccount({
+      ...input,
+      affiliate_id: scopeAffiliateId(ctx, input.affiliate_id)
+    })),
+
+  removePayoutAccount: partnerProcedure
+    .input(payoutAccountActionInputSchema)
+    .mutation(({ input, ctx }) => removePayoutAccount({
+      ...input,
+      affiliate_id: scopeAffiliateId(ctx, input.affiliate_id)
+    })),
+
+  updatePayoutAccount: partnerProcedure
+    .input(updatePayoutAccountInputSchema)
+    .mutation(({ input, ctx }) => updatePayoutAccount({
+      ...input,
+      affiliate_id: scopeAffiliateId(ctx, input.affiliate_id)
+    })),
+
+  // New and changed payout details are verified by an admin before payouts use them
+  reviewPayoutAccount: adminProcedure
+    .input(reviewPayoutAccountInputSchema)
+    .mutation(({ input, ctx }) => reviewPayoutAccount(input, ctx.user.id)),
+
+  // Tax profiles decide the income tax withheld from payouts
+  getTaxProfile: partnerProcedure
+    .input(z.number())
+    .query(({ input, ctx }) => getTaxProfile(scopeAffiliateId(ctx, input))),
+
+  updateTaxProfile: partnerProcedure
+    .input(updateTaxProfileInputSchema)
+    .mutation(({ input, ctx }) => updateTaxProfile({
+      ...input,
+      affiliate_id: scopeAffiliateId(ctx, input.affiliate_id)
+    })),
+
+  getWithholdingSlip: partnerProcedure
+    .input(getWithholdingSlipInputSchema)
+    .query(({ input, ctx }) => getWithholdingSlip({
+      ...input,
+      affiliate_id: scopeAffiliateId(ctx, input.affiliate_id)
+    })),
+
+  // Monthly commission statements
+  getMonthlyStatement: partnerProcedure
+    .input(getMonthlyStatementInputSchema)
+    .query(({ input, ctx }) => getMonthlyStatement({
+      ...input,
+      affiliate_id: scopeAffiliateId(ctx, input.affiliate_id)
+    })),
+
+  generateMonthlyStatements: adminProcedure
+    .input(generateMonthlyStatementsInputSchema)
+    .query(({ input }) => generateMonthlyStatements(input)),
 
   // Commission payout management
-  createCommissionPayout: publicProcedure
+  createCommissionPayout: partnerProcedure
     .input(createCommissionPayoutInputSchema)
-    .mutation(({ input }) => createCommissionPayout(input)),
+    .mutation(({ input, ctx }) => createCommissionPayout({
+      ...input,
+      affiliate_id: scopeAffiliateId(ctx, input.affiliate_id)
+    })),
   
-  updatePayoutStatus: publicProcedure
+  updatePayoutStatus: adminProcedure
     .input(updatePayoutStatusInputSchema)
-    .mutation(({ input }) => updatePayoutStatus(input)),
+    .mutation(({ input, ctx }) => updatePayoutStatus(input, ctx.user.id)),
   
-  getCommissionPayouts: publicProcedure
+  getCommissionPayouts: partnerProcedure
+    .input(z.number().optional())
+    .query(({ input, ctx }) => getCommissionPayouts(scopeAffiliateId(ctx, input))),
+
+  // Payout runs: batches of payouts sent with one bulk transfer file
+  createPayoutRun: adminProcedure
+    .input(createPayoutRunInputSchema)
+    .mutation(({ input, ctx }) => createPayoutRun(input, ctx.user.id)),
+
+  completePayoutRun: adminProcedure
+    .input(completePayoutRunInputSchema)
+    .mutation(({ input, ctx }) => completePayoutRun(input, ctx.user.id)),
+
+  getPayoutRuns: adminProcedure
+    .query(() => getPayoutRuns()),
+
+  exportPayoutRun: adminProcedure
+    .input(exportPayoutRunInputSchema)
+    .query(({ input }) => exportPayoutRun(input)),
+
+  // A mutation only so the statement travels in the request body; nothing is saved
+  previewPayoutReconciliation: adminProcedure
+    .input(previewPayoutReconciliationInputSchema)
+    .mutation(({ input }) => previewPayoutReconciliation(input)),
+
+  reconcilePayouts: adminProcedure
+    .input(reconcilePayoutsInputSchema)
+    .mutation(({ input, ctx }) => reconcilePayouts(input, ctx.user.id)),
+
+  // Commission ledger
+  getLedgerEntries: partnerProcedure
     .input(z.number().optional())
-    .query(({ input }) => getCommissionPayouts(input)),
+    .query(({ input, ctx }) => getLedgerEntries(scopeAffiliateId(ctx, input))),
+
+  createLedgerAdjustment: adminProcedure
+    .input(createLedgerAdjustmentInputSchema)
+    .mutation(({ input, ctx }) => createLedgerAdjustment(input, ctx.user.id)),
+
+  // Status history timeline for the admin detail dialogs
+  getStatusHistory: adminProcedure
+    .input(getStatusHistoryInputSchema)
+    .query(({ input }) => getStatusHistory(input)),
+
+  // Audit log of every mutation, newest first
+  getAuditLog: adminProcedure
+    .input(getAuditLogInputSchema)
+    .query(({ input }) => getAuditLog(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
+const TIER_EVALUATION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
@@ -129,12 +510,18 @@ async function start() {
       })(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   
   server.listen(port);
+
+  // Daily tier run so affiliates are demoted once their registrations age out of the tier period
+  setInterval(() => {
+    evaluateAffiliateTiers().catch(() => {
+      // Already logged by the handler; the next run tries again
+    });
+  }, TIER_EVALUATION_INTERVAL_MS);
+
   console.log(`🚀 English Booster Affiliate System TRPC server listening at port: ${port}`);
   console.log(`📧 Contact: 082231050500`);
   console.log(`🌐 Website: englishbooster.id`);
@@ -18,6 +18,11 @@ export const userSchema = z.object({
 
 export type User = z.infer<typeof userSchema>;
 
+// Session user schema (user without credentials, safe to send to the client)
+export const sessionUserSchema = userSchema.omit({ password_hash: true });
+
+export type SessionUser = z.infer<typeof sessionUserSchema>;
+
 // Affiliate status enum
 export const affiliateStatusSchema = z.enum(['pending', 'approved', 'rejected', 'suspended']);
 export type AffiliateStatus = z.infer<typeof affiliateStatusSchema>;
@@ -27,12 +32,9 @@ export const affiliateSchema = z.object({
   id: z.number(),
   user_id: z.number(),
   referral_code: z.string(),
-  bank_name: z.string().nullable(),
-  bank_account_number: z.string().nullable(),
-  bank_account_name: z.string().nullable(),
-  ewallet_type: z.string().nullable(),
-  ewallet_number: z.string().nullable(),
   commission_rate: z.number(),
+  tier_id: z.number().nullable(), // Null until the affiliate qualifies for a tier
+  tier_evaluated_at: z.coerce.date().nullable(),
   status: affiliateStatusSchema,
   approved_by: z.number().nullable(),
   approved_at: z.coerce.date().nullable(),
@@ -42,14 +44,56 @@ export const affiliateSchema = z.object({
 
 export type Affiliate = z.infer<typeof affiliateSchema>;
 
+// Affiliate tier schema; an affiliate reaches a tier by meeting either threshold within the tier period
+export const affiliateTierSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  level: z.number().int(), // Higher levels are better tiers
+  commission_rate: z.number(),
+  min_confirmed_registrations: z.number().nullable(),
+  min_revenue: z.number().nullable(), // IDR paid on confirmed registrations
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type AffiliateTier = z.infer<typeof affiliateTierSchema>;
+
+export const tierSettingsSchema = z.object({
+  period_days: z.number().int().positive()
+});
+
+export type TierSettings = z.infer<typeof tierSettingsSchema>;
+
+// Public view of an affiliate behind a referral link (no payout or account details)
+export const referralInfoSchema = z.object({
+  referral_code: z.string(),
+  affiliate_name: z.string()
+});
+
+export type ReferralInfo = z.infer<typeof referralInfoSchema>;
+
 // Program category enum
 export const programCategorySchema = z.enum(['online', 'offline_pare', 'group', 'branch']);
 export type ProgramCategory = z.infer<typeof programCategorySchema>;
 
-// Program location enum
-export const programLocationSchema = z.enum(['online', 'pare', 'malang', 'sidoarjo', 'nganjuk']);
+// Program location: the code of the branch the program runs at, such as 'pare' or 'online'
+export const programLocationSchema = z.string().trim().min(1).max(50);
 export type ProgramLocation = z.infer<typeof programLocationSchema>;
 
+// Branch schema
+export const branchSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  address: z.string().nullable(),
+  contact: z.string().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Branch = z.infer<typeof branchSchema>;
+
 // Program schema
 export const programSchema = z.object({
   id: z.number(),
@@ -60,31 +104,143 @@ export const programSchema = z.object({
   price: z.number(),
   duration_weeks: z.number().nullable(),
   is_active: z.boolean(),
+  archived_at: z.coerce.date().nullable(), // Archived programs cannot be edited or reactivated
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Program = z.infer<typeof programSchema>;
 
+// One price a program has had, from when it took effect
+export const programPriceSchema = z.object({
+  id: z.number(),
+  program_id: z.number(),
+  price: z.number(),
+  effective_from: z.coerce.date(),
+  changed_by: z.number().nullable(),
+  changed_by_name: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ProgramPrice = z.infer<typeof programPriceSchema>;
+
+// A dated batch of a program with its seats; pending and confirmed registrations take a seat
+export const programIntakeSchema = z.object({
+  id: z.number(),
+  program_id: z.number(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  capacity: z.number().int(),
+  registration_deadline: z.coerce.date(),
+  seats_taken: z.number().int(),
+  confirmed_count: z.number().int(),
+  waitlisted_count: z.number().int(),
+  seats_left: z.number().int(),
+  fill_rate: z.number(), // Seats taken as a fraction of capacity
+  is_open: z.boolean(), // Still taking registrations; when no seats are left they are waitlisted
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ProgramIntake = z.infer<typeof programIntakeSchema>;
+
+// Intake with its program, for the admin's fill rate overview
+export const intakeFillRateSchema = programIntakeSchema.extend({
+  program_name: z.string()
+});
+
+export type IntakeFillRate = z.infer<typeof intakeFillRateSchema>;
+
+// Commission type enum
+export const commissionTypeSchema = z.enum(['percentage', 'flat']);
+export type CommissionType = z.infer<typeof commissionTypeSchema>;
+
+// Commission rule schema; null scope fields match every affiliate, program, category or location
+export const commissionRuleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  commission_type: commissionTypeSchema,
+  value: z.number(), // Fraction of the program price for percentage rules, IDR for flat rules
+  affiliate_id: z.number().nullable(),
+  program_id: z.number().nullable(),
+  category: programCategorySchema.nullable(),
+  location: programLocationSchema.nullable(),
+  effective_from: z.coerce.date().nullable(),
+  effective_to: z.coerce.date().nullable(), // Exclusive
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type CommissionRule = z.infer<typeof commissionRuleSchema>;
+
 // Student registration status enum
-export const registrationStatusSchema = z.enum(['pending', 'confirmed', 'cancelled']);
+export const registrationStatusSchema = z.enum(['pending', 'confirmed', 'cancelled', 'refunded', 'waitlisted']);
 export type RegistrationStatus = z.infer<typeof registrationStatusSchema>;
 
+// Attribution model used when a student clicked more than one affiliate link
+export const attributionModelSchema = z.enum(['first_touch', 'last_touch']);
+export type AttributionModel = z.infer<typeof attributionModelSchema>;
+
+// How a registration's affiliate was chosen; 'referral_code' means no tracked clicks, only the submitted code
+export const attributionRuleSchema = z.enum(['first_touch', 'last_touch', 'referral_code']);
+export type AttributionRule = z.infer<typeof attributionRuleSchema>;
+
+// A referral link click considered during attribution
+export const attributionTouchSchema = z.object({
+  affiliate_id: z.number(),
+  referral_code: z.string(),
+  landed_at: z.string() // ISO timestamp
+});
+
+export type AttributionTouch = z.infer<typeof attributionTouchSchema>;
+
+export const attributionSettingsSchema = z.object({
+  model: attributionModelSchema,
+  window_days: z.number().int().positive()
+});
+
+export type AttributionSettings = z.infer<typeof attributionSettingsSchema>;
+
+// Confirmed commission stays locked for hold_days before it can be withdrawn, and optionally until the intake starts
+export const commissionHoldSettingsSchema = z.object({
+  hold_days: z.number().int().nonnegative(),
+  until_program_start: z.boolean()
+});
+
+export type CommissionHoldSettings = z.infer<typeof commissionHoldSettingsSchema>;
+
+// The company withholding income tax from payouts, as printed on withholding slips
+export const taxWithholderSettingsSchema = z.object({
+  name: z.string().trim().min(1),
+  npwp: z.string().regex(/^(\d{15,16})?$/) // Empty until configured
+});
+
+export type TaxWithholderSettings = z.infer<typeof taxWithholderSettingsSchema>;
+
 // Student registration schema
 export const studentRegistrationSchema = z.object({
   id: z.number(),
-  affiliate_id: z.number(),
+  affiliate_id: z.number().nullable(),
   program_id: z.number(),
   student_name: z.string(),
   student_email: z.string().email(),
   student_phone: z.string(),
   student_address: z.string().nullable(),
-  referral_code: z.string(),
+  referral_code: z.string().nullable(),
   status: registrationStatusSchema,
-  registration_fee: z.number(),
-  commission_amount: z.number(),
+  registration_fee: z.number(), // Program price at registration
+  program_price_id: z.number().nullable(), // The price history entry quoted; null on registrations made before price history
+  intake_id: z.number().nullable(), // Null for programs without intakes
+  amount_paid: z.number().nullable(), // What the student actually paid, set on confirmation
+  commission_amount: z.number(), // Estimate while pending, recomputed from the amount paid on confirmation
+  estimated_commission_amount: z.number().nullable(), // Commission quoted at registration, kept for comparison
+  commission_rule_id: z.number().nullable(), // Null when the affiliate's default rate was used
+  attribution_rule: attributionRuleSchema.nullable(),
+  attribution_window_days: z.number().nullable(),
+  attribution_touches: z.array(attributionTouchSchema).nullable(), // Every click in the window, for auditing disputes
   confirmed_by: z.number().nullable(),
   confirmed_at: z.coerce.date().nullable(),
+  refunded_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -99,30 +255,328 @@ export type PayoutStatus = z.infer<typeof payoutStatusSchema>;
 export const payoutMethodSchema = z.enum(['bank_transfer', 'ewallet']);
 export type PayoutMethod = z.infer<typeof payoutMethodSchema>;
 
-// Commission payout schema
+// Payout account type enum
+export const payoutAccountTypeSchema = z.enum(['bank', 'ewallet']);
+export type PayoutAccountType = z.infer<typeof payoutAccountTypeSchema>;
+
+// Indonesian bank codes (kode bank) accepted for payouts
+export const bankCodeSchema = z.enum([
+  '002', '008', '009', '011', '013', '014', '016', '022', '028', '200', '213', '451', '501', '535', '542'
+]);
+export type BankCode = z.infer<typeof bankCodeSchema>;
+
+// Names printed on transfer files and shown to affiliates
+export const BANK_NAMES: Record<BankCode, string> = {
+  '002': 'BRI',
+  '008': 'Mandiri',
+  '009': 'BNI',
+  '011': 'Danamon',
+  '013': 'Permata',
+  '014': 'BCA',
+  '016': 'Maybank',
+  '022': 'CIMB Niaga',
+  '028': 'OCBC',
+  '200': 'BTN',
+  '213': 'SMBC Indonesia',
+  '451': 'BSI',
+  '501': 'BCA Digital',
+  '535': 'SeaBank',
+  '542': 'Bank Jago'
+};
+
+export const ewalletProviderSchema = z.enum(['gopay', 'ovo', 'dana', 'shopeepay']);
+export type EwalletProvider = z.infer<typeof ewalletProviderSchema>;
+
+export const EWALLET_PROVIDER_NAMES: Record<EwalletProvider, string> = {
+  gopay: 'GoPay',
+  ovo: 'OVO',
+  dana: 'DANA',
+  shopeepay: 'ShopeePay'
+};
+
+// Changed payout details wait for an admin before payouts can use them
+export const payoutAccountVerificationSchema = z.enum(['pending', 'verified', 'rejected']);
+export type PayoutAccountVerification = z.infer<typeof payoutAccountVerificationSchema>;
+
+// Payout account schema
+export const payoutAccountSchema = z.object({
+  id: z.number(),
+  affiliate_id: z.number(),
+  account_type: payoutAccountTypeSchema,
+  bank_code: bankCodeSchema.nullable(),
+  ewallet_provider: ewalletProviderSchema.nullable(),
+  account_number: z.string(),
+  account_holder: z.string(),
+  is_default: z.boolean(), // Used when a payout request names no account
+  is_active: z.boolean(),
+  verification_status: payoutAccountVerificationSchema,
+  verified_by: z.number().nullable(),
+  verified_at: z.coerce.date().nullable(),
+  rejection_reason: z.string().nullable(),
+  submitted_with_application: z.boolean(), // Verified along with the application when it is approved
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type PayoutAccount = z.infer<typeof payoutAccountSchema>;
+
+// Where a payout is sent, copied from the payout account when the payout is requested
+export const payoutDestinationSchema = z.object({
+  account_type: payoutAccountTypeSchema,
+  bank_code: z.string().nullable(), // Null for e-wallets, and for backfilled banks without a known code
+  ewallet_provider: ewalletProviderSchema.nullable(),
+  provider_name: z.string(), // Bank or e-wallet name
+  account_number: z.string(),
+  account_holder: z.string()
+});
+
+export type PayoutDestination = z.infer<typeof payoutDestinationSchema>;
+
+// Taxpayer type enum; PPh 21 is withheld from individuals, PPh 23 from companies
+export const taxpayerTypeSchema = z.enum(['individual', 'company']);
+export type TaxpayerType = z.infer<typeof taxpayerTypeSchema>;
+
+// Income tax article withheld from a payout
+export const withholdingTaxSchema = z.enum(['pph21', 'pph23']);
+export type WithholdingTax = z.infer<typeof withholdingTaxSchema>;
+
+// Affiliate tax profile schema; id is null while the affiliate still has the default profile
+export const taxProfileSchema = z.object({
+  id: z.number().nullable(),
+  affiliate_id: z.number(),
+  taxpayer_type: taxpayerTypeSchema,
+  npwp: z.string().nullable(), // Null when the affiliate has no NPWP, which raises the withholding rate
+  registered_name: z.string().nullable(),
+  address: z.string().nullable(),
+  updated_at: z.coerce.date().nullable()
+});
+
+export type TaxProfile = z.infer<typeof taxProfileSchema>;
+
+// Commission payout schema; amount is the gross commission withdrawn, net_amount what is transferred after withholding
 export const commissionPayoutSchema = z.object({
   id: z.number(),
   affiliate_id: z.number(),
   amount: z.number(),
   method: payoutMethodSchema,
-  bank_details: z.string().nullable(),
-  ewallet_details: z.string().nullable(),
+  payout_account_id: z.number().nullable(),
+  destination: payoutDestinationSchema.nullable(),
   status: payoutStatusSchema,
   processed_by: z.number().nullable(),
   processed_at: z.coerce.date().nullable(),
   notes: z.string().nullable(),
+  payout_run_id: z.number().nullable(),
+  bank_reference: z.string().nullable(),
+  tax_type: withholdingTaxSchema.nullable(), // Null on payouts made before withholding
+  tax_base: z.number(),
+  tax_rate: z.number(),
+  tax_amount: z.number(),
+  tax_npwp: z.string().nullable(),
+  net_amount: z.number(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type CommissionPayout = z.infer<typeof commissionPayoutSchema>;
 
+// Payout run status enum
+export const payoutRunStatusSchema = z.enum(['processing', 'completed', 'partially_failed', 'failed']);
+export type PayoutRunStatus = z.infer<typeof payoutRunStatusSchema>;
+
+// Payout run schema, with totals over the payouts it contains
+export const payoutRunSchema = z.object({
+  id: z.number(),
+  status: payoutRunStatusSchema,
+  payout_count: z.number(),
+  failed_count: z.number(),
+  total_amount: z.number(),
+  total_net_amount: z.number(), // What the transfers add up to after withholding
+  created_by: z.number(),
+  completed_by: z.number().nullable(),
+  completed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type PayoutRun = z.infer<typeof payoutRunSchema>;
+
+// Bulk transfer upload layouts; bank formats hold the bank transfers of a run, 'ewallet' the e-wallet ones
+export const payoutExportFormatSchema = z.enum(['bca', 'mandiri', 'bri', 'ewallet']);
+export type PayoutExportFormat = z.infer<typeof payoutExportFormatSchema>;
+
+export const payoutRunExportSchema = z.object({
+  filename: z.string(),
+  content: z.string(), // CSV
+  row_count: z.number()
+});
+
+export type PayoutRunExport = z.infer<typeof payoutRunExportSchema>;
+
+// Monthly commission statement file format
+export const monthlyStatementFormatSchema = z.enum(['pdf', 'csv']);
+export type MonthlyStatementFormat = z.infer<typeof monthlyStatementFormatSchema>;
+
+// Generated monthly statements; PDFs are plain ASCII so they travel as text like the CSV
+export const monthlyStatementFileSchema = z.object({
+  filename: z.string(),
+  content: z.string(),
+  content_type: z.string(),
+  statement_count: z.number().int() // Affiliates included in the file
+});
+
+export type MonthlyStatementFile = z.infer<typeof monthlyStatementFileSchema>;
+
+// Withholding slip (bukti potong) of one affiliate for one tax period, over the payouts completed in it
+export const withholdingSlipSchema = z.object({
+  slip_number: z.string(),
+  period: z.string(), // YYYY-MM
+  filename: z.string(),
+  content: z.string(), // CSV
+  payout_count: z.number(),
+  gross_amount: z.number(),
+  tax_base: z.number(),
+  tax_amount: z.number()
+});
+
+export type WithholdingSlip = z.infer<typeof withholdingSlipSchema>;
+
+// Debits are transfers that left the account; credits are transfers the receiving bank returned
+export const statementDirectionSchema = z.enum(['debit', 'credit']);
+export type StatementDirection = z.infer<typeof statementDirectionSchema>;
+
+// How a statement line was tied to a payout
+export const statementMatchSchema = z.enum(['reference', 'account_amount', 'none']);
+export type StatementMatch = z.infer<typeof statementMatchSchema>;
+
+// One bank statement line with the payout it is proposed to settle
+export const reconciliationLineSchema = z.object({
+  line_number: z.number(), // Row of the uploaded file, counting from 1
+  date: z.string().nullable(),
+  description: z.string(),
+  account_number: z.string().nullable(),
+  amount: z.number(),
+  direction: statementDirectionSchema,
+  bank_reference: z.string().nullable(),
+  match: statementMatchSchema,
+  payout_id: z.number().nullable(),
+  proposed_status: z.enum(['completed', 'failed']).nullable(), // Null when the payout cannot be settled
+  issues: z.array(z.string()) // Reasons to review the match before applying it
+});
+
+export type ReconciliationLine = z.infer<typeof reconciliationLineSchema>;
+
+export const reconciliationPreviewSchema = z.object({
+  lines: z.array(reconciliationLineSchema),
+  unmatched_payout_ids: z.array(z.number()) // Processing payouts no line matched
+});
+
+export type ReconciliationPreview = z.infer<typeof reconciliationPreviewSchema>;
+
+// Commission ledger entry type enum
+export const ledgerEntryTypeSchema = z.enum([
+  'commission_earned',
+  'commission_reversed',
+  'payout_reserved',
+  'payout_released',
+  'payout_paid',
+  'adjustment'
+]);
+export type LedgerEntryType = z.infer<typeof ledgerEntryTypeSchema>;
+
+// Commission ledger account enum; 'company' is the counterparty for earnings, reversals and adjustments
+export const ledgerAccountSchema = z.enum(['company', 'available', 'reserved', 'paid']);
+export type LedgerAccount = z.infer<typeof ledgerAccountSchema>;
+
+// Commission ledger entry schema
+export const ledgerEntrySchema = z.object({
+  id: z.number(),
+  affiliate_id: z.number(),
+  entry_type: ledgerEntryTypeSchema,
+  from_account: ledgerAccountSchema,
+  to_account: ledgerAccountSchema,
+  amount: z.number(), // Always positive; the accounts give the direction
+  registration_id: z.number().nullable(),
+  payout_id: z.number().nullable(),
+  description: z.string().nullable(),
+  created_by: z.number().nullable(), // Null for entries posted by the system
+  created_at: z.coerce.date()
+});
+
+export type LedgerEntry = z.infer<typeof ledgerEntrySchema>;
+
+// Affiliate balances derived from the ledger
+export const ledgerBalancesSchema = z.object({
+  available: z.number(), // Earned and not yet requested
+  reserved: z.number(), // Held by pending and processing payouts
+  paid: z.number() // Paid out by completed payouts
+});
+
+export type LedgerBalances = z.infer<typeof ledgerBalancesSchema>;
+
+// Entities whose status changes are recorded
+export const statusEntitySchema = z.enum(['registration', 'affiliate', 'payout']);
+export type StatusEntity = z.infer<typeof statusEntitySchema>;
+
+// Status history entry schema
+export const statusHistoryEntrySchema = z.object({
+  id: z.number(),
+  entity_type: statusEntitySchema,
+  entity_id: z.number(),
+  from_status: z.string(),
+  to_status: z.string(),
+  actor_id: z.number().nullable(),
+  actor_name: z.string().nullable(), // Full name of the acting user, for the timeline
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type StatusHistoryEntry = z.infer<typeof statusHistoryEntrySchema>;
+
+// Audit log schemas
+export const auditEntitySchema = z.enum([
+  'user', 'affiliate', 'affiliate_tier', 'branch', 'program', 'program_intake', 'commission_rule', 'registration', 'payout',
+  'payout_run', 'payout_account', 'ledger_entry', 'tax_profile'
+]);
+export type AuditEntity = z.infer<typeof auditEntitySchema>;
+
+// Changed fields of the audited entity, keyed by column name
+export const auditChangesSchema = z.record(z.object({
+  before: z.unknown(),
+  after: z.unknown()
+}));
+export type AuditChanges = z.infer<typeof auditChangesSchema>;
+
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  actor_id: z.number().nullable(),
+  actor_name: z.string().nullable(),
+  procedure: z.string(),
+  entity_type: auditEntitySchema.nullable(),
+  entity_id: z.number().nullable(),
+  changes: auditChangesSchema.nullable(),
+  ip_hash: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+// In-app notification schema
+export const notificationSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  title: z.string(),
+  message: z.string(),
+  read_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
 // Input schemas for creating entities
 
 // Create user input schema
 export const createUserInputSchema = z.object({
   email: z.string().email(),
-  password_hash: z.string(),
+  password: z.string().min(8),
   full_name: z.string(),
   phone: z.string().nullable(),
   role: userRoleSchema
@@ -130,19 +584,88 @@ export const createUserInputSchema = z.object({
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
-// Create affiliate input schema
+// Profile fields users edit themselves; email and role stay with admins
+export const updateProfileInputSchema = z.object({
+  full_name: z.string().trim().min(2).max(255),
+  phone: z.string().trim().max(20).nullable().transform(phone => phone || null)
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileInputSchema>;
+
+// Spaces, dots and dashes are dropped before the digits are checked
+const bankAccountNumberSchema = z.string()
+  .transform(value => value.replace(/[\s.-]/g, ''))
+  .pipe(z.string().regex(/^\d{6,20}$/, 'Bank account number must be 6 to 20 digits'));
+
+// E-wallets are registered to Indonesian mobile numbers; +62 and 62 prefixes are stored as 0
+const ewalletNumberSchema = z.string()
+  .transform(value => value.replace(/[\s.-]/g, '').replace(/^\+?62/, '0'))
+  .pipe(z.string().regex(/^08\d{7,11}$/, 'E-wallet number must be a mobile number such as 081234567890'));
+
+const accountHolderSchema = z.string().trim().min(2).max(255);
+
+// Details of a new payout account
+export const payoutAccountDetailsSchema = z.discriminatedUnion('account_type', [
+  z.object({
+    account_type: z.literal('bank'),
+    bank_code: bankCodeSchema,
+    account_number: bankAccountNumberSchema,
+    account_holder: accountHolderSchema
+  }),
+  z.object({
+    account_type: z.literal('ewallet'),
+    ewallet_provider: ewalletProviderSchema,
+    account_number: ewalletNumberSchema,
+    account_holder: accountHolderSchema
+  })
+]);
+
+export type PayoutAccountDetails = z.infer<typeof payoutAccountDetailsSchema>;
+
+// Create affiliate input schema; the first payout account becomes the default
 export const createAffiliateInputSchema = z.object({
   user_id: z.number(),
-  bank_name: z.string().nullable(),
-  bank_account_number: z.string().nullable(),
-  bank_account_name: z.string().nullable(),
-  ewallet_type: z.string().nullable(),
-  ewallet_number: z.string().nullable(),
-  commission_rate: z.number().positive()
+  payout_accounts: z.array(payoutAccountDetailsSchema).max(5).default([]),
+  commission_rate: z.number().positive().max(1).optional() // Default rate when no commission rule applies
 });
 
 export type CreateAffiliateInput = z.infer<typeof createAffiliateInputSchema>;
 
+// Public affiliate sign-up; the user, the affiliate profile and its payout accounts are created together
+export const registerAffiliateInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8),
+  full_name: z.string(),
+  phone: z.string().nullable(),
+  payout_accounts: z.array(payoutAccountDetailsSchema).max(5).default([])
+});
+
+export type RegisterAffiliateInput = z.infer<typeof registerAffiliateInputSchema>;
+
+// Create branch input schema; the code is what programs and links refer to, so it cannot be changed later
+export const createBranchInputSchema = z.object({
+  code: z.string().trim().toLowerCase().regex(/^[a-z0-9-]{1,50}$/, 'Use up to 50 lowercase letters, digits or dashes'),
+  name: z.string().trim().min(1),
+  address: z.string().nullable(),
+  contact: z.string().nullable(),
+  is_active: z.boolean().default(true)
+});
+
+export type CreateBranchInput = z.infer<typeof createBranchInputSchema>;
+
+// Update branch input schema
+export const updateBranchInputSchema = createBranchInputSchema.omit({ code: true }).partial().extend({
+  id: z.number()
+});
+
+export type UpdateBranchInput = z.infer<typeof updateBranchInputSchema>;
+
+export const branchActionInputSchema = z.object({
+  branch_id: z.number()
+});
+
+export type BranchActionInput = z.infer<typeof branchActionInputSchema>;
+
 // Create program input schema
 export const createProgramInputSchema = z.object({
   name: z.string(),
@@ -156,6 +679,104 @@ export const createProgramInputSchema = z.object({
 
 export type CreateProgramInput = z.infer<typeof createProgramInputSchema>;
 
+// Update program input schema; a new price applies to registrations made from now on
+export const updateProgramInputSchema = createProgramInputSchema.partial().extend({
+  id: z.number()
+});
+
+export type UpdateProgramInput = z.infer<typeof updateProgramInputSchema>;
+
+// Archive, delete or price history of one program
+export const programActionInputSchema = z.object({
+  program_id: z.number()
+});
+
+export type ProgramActionInput = z.infer<typeof programActionInputSchema>;
+
+// Program list filters; archived programs are left out unless asked for
+export const getProgramsInputSchema = z.object({
+  is_active: z.boolean().optional(),
+  category: programCategorySchema.optional(),
+  location: programLocationSchema.optional(),
+  include_archived: z.boolean().optional()
+});
+
+export type GetProgramsInput = z.infer<typeof getProgramsInputSchema>;
+
+// Create program intake input schema
+export const createProgramIntakeInputSchema = z.object({
+  program_id: z.number(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  capacity: z.number().int().positive(),
+  registration_deadline: z.coerce.date()
+});
+
+export type CreateProgramIntakeInput = z.infer<typeof createProgramIntakeInputSchema>;
+
+// Update program intake input schema; added seats go to the waitlist first
+export const updateProgramIntakeInputSchema = createProgramIntakeInputSchema.omit({ program_id: true }).partial().extend({
+  id: z.number()
+});
+
+export type UpdateProgramIntakeInput = z.infer<typeof updateProgramIntakeInputSchema>;
+
+// Intake fill rates, optionally for one program
+export const getIntakeFillRatesInputSchema = z.object({
+  program_id: z.number().optional()
+});
+
+export type GetIntakeFillRatesInput = z.infer<typeof getIntakeFillRatesInputSchema>;
+
+// Create affiliate tier input schema; leave both thresholds empty for the entry tier
+export const createAffiliateTierInputSchema = z.object({
+  name: z.string().min(1),
+  level: z.number().int().positive(),
+  commission_rate: z.number().positive().max(1),
+  min_confirmed_registrations: z.number().int().nonnegative().nullable(),
+  min_revenue: z.number().nonnegative().nullable()
+});
+
+export type CreateAffiliateTierInput = z.infer<typeof createAffiliateTierInputSchema>;
+
+// Update affiliate tier input schema
+export const updateAffiliateTierInputSchema = createAffiliateTierInputSchema.partial().extend({
+  id: z.number()
+});
+
+export type UpdateAffiliateTierInput = z.infer<typeof updateAffiliateTierInputSchema>;
+
+// Create commission rule input schema
+export const createCommissionRuleInputSchema = z.object({
+  name: z.string().min(1),
+  commission_type: commissionTypeSchema,
+  value: z.number().nonnegative(),
+  affiliate_id: z.number().nullable(),
+  program_id: z.number().nullable(),
+  category: programCategorySchema.nullable(),
+  location: programLocationSchema.nullable(),
+  effective_from: z.coerce.date().nullable(),
+  effective_to: z.coerce.date().nullable()
+});
+
+export type CreateCommissionRuleInput = z.infer<typeof createCommissionRuleInputSchema>;
+
+// Update commission rule input schema
+export const updateCommissionRuleInputSchema = createCommissionRuleInputSchema.partial().extend({
+  id: z.number()
+});
+
+export type UpdateCommissionRuleInput = z.infer<typeof updateCommissionRuleInputSchema>;
+
+// Commission an affiliate earns on a program under the rules in force today
+export const programCommissionSchema = z.object({
+  program_id: z.number(),
+  commission_amount: z.number(),
+  commission_rule_id: z.number().nullable()
+});
+
+export type ProgramCommission = z.infer<typeof programCommissionSchema>;
+
 // Create student registration input schema
 export const createStudentRegistrationInputSchema = z.object({
   affiliate_id: z.number(),
@@ -164,30 +785,182 @@ export const createStudentRegistrationInputSchema = z.object({
   student_email: z.string().email(),
   student_phone: z.string(),
   student_address: z.string().nullable(),
-  referral_code: z.string()
+  referral_code: z.string(),
+  intake_id: z.number().nullable().optional() // Required for programs with intakes
 });
 
 export type CreateStudentRegistrationInput = z.infer<typeof createStudentRegistrationInputSchema>;
 
+// Public student registration input schema; the affiliate is resolved from the referral code server-side
+export const registerStudentInputSchema = z.object({
+  program_id: z.number(),
+  student_name: z.string(),
+  student_email: z.string().email(),
+  student_phone: z.string(),
+  student_address: z.string().nullable(),
+  referral_code: z.string().nullable(),
+  click_token: z.string().nullable().optional(), // Returned by trackReferralClick; counts as a touch even without the visitor cookie
+  intake_id: z.number().nullable().optional() // Required for programs with intakes
+});
+
+export type RegisterStudentInput = z.infer<typeof registerStudentInputSchema>;
+
+// Referral click tracking input schema (visitor details come from the request itself)
+export const trackReferralClickInputSchema = z.object({
+  referral_code: z.string(),
+  program_id: z.number().nullable(),
+  referrer: z.string().max(2048).nullable()
+});
+
+export type TrackReferralClickInput = z.infer<typeof trackReferralClickInputSchema>;
+
+// Visitor details captured from the HTTP request for a referral click
+export const referralClickVisitorSchema = z.object({
+  visitor_id: z.string(),
+  user_agent: z.string().nullable(),
+  ip_address: z.string().nullable()
+});
+
+export type ReferralClickVisitor = z.infer<typeof referralClickVisitorSchema>;
+
+export const trackReferralClickResultSchema = z.object({
+  click_token: z.string().nullable() // Null when the code does not belong to an approved affiliate
+});
+
+export type TrackReferralClickResult = z.infer<typeof trackReferralClickResultSchema>;
+
+// Smallest payout an affiliate can request, in IDR
+export const MIN_PAYOUT_AMOUNT = 100000;
+
 // Create commission payout input schema
 export const createCommissionPayoutInputSchema = z.object({
   affiliate_id: z.number(),
-  amount: z.number().min(100000), // Minimum IDR 100,000
-  method: payoutMethodSchema,
-  bank_details: z.string().nullable(),
-  ewallet_details: z.string().nullable(),
+  amount: z.number().min(MIN_PAYOUT_AMOUNT),
+  payout_account_id: z.number().optional(), // The affiliate's default account when omitted
   notes: z.string().nullable()
 });
 
 export type CreateCommissionPayoutInput = z.infer<typeof createCommissionPayoutInputSchema>;
 
+// Payout account input schemas; affiliates are pinned to their own affiliate_id
+export const createPayoutAccountInputSchema = z.object({
+  affiliate_id: z.number(),
+  account: payoutAccountDetailsSchema,
+  is_default: z.boolean().default(false)
+});
+
+export type CreatePayoutAccountInput = z.infer<typeof createPayoutAccountInputSchema>;
+
+// Replacing an account's details sends it back for verification
+export const updatePayoutAccountInputSchema = z.object({
+  affiliate_id: z.number(),
+  payout_account_id: z.number(),
+  account: payoutAccountDetailsSchema
+});
+
+export type UpdatePayoutAccountInput = z.infer<typeof updatePayoutAccountInputSchema>;
+
+export const payoutAccountActionInputSchema = z.object({
+  affiliate_id: z.number(),
+  payout_account_id: z.number()
+});
+
+export type PayoutAccountActionInput = z.infer<typeof payoutAccountActionInputSchema>;
+
+// Admin review of pending payout details; the affiliate is told the reason for a rejection
+export const reviewPayoutAccountInputSchema = z.object({
+  payout_account_id: z.number(),
+  status: z.enum(['verified', 'rejected']),
+  reason: z.string().trim().min(1).max(500).nullable().optional()
+}).refine(input => input.status === 'verified' || !!input.reason, {
+  message: 'Give a reason when rejecting payout details',
+  path: ['reason']
+});
+
+export type ReviewPayoutAccountInput = z.infer<typeof reviewPayoutAccountInputSchema>;
+
+// Tax profile input schema; NPWP punctuation is dropped, and both the 15-digit and the NIK-based 16-digit forms are accepted
+export const updateTaxProfileInputSchema = z.object({
+  affiliate_id: z.number(),
+  taxpayer_type: taxpayerTypeSchema,
+  npwp: z.string()
+    .transform(value => value.replace(/[\s.-]/g, ''))
+    .pipe(z.string().regex(/^(\d{15,16})?$/, 'NPWP must be 15 or 16 digits'))
+    .nullable()
+    .transform(npwp => npwp || null),
+  registered_name: z.string().trim().max(255).nullable().transform(name => name || null),
+  address: z.string().trim().max(500).nullable().transform(address => address || null)
+});
+
+export type UpdateTaxProfileInput = z.infer<typeof updateTaxProfileInputSchema>;
+
+// Manual ledger adjustment input schema; positive credits the affiliate, negative debits
+export const createLedgerAdjustmentInputSchema = z.object({
+  affiliate_id: z.number(),
+  amount: z.number().refine(amount => amount !== 0, 'Adjustment amount cannot be zero'),
+  description: z.string().trim().min(1)
+});
+
+export type CreateLedgerAdjustmentInput = z.infer<typeof createLedgerAdjustmentInputSchema>;
+
+// Payout run input schema; without payout IDs every pending payout of an approved affiliate is included
+export const createPayoutRunInputSchema = z.object({
+  payout_ids: z.array(z.number()).min(1).optional(),
+  generate_payouts: z.boolean().default(false) // First request payouts for affiliates above the minimum
+});
+
+export type CreatePayoutRunInput = z.infer<typeof createPayoutRunInputSchema>;
+
+// Payouts not listed as failed are marked completed
+export const completePayoutRunInputSchema = z.object({
+  run_id: z.number(),
+  failed_payout_ids: z.array(z.number()).default([]),
+  reason: z.string().trim().min(1).nullable().optional() // Recorded in the status history of the failed payouts
+});
+
+export type CompletePayoutRunInput = z.infer<typeof completePayoutRunInputSchema>;
+
+export const exportPayoutRunInputSchema = z.object({
+  run_id: z.number(),
+  format: payoutExportFormatSchema
+});
+
+export type ExportPayoutRunInput = z.infer<typeof exportPayoutRunInputSchema>;
+
+// Bank statement CSV as exported from internet banking; nothing is changed until the matches are applied
+export const previewPayoutReconciliationInputSchema = z.object({
+  content: z.string().min(1).max(2_000_000)
+});
+
+export type PreviewPayoutReconciliationInput = z.infer<typeof previewPayoutReconciliationInputSchema>;
+
+// Matches reviewed by the admin, settled together
+export const reconcilePayoutsInputSchema = z.object({
+  matches: z.array(z.object({
+    payout_id: z.number(),
+    status: z.enum(['completed', 'failed']),
+    bank_reference: z.string().trim().min(1).nullable()
+  })).min(1),
+  reason: z.string().trim().min(1).nullable().optional() // Recorded in the status history of every payout
+});
+
+export type ReconcilePayoutsInput = z.infer<typeof reconcilePayoutsInputSchema>;
+
+// Login input schema
+export const loginInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string()
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
 // Update schemas
 
 // Update affiliate status input schema
 export const updateAffiliateStatusInputSchema = z.object({
   affiliate_id: z.number(),
   status: affiliateStatusSchema,
-  approved_by: z.number().optional()
+  reason: z.string().trim().min(1).nullable().optional() // Recorded in the status history
 });
 
 export type UpdateAffiliateStatusInput = z.infer<typeof updateAffiliateStatusInputSchema>;
@@ -196,7 +969,8 @@ export type UpdateAffiliateStatusInput = z.infer<typeof updateAffiliateStatusInp
 export const updateRegistrationStatusInputSchema = z.object({
   registration_id: z.number(),
   status: registrationStatusSchema,
-  confirmed_by: z.number().optional()
+  amount_paid: z.number().nonnegative().optional(), // Only on confirmation; defaults to the price quoted at registration
+  reason: z.string().trim().min(1).nullable().optional() // Recorded in the status history
 });
 
 export type UpdateRegistrationStatusInput = z.infer<typeof updateRegistrationStatusInputSchema>;
@@ -205,14 +979,69 @@ export type UpdateRegistrationStatusInput = z.infer<typeof updateRegistrationSta
 export const updatePayoutStatusInputSchema = z.object({
   payout_id: z.number(),
   status: payoutStatusSchema,
-  processed_by: z.number().optional(),
-  notes: z.string().nullable().optional()
+  notes: z.string().nullable().optional(),
+  reason: z.string().trim().min(1).nullable().optional() // Recorded in the status history
 });
 
 export type UpdatePayoutStatusInput = z.infer<typeof updatePayoutStatusInputSchema>;
 
+// Mark notifications as read; all of the user's unread ones when no IDs are given
+export const markNotificationsReadInputSchema = z.object({
+  notification_ids: z.array(z.number()).optional()
+});
+
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadInputSchema>;
+
 // Query schemas
 
+// Get status history input schema
+export const getStatusHistoryInputSchema = z.object({
+  entity_type: statusEntitySchema,
+  entity_id: z.number()
+});
+
+export type GetStatusHistoryInput = z.infer<typeof getStatusHistoryInputSchema>;
+
+// Audit log filters; the actor is matched against user names and emails
+export const getAuditLogInputSchema = z.object({
+  entity_type: auditEntitySchema.optional(),
+  entity_id: z.number().int().optional(),
+  actor: z.string().trim().min(1).optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  limit: z.number().int().positive().max(500).default(100)
+});
+
+export type GetAuditLogInput = z.infer<typeof getAuditLogInputSchema>;
+
+// A calendar month in YYYY-MM form, for monthly slips and statements
+export const periodSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be a month such as 2024-01');
+
+// Withholding slip of one affiliate for one month
+export const getWithholdingSlipInputSchema = z.object({
+  affiliate_id: z.number(),
+  period: periodSchema
+});
+
+export type GetWithholdingSlipInput = z.infer<typeof getWithholdingSlipInputSchema>;
+
+// Monthly commission statement of one affiliate
+export const getMonthlyStatementInputSchema = z.object({
+  affiliate_id: z.number(),
+  period: periodSchema,
+  format: monthlyStatementFormatSchema
+});
+
+export type GetMonthlyStatementInput = z.infer<typeof getMonthlyStatementInputSchema>;
+
+// Statements of every affiliate with a balance or activity in the month, in one document
+export const generateMonthlyStatementsInputSchema = z.object({
+  period: periodSchema,
+  format: monthlyStatementFormatSchema
+});
+
+export type GenerateMonthlyStatementsInput = z.infer<typeof generateMonthlyStatementsInputSchema>;
+
 // Get affiliate statistics input schema
 export const getAffiliateStatsInputSchema = z.object({
   affiliate_id: z.number(),
@@ -222,15 +1051,52 @@ export const getAffiliateStatsInputSchema = z.object({
 
 export type GetAffiliateStatsInput = z.infer<typeof getAffiliateStatsInputSchema>;
 
+// Commission of one registration that is still inside the hold period
+export const lockedCommissionSchema = z.object({
+  registration_id: z.number(),
+  student_name: z.string(),
+  amount: z.number(),
+  unlocks_at: z.coerce.date()
+});
+
+export type LockedCommission = z.infer<typeof lockedCommissionSchema>;
+
 // Affiliate statistics response schema
 export const affiliateStatsSchema = z.object({
+  total_clicks: z.number(),
+  unique_visitors: z.number(),
+  click_conversion_rate: z.number(), // Share of clicks that led to a registration (0-1)
   total_registrations: z.number(),
   confirmed_registrations: z.number(),
   pending_registrations: z.number(),
   total_commission_earned: z.number(),
   total_commission_paid: z.number(),
   pending_commission: z.number(),
+  commission_balance: z.number(), // Available balance; negative while clawbacks exceed new earnings
+  locked_commission: z.number(), // Part of the balance still in its hold period
+  commission_unlocks: z.array(lockedCommissionSchema), // Soonest first
   available_for_payout: z.number()
 });
 
-export type AffiliateStats = z.infer<typeof affiliateStatsSchema>;
\ No newline at end of file
+export type AffiliateStats = z.infer<typeof affiliateStatsSchema>;
+
+// Tier change made by an evaluation run
+export const tierChangeSchema = z.object({
+  affiliate_id: z.number(),
+  previous_tier_id: z.number().nullable(),
+  tier_id: z.number().nullable()
+});
+
+export type TierChange = z.infer<typeof tierChangeSchema>;
+
+// An affiliate's performance in the current tier period and what the next tier asks for
+export const affiliateTierProgressSchema = z.object({
+  current_tier: affiliateTierSchema.nullable(),
+  next_tier: affiliateTierSchema.nullable(), // Null at the top tier
+  period_days: z.number(),
+  confirmed_registrations: z.number(),
+  revenue: z.number(),
+  evaluated_at: z.coerce.date().nullable()
+});
+
+export type AffiliateTierProgress = z.infer<typeof affiliateTierProgressSchema>;
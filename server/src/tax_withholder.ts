@@ -0,0 +1,21 @@
+import { taxWithholderSettingsSchema, type TaxWithholderSettings } from './schema';
+
+const DEFAULT_TAX_WITHHOLDER_SETTINGS: TaxWithholderSettings = {
+  name: 'English Booster',
+  npwp: ''
+};
+
+// Withholding slips name TAX_WITHHOLDER_NAME with the NPWP in TAX_WITHHOLDER_NPWP as the withholder
+export const getTaxWithholderSettings = (): TaxWithholderSettings => {
+  const result = taxWithholderSettingsSchema.safeParse({
+    name: process.env['TAX_WITHHOLDER_NAME'] ?? DEFAULT_TAX_WITHHOLDER_SETTINGS.name,
+    npwp: (process.env['TAX_WITHHOLDER_NPWP'] ?? DEFAULT_TAX_WITHHOLDER_SETTINGS.npwp).replace(/[\s.-]/g, '')
+  });
+
+  if (!result.success) {
+    console.error('Invalid tax withholder settings, using defaults:', result.error.flatten().fieldErrors);
+    return DEFAULT_TAX_WITHHOLDER_SETTINGS;
+  }
+
+  return result.data;
+};
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, programsTable } from '../db/schema';
+import { archiveProgram } from '../handlers/archive_program';
+import { getPrograms } from '../handlers/get_programs';
+
+describe('archiveProgram', () => {
+  let adminId: number;
+  let programId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'pare', name: 'Pare' }]).execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' })
+      .returning()
+      .execute();
+    adminId = users[0].id;
+
+    const programs = await db.insert(programsTable)
+      .values({ name: 'Pare 2 Weeks', category: 'offline_pare', location: 'pare', price: '2000000.00', is_active: true })
+      .returning()
+      .execute();
+    programId = programs[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should deactivate the program and hide it from program lists', async () => {
+    const result = await archiveProgram({ program_id: programId }, adminId);
+
+    expect(result.is_active).toBe(false);
+    expect(result.archived_at).toBeInstanceOf(Date);
+    expect(await getPrograms()).toHaveLength(0);
+    expect(await getPrograms({ include_archived: true })).toHaveLength(1);
+  });
+
+  it('should refuse programs that are already archived', async () => {
+    await archiveProgram({ program_id: programId }, adminId);
+
+    await expect(archiveProgram({ program_id: programId }, adminId))
+      .rejects.toThrow('Program "Pare 2 Weeks" is already archived');
+  });
+
+  it('should throw for unknown programs', async () => {
+    await expect(archiveProgram({ program_id: programId + 100 }, adminId))
+      .rejects.toThrow(`Program with ID ${programId + 100} not found`);
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, affiliateTiersTable, auditLogTable, referralClicksTable } from '../db/schema';
+import { router, publicProcedure, protectedProcedure, adminProcedure, type Context } from '../trpc';
+import { createAffiliateTierInputSchema, updateAffiliateTierInputSchema, updateProfileInputSchema, trackReferralClickInputSchema, type SessionUser } from '../schema';
+import { createAffiliateTier } from '../handlers/create_affiliate_tier';
+import { updateAffiliateTier } from '../handlers/update_affiliate_tier';
+import { getAffiliateTiers } from '../handlers/get_affiliate_tiers';
+import { updateProfile } from '../handlers/update_profile';
+import { trackReferralClick } from '../handlers/track_referral_click';
+import { diffAuditState } from '../helpers/audit_log';
+import { getClientIp, hashIpAddress } from '../tracking';
+
+const testRouter = router({
+  createAffiliateTier: adminProcedure
+    .input(createAffiliateTierInputSchema)
+    .mutation(({ input }) => createAffiliateTier(input)),
+  updateAffiliateTier: adminProcedure
+    .input(updateAffiliateTierInputSchema)
+    .mutation(({ input }) => updateAffiliateTier(input)),
+  getAffiliateTiers: adminProcedure
+    .query(() => getAffiliateTiers()),
+  updateMyProfile: protectedProcedure
+    .input(updateProfileInputSchema)
+    .mutation(({ input, ctx }) => updateProfile(ctx.user.id, input)),
+  trackReferralClick: publicProcedure
+    .input(trackReferralClickInputSchema)
+    .mutation(({ input, ctx }) => trackReferralClick(input, { visitor_id: 'visitor-1', user_agent: null, ip_address: getClientIp(ctx.req) }))
+});
+
+const createTestContext = (user: SessionUser | null): Context => ({
+  req: { headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }, socket: {} } as unknown as IncomingMessage,
+  res: {} as ServerResponse,
+  sessionToken: null,
+  user
+});
+
+describe('audit log', () => {
+  let admin: SessionUser;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin User', role: 'admin' })
+      .returning()
+      .execute();
+    const { password_hash, ...user } = users[0];
+    admin = user;
+  });
+
+  afterEach(resetDB);
+
+  it('should log a create with the actor, procedure, entity and hashed IP', async () => {
+    const caller = testRouter.createCaller(createTestContext(admin));
+    const tier = await caller.createAffiliateTier({ name: 'Silver', level: 2, commission_rate: 0.12, min_confirmed_registrations: 5, min_revenue: null });
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].actor_id).toEqual(admin.id);
+    expect(entries[0].procedure).toEqual('createAffiliateTier');
+    expect(entries[0].entity_type).toEqual('affiliate_tier');
+    expect(entries[0].entity_id).toEqual(tier.id);
+    expect(entries[0].ip_hash).toEqual(hashIpAddress('203.0.113.7'));
+    expect(entries[0].changes?.['name']).toEqual({ before: null, after: 'Silver' });
+    expect(entries[0].changes?.['commission_rate']).toEqual({ before: null, after: '0.1200' });
+  });
+
+  it('should log only the fields an update changed', async () => {
+    const tiers = await db.insert(affiliateTiersTable)
+      .values({ name: 'Silver', level: 2, commission_rate: '0.1200', min_confirmed_registrations: 5 })
+      .returning()
+      .execute();
+
+    const caller = testRouter.createCaller(createTestContext(admin));
+    await caller.updateAffiliateTier({ id: tiers[0].id, commission_rate: 0.13 });
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_id).toEqual(tiers[0].id);
+    expect(entries[0].changes).toEqual({ commission_rate: { before: '0.1200', after: '0.1300' } });
+  });
+
+  it('should log changes to the caller\'s own profile against their user', async () => {
+    const caller = testRouter.createCaller(createTestContext(admin));
+    await caller.updateMyProfile({ full_name: 'Admin Renamed', phone: null });
+
+    const entries = await db.select().from(auditLogTable).execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_type).toEqual('user');
+    expect(entries[0].entity_id).toEqual(admin.id);
+    expect(entries[0].changes).toEqual({ full_name: { before: 'Admin User', after: 'Admin Renamed' } });
+  });
+
+  it('should not log queries or failed mutations', async () => {
+    const caller = testRouter.createCaller(createTestContext(admin));
+    await caller.getAffiliateTiers();
+    await expect(caller.updateAffiliateTier({ id: 999, commission_rate: 0.13 })).rejects.toThrow();
+
+    expect(await db.select().from(auditLogTable).execute()).toHaveLength(0);
+  });
+
+  it('should not log mutations rejected by authorization', async () => {
+    const caller = testRouter.createCaller(createTestContext(null));
+    await expect(caller.createAffiliateTier({ name: 'Silver', level: 2, commission_rate: 0.12, min_confirmed_registrations: 5, min_revenue: null })).rejects.toThrow('You must be logged in');
+
+    expect(await db.select().from(auditLogTable).execute()).toHaveLength(0);
+  });
+
+  it('should not log anonymous public mutations such as referral click tracking', async () => {
+    await db.insert(affiliatesTable)
+      .values({ user_id: admin.id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .execute();
+
+    const caller = testRouter.createCaller(createTestContext(null));
+    const result = await caller.trackReferralClick({ referral_code: 'EBREF001', program_id: null, referrer: null });
+
+    expect(result.click_token).not.toBeNull();
+    expect(await db.select().from(referralClicksTable).execute()).toHaveLength(1);
+    expect(await db.select().from(auditLogTable).execute()).toHaveLength(0);
+  });
+
+  describe('diffAuditState', () => {
+    it('should leave out password hashes and update times', () => {
+      const changes = diffAuditState(
+        { id: 1, full_name: 'Old', password_hash: 'a', updated_at: new Date('2024-01-01') },
+        { id: 1, full_name: 'New', password_hash: 'b', updated_at: new Date('2024-02-01') }
+      );
+
+      expect(changes).toEqual({ full_name: { before: 'Old', after: 'New' } });
+    });
+
+    it('should compare dates by value and return null when nothing changed', () => {
+      expect(diffAuditState(
+        { confirmed_at: new Date('2024-01-01T00:00:00Z') },
+        { confirmed_at: new Date('2024-01-01T00:00:00Z') }
+      )).toBeNull();
+    });
+  });
+});
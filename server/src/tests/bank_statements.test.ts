@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'bun:test';
+import { parseBankStatement, parseStatementAmount } from '../helpers/bank_statements';
+import { parseCsv } from '../helpers/csv';
+
+describe('parseCsv', () => {
+  it('should read quoted fields, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\r\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3']
+    ]);
+  });
+
+  it('should detect semicolon separated files', () => {
+    expect(parseCsv('Tanggal;Keterangan;Jumlah\n01/05;Transfer;1.500.000,00')).toEqual([
+      ['Tanggal', 'Keterangan', 'Jumlah'],
+      ['01/05', 'Transfer', '1.500.000,00']
+    ]);
+  });
+});
+
+describe('parseStatementAmount', () => {
+  it('should read Indonesian and English number formats', () => {
+    expect(parseStatementAmount('1.500.000,00')).toEqual({ amount: 1500000, direction: null });
+    expect(parseStatementAmount('1,500,000.50')).toEqual({ amount: 1500000.5, direction: null });
+    expect(parseStatementAmount('150.000')).toEqual({ amount: 150000, direction: null });
+    expect(parseStatementAmount('Rp 2500,5')).toEqual({ amount: 2500.5, direction: null });
+  });
+
+  it('should read debit and credit markers', () => {
+    expect(parseStatementAmount('150,000.00 DB')).toEqual({ amount: 150000, direction: 'debit' });
+    expect(parseStatementAmount('150,000.00 CR')).toEqual({ amount: 150000, direction: 'credit' });
+    expect(parseStatementAmount('-150000')).toEqual({ amount: 150000, direction: 'debit' });
+  });
+
+  it('should return null without digits', () => {
+    expect(parseStatementAmount('')).toBeNull();
+    expect(parseStatementAmount('-')).toBeNull();
+  });
+});
+
+describe('parseBankStatement', () => {
+  it('should skip the preamble and read a single amount column with markers', () => {
+    const lines = parseBankStatement([
+      'Informasi Rekening - Mutasi Rekening',
+      'No. rekening : 0123456789',
+      'Tanggal,Keterangan,Cabang,Mutasi,Saldo',
+      '02/05,TRSF E-BANKING DB EBPAYOUT12 SITI,0000,"150,000.00 DB","850,000.00"',
+      '03/05,RETUR TRSF EBPAYOUT13,0000,"100,000.00 CR","950,000.00"',
+      'Saldo Awal,,,,"1,000,000.00"'
+    ].join('\n'));
+
+    expect(lines).toEqual([
+      {
+        line_number: 4, date: '02/05', description: 'TRSF E-BANKING DB EBPAYOUT12 SITI', account_number: null,
+        amount: 150000, direction: 'debit', bank_reference: null
+      },
+      {
+        line_number: 5, date: '03/05', description: 'RETUR TRSF EBPAYOUT13', account_number: null,
+        amount: 100000, direction: 'credit', bank_reference: null
+      }
+    ]);
+  });
+
+  it('should read separate debit and credit columns with account and reference', () => {
+    const lines = parseBankStatement([
+      'Posting Date;Remark;Reference No;Account No;Debit;Credit',
+      '2026-05-02;Komisi;FT2612300001;1400012345;150.000,00;0,00',
+      '2026-05-03;Retur;FT2612300002;1400012345;0,00;150.000,00'
+    ].join('\r\n'));
+
+    expect(lines.map(line => [line.account_number, line.bank_reference, line.amount, line.direction])).toEqual([
+      ['1400012345', 'FT2612300001', 150000, 'debit'],
+      ['1400012345', 'FT2612300002', 150000, 'credit']
+    ]);
+  });
+
+  it('should reject files without a recognisable header', () => {
+    expect(() => parseBankStatement('foo,bar\n1,2')).toThrow(/Could not find the header row/);
+  });
+});
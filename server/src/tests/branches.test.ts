@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, programsTable, commissionRulesTable } from '../db/schema';
+import { migrateLocationsToBranches, requireOpenBranch } from '../helpers/branches';
+import { asc, sql } from 'drizzle-orm';
+
+const getLocationType = async (table: string): Promise<string> => {
+  const result = await db.execute(sql`
+    SELECT data_type FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = ${table} AND column_name = 'location'
+  `);
+  return (result.rows[0] as { data_type: string }).data_type;
+};
+
+describe('branches', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should seed the old locations as branches and be safe to run again', async () => {
+    await db.insert(branchesTable).values({ code: 'pare', name: 'Kampung Inggris Pare', is_active: false }).execute();
+
+    await migrateLocationsToBranches();
+    await migrateLocationsToBranches();
+
+    const branches = await db.select().from(branchesTable).orderBy(asc(branchesTable.code)).execute();
+    expect(branches.map(branch => branch.code)).toEqual(['malang', 'nganjuk', 'online', 'pare', 'sidoarjo']);
+    expect(branches.find(branch => branch.code === 'pare')?.name).toEqual('Kampung Inggris Pare');
+  });
+
+  it('should keep the locations of a database from before branches', async () => {
+    // Recreate the old layout: no branches table and an enum for locations
+    await db.execute(sql`DROP TABLE "branches" CASCADE`);
+    await db.execute(sql`CREATE TYPE "program_location" AS ENUM('online', 'pare', 'malang', 'sidoarjo', 'nganjuk')`);
+    for (const table of ['programs', 'commission_rules']) {
+      await db.execute(sql.raw(`ALTER TABLE "${table}" ALTER COLUMN "location" SET DATA TYPE "program_location" USING "location"::"program_location"`));
+    }
+    await db.insert(programsTable)
+      .values({ name: 'Malang Weekend Class', category: 'branch', location: 'malang', price: '750000.00' })
+      .execute();
+    await db.insert(commissionRulesTable)
+      .values({ name: 'Pare launch', commission_type: 'flat', value: '50000.0000', location: 'pare' })
+      .execute();
+
+    await migrateLocationsToBranches();
+
+    expect(await getLocationType('programs')).toEqual('character varying');
+    expect(await getLocationType('commission_rules')).toEqual('character varying');
+    expect((await db.select().from(programsTable).execute())[0].location).toEqual('malang');
+    expect((await db.select().from(commissionRulesTable).execute())[0].location).toEqual('pare');
+    expect((await requireOpenBranch(db, 'malang')).name).toEqual('Malang');
+  });
+
+  it('should refuse closed and unknown branches', async () => {
+    await db.insert(branchesTable).values({ code: 'nganjuk', name: 'Nganjuk', is_active: false }).execute();
+
+    await expect(requireOpenBranch(db, 'nganjuk')).rejects.toThrow('Branch "Nganjuk" is closed and takes no new programs');
+    await expect(requireOpenBranch(db, 'kediri')).rejects.toThrow('Branch "kediri" not found');
+  });
+});
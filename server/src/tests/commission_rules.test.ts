@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, affiliatesTable, affiliateTiersTable, programsTable, commissionRulesTable, type NewCommissionRule } from '../db/schema';
+import { resolveCommission } from '../helpers/commission_rules';
+
+describe('resolveCommission', () => {
+  let affiliate: typeof affiliatesTable.$inferSelect;
+  let otherAffiliateId: number;
+  let program: typeof programsTable.$inferSelect;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'pare', name: 'Pare' }, { code: 'malang', name: 'Malang' }]).execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' },
+        { email: 'other@test.com', password_hash: 'hashed_password', full_name: 'Other Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values([
+        { user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' },
+        { user_id: users[1].id, referral_code: 'EBREF002', commission_rate: '0.1000', status: 'approved' }
+      ])
+      .returning()
+      .execute();
+    affiliate = affiliates[0];
+    otherAffiliateId = affiliates[1].id;
+
+    const programs = await db.insert(programsTable)
+      .values({
+        name: 'Pare 2 Weeks',
+        category: 'offline_pare',
+        location: 'pare',
+        price: '2000000.00',
+        is_active: true
+      })
+      .returning()
+      .execute();
+    program = programs[0];
+  });
+
+  afterEach(resetDB);
+
+  const createRule = async (rule: Partial<NewCommissionRule>) => {
+    const result = await db.insert(commissionRulesTable)
+      .values({ name: 'Rule', commission_type: 'percentage', value: '0.0500', ...rule })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should fall back to the affiliate rate without rules', async () => {
+    const result = await resolveCommission(affiliate, program);
+
+    expect(result.commission_amount).toEqual(200000);
+    expect(result.commission_rule_id).toBeNull();
+  });
+
+  it('should apply percentage and flat rules', async () => {
+    const percentage = await createRule({ category: 'offline_pare', value: '0.1500' });
+    expect(await resolveCommission(affiliate, program)).toEqual({
+      commission_amount: 300000,
+      commission_rule_id: percentage.id
+    });
+
+    const flat = await createRule({ program_id: program.id, commission_type: 'flat', value: '250000.0000' });
+    expect(await resolveCommission(affiliate, program)).toEqual({
+      commission_amount: 250000,
+      commission_rule_id: flat.id
+    });
+  });
+
+  it('should prefer the most specific matching rule', async () => {
+    await createRule({ name: 'Everything', value: '0.0100' });
+    await createRule({ name: 'Category', category: 'offline_pare', value: '0.0200' });
+    const location = await createRule({ name: 'Location', location: 'pare', value: '0.0300' });
+
+    expect((await resolveCommission(affiliate, program)).commission_rule_id).toEqual(location.id);
+
+    const programRule = await createRule({ name: 'Program', program_id: program.id, value: '0.0400' });
+    expect((await resolveCommission(affiliate, program)).commission_rule_id).toEqual(programRule.id);
+
+    const override = await createRule({ name: 'Affiliate override', affiliate_id: affiliate.id, value: '0.2000' });
+    const result = await resolveCommission(affiliate, program);
+    expect(result.commission_rule_id).toEqual(override.id);
+    expect(result.commission_amount).toEqual(400000);
+  });
+
+  it('should ignore rules scoped to something else', async () => {
+    await createRule({ affiliate_id: otherAffiliateId });
+    await createRule({ category: 'online' });
+    await createRule({ location: 'malang' });
+
+    const result = await resolveCommission(affiliate, program);
+
+    expect(result.commission_rule_id).toBeNull();
+  });
+
+  it('should only apply rules within their effective dates', async () => {
+    await createRule({ name: 'Expired', effective_to: new Date('2024-01-01') });
+    await createRule({ name: 'Future', effective_from: new Date('2099-01-01') });
+    const current = await createRule({
+      name: 'Current',
+      effective_from: new Date('2024-01-01'),
+      effective_to: new Date('2099-01-01')
+    });
+
+    expect((await resolveCommission(affiliate, program)).commission_rule_id).toEqual(current.id);
+
+    // Resolving at an earlier date picks the rule that was in force then
+    const past = await resolveCommission(affiliate, program, new Date('2023-06-01'));
+    expect(past.commission_rule_id).not.toEqual(current.id);
+  });
+
+  it('should break ties in favour of the rule that took effect last', async () => {
+    await createRule({ name: 'Old promo', category: 'offline_pare', effective_from: new Date('2024-01-01') });
+    const newer = await createRule({ name: 'New promo', category: 'offline_pare', effective_from: new Date('2025-01-01') });
+
+    expect((await resolveCommission(affiliate, program)).commission_rule_id).toEqual(newer.id);
+  });
+
+  it('should use the tier rate in place of the affiliate rate', async () => {
+    const tier = await db.insert(affiliateTiersTable)
+      .values({ name: 'Gold', level: 3, commission_rate: '0.1500', min_confirmed_registrations: 10 })
+      .returning()
+      .execute();
+
+    const result = await resolveCommission({ ...affiliate, tier_id: tier[0].id }, program);
+
+    expect(result.commission_amount).toEqual(300000); // 15% of 2,000,000
+    expect(result.commission_rule_id).toBeNull();
+
+    // Rules paying more than the tier still apply
+    const rule = await createRule({ program_id: program.id, commission_type: 'flat', value: '350000.0000' });
+    expect(await resolveCommission({ ...affiliate, tier_id: tier[0].id }, program)).toEqual({
+      commission_amount: 350000,
+      commission_rule_id: rule.id
+    });
+  });
+
+  it('should never let a general rule pay a tiered affiliate less than their tier rate', async () => {
+    const tier = await db.insert(affiliateTiersTable)
+      .values({ name: 'Gold', level: 3, commission_rate: '0.1500', min_confirmed_registrations: 10 })
+      .returning()
+      .execute();
+    const rule = await createRule({ category: 'offline_pare', value: '0.1200' });
+
+    // Untiered affiliates get the rule, Gold affiliates keep their 15%
+    expect(await resolveCommission(affiliate, program)).toEqual({ commission_amount: 240000, commission_rule_id: rule.id });
+    expect(await resolveCommission({ ...affiliate, tier_id: tier[0].id }, program)).toEqual({
+      commission_amount: 300000,
+      commission_rule_id: null
+    });
+
+    // An override for the affiliate is applied as agreed, even below the tier
+    const override = await createRule({ affiliate_id: affiliate.id, value: '0.1000' });
+    expect(await resolveCommission({ ...affiliate, tier_id: tier[0].id }, program)).toEqual({
+      commission_amount: 200000,
+      commission_rule_id: override.id
+    });
+  });
+
+  it('should round the commission to cents', async () => {
+    const rule = await createRule({ value: '0.0333' });
+
+    const result = await resolveCommission(affiliate, { ...program, price: '1234567.00' });
+
+    expect(result).toEqual({ commission_amount: 41111.08, commission_rule_id: rule.id });
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, commissionPayoutsTable, payoutRunsTable } from '../db/schema';
+import { completePayoutRun } from '../handlers/complete_payout_run';
+import { createPayoutRun } from '../handlers/create_payout_run';
+import { createCommissionPayout } from '../handlers/create_commission_payout';
+import { postLedgerEntry, getLedgerBalances } from '../helpers/ledger';
+import { insertPayoutAccount } from '../helpers/payout_accounts';
+import { eq } from 'drizzle-orm';
+
+describe('completePayoutRun', () => {
+  let adminUserId: number;
+  let affiliateId: number;
+  let runId: number;
+  let payoutIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin User', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminUserId = users[0].id;
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[1].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 500000 });
+    await insertPayoutAccount(db, affiliateId, {
+      account_type: 'bank', bank_code: '014', account_number: '1234567890', account_holder: 'Affiliate'
+    }, true, 'verified');
+
+    payoutIds = [];
+    for (const amount of [100000, 150000]) {
+      const payout = await createCommissionPayout({
+        affiliate_id: affiliateId,
+        amount,
+        notes: null
+      });
+      payoutIds.push(payout.id);
+    }
+
+    const run = await createPayoutRun({ generate_payouts: false }, adminUserId);
+    runId = run.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should complete every payout of the run', async () => {
+    const run = await completePayoutRun({ run_id: runId, failed_payout_ids: [] }, adminUserId);
+
+    expect(run.status).toEqual('completed');
+    expect(run.completed_by).toEqual(adminUserId);
+    expect(run.completed_at).toBeInstanceOf(Date);
+
+    const payouts = await db.select().from(commissionPayoutsTable).execute();
+    expect(payouts.every(payout => payout.status === 'completed' && payout.processed_by === adminUserId)).toBe(true);
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 250000, reserved: 0, paid: 250000 });
+  });
+
+  it('should fail the listed payouts and release their money', async () => {
+    const run = await completePayoutRun({ run_id: runId, failed_payout_ids: [payoutIds[1]], reason: 'Account closed' }, adminUserId);
+
+    expect(run.status).toEqual('partially_failed');
+    expect(run.failed_count).toEqual(1);
+
+    const failed = await db.select().from(commissionPayoutsTable).where(eq(commissionPayoutsTable.id, payoutIds[1])).execute();
+    expect(failed[0].status).toEqual('failed');
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 400000, reserved: 0, paid: 100000 });
+  });
+
+  it('should mark the run failed when every payout failed', async () => {
+    const run = await completePayoutRun({ run_id: runId, failed_payout_ids: payoutIds }, adminUserId);
+
+    expect(run.status).toEqual('failed');
+  });
+
+  it('should reject payouts outside the run and runs already completed', async () => {
+    await expect(completePayoutRun({ run_id: runId, failed_payout_ids: [999] }, adminUserId))
+      .rejects.toThrow(`Payouts 999 are not processing in payout run #${runId}`);
+
+    await completePayoutRun({ run_id: runId, failed_payout_ids: [] }, adminUserId);
+
+    await expect(completePayoutRun({ run_id: runId, failed_payout_ids: [] }, adminUserId))
+      .rejects.toThrow(`Payout run #${runId} has already been completed`);
+    await expect(completePayoutRun({ run_id: 999, failed_payout_ids: [] }, adminUserId))
+      .rejects.toThrow('Payout run with ID 999 not found');
+  });
+
+  it('should keep the status of payouts settled individually', async () => {
+    await db.update(commissionPayoutsTable).set({ status: 'failed' }).where(eq(commissionPayoutsTable.id, payoutIds[0])).execute();
+
+    const run = await completePayoutRun({ run_id: runId, failed_payout_ids: [] }, adminUserId);
+
+    expect(run.status).toEqual('partially_failed');
+    const runs = await db.select().from(payoutRunsTable).execute();
+    expect(runs[0].status).toEqual('partially_failed');
+  });
+});
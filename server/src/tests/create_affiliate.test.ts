@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, affiliatesTable } from '../db/schema';
+import { usersTable, affiliatesTable, payoutAccountsTable } from '../db/schema';
 import { type CreateAffiliateInput } from '../schema';
 import { createAffiliate } from '../handlers/create_affiliate';
-import { eq } from 'drizzle-orm';
+import { DEFAULT_COMMISSION_RATE } from '../helpers/affiliates';
+import { eq, asc } from 'drizzle-orm';
 
 // Test user data
 const testUser = {
@@ -18,11 +19,10 @@ const testUser = {
 // Test affiliate input
 const testAffiliateInput: CreateAffiliateInput = {
   user_id: 1, // Will be updated after user creation
-  bank_name: 'Bank Test',
-  bank_account_number: '1234567890',
-  bank_account_name: 'Test User',
-  ewallet_type: 'GoPay',
-  ewallet_number: '081234567890',
+  payout_accounts: [
+    { account_type: 'bank', bank_code: '014', account_number: '1234567890', account_holder: 'Test User' },
+    { account_type: 'ewallet', ewallet_provider: 'gopay', account_number: '081234567890', account_holder: 'Test User' }
+  ],
   commission_rate: 0.05
 };
 
@@ -45,11 +45,6 @@ describe('createAffiliate', () => {
 
     // Verify returned affiliate data
     expect(result.user_id).toEqual(createdUser.id);
-    expect(result.bank_name).toEqual('Bank Test');
-    expect(result.bank_account_number).toEqual('1234567890');
-    expect(result.bank_account_name).toEqual('Test User');
-    expect(result.ewallet_type).toEqual('GoPay');
-    expect(result.ewallet_number).toEqual('081234567890');
     expect(result.commission_rate).toEqual(0.05);
     expect(typeof result.commission_rate).toBe('number');
     expect(result.status).toEqual('pending');
@@ -84,7 +79,6 @@ describe('createAffiliate', () => {
     expect(affiliates).toHaveLength(1);
     const savedAffiliate = affiliates[0];
     expect(savedAffiliate.user_id).toEqual(createdUser.id);
-    expect(savedAffiliate.bank_name).toEqual('Bank Test');
     expect(parseFloat(savedAffiliate.commission_rate)).toEqual(0.05);
     expect(savedAffiliate.status).toEqual('pending');
     expect(savedAffiliate.referral_code).toMatch(/^EB[A-Z0-9]{8}$/);
@@ -125,62 +119,38 @@ describe('createAffiliate', () => {
     expect(affiliate2.referral_code).toMatch(/^EB[A-Z0-9]{8}$/);
   });
 
-  it('should handle optional bank details correctly', async () => {
-    // Create prerequisite user
+  it('should save the payout accounts with the first as default', async () => {
     const userResult = await db.insert(usersTable)
       .values(testUser)
       .returning()
       .execute();
 
-    const createdUser = userResult[0];
+    const result = await createAffiliate({ ...testAffiliateInput, user_id: userResult[0].id });
 
-    // Create affiliate with minimal data (only ewallet)
-    const minimalInput: CreateAffiliateInput = {
-      user_id: createdUser.id,
-      bank_name: null,
-      bank_account_number: null,
-      bank_account_name: null,
-      ewallet_type: 'OVO',
-      ewallet_number: '081234567890',
-      commission_rate: 0.03
-    };
-
-    const result = await createAffiliate(minimalInput);
+    const accounts = await db.select()
+      .from(payoutAccountsTable)
+      .where(eq(payoutAccountsTable.affiliate_id, result.id))
+      .orderBy(asc(payoutAccountsTable.id))
+      .execute();
 
-    expect(result.bank_name).toBeNull();
-    expect(result.bank_account_number).toBeNull();
-    expect(result.bank_account_name).toBeNull();
-    expect(result.ewallet_type).toEqual('OVO');
-    expect(result.ewallet_number).toEqual('081234567890');
+    expect(accounts.map(account => [account.account_type, account.bank_code, account.ewallet_provider, account.account_number, account.is_default])).toEqual([
+      ['bank', '014', null, '1234567890', true],
+      ['ewallet', null, 'gopay', '081234567890', false]
+    ]);
+    // Verified along with the application when it is approved
+    expect(accounts.every(account => account.verification_status === 'pending' && account.submitted_with_application)).toBe(true);
   });
 
-  it('should handle optional ewallet details correctly', async () => {
-    // Create prerequisite user
+  it('should allow signing up without payout accounts', async () => {
     const userResult = await db.insert(usersTable)
       .values(testUser)
       .returning()
       .execute();
 
-    const createdUser = userResult[0];
-
-    // Create affiliate with only bank details
-    const bankOnlyInput: CreateAffiliateInput = {
-      user_id: createdUser.id,
-      bank_name: 'BCA',
-      bank_account_number: '9876543210',
-      bank_account_name: 'Test User Account',
-      ewallet_type: null,
-      ewallet_number: null,
-      commission_rate: 0.07
-    };
-
-    const result = await createAffiliate(bankOnlyInput);
+    const result = await createAffiliate({ ...testAffiliateInput, user_id: userResult[0].id, payout_accounts: [] });
 
-    expect(result.bank_name).toEqual('BCA');
-    expect(result.bank_account_number).toEqual('9876543210');
-    expect(result.bank_account_name).toEqual('Test User Account');
-    expect(result.ewallet_type).toBeNull();
-    expect(result.ewallet_number).toBeNull();
+    const accounts = await db.select().from(payoutAccountsTable).where(eq(payoutAccountsTable.affiliate_id, result.id)).execute();
+    expect(accounts).toHaveLength(0);
   });
 
   it('should throw error when user does not exist', async () => {
@@ -189,7 +159,7 @@ describe('createAffiliate', () => {
       user_id: 999 // Non-existent user ID
     };
 
-    expect(createAffiliate(invalidInput)).rejects.toThrow(/user not found/i);
+    await expect(createAffiliate(invalidInput)).rejects.toThrow(/user not found/i);
   });
 
   it('should throw error when user already has affiliate profile', async () => {
@@ -206,7 +176,7 @@ describe('createAffiliate', () => {
     await createAffiliate(testAffiliateInput);
 
     // Attempt to create second affiliate for same user
-    expect(createAffiliate(testAffiliateInput)).rejects.toThrow(/already has an affiliate profile/i);
+    await expect(createAffiliate(testAffiliateInput)).rejects.toThrow(/already has an affiliate profile/i);
   });
 
   it('should handle different commission rates correctly', async () => {
@@ -245,4 +215,20 @@ describe('createAffiliate', () => {
     expect(typeof affiliate1.commission_rate).toBe('number');
     expect(typeof affiliate2.commission_rate).toBe('number');
   });
-});
\ No newline at end of file
+
+  it('should use the default commission rate when none is given', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const result = await createAffiliate({
+      ...testAffiliateInput,
+      user_id: userResult[0].id,
+      commission_rate: undefined
+    });
+
+    expect(result.commission_rate).toEqual(DEFAULT_COMMISSION_RATE);
+    expect(result.commission_rate).toEqual(0.1);
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { affiliateTiersTable } from '../db/schema';
+import { type CreateAffiliateTierInput } from '../schema';
+import { createAffiliateTier } from '../handlers/create_affiliate_tier';
+import { eq } from 'drizzle-orm';
+
+const silverInput: CreateAffiliateTierInput = {
+  name: 'Silver',
+  level: 2,
+  commission_rate: 0.12,
+  min_confirmed_registrations: 5,
+  min_revenue: 10000000
+};
+
+describe('createAffiliateTier', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an affiliate tier', async () => {
+    const result = await createAffiliateTier(silverInput);
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Silver');
+    expect(result.level).toEqual(2);
+    expect(typeof result.commission_rate).toBe('number');
+    expect(result.commission_rate).toEqual(0.12);
+    expect(result.min_confirmed_registrations).toEqual(5);
+    expect(typeof result.min_revenue).toBe('number');
+    expect(result.min_revenue).toEqual(10000000);
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should save the tier to the database', async () => {
+    const result = await createAffiliateTier(silverInput);
+
+    const tiers = await db.select()
+      .from(affiliateTiersTable)
+      .where(eq(affiliateTiersTable.id, result.id))
+      .execute();
+
+    expect(tiers).toHaveLength(1);
+    expect(parseFloat(tiers[0].commission_rate)).toEqual(0.12);
+    expect(parseFloat(tiers[0].min_revenue!)).toEqual(10000000);
+  });
+
+  it('should create an entry tier without thresholds', async () => {
+    const result = await createAffiliateTier({
+      name: 'Bronze',
+      level: 1,
+      commission_rate: 0.1,
+      min_confirmed_registrations: null,
+      min_revenue: null
+    });
+
+    expect(result.min_confirmed_registrations).toBeNull();
+    expect(result.min_revenue).toBeNull();
+  });
+
+  it('should reject duplicate levels and names', async () => {
+    await createAffiliateTier(silverInput);
+
+    await expect(createAffiliateTier({ ...silverInput, name: 'Platinum' })).rejects.toThrow(/level 2 is already used by Silver/i);
+    await expect(createAffiliateTier({ ...silverInput, level: 3 })).rejects.toThrow(/named Silver already exists/i);
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, branchesTable } from '../db/schema';
+import { createBranchInputSchema, type CreateBranchInput } from '../schema';
+import { createBranch } from '../handlers/create_branch';
+
+const testInput: CreateBranchInput = {
+  code: 'kediri',
+  name: 'Kediri',
+  address: 'Jl. Dhoho No. 12, Kediri',
+  contact: '0354 123456',
+  is_active: true
+};
+
+describe('createBranch', () => {
+  let adminId: number;
+  let affiliateUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminId = users[0].id;
+    affiliateUserId = users[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a branch', async () => {
+    const result = await createBranch(testInput, adminId);
+
+    expect(result.id).toBeDefined();
+    expect(result.code).toEqual('kediri');
+    expect(result.name).toEqual('Kediri');
+    expect(result.address).toEqual('Jl. Dhoho No. 12, Kediri');
+    expect(result.contact).toEqual('0354 123456');
+    expect(result.is_active).toBe(true);
+    expect(await db.select().from(branchesTable).execute()).toHaveLength(1);
+  });
+
+  it('should normalize codes and reject ones links cannot carry', () => {
+    const parsed = createBranchInputSchema.parse({ ...testInput, code: ' Kediri-2 ', address: null, is_active: undefined });
+    expect(parsed.code).toEqual('kediri-2');
+    expect(parsed.is_active).toBe(true);
+
+    expect(createBranchInputSchema.safeParse({ ...testInput, code: 'kediri kota' }).success).toBe(false);
+  });
+
+  it('should refuse a code that is already taken', async () => {
+    await createBranch(testInput, adminId);
+
+    await expect(createBranch({ ...testInput, name: 'Kediri Kota' }, adminId))
+      .rejects.toThrow('A branch with code "kediri" already exists');
+  });
+
+  it('should only let admins create branches', async () => {
+    await expect(createBranch(testInput, affiliateUserId)).rejects.toThrow('Only admins can perform this action');
+  });
+});
@@ -1,18 +1,26 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
+import { backfillLedger, postLedgerEntry, getLedgerBalances } from '../helpers/ledger';
+import { insertPayoutAccount } from '../helpers/payout_accounts';
 import { db } from '../db';
-import { usersTable, affiliatesTable, programsTable, studentRegistrationsTable, commissionPayoutsTable } from '../db/schema';
+import { branchesTable, usersTable, affiliatesTable, programsTable, studentRegistrationsTable, commissionPayoutsTable, ledgerEntriesTable, payoutAccountsTable, affiliateTaxProfilesTable } from '../db/schema';
 import { type CreateCommissionPayoutInput } from '../schema';
 import { createCommissionPayout } from '../handlers/create_commission_payout';
+import { getAffiliateStats } from '../handlers/get_affiliate_stats';
 import { eq } from 'drizzle-orm';
 
 describe('createCommissionPayout', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
+  });
   afterEach(resetDB);
 
   let testUserId: number;
   let testAffiliateId: number;
   let testProgramId: number;
+  let bankAccountId: number;
+  let ewalletAccountId: number;
 
   beforeEach(async () => {
     // Create test user
@@ -40,6 +48,22 @@ describe('createCommissionPayout', () => {
       .execute();
     testAffiliateId = affiliate[0].id;
 
+    // The bank account is the affiliate's first, so it becomes the default
+    const bankAccount = await insertPayoutAccount(db, testAffiliateId, {
+      account_type: 'bank',
+      bank_code: '014',
+      account_number: '1234567890',
+      account_holder: 'Test Affiliate'
+    }, false, 'verified');
+    bankAccountId = bankAccount.id;
+    const ewalletAccount = await insertPayoutAccount(db, testAffiliateId, {
+      account_type: 'ewallet',
+      ewallet_provider: 'gopay',
+      account_number: '081234567890',
+      account_holder: 'Test Affiliate'
+    }, false, 'verified');
+    ewalletAccountId = ewalletAccount.id;
+
     // Create test program
     const program = await db.insert(programsTable)
       .values({
@@ -56,13 +80,6 @@ describe('createCommissionPayout', () => {
   const createTestInput = (overrides: Partial<CreateCommissionPayoutInput> = {}): CreateCommissionPayoutInput => ({
     affiliate_id: testAffiliateId,
     amount: 100000, // IDR 100,000 (minimum amount)
-    method: 'bank_transfer',
-    bank_details: JSON.stringify({
-      bank_name: 'BCA',
-      account_number: '1234567890',
-      account_name: 'Test Affiliate'
-    }),
-    ewallet_details: null,
     notes: 'Test payout request',
     ...overrides
   });
@@ -83,6 +100,9 @@ describe('createCommissionPayout', () => {
       })
       .execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     const input = createTestInput();
     const result = await createCommissionPayout(input);
 
@@ -90,8 +110,15 @@ describe('createCommissionPayout', () => {
     expect(result.affiliate_id).toEqual(testAffiliateId);
     expect(result.amount).toEqual(100000);
     expect(result.method).toEqual('bank_transfer');
-    expect(result.bank_details).toEqual(input.bank_details);
-    expect(result.ewallet_details).toBeNull();
+    expect(result.payout_account_id).toEqual(bankAccountId);
+    expect(result.destination).toEqual({
+      account_type: 'bank',
+      bank_code: '014',
+      ewallet_provider: null,
+      provider_name: 'BCA',
+      account_number: '1234567890',
+      account_holder: 'Test Affiliate'
+    });
     expect(result.status).toEqual('pending');
     expect(result.notes).toEqual('Test payout request');
     expect(result.id).toBeDefined();
@@ -101,6 +128,32 @@ describe('createCommissionPayout', () => {
     expect(result.processed_at).toBeNull();
   });
 
+  it('should withhold income tax according to the tax profile', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 500000 });
+
+    // Without a tax profile the affiliate is an individual without an NPWP
+    const individual = await createCommissionPayout(createTestInput({ amount: 200000 }));
+    expect(individual.tax_type).toEqual('pph21');
+    expect(individual.tax_base).toEqual(100000);
+    expect(individual.tax_rate).toEqual(0.06);
+    expect(individual.tax_amount).toEqual(6000);
+    expect(individual.tax_npwp).toBeNull();
+    expect(individual.net_amount).toEqual(194000);
+
+    await db.insert(affiliateTaxProfilesTable)
+      .values({ affiliate_id: testAffiliateId, taxpayer_type: 'company', npwp: '012345678901234' })
+      .execute();
+    const company = await createCommissionPayout(createTestInput({ amount: 150000 }));
+    expect(company.tax_type).toEqual('pph23');
+    expect(company.tax_base).toEqual(150000);
+    expect(company.tax_amount).toEqual(3000);
+    expect(company.tax_npwp).toEqual('012345678901234');
+    expect(company.net_amount).toEqual(147000);
+
+    // The balance is charged the gross amount; the tax is paid to the tax office on the affiliate's behalf
+    expect(await getLedgerBalances(testAffiliateId)).toEqual({ available: 150000, reserved: 350000, paid: 0 });
+  });
+
   it('should save payout to database correctly', async () => {
     // Create confirmed registration for commission balance
     await db.insert(studentRegistrationsTable)
@@ -117,6 +170,9 @@ describe('createCommissionPayout', () => {
       })
       .execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     const input = createTestInput({ amount: 150000 });
     const result = await createCommissionPayout(input);
 
@@ -151,21 +207,69 @@ describe('createCommissionPayout', () => {
       })
       .execute();
 
-    const input = createTestInput({
-      amount: 200000,
-      method: 'ewallet',
-      bank_details: null,
-      ewallet_details: JSON.stringify({
-        type: 'gopay',
-        number: '081234567890'
-      })
-    });
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
+    const input = createTestInput({ amount: 200000, payout_account_id: ewalletAccountId });
 
     const result = await createCommissionPayout(input);
 
     expect(result.method).toEqual('ewallet');
-    expect(result.bank_details).toBeNull();
-    expect(result.ewallet_details).toEqual(input.ewallet_details);
+    expect(result.payout_account_id).toEqual(ewalletAccountId);
+    expect(result.destination?.provider_name).toEqual('GoPay');
+    expect(result.destination?.account_number).toEqual('081234567890');
+  });
+
+  it('should keep the destination when the account changes later', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 200000 });
+
+    const result = await createCommissionPayout(createTestInput());
+    await db.update(payoutAccountsTable)
+      .set({ account_number: '9999999999', is_active: false })
+      .where(eq(payoutAccountsTable.id, bankAccountId))
+      .execute();
+
+    const saved = await db.select()
+      .from(commissionPayoutsTable)
+      .where(eq(commissionPayoutsTable.id, result.id))
+      .execute();
+    expect(saved[0].destination?.account_number).toEqual('1234567890');
+  });
+
+  it('should reject an account that is not the affiliate\'s', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 200000 });
+
+    await expect(createCommissionPayout(createTestInput({ payout_account_id: ewalletAccountId + 100 })))
+      .rejects.toThrow(`Payout account with ID ${ewalletAccountId + 100} not found`);
+  });
+
+  it('should block payouts to details awaiting verification or rejected', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 200000 });
+    await db.update(payoutAccountsTable)
+      .set({ verification_status: 'pending' })
+      .where(eq(payoutAccountsTable.id, bankAccountId))
+      .execute();
+    await db.update(payoutAccountsTable)
+      .set({ verification_status: 'rejected', rejection_reason: 'Name does not match' })
+      .where(eq(payoutAccountsTable.id, ewalletAccountId))
+      .execute();
+
+    await expect(createCommissionPayout(createTestInput()))
+      .rejects.toThrow(`Payout account #${bankAccountId} is awaiting verification by an admin`);
+    await expect(createCommissionPayout(createTestInput({ payout_account_id: ewalletAccountId })))
+      .rejects.toThrow(`Payout account #${ewalletAccountId} was rejected: Name does not match`);
+    expect(await getLedgerBalances(testAffiliateId)).toEqual({ available: 200000, reserved: 0, paid: 0 });
+  });
+
+  it('should require a payout account', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 200000 });
+    await db.update(payoutAccountsTable)
+      .set({ is_active: false, is_default: false })
+      .where(eq(payoutAccountsTable.affiliate_id, testAffiliateId))
+      .execute();
+
+    await expect(createCommissionPayout(createTestInput()))
+      .rejects.toThrow('Add a payout account before requesting a payout');
   });
 
   it('should throw error for non-existent affiliate', async () => {
@@ -185,15 +289,16 @@ describe('createCommissionPayout', () => {
     const input = createTestInput();
 
     await expect(createCommissionPayout(input))
-      .rejects.toThrow(/Only approved affiliates can request payouts/i);
+      .rejects.toMatchObject({ code: 'CONFLICT', message: 'Only approved affiliates can request payouts' });
   });
 
   it('should throw error for insufficient commission balance', async () => {
     // No confirmed registrations, so balance is 0
     const input = createTestInput({ amount: 100000 });
 
+    // Shown to the affiliate as is, so they see what they can still request
     await expect(createCommissionPayout(input))
-      .rejects.toThrow(/Insufficient commission balance/i);
+      .rejects.toMatchObject({ code: 'CONFLICT', message: 'Insufficient commission balance. Available: 0, Requested: 100000' });
   });
 
   it('should calculate available balance correctly with multiple registrations and payouts', async () => {
@@ -235,6 +340,9 @@ describe('createCommissionPayout', () => {
       })
       .execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     // Total earnings: 250,000, Total paid: 100,000, Available: 150,000
     const input = createTestInput({ amount: 150000 });
     const result = await createCommissionPayout(input);
@@ -269,6 +377,9 @@ describe('createCommissionPayout', () => {
       })
       .execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     // Try to request another payout
     const input = createTestInput({ amount: 50000 });
 
@@ -276,6 +387,28 @@ describe('createCommissionPayout', () => {
       .rejects.toThrow(/Insufficient commission balance. Available: 0, Requested: 50000/i);
   });
 
+  it('should not pay out commission still in its hold period', async () => {
+    await db.insert(studentRegistrationsTable)
+      .values({
+        affiliate_id: testAffiliateId,
+        program_id: testProgramId,
+        student_name: 'Test Student',
+        student_email: 'student@test.com',
+        student_phone: '081234567891',
+        referral_code: 'TEST123',
+        status: 'confirmed',
+        registration_fee: '1000000.00',
+        commission_amount: '150000.00',
+        confirmed_at: new Date()
+      })
+      .execute();
+
+    await backfillLedger();
+
+    await expect(createCommissionPayout(createTestInput({ amount: 100000 })))
+      .rejects.toThrow('Insufficient commission balance. Available: 0, Requested: 100000 (150000 locked in the hold period)');
+  });
+
   it('should ignore pending registrations when calculating balance', async () => {
     // Create pending registration (should not count towards balance)
     await db.insert(studentRegistrationsTable)
@@ -292,9 +425,81 @@ describe('createCommissionPayout', () => {
       })
       .execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     const input = createTestInput({ amount: 100000 });
 
+    // Shown to the affiliate as is, so they see what they can still request
     await expect(createCommissionPayout(input))
+      .rejects.toMatchObject({ code: 'CONFLICT', message: 'Insufficient commission balance. Available: 0, Requested: 100000' });
+  });
+
+  it('should reserve the requested amount in the ledger', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 300000 });
+
+    const result = await createCommissionPayout(createTestInput({ amount: 120000 }));
+
+    const entries = await db.select()
+      .from(ledgerEntriesTable)
+      .where(eq(ledgerEntriesTable.payout_id, result.id))
+      .execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entry_type).toEqual('payout_reserved');
+    expect(parseFloat(entries[0].amount)).toEqual(120000);
+    expect(await getLedgerBalances(testAffiliateId)).toEqual({ available: 180000, reserved: 120000, paid: 0 });
+  });
+
+  it('should not let pending payouts spend the same balance twice', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 150000 });
+
+    await createCommissionPayout(createTestInput({ amount: 100000 }));
+
+    await expect(createCommissionPayout(createTestInput({ amount: 100000 })))
+      .rejects.toThrow(/Insufficient commission balance. Available: 50000, Requested: 100000/i);
+  });
+
+  it('should agree with the balance reported in affiliate stats', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 350000 });
+    await createCommissionPayout(createTestInput({ amount: 100000 }));
+
+    const stats = await getAffiliateStats({ affiliate_id: testAffiliateId });
+    expect(stats.pending_commission).toEqual(100000);
+    expect(stats.available_for_payout).toEqual(250000);
+
+    // Exactly what stats reports as available can be requested, and nothing more
+    await expect(createCommissionPayout(createTestInput({ amount: 250001 })))
       .rejects.toThrow(/Insufficient commission balance/i);
+    const result = await createCommissionPayout(createTestInput({ amount: 250000 }));
+    expect(result.amount).toEqual(250000);
+  });
+
+  it('should name the amount held by payouts in progress', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 250000 });
+    await createCommissionPayout(createTestInput({ amount: 200000 }));
+
+    await expect(createCommissionPayout(createTestInput({ amount: 100000 })))
+      .rejects.toThrow('Insufficient commission balance. Available: 50000, Requested: 100000 (200000 held by payouts in progress)');
+  });
+
+  it('should only accept one of several concurrent requests for the same balance', async () => {
+    await postLedgerEntry(db, { affiliate_id: testAffiliateId, entry_type: 'commission_earned', amount: 150000 });
+
+    const results = await Promise.allSettled([
+      createCommissionPayout(createTestInput({ amount: 100000 })),
+      createCommissionPayout(createTestInput({ amount: 100000 })),
+      createCommissionPayout(createTestInput({ amount: 100000 }))
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(2);
+
+    const payouts = await db.select()
+      .from(commissionPayoutsTable)
+      .where(eq(commissionPayoutsTable.affiliate_id, testAffiliateId))
+      .execute();
+    expect(payouts).toHaveLength(1);
+    expect(await getLedgerBalances(testAffiliateId)).toEqual({ available: 50000, reserved: 100000, paid: 0 });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, programsTable, commissionRulesTable } from '../db/schema';
+import { type CreateCommissionRuleInput } from '../schema';
+import { createCommissionRule } from '../handlers/create_commission_rule';
+import { eq } from 'drizzle-orm';
+
+const baseInput: CreateCommissionRuleInput = {
+  name: 'TOEFL promo',
+  commission_type: 'percentage',
+  value: 0.15,
+  affiliate_id: null,
+  program_id: null,
+  category: 'online',
+  location: null,
+  effective_from: new Date('2025-01-01'),
+  effective_to: new Date('2025-07-01')
+};
+
+describe('createCommissionRule', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should create a commission rule', async () => {
+    const result = await createCommissionRule(baseInput);
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('TOEFL promo');
+    expect(result.commission_type).toEqual('percentage');
+    expect(typeof result.value).toBe('number');
+    expect(result.value).toEqual(0.15);
+    expect(result.category).toEqual('online');
+    expect(result.affiliate_id).toBeNull();
+    expect(result.effective_from).toEqual(new Date('2025-01-01'));
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should save the rule to the database', async () => {
+    const result = await createCommissionRule(baseInput);
+
+    const rules = await db.select()
+      .from(commissionRulesTable)
+      .where(eq(commissionRulesTable.id, result.id))
+      .execute();
+
+    expect(rules).toHaveLength(1);
+    expect(parseFloat(rules[0].value)).toEqual(0.15);
+    expect(rules[0].effective_to).toEqual(new Date('2025-07-01'));
+  });
+
+  it('should create flat rules scoped to a program', async () => {
+    const program = await db.insert(programsTable)
+      .values({ name: 'Kids Online', category: 'online', location: 'online', price: '500000.00', is_active: true })
+      .returning()
+      .execute();
+
+    const result = await createCommissionRule({
+      ...baseInput,
+      commission_type: 'flat',
+      value: 75000,
+      program_id: program[0].id
+    });
+
+    expect(result.commission_type).toEqual('flat');
+    expect(result.value).toEqual(75000);
+    expect(result.program_id).toEqual(program[0].id);
+  });
+
+  it('should reject percentages above 100%', async () => {
+    await expect(createCommissionRule({ ...baseInput, value: 15 })).rejects.toThrow(/fraction between 0 and 1/i);
+  });
+
+  it('should reject rules that end before they start', async () => {
+    await expect(createCommissionRule({
+      ...baseInput,
+      effective_from: new Date('2025-07-01'),
+      effective_to: new Date('2025-01-01')
+    })).rejects.toThrow(/end after it starts/i);
+  });
+
+  it('should reject unknown affiliates and programs', async () => {
+    await expect(createCommissionRule({ ...baseInput, affiliate_id: 99999 })).rejects.toThrow(/affiliate.*not found/i);
+    await expect(createCommissionRule({ ...baseInput, program_id: 99999 })).rejects.toThrow(/program.*not found/i);
+  });
+
+  it('should reject unknown branches', async () => {
+    await expect(createCommissionRule({ ...baseInput, location: 'kediri' })).rejects.toThrow('Branch "kediri" not found');
+  });
+});
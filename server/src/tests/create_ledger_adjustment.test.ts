@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, ledgerEntriesTable } from '../db/schema';
+import { createLedgerAdjustment } from '../handlers/create_ledger_adjustment';
+import { getLedgerBalances, postLedgerEntry } from '../helpers/ledger';
+
+describe('createLedgerAdjustment', () => {
+  let adminUserId: number;
+  let affiliateUserId: number;
+  let affiliateId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminUserId = users[0].id;
+    affiliateUserId = users[1].id;
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: affiliateUserId, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should credit the available balance', async () => {
+    const result = await createLedgerAdjustment({
+      affiliate_id: affiliateId,
+      amount: 75000,
+      description: 'Bonus for the March campaign'
+    }, adminUserId);
+
+    expect(result.entry_type).toEqual('adjustment');
+    expect(result.from_account).toEqual('company');
+    expect(result.to_account).toEqual('available');
+    expect(result.amount).toEqual(75000);
+    expect(result.description).toEqual('Bonus for the March campaign');
+    expect(result.created_by).toEqual(adminUserId);
+    expect(result.registration_id).toBeNull();
+    expect(result.payout_id).toBeNull();
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    expect((await getLedgerBalances(affiliateId)).available).toEqual(75000);
+  });
+
+  it('should debit the available balance', async () => {
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 100000 });
+
+    const result = await createLedgerAdjustment({
+      affiliate_id: affiliateId,
+      amount: -40000,
+      description: 'Duplicate commission'
+    }, adminUserId);
+
+    expect(result.from_account).toEqual('available');
+    expect(result.to_account).toEqual('company');
+    expect(result.amount).toEqual(40000);
+    expect((await getLedgerBalances(affiliateId)).available).toEqual(60000);
+  });
+
+  it('should not debit more than the available balance', async () => {
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 100000 });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_reserved', amount: 80000 });
+
+    await expect(createLedgerAdjustment({
+      affiliate_id: affiliateId,
+      amount: -30000,
+      description: 'Too much'
+    }, adminUserId)).rejects.toThrow(/exceeds the available balance. Available: 20000, Debit: 30000/i);
+
+    const entries = await db.select().from(ledgerEntriesTable).execute();
+    expect(entries).toHaveLength(2);
+  });
+
+  it('should throw error for non-existent affiliate', async () => {
+    await expect(createLedgerAdjustment({
+      affiliate_id: 99999,
+      amount: 10000,
+      description: 'Missing'
+    }, adminUserId)).rejects.toThrow(/Affiliate with ID 99999 not found/i);
+  });
+
+  it('should reject actors who are not admins', async () => {
+    await expect(createLedgerAdjustment({
+      affiliate_id: affiliateId,
+      amount: 10000,
+      description: 'Self-service bonus'
+    }, affiliateUserId)).rejects.toThrow();
+
+    const entries = await db.select().from(ledgerEntriesTable).execute();
+    expect(entries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, payoutAccountsTable } from '../db/schema';
+import { createPayoutAccountInputSchema } from '../schema';
+import { createPayoutAccount } from '../handlers/create_payout_account';
+import { asc, eq } from 'drizzle-orm';
+
+describe('createPayoutAccount', () => {
+  let affiliateId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Siti Rahma', role: 'affiliate' })
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const bankInput = (overrides: Record<string, unknown> = {}) => createPayoutAccountInputSchema.parse({
+    affiliate_id: affiliateId,
+    account: { account_type: 'bank', bank_code: '014', account_number: '123-456.7890', account_holder: '  Siti Rahma ' },
+    ...overrides
+  });
+
+  it('should save a normalised bank account as the first default', async () => {
+    const result = await createPayoutAccount(bankInput());
+
+    expect(result.affiliate_id).toEqual(affiliateId);
+    expect(result.account_type).toEqual('bank');
+    expect(result.bank_code).toEqual('014');
+    expect(result.ewallet_provider).toBeNull();
+    expect(result.account_number).toEqual('1234567890');
+    expect(result.account_holder).toEqual('Siti Rahma');
+    expect(result.is_default).toBe(true);
+    expect(result.is_active).toBe(true);
+  });
+
+  it('should keep the current default unless asked to replace it', async () => {
+    const first = await createPayoutAccount(bankInput());
+    const second = await createPayoutAccount(createPayoutAccountInputSchema.parse({
+      affiliate_id: affiliateId,
+      account: { account_type: 'ewallet', ewallet_provider: 'ovo', account_number: '+62 812-3456-7890', account_holder: 'Siti Rahma' }
+    }));
+
+    expect(second.is_default).toBe(false);
+    expect(second.account_number).toEqual('081234567890');
+
+    const third = await createPayoutAccount(bankInput({ is_default: true }));
+    expect(third.is_default).toBe(true);
+
+    const accounts = await db.select()
+      .from(payoutAccountsTable)
+      .where(eq(payoutAccountsTable.affiliate_id, affiliateId))
+      .orderBy(asc(payoutAccountsTable.id))
+      .execute();
+    expect(accounts.map(account => [account.id, account.is_default])).toEqual([
+      [first.id, false],
+      [second.id, false],
+      [third.id, true]
+    ]);
+  });
+
+  it('should reject account details that do not fit the destination', () => {
+    const parse = (account: Record<string, unknown>) =>
+      createPayoutAccountInputSchema.safeParse({ affiliate_id: affiliateId, account }).success;
+
+    expect(parse({ account_type: 'bank', bank_code: '999', account_number: '1234567890', account_holder: 'Siti' })).toBe(false);
+    expect(parse({ account_type: 'bank', bank_code: '014', account_number: '12345', account_holder: 'Siti' })).toBe(false);
+    expect(parse({ account_type: 'bank', bank_code: '014', account_number: '12345ABC90', account_holder: 'Siti' })).toBe(false);
+    expect(parse({ account_type: 'ewallet', ewallet_provider: 'linkaja', account_number: '081234567890', account_holder: 'Siti' })).toBe(false);
+    expect(parse({ account_type: 'ewallet', ewallet_provider: 'gopay', account_number: '0212345678', account_holder: 'Siti' })).toBe(false);
+    expect(parse({ account_type: 'ewallet', ewallet_provider: 'gopay', account_number: '081234567890', account_holder: ' ' })).toBe(false);
+  });
+
+  it('should throw for an affiliate that does not exist', async () => {
+    await expect(createPayoutAccount(bankInput({ affiliate_id: 999 }))).rejects.toThrow('Affiliate with ID 999 not found');
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, commissionPayoutsTable, statusHistoryTable, payoutAccountsTable } from '../db/schema';
+import { createPayoutRun } from '../handlers/create_payout_run';
+import { createCommissionPayout } from '../handlers/create_commission_payout';
+import { postLedgerEntry, getLedgerBalances } from '../helpers/ledger';
+import { insertPayoutAccount } from '../helpers/payout_accounts';
+import { asc, eq } from 'drizzle-orm';
+
+describe('createPayoutRun', () => {
+  let adminUserId: number;
+  let bankAffiliateId: number;
+  let ewalletAffiliateId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin User', role: 'admin' },
+        { email: 'bank@test.com', password_hash: 'hashed_password', full_name: 'Bank Affiliate', role: 'affiliate' },
+        { email: 'ewallet@test.com', password_hash: 'hashed_password', full_name: 'Ewallet Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminUserId = users[0].id;
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values([
+        { user_id: users[1].id, referral_code: 'BANK001', commission_rate: '0.1000', status: 'approved' },
+        { user_id: users[2].id, referral_code: 'WALLET001', commission_rate: '0.1000', status: 'approved' }
+      ])
+      .returning()
+      .execute();
+    bankAffiliateId = affiliates[0].id;
+    ewalletAffiliateId = affiliates[1].id;
+
+    await insertPayoutAccount(db, bankAffiliateId, {
+      account_type: 'bank', bank_code: '014', account_number: '1234567890', account_holder: 'Bank Affiliate'
+    }, true, 'verified');
+    await insertPayoutAccount(db, ewalletAffiliateId, {
+      account_type: 'ewallet', ewallet_provider: 'gopay', account_number: '081234567890', account_holder: 'Ewallet Affiliate'
+    }, true, 'verified');
+
+    await postLedgerEntry(db, { affiliate_id: bankAffiliateId, entry_type: 'commission_earned', amount: 300000 });
+    await postLedgerEntry(db, { affiliate_id: ewalletAffiliateId, entry_type: 'commission_earned', amount: 150000 });
+  });
+
+  afterEach(resetDB);
+
+  const requestPayout = (affiliateId: number, amount: number) => createCommissionPayout({
+    affiliate_id: affiliateId,
+    amount,
+    notes: null
+  });
+
+  it('should move every pending payout to processing in one run', async () => {
+    const first = await requestPayout(bankAffiliateId, 100000);
+    const second = await requestPayout(ewalletAffiliateId, 150000);
+
+    const run = await createPayoutRun({ generate_payouts: false }, adminUserId);
+
+    expect(run.status).toEqual('processing');
+    expect(run.payout_count).toEqual(2);
+    expect(run.failed_count).toEqual(0);
+    expect(run.total_amount).toEqual(250000);
+    expect(run.total_net_amount).toEqual(242500); // PPh 21 without an NPWP: 3000 and 4500 withheld
+    expect(run.created_by).toEqual(adminUserId);
+
+    const payouts = await db.select().from(commissionPayoutsTable).orderBy(asc(commissionPayoutsTable.id)).execute();
+    expect(payouts.map(payout => [payout.id, payout.status, payout.payout_run_id])).toEqual([
+      [first.id, 'processing', run.id],
+      [second.id, 'processing', run.id]
+    ]);
+
+    const history = await db.select().from(statusHistoryTable).where(eq(statusHistoryTable.entity_id, first.id)).execute();
+    expect(history[0].reason).toEqual(`Payout run #${run.id}`);
+
+    // Processing payouts stay reserved
+    expect((await getLedgerBalances(bankAffiliateId)).reserved).toEqual(100000);
+  });
+
+  it('should only include the selected payouts', async () => {
+    const first = await requestPayout(bankAffiliateId, 100000);
+    await requestPayout(ewalletAffiliateId, 150000);
+
+    const run = await createPayoutRun({ payout_ids: [first.id], generate_payouts: false }, adminUserId);
+
+    expect(run.payout_count).toEqual(1);
+    expect(run.total_amount).toEqual(100000);
+  });
+
+  it('should reject payouts that are not pending or belong to another run', async () => {
+    const first = await requestPayout(bankAffiliateId, 100000);
+    await createPayoutRun({ generate_payouts: false }, adminUserId);
+
+    await expect(createPayoutRun({ payout_ids: [first.id], generate_payouts: false }, adminUserId))
+      .rejects.toThrow(/Only pending payouts of approved affiliates/);
+    await expect(createPayoutRun({ generate_payouts: false }, adminUserId))
+      .rejects.toThrow('There are no pending payouts to include in a payout run');
+  });
+
+  it('should leave out payouts of affiliates that are no longer approved', async () => {
+    await requestPayout(bankAffiliateId, 100000);
+    await db.update(affiliatesTable).set({ status: 'suspended' }).where(eq(affiliatesTable.id, bankAffiliateId)).execute();
+
+    await expect(createPayoutRun({ generate_payouts: false }, adminUserId))
+      .rejects.toThrow('There are no pending payouts to include in a payout run');
+  });
+
+  it('should request payouts for affiliates above the minimum when generating', async () => {
+    await postLedgerEntry(db, { affiliate_id: ewalletAffiliateId, entry_type: 'commission_reversed', amount: 100000 });
+
+    const run = await createPayoutRun({ generate_payouts: true }, adminUserId);
+
+    // Only the bank affiliate holds at least the minimum payout
+    const payouts = await db.select().from(commissionPayoutsTable).execute();
+    expect(payouts).toHaveLength(1);
+    expect(payouts[0].affiliate_id).toEqual(bankAffiliateId);
+    expect(parseFloat(payouts[0].amount)).toEqual(300000);
+    expect(payouts[0].method).toEqual('bank_transfer');
+    expect(payouts[0].destination?.account_number).toEqual('1234567890');
+    expect(payouts[0].destination?.account_holder).toEqual('Bank Affiliate');
+    expect(payouts[0].status).toEqual('processing');
+    expect(run.total_amount).toEqual(300000);
+  });
+
+  it('should not generate payouts for affiliates without a payout account', async () => {
+    await db.update(payoutAccountsTable)
+      .set({ is_active: false, is_default: false })
+      .where(eq(payoutAccountsTable.affiliate_id, bankAffiliateId))
+      .execute();
+
+    const run = await createPayoutRun({ generate_payouts: true }, adminUserId);
+
+    const payouts = await db.select().from(commissionPayoutsTable).execute();
+    expect(payouts.map(payout => [payout.affiliate_id, payout.method])).toEqual([[ewalletAffiliateId, 'ewallet']]);
+    expect(run.total_amount).toEqual(150000);
+  });
+
+  it('should not generate payouts to a default account awaiting verification', async () => {
+    await db.update(payoutAccountsTable)
+      .set({ verification_status: 'pending' })
+      .where(eq(payoutAccountsTable.affiliate_id, bankAffiliateId))
+      .execute();
+
+    const run = await createPayoutRun({ generate_payouts: true }, adminUserId);
+
+    const payouts = await db.select().from(commissionPayoutsTable).execute();
+    expect(payouts.map(payout => payout.affiliate_id)).toEqual([ewalletAffiliateId]);
+    expect(run.total_amount).toEqual(150000);
+  });
+
+  it('should not keep generated payouts when the run cannot be created', async () => {
+    await expect(createPayoutRun({ payout_ids: [999999], generate_payouts: true }, adminUserId))
+      .rejects.toThrow(/Only pending payouts of approved affiliates/);
+
+    // The generated payouts roll back with the run, so the balances are free again
+    const payouts = await db.select().from(commissionPayoutsTable).execute();
+    expect(payouts).toHaveLength(0);
+    expect((await getLedgerBalances(bankAffiliateId)).reserved).toEqual(0);
+  });
+
+  it('should only let admins create payout runs', async () => {
+    const users = await db.select().from(usersTable).where(eq(usersTable.email, 'bank@test.com')).execute();
+
+    await expect(createPayoutRun({ generate_payouts: true }, users[0].id))
+      .rejects.toThrow('Only admins can perform this action');
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { programsTable } from '../db/schema';
+import { branchesTable, programsTable, programPricesTable } from '../db/schema';
 import { type CreateProgramInput } from '../schema';
 import { createProgram } from '../handlers/create_program';
 import { eq, and, gte, lte } from 'drizzle-orm';
@@ -28,7 +28,16 @@ const offlineTestInput: CreateProgramInput = {
 };
 
 describe('createProgram', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([
+      { code: 'online', name: 'Online' },
+      { code: 'pare', name: 'Pare' },
+      { code: 'malang', name: 'Malang' },
+      { code: 'sidoarjo', name: 'Sidoarjo' },
+      { code: 'nganjuk', name: 'Nganjuk' }
+    ]).execute();
+  });
   afterEach(resetDB);
 
   it('should create an online program', async () => {
@@ -214,6 +223,19 @@ describe('createProgram', () => {
     expect(allPrograms).toHaveLength(locationTests.length);
   });
 
+  it('should open the price history with the starting price', async () => {
+    const result = await createProgram(testInput);
+
+    const prices = await db.select()
+      .from(programPricesTable)
+      .where(eq(programPricesTable.program_id, result.id))
+      .execute();
+
+    expect(prices).toHaveLength(1);
+    expect(parseFloat(prices[0].price)).toEqual(2500000);
+    expect(prices[0].effective_from).toEqual(result.created_at);
+  });
+
   it('should handle all program categories', async () => {
     const categoryTests = [
       { category: 'branch' as const, name: 'Branch Program' },
@@ -241,4 +263,21 @@ describe('createProgram', () => {
 
     expect(allPrograms).toHaveLength(categoryTests.length);
   });
-});
\ No newline at end of file
+
+  it('should place programs at branches added later', async () => {
+    await db.insert(branchesTable).values({ code: 'kediri', name: 'Kediri' }).execute();
+
+    const result = await createProgram({ ...testInput, location: 'kediri' });
+
+    expect(result.location).toEqual('kediri');
+  });
+
+  it('should refuse closed and unknown branches', async () => {
+    await db.update(branchesTable).set({ is_active: false }).where(eq(branchesTable.code, 'nganjuk')).execute();
+
+    await expect(createProgram({ ...testInput, location: 'nganjuk' }))
+      .rejects.toThrow('Branch "Nganjuk" is closed and takes no new programs');
+    await expect(createProgram({ ...testInput, location: 'kediri' })).rejects.toThrow('Branch "kediri" not found');
+    expect(await db.select().from(programsTable).execute()).toHaveLength(0);
+  });
+});
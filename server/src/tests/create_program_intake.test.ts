@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, programsTable, programIntakesTable } from '../db/schema';
+import { type CreateProgramIntakeInput } from '../schema';
+import { createProgramIntake } from '../handlers/create_program_intake';
+
+describe('createProgramIntake', () => {
+  let adminId: number;
+  let affiliateUserId: number;
+  let programId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'pare', name: 'Pare' }]).execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminId = users[0].id;
+    affiliateUserId = users[1].id;
+
+    const programs = await db.insert(programsTable)
+      .values({ name: 'Pare 2 Weeks', category: 'offline_pare', location: 'pare', price: '2000000.00', duration_weeks: 2 })
+      .returning()
+      .execute();
+    programId = programs[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const buildInput = (): CreateProgramIntakeInput => ({
+    program_id: programId,
+    start_date: new Date('2030-03-02'),
+    end_date: new Date('2030-03-16'),
+    capacity: 25,
+    registration_deadline: new Date('2030-02-23')
+  });
+
+  it('should create an empty intake', async () => {
+    const result = await createProgramIntake(buildInput(), adminId);
+
+    expect(result.program_id).toEqual(programId);
+    expect(result.capacity).toEqual(25);
+    expect(result.seats_taken).toEqual(0);
+    expect(result.seats_left).toEqual(25);
+    expect(result.fill_rate).toEqual(0);
+    expect(result.is_open).toBe(true);
+
+    const saved = await db.select().from(programIntakesTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].start_date).toEqual(new Date('2030-03-02'));
+  });
+
+  it('should reject intakes that end before they start', async () => {
+    await expect(createProgramIntake({ ...buildInput(), end_date: new Date('2030-03-01') }, adminId))
+      .rejects.toThrow('An intake cannot end before it starts');
+  });
+
+  it('should reject registration deadlines after the start', async () => {
+    await expect(createProgramIntake({ ...buildInput(), registration_deadline: new Date('2030-03-03') }, adminId))
+      .rejects.toThrow('The registration deadline cannot be after the intake starts');
+  });
+
+  it('should refuse archived programs', async () => {
+    await db.update(programsTable).set({ is_active: false, archived_at: new Date() }).execute();
+
+    await expect(createProgramIntake(buildInput(), adminId))
+      .rejects.toThrow('Program "Pare 2 Weeks" is archived and can no longer be changed');
+  });
+
+  it('should only let admins create intakes', async () => {
+    await expect(createProgramIntake(buildInput(), affiliateUserId)).rejects.toThrow('Only admins can perform this action');
+  });
+});
@@ -1,13 +1,16 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, affiliatesTable, programsTable, studentRegistrationsTable } from '../db/schema';
+import { branchesTable, usersTable, affiliatesTable, programsTable, programPricesTable, programIntakesTable, studentRegistrationsTable, commissionRulesTable } from '../db/schema';
 import { type CreateStudentRegistrationInput } from '../schema';
 import { createStudentRegistration } from '../handlers/create_student_registration';
 import { eq } from 'drizzle-orm';
 
 describe('createStudentRegistration', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }, { code: 'pare', name: 'Pare' }]).execute();
+  });
   afterEach(resetDB);
 
   let testUser: any;
@@ -94,6 +97,8 @@ describe('createStudentRegistration', () => {
     expect(typeof result.registration_fee).toEqual('number');
     expect(result.commission_amount).toEqual(50000); // 5% of 1,000,000
     expect(typeof result.commission_amount).toEqual('number');
+    expect(result.estimated_commission_amount).toEqual(50000);
+    expect(result.commission_rule_id).toBeNull();
     
     // Verify null fields
     expect(result.confirmed_by).toBeNull();
@@ -128,6 +133,24 @@ describe('createStudentRegistration', () => {
     expect(saved.status).toEqual('pending');
   });
 
+  it('should point the registration at the price it was quoted', async () => {
+    const result = await createStudentRegistration({ ...testInput, affiliate_id: testAffiliate.id, program_id: testProgram.id });
+
+    // The program predates price history, so its price is recorded from its creation
+    const prices = await db.select()
+      .from(programPricesTable)
+      .where(eq(programPricesTable.program_id, testProgram.id))
+      .execute();
+    expect(prices).toHaveLength(1);
+    expect(prices[0].price).toEqual('1000000.00');
+    expect(prices[0].effective_from).toEqual(testProgram.created_at);
+    expect(result.program_price_id).toEqual(prices[0].id);
+
+    // A second registration is quoted the same recorded price
+    const second = await createStudentRegistration({ ...testInput, affiliate_id: testAffiliate.id, program_id: testProgram.id });
+    expect(second.program_price_id).toEqual(prices[0].id);
+  });
+
   it('should calculate commission correctly with different rates', async () => {
     // Create another user for the high commission affiliate
     const anotherUser = await db.insert(usersTable)
@@ -164,6 +187,24 @@ describe('createStudentRegistration', () => {
     expect(result.commission_amount).toEqual(100000); // 10% of 1,000,000
   });
 
+  it('should apply the matching commission rule over the affiliate rate', async () => {
+    const rule = await db.insert(commissionRulesTable)
+      .values({
+        name: 'Online flat bonus',
+        commission_type: 'flat',
+        value: '150000.0000',
+        category: 'online'
+      })
+      .returning()
+      .execute();
+
+    const input = { ...testInput, affiliate_id: testAffiliate.id, program_id: testProgram.id };
+    const result = await createStudentRegistration(input);
+
+    expect(result.commission_amount).toEqual(150000);
+    expect(result.commission_rule_id).toEqual(rule[0].id);
+  });
+
   it('should throw error for invalid affiliate ID', async () => {
     const input = {
       ...testInput,
@@ -299,4 +340,69 @@ describe('createStudentRegistration', () => {
     expect(result.registration_fee).toEqual(2000000);
     expect(result.commission_amount).toEqual(100000); // 5% of 2,000,000
   });
-});
\ No newline at end of file
+
+  describe('with intakes', () => {
+    const createIntake = async (capacity: number, deadline: Date) => {
+      const intake = await db.insert(programIntakesTable)
+        .values({
+          program_id: testProgram.id,
+          start_date: new Date('2030-03-02'),
+          end_date: new Date('2030-03-16'),
+          capacity,
+          registration_deadline: deadline
+        })
+        .returning()
+        .execute();
+      return intake[0];
+    };
+
+    it('should waitlist registrations once the intake is full', async () => {
+      const intake = await createIntake(1, new Date('2030-02-23'));
+      const input = { ...testInput, affiliate_id: testAffiliate.id, program_id: testProgram.id, intake_id: intake.id };
+
+      const first = await createStudentRegistration(input);
+      const second = await createStudentRegistration({ ...input, student_email: 'jane.doe@example.com' });
+
+      expect(first.status).toEqual('pending');
+      expect(first.intake_id).toEqual(intake.id);
+      expect(second.status).toEqual('waitlisted');
+      expect(second.intake_id).toEqual(intake.id);
+    });
+
+    it('should require an intake for programs that have them', async () => {
+      await createIntake(10, new Date('2030-02-23'));
+
+      await expect(createStudentRegistration({ ...testInput, affiliate_id: testAffiliate.id, program_id: testProgram.id }))
+        .rejects.toThrow('Choose an intake to register for Test Program');
+    });
+
+    it('should refuse intakes past their registration deadline', async () => {
+      const intake = await createIntake(10, new Date(Date.now() - 24 * 60 * 60 * 1000));
+
+      await expect(createStudentRegistration({
+        ...testInput,
+        affiliate_id: testAffiliate.id,
+        program_id: testProgram.id,
+        intake_id: intake.id
+      })).rejects.toThrow(/Registration for the intake starting 2030-03-02 closed on/);
+
+      const registrations = await db.select().from(studentRegistrationsTable).execute();
+      expect(registrations).toHaveLength(0);
+    });
+
+    it('should reject intakes of other programs', async () => {
+      const intake = await createIntake(10, new Date('2030-02-23'));
+      const otherProgram = await db.insert(programsTable)
+        .values({ name: 'Other Program', category: 'online', location: 'online', price: '500000.00' })
+        .returning()
+        .execute();
+
+      await expect(createStudentRegistration({
+        ...testInput,
+        affiliate_id: testAffiliate.id,
+        program_id: otherProgram[0].id,
+        intake_id: intake.id
+      })).rejects.toThrow(`Program intake with ID ${intake.id} not found`);
+    });
+  });
+});
@@ -4,12 +4,13 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput } from '../schema';
 import { createUser } from '../handlers/create_user';
+import { verifyPassword } from '../auth';
 import { eq } from 'drizzle-orm';
 
 // Test input for admin user
 const adminInput: CreateUserInput = {
   email: 'admin@test.com',
-  password_hash: 'hashed_password_123',
+  password: 'admin_password_123',
   full_name: 'Admin User',
   phone: '+62812345678',
   role: 'admin'
@@ -18,7 +19,7 @@ const adminInput: CreateUserInput = {
 // Test input for affiliate user
 const affiliateInput: CreateUserInput = {
   email: 'affiliate@test.com',
-  password_hash: 'hashed_password_456',
+  password: 'affiliate_password_456',
   full_name: 'Affiliate User',
   phone: null,
   role: 'affiliate'
@@ -33,7 +34,7 @@ describe('createUser', () => {
 
     // Basic field validation
     expect(result.email).toEqual('admin@test.com');
-    expect(result.password_hash).toEqual('hashed_password_123');
+    expect(result).not.toHaveProperty('password_hash');
     expect(result.full_name).toEqual('Admin User');
     expect(result.phone).toEqual('+62812345678');
     expect(result.role).toEqual('admin');
@@ -48,7 +49,7 @@ describe('createUser', () => {
 
     // Basic field validation
     expect(result.email).toEqual('affiliate@test.com');
-    expect(result.password_hash).toEqual('hashed_password_456');
+    expect(result).not.toHaveProperty('password_hash');
     expect(result.full_name).toEqual('Affiliate User');
     expect(result.phone).toBeNull();
     expect(result.role).toEqual('affiliate');
@@ -69,7 +70,8 @@ describe('createUser', () => {
 
     expect(users).toHaveLength(1);
     expect(users[0].email).toEqual('admin@test.com');
-    expect(users[0].password_hash).toEqual('hashed_password_123');
+    expect(users[0].password_hash).not.toEqual('admin_password_123');
+    expect(await verifyPassword('admin_password_123', users[0].password_hash)).toBe(true);
     expect(users[0].full_name).toEqual('Admin User');
     expect(users[0].phone).toEqual('+62812345678');
     expect(users[0].role).toEqual('admin');
@@ -77,6 +79,22 @@ describe('createUser', () => {
     expect(users[0].updated_at).toBeInstanceOf(Date);
   });
 
+  it('should hash passwords with a unique salt', async () => {
+    const user1 = await createUser({ ...adminInput, email: 'user1@test.com' });
+    const user2 = await createUser({ ...adminInput, email: 'user2@test.com' });
+
+    const users = await db.select()
+      .from(usersTable)
+      .execute();
+
+    const hash1 = users.find(u => u.id === user1.id)!.password_hash;
+    const hash2 = users.find(u => u.id === user2.id)!.password_hash;
+
+    expect(hash1).toMatch(/^scrypt\$/);
+    expect(hash1).not.toEqual(hash2);
+    expect(await verifyPassword('wrong_password', hash1)).toBe(false);
+  });
+
   it('should handle null phone number', async () => {
     const result = await createUser(affiliateInput);
 
@@ -128,7 +146,7 @@ describe('createUser', () => {
   it('should handle different user roles correctly', async () => {
     const admin = await createUser({
       email: 'admin@test.com',
-      password_hash: 'hash1',
+      password: 'password_one',
       full_name: 'Admin User',
       phone: '+62123456789',
       role: 'admin'
@@ -136,7 +154,7 @@ describe('createUser', () => {
 
     const affiliate = await createUser({
       email: 'affiliate@test.com',
-      password_hash: 'hash2',
+      password: 'password_two',
       full_name: 'Affiliate User',
       phone: '+62987654321',
       role: 'affiliate'
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, branchesTable, programsTable, commissionRulesTable } from '../db/schema';
+import { deleteBranch } from '../handlers/delete_branch';
+
+describe('deleteBranch', () => {
+  let adminId: number;
+  let branchId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' })
+      .returning()
+      .execute();
+    adminId = users[0].id;
+
+    const branches = await db.insert(branchesTable)
+      .values({ code: 'malang', name: 'Malang' })
+      .returning()
+      .execute();
+    branchId = branches[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should delete a branch nothing refers to', async () => {
+    const result = await deleteBranch({ branch_id: branchId }, adminId);
+
+    expect(result.code).toEqual('malang');
+    expect(await db.select().from(branchesTable).execute()).toHaveLength(0);
+  });
+
+  it('should block deleting branches with programs or commission rules', async () => {
+    await db.insert(programsTable)
+      .values({ name: 'Malang Weekend Class', category: 'branch', location: 'malang', price: '750000.00' })
+      .execute();
+    await db.insert(commissionRulesTable)
+      .values({ name: 'Malang launch', commission_type: 'flat', value: '50000.0000', location: 'malang' })
+      .execute();
+
+    await expect(deleteBranch({ branch_id: branchId }, adminId))
+      .rejects.toThrow('Branch "Malang" is used by 1 program and 1 commission rule and cannot be deleted; close it instead');
+    expect(await db.select().from(branchesTable).execute()).toHaveLength(1);
+  });
+
+  it('should throw for unknown branches', async () => {
+    await expect(deleteBranch({ branch_id: branchId + 100 }, adminId))
+      .rejects.toThrow(`Branch with ID ${branchId + 100} not found`);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  branchesTable,
+  usersTable,
+  affiliatesTable,
+  programsTable,
+  programPricesTable,
+  studentRegistrationsTable,
+  commissionRulesTable,
+  referralClicksTable
+} from '../db/schema';
+import { createProgram } from '../handlers/create_program';
+import { deleteProgram } from '../handlers/delete_program';
+import { eq } from 'drizzle-orm';
+
+describe('deleteProgram', () => {
+  let adminId: number;
+  let affiliateId: number;
+  let programId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'pare', name: 'Pare' }]).execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminId = users[0].id;
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[1].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+
+    const program = await createProgram({
+      name: 'Pare 2 Weeks',
+      description: null,
+      category: 'offline_pare',
+      location: 'pare',
+      price: 2000000,
+      duration_weeks: 2,
+      is_active: true
+    }, adminId);
+    programId = program.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should delete a program nobody registered for, with its prices and rules', async () => {
+    await db.insert(commissionRulesTable)
+      .values({ name: 'Pare launch', commission_type: 'flat', value: '100000.0000', program_id: programId })
+      .execute();
+    const clicks = await db.insert(referralClicksTable)
+      .values({ affiliate_id: affiliateId, referral_code: 'EBREF001', program_id: programId, click_token: 'token-1' })
+      .returning()
+      .execute();
+
+    const result = await deleteProgram({ program_id: programId }, adminId);
+
+    expect(result.id).toEqual(programId);
+    expect(await db.select().from(programsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(programPricesTable).execute()).toHaveLength(0);
+    expect(await db.select().from(commissionRulesTable).execute()).toHaveLength(0);
+
+    const click = await db.select().from(referralClicksTable).where(eq(referralClicksTable.id, clicks[0].id)).execute();
+    expect(click[0].program_id).toBeNull();
+  });
+
+  it('should block deleting programs with registrations', async () => {
+    await db.insert(studentRegistrationsTable)
+      .values({
+        program_id: programId,
+        student_name: 'Budi Santoso',
+        student_email: 'budi@test.com',
+        student_phone: '081234567890',
+        status: 'cancelled',
+        registration_fee: '2000000.00',
+        commission_amount: '0'
+      })
+      .execute();
+
+    await expect(deleteProgram({ program_id: programId }, adminId))
+      .rejects.toThrow('Program "Pare 2 Weeks" has 1 registration and cannot be deleted; archive it instead');
+    expect(await db.select().from(programsTable).execute()).toHaveLength(1);
+  });
+
+  it('should throw for unknown programs', async () => {
+    await expect(deleteProgram({ program_id: programId + 100 }, adminId))
+      .rejects.toThrow(`Program with ID ${programId + 100} not found`);
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, affiliatesTable, affiliateTiersTable, programsTable, studentRegistrationsTable } from '../db/schema';
+import { type TierSettings } from '../schema';
+import { evaluateAffiliateTiers } from '../handlers/evaluate_affiliate_tiers';
+import { eq } from 'drizzle-orm';
+
+describe('evaluateAffiliateTiers', () => {
+  let affiliateId: number;
+  let programId: number;
+  let bronzeId: number;
+  let silverId: number;
+  let goldId: number;
+
+  const settings: TierSettings = { period_days: 90 };
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
+
+    const user = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' })
+      .returning()
+      .execute();
+
+    const affiliate = await db.insert(affiliatesTable)
+      .values({ user_id: user[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliate[0].id;
+
+    const program = await db.insert(programsTable)
+      .values({ name: 'TOEFL Online', category: 'online', location: 'online', price: '1000000.00', is_active: true })
+      .returning()
+      .execute();
+    programId = program[0].id;
+
+    const tiers = await db.insert(affiliateTiersTable)
+      .values([
+        { name: 'Bronze', level: 1, commission_rate: '0.1000' },
+        { name: 'Silver', level: 2, commission_rate: '0.1200', min_confirmed_registrations: 3, min_revenue: '5000000.00' },
+        { name: 'Gold', level: 3, commission_rate: '0.1500', min_confirmed_registrations: 10 }
+      ])
+      .returning()
+      .execute();
+    [bronzeId, silverId, goldId] = tiers.map(tier => tier.id);
+  });
+
+  afterEach(resetDB);
+
+  const createConfirmedRegistrations = async (total: number, confirmedAt: Date, fee = '1000000.00') => {
+    for (let i = 0; i < total; i++) {
+      await db.insert(studentRegistrationsTable)
+        .values({
+          affiliate_id: affiliateId,
+          program_id: programId,
+          student_name: `Student ${i}`,
+          student_email: `student${i}@example.com`,
+          student_phone: '081200000000',
+          referral_code: 'EBREF001',
+          status: 'confirmed',
+          registration_fee: fee,
+          commission_amount: '100000.00',
+          confirmed_at: confirmedAt
+        })
+        .execute();
+    }
+  };
+
+  const getTierId = async () => {
+    const affiliate = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+    return affiliate[0].tier_id;
+  };
+
+  it('should place new affiliates in the entry tier', async () => {
+    const changes = await evaluateAffiliateTiers(settings);
+
+    expect(changes).toEqual([{ affiliate_id: affiliateId, previous_tier_id: null, tier_id: bronzeId }]);
+    expect(await getTierId()).toEqual(bronzeId);
+  });
+
+  it('should promote on confirmed registrations', async () => {
+    await createConfirmedRegistrations(3, daysAgo(5));
+
+    await evaluateAffiliateTiers(settings);
+
+    expect(await getTierId()).toEqual(silverId);
+  });
+
+  it('should promote on revenue alone', async () => {
+    await createConfirmedRegistrations(1, daysAgo(5), '6000000.00');
+
+    await evaluateAffiliateTiers(settings);
+
+    expect(await getTierId()).toEqual(silverId);
+  });
+
+  it('should count what students actually paid as revenue', async () => {
+    await createConfirmedRegistrations(1, daysAgo(5), '6000000.00');
+    await db.update(studentRegistrationsTable)
+      .set({ amount_paid: '4000000.00' })
+      .execute();
+
+    await evaluateAffiliateTiers(settings);
+
+    expect(await getTierId()).toEqual(bronzeId);
+  });
+
+  it('should pick the highest tier reached', async () => {
+    await createConfirmedRegistrations(10, daysAgo(5));
+
+    await evaluateAffiliateTiers(settings);
+
+    expect(await getTierId()).toEqual(goldId);
+  });
+
+  it('should demote once registrations leave the tier period', async () => {
+    await db.update(affiliatesTable)
+      .set({ tier_id: goldId })
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+    await createConfirmedRegistrations(10, daysAgo(120));
+
+    const changes = await evaluateAffiliateTiers(settings);
+
+    expect(changes).toEqual([{ affiliate_id: affiliateId, previous_tier_id: goldId, tier_id: bronzeId }]);
+  });
+
+  it('should ignore registrations that are not confirmed', async () => {
+    await createConfirmedRegistrations(3, daysAgo(5));
+    await db.update(studentRegistrationsTable)
+      .set({ status: 'cancelled' })
+      .execute();
+
+    await evaluateAffiliateTiers(settings);
+
+    expect(await getTierId()).toEqual(bronzeId);
+  });
+
+  it('should report no change when the tier stays the same', async () => {
+    await evaluateAffiliateTiers(settings);
+    const changes = await evaluateAffiliateTiers(settings);
+
+    expect(changes).toEqual([]);
+
+    const affiliate = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+    expect(affiliate[0].tier_evaluated_at).toBeInstanceOf(Date);
+  });
+
+  it('should skip affiliates that are not approved', async () => {
+    await db.update(affiliatesTable)
+      .set({ status: 'pending' })
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+
+    const changes = await evaluateAffiliateTiers(settings);
+
+    expect(changes).toEqual([]);
+    expect(await getTierId()).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, commissionPayoutsTable, payoutRunsTable } from '../db/schema';
+import { exportPayoutRun } from '../handlers/export_payout_run';
+import { eq } from 'drizzle-orm';
+
+describe('exportPayoutRun', () => {
+  let runId: number;
+  let bankPayoutId: number;
+  let briPayoutId: number;
+  let ewalletPayoutId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin User', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Siti, Rahma', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[1].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+
+    const runs = await db.insert(payoutRunsTable).values({ created_by: users[0].id }).returning().execute();
+    runId = runs[0].id;
+
+    const payouts = await db.insert(commissionPayoutsTable)
+      .values([
+        {
+          affiliate_id: affiliates[0].id, amount: '150000.00', method: 'bank_transfer', status: 'processing', payout_run_id: runId,
+          destination: { account_type: 'bank', bank_code: '008', ewallet_provider: null, provider_name: 'Mandiri', account_number: '1400012345', account_holder: 'Siti Rahma' }
+        },
+        {
+          affiliate_id: affiliates[0].id, amount: '120000.50', method: 'bank_transfer', status: 'processing', payout_run_id: runId,
+          destination: { account_type: 'bank', bank_code: '002', ewallet_provider: null, provider_name: 'BRI', account_number: '0021', account_holder: 'Siti Rahma' }
+        },
+        {
+          affiliate_id: affiliates[0].id, amount: '100000.00', method: 'ewallet', status: 'processing', payout_run_id: runId,
+          destination: { account_type: 'ewallet', bank_code: null, ewallet_provider: 'gopay', provider_name: 'GoPay', account_number: '081234567890', account_holder: 'Siti, Rahma' }
+        },
+        // Already settled, and not in the run
+        { affiliate_id: affiliates[0].id, amount: '110000.00', method: 'bank_transfer', status: 'failed', payout_run_id: runId, destination: { account_type: 'bank', bank_code: '014', ewallet_provider: null, provider_name: 'BCA', account_number: '1', account_holder: 'X' } },
+        { affiliate_id: affiliates[0].id, amount: '130000.00', method: 'bank_transfer', status: 'processing', destination: { account_type: 'bank', bank_code: '014', ewallet_provider: null, provider_name: 'BCA', account_number: '2', account_holder: 'Y' } }
+      ])
+      .returning()
+      .execute();
+    bankPayoutId = payouts[0].id;
+    briPayoutId = payouts[1].id;
+    ewalletPayoutId = payouts[2].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should export the bank transfers of the run in the BCA layout', async () => {
+    const result = await exportPayoutRun({ run_id: runId, format: 'bca' });
+
+    expect(result.filename).toEqual(`payout-run-${runId}-bca.csv`);
+    expect(result.row_count).toEqual(2);
+    expect(result.content).toEqual([
+      'No,Rekening Tujuan,Nama Penerima,Bank Tujuan,Jumlah,Berita',
+      `1,1400012345,Siti Rahma,Mandiri,150000.00,EBPAYOUT${bankPayoutId}`,
+      `2,0021,Siti Rahma,BRI,120000.50,EBPAYOUT${briPayoutId}`,
+      ''
+    ].join('\r\n'));
+  });
+
+  it('should use the column layout of the chosen bank', async () => {
+    const mandiri = await exportPayoutRun({ run_id: runId, format: 'mandiri' });
+    const bri = await exportPayoutRun({ run_id: runId, format: 'bri' });
+
+    expect(mandiri.content.split('\r\n')[0]).toEqual('Account No,Account Name,Bank Name,Currency,Amount,Remark,Reference No');
+    expect(mandiri.content.split('\r\n')[1]).toEqual(`1400012345,Siti Rahma,Mandiri,IDR,150000.00,Komisi English Booster,EBPAYOUT${bankPayoutId}`);
+    expect(bri.content.split('\r\n')[0]).toEqual('NO,NOREK,NAMA,BANK,NOMINAL,KETERANGAN');
+  });
+
+  it('should export e-wallet payouts with the account holder quoted', async () => {
+    const result = await exportPayoutRun({ run_id: runId, format: 'ewallet' });
+
+    expect(result.row_count).toEqual(1);
+    expect(result.content.split('\r\n')[1]).toEqual(`1,GoPay,081234567890,"Siti, Rahma",100000.00,EBPAYOUT${ewalletPayoutId}`);
+  });
+
+  it('should transfer what is left after the tax withheld', async () => {
+    await db.update(commissionPayoutsTable)
+      .set({ tax_type: 'pph21', tax_base: '75000.00', tax_rate: '0.0600', tax_amount: '4500.00' })
+      .where(eq(commissionPayoutsTable.id, bankPayoutId))
+      .execute();
+
+    const result = await exportPayoutRun({ run_id: runId, format: 'bca' });
+
+    expect(result.content.split('\r\n')[1]).toEqual(`1,1400012345,Siti Rahma,Mandiri,145500.00,EBPAYOUT${bankPayoutId}`);
+  });
+
+  it('should throw for a run that does not exist', async () => {
+    await expect(exportPayoutRun({ run_id: 999, format: 'bca' })).rejects.toThrow('Payout run with ID 999 not found');
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable } from '../db/schema';
+import { postLedgerEntry } from '../helpers/ledger';
+import { generateMonthlyStatements } from '../handlers/generate_monthly_statements';
+
+describe('generateMonthlyStatements', () => {
+  let affiliateIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values(['Siti Rahma', 'Budi Santoso', 'Ani Lestari', 'Dewi Anggraini'].map((name, index) => ({
+        email: `affiliate${index}@test.com`,
+        password_hash: 'hashed_password',
+        full_name: name,
+        role: 'affiliate' as const
+      })))
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values(users.map((user, index) => ({
+        user_id: user.id,
+        referral_code: `EBREF00${index + 1}`,
+        commission_rate: '0.1000',
+        status: 'approved' as const
+      })))
+      .returning()
+      .execute();
+    affiliateIds = affiliates.map(row => row.id);
+
+    // Activity in May; a balance carried into May; everything paid out before May; never earned anything
+    await postLedgerEntry(db, { affiliate_id: affiliateIds[0], entry_type: 'commission_earned', amount: 200000, created_at: new Date(2026, 4, 4) });
+    await postLedgerEntry(db, { affiliate_id: affiliateIds[1], entry_type: 'adjustment', amount: 75000, created_at: new Date(2026, 2, 15) });
+    await postLedgerEntry(db, { affiliate_id: affiliateIds[2], entry_type: 'commission_earned', amount: 100000, created_at: new Date(2026, 1, 1) });
+    await postLedgerEntry(db, { affiliate_id: affiliateIds[2], entry_type: 'payout_reserved', amount: 100000, created_at: new Date(2026, 1, 10) });
+    await postLedgerEntry(db, { affiliate_id: affiliateIds[2], entry_type: 'payout_paid', amount: 100000, created_at: new Date(2026, 1, 12) });
+  });
+
+  afterEach(resetDB);
+
+  it('should include affiliates with a balance or activity in the month', async () => {
+    const result = await generateMonthlyStatements({ period: '2026-05', format: 'csv' });
+
+    expect(result.filename).toEqual('statements-2026-05.csv');
+    expect(result.statement_count).toEqual(2);
+
+    const lines = result.content.trimEnd().split('\r\n');
+    expect(lines).toHaveLength(6);
+    expect(lines[1]).toEqual('EBREF001,Siti Rahma,2026-05,2026-05-01,Opening balance,,,,,0.00,,');
+    expect(lines[3]).toEqual('EBREF001,Siti Rahma,2026-05,2026-05-31,Closing balance,,,,,200000.00,,');
+    expect(lines[4]).toEqual('EBREF002,Budi Santoso,2026-05,2026-05-01,Opening balance,,,,,75000.00,,');
+    expect(lines[5]).toEqual('EBREF002,Budi Santoso,2026-05,2026-05-31,Closing balance,,,,,75000.00,,');
+  });
+
+  it('should start each affiliate on a new page of one PDF', async () => {
+    const result = await generateMonthlyStatements({ period: '2026-05', format: 'pdf' });
+
+    expect(result.filename).toEqual('statements-2026-05.pdf');
+    expect(result.statement_count).toEqual(2);
+    expect(result.content).toContain('/Count 2');
+    expect(result.content).toContain('(Siti Rahma \\(EBREF001\\)) Tj');
+    expect(result.content).toContain('(Budi Santoso \\(EBREF002\\)) Tj');
+    expect(result.content).not.toContain('Ani Lestari');
+  });
+
+  it('should refuse months without any balance or activity', async () => {
+    await expect(generateMonthlyStatements({ period: '2026-01', format: 'pdf' }))
+      .rejects.toThrow('No affiliate had a commission balance or activity in 2026-01');
+  });
+});
@@ -33,11 +33,6 @@ describe('getAffiliateByReferralCode', () => {
     const testAffiliate = {
       user_id: userId,
       referral_code: 'TEST123',
-      bank_name: 'Test Bank',
-      bank_account_number: '1234567890',
-      bank_account_name: 'Test Account',
-      ewallet_type: 'gopay',
-      ewallet_number: '081234567890',
       commission_rate: '0.0500', // 5% as string for database insert
       status: 'approved' as const,
       approved_by: userId
@@ -52,11 +47,6 @@ describe('getAffiliateByReferralCode', () => {
     expect(result).not.toBeNull();
     expect(result!.referral_code).toBe('TEST123');
     expect(result!.user_id).toBe(userId);
-    expect(result!.bank_name).toBe('Test Bank');
-    expect(result!.bank_account_number).toBe('1234567890');
-    expect(result!.bank_account_name).toBe('Test Account');
-    expect(result!.ewallet_type).toBe('gopay');
-    expect(result!.ewallet_number).toBe('081234567890');
     expect(result!.commission_rate).toBe(0.05); // Should be converted to number
     expect(typeof result!.commission_rate).toBe('number');
     expect(result!.status).toBe('approved');
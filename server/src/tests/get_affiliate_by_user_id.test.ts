@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable } from '../db/schema';
+import { getAffiliateByUserId } from '../handlers/get_affiliate_by_user_id';
+
+describe('getAffiliateByUserId', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'affiliate@test.com',
+        password_hash: 'hashed_password',
+        full_name: 'Test Affiliate',
+        phone: '081234567890',
+        role: 'affiliate'
+      })
+      .returning()
+      .execute();
+    userId = user[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return the affiliate profile for a user', async () => {
+    const affiliate = await db.insert(affiliatesTable)
+      .values({
+        user_id: userId,
+        referral_code: 'EBTEST01',
+        commission_rate: '0.1000',
+        status: 'pending'
+      })
+      .returning()
+      .execute();
+
+    const result = await getAffiliateByUserId(userId);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(affiliate[0].id);
+    expect(result!.user_id).toEqual(userId);
+    expect(result!.referral_code).toEqual('EBTEST01');
+    expect(result!.status).toEqual('pending');
+    expect(typeof result!.commission_rate).toBe('number');
+    expect(result!.commission_rate).toEqual(0.1);
+  });
+
+  it('should return null when the user has no affiliate profile', async () => {
+    const result = await getAffiliateByUserId(userId);
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for a non-existent user', async () => {
+    const result = await getAffiliateByUserId(99999);
+
+    expect(result).toBeNull();
+  });
+});
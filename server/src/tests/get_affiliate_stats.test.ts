@@ -1,7 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
+import { backfillLedger, postLedgerEntry } from '../helpers/ledger';
 import { db } from '../db';
-import { usersTable, affiliatesTable, programsTable, studentRegistrationsTable, commissionPayoutsTable } from '../db/schema';
+import { branchesTable, usersTable, affiliatesTable, programsTable, studentRegistrationsTable, commissionPayoutsTable, referralClicksTable } from '../db/schema';
 import { type GetAffiliateStatsInput } from '../schema';
 import { getAffiliateStats } from '../handlers/get_affiliate_stats';
 
@@ -58,7 +59,10 @@ const baseTestInput: GetAffiliateStatsInput = {
 };
 
 describe('getAffiliateStats', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
+  });
   afterEach(resetDB);
 
   it('should return zero stats for new affiliate', async () => {
@@ -67,6 +71,9 @@ describe('getAffiliateStats', () => {
     const input = { affiliate_id: affiliate.id };
     const result = await getAffiliateStats(input);
 
+    expect(result.total_clicks).toEqual(0);
+    expect(result.unique_visitors).toEqual(0);
+    expect(result.click_conversion_rate).toEqual(0);
     expect(result.total_registrations).toEqual(0);
     expect(result.confirmed_registrations).toEqual(0);
     expect(result.pending_registrations).toEqual(0);
@@ -119,6 +126,9 @@ describe('getAffiliateStats', () => {
       }
     ]).execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     const input = { affiliate_id: affiliate.id };
     const result = await getAffiliateStats(input);
 
@@ -167,6 +177,9 @@ describe('getAffiliateStats', () => {
       }
     ]).execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     const input = { affiliate_id: affiliate.id };
     const result = await getAffiliateStats(input);
 
@@ -193,6 +206,9 @@ describe('getAffiliateStats', () => {
       commission_amount: '50000.00' // Below minimum threshold
     }).execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     const input = { affiliate_id: affiliate.id };
     const result = await getAffiliateStats(input);
 
@@ -247,6 +263,9 @@ describe('getAffiliateStats', () => {
       processed_at: oldDate
     }).execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     // Test filtering from recent date
     const inputWithDateFilter = {
       affiliate_id: affiliate.id,
@@ -308,6 +327,9 @@ describe('getAffiliateStats', () => {
       }
     ]).execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     const input = { affiliate_id: affiliate.id };
     const result = await getAffiliateStats(input);
 
@@ -349,6 +371,9 @@ describe('getAffiliateStats', () => {
       commission_amount: '150000.05' // Precise decimal
     }).execute();
 
+    // Post the seeded rows to the ledger
+    await backfillLedger();
+
     const input = { affiliate_id: affiliate.id };
     const result = await getAffiliateStats(input);
 
@@ -356,4 +381,122 @@ describe('getAffiliateStats', () => {
     expect(result.total_commission_earned).toEqual(150000.05);
     expect(result.available_for_payout).toEqual(150000.05);
   });
-});
\ No newline at end of file
+
+  it('should report clicks, unique visitors and click conversion', async () => {
+    const { affiliate, program } = await createTestData();
+
+    const [registration] = await db.insert(studentRegistrationsTable).values({
+      affiliate_id: affiliate.id,
+      program_id: program.id,
+      student_name: 'Student 1',
+      student_email: 'student1@test.com',
+      student_phone: '081234567892',
+      student_address: null,
+      referral_code: 'TEST001',
+      status: 'pending',
+      registration_fee: '1000000.00',
+      commission_amount: '100000.00'
+    }).returning().execute();
+
+    // Four clicks from three visitors, one of which registered
+    await db.insert(referralClicksTable).values([
+      { affiliate_id: affiliate.id, referral_code: 'TEST001', click_token: 'token-1', ip_hash: 'visitor-a', registration_id: registration.id },
+      { affiliate_id: affiliate.id, referral_code: 'TEST001', click_token: 'token-2', ip_hash: 'visitor-a' },
+      { affiliate_id: affiliate.id, referral_code: 'TEST001', click_token: 'token-3', ip_hash: 'visitor-b' },
+      { affiliate_id: affiliate.id, referral_code: 'TEST001', click_token: 'token-4', ip_hash: 'visitor-c', landed_at: new Date('2020-01-01') }
+    ]).execute();
+
+    const result = await getAffiliateStats({ affiliate_id: affiliate.id });
+
+    expect(result.total_clicks).toEqual(4);
+    expect(result.unique_visitors).toEqual(3);
+    expect(result.click_conversion_rate).toEqual(0.25);
+    expect(result.total_registrations).toEqual(1);
+
+    // Clicks follow the same date filter as registrations
+    const filtered = await getAffiliateStats({
+      affiliate_id: affiliate.id,
+      start_date: new Date('2021-01-01')
+    });
+
+    expect(filtered.total_clicks).toEqual(3);
+    expect(filtered.unique_visitors).toEqual(2);
+  });
+
+  it('should count visitors by their cookie before their IP', async () => {
+    const { affiliate } = await createTestData();
+
+    // Two browsers behind one NAT, one browser that changed networks and one click without a cookie
+    await db.insert(referralClicksTable).values([
+      { affiliate_id: affiliate.id, referral_code: 'TEST001', click_token: 'token-1', visitor_id: 'browser-a', ip_hash: 'office' },
+      { affiliate_id: affiliate.id, referral_code: 'TEST001', click_token: 'token-2', visitor_id: 'browser-b', ip_hash: 'office' },
+      { affiliate_id: affiliate.id, referral_code: 'TEST001', click_token: 'token-3', visitor_id: 'browser-a', ip_hash: 'home' },
+      { affiliate_id: affiliate.id, referral_code: 'TEST001', click_token: 'token-4', ip_hash: 'office' }
+    ]).execute();
+
+    const result = await getAffiliateStats({ affiliate_id: affiliate.id });
+
+    expect(result.total_clicks).toEqual(4);
+    expect(result.unique_visitors).toEqual(3);
+  });
+
+  it('should report a negative commission balance without offering a payout', async () => {
+    const { affiliate } = await createTestData();
+
+    await postLedgerEntry(db, { affiliate_id: affiliate.id, entry_type: 'commission_earned', amount: 200000 });
+    await postLedgerEntry(db, { affiliate_id: affiliate.id, entry_type: 'payout_reserved', amount: 200000 });
+    await postLedgerEntry(db, { affiliate_id: affiliate.id, entry_type: 'payout_paid', amount: 200000 });
+    await postLedgerEntry(db, { affiliate_id: affiliate.id, entry_type: 'commission_reversed', amount: 80000 });
+
+    const result = await getAffiliateStats({ affiliate_id: affiliate.id });
+
+    expect(result.total_commission_earned).toEqual(120000);
+    expect(result.total_commission_paid).toEqual(200000);
+    expect(result.commission_balance).toEqual(-80000);
+    expect(result.available_for_payout).toEqual(0);
+  });
+
+  it('should hold back commission still in its hold period', async () => {
+    const { affiliate, program } = await createTestData();
+    const confirmedAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+
+    const registrations = await db.insert(studentRegistrationsTable).values([
+      {
+        affiliate_id: affiliate.id,
+        program_id: program.id,
+        student_name: 'Earlier Student',
+        student_email: 'earlier@test.com',
+        student_phone: '081234567892',
+        referral_code: 'TEST001',
+        status: 'confirmed',
+        registration_fee: '1000000.00',
+        commission_amount: '250000.00',
+        confirmed_at: new Date('2024-01-10')
+      },
+      {
+        affiliate_id: affiliate.id,
+        program_id: program.id,
+        student_name: 'Recent Student',
+        student_email: 'recent@test.com',
+        student_phone: '081234567893',
+        referral_code: 'TEST001',
+        status: 'confirmed',
+        registration_fee: '1000000.00',
+        commission_amount: '100000.00',
+        confirmed_at: confirmedAt
+      }
+    ]).returning().execute();
+    await backfillLedger();
+
+    const result = await getAffiliateStats({ affiliate_id: affiliate.id });
+
+    expect(result.commission_balance).toEqual(350000);
+    expect(result.locked_commission).toEqual(100000);
+    expect(result.available_for_payout).toEqual(250000);
+    expect(result.commission_unlocks).toHaveLength(1);
+    expect(result.commission_unlocks[0].registration_id).toEqual(registrations[1].id);
+    expect(result.commission_unlocks[0].student_name).toEqual('Recent Student');
+    expect(result.commission_unlocks[0].unlocks_at).toEqual(new Date(confirmedAt.getTime() + 14 * 24 * 60 * 60 * 1000));
+  });
+});
+
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, affiliatesTable, affiliateTiersTable, programsTable, studentRegistrationsTable } from '../db/schema';
+import { type TierSettings } from '../schema';
+import { getAffiliateTierProgress } from '../handlers/get_affiliate_tier_progress';
+import { eq } from 'drizzle-orm';
+
+describe('getAffiliateTierProgress', () => {
+  let affiliateId: number;
+  let programId: number;
+  let silverId: number;
+
+  const settings: TierSettings = { period_days: 30 };
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
+
+    const user = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' })
+      .returning()
+      .execute();
+
+    const affiliate = await db.insert(affiliatesTable)
+      .values({ user_id: user[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliate[0].id;
+
+    const program = await db.insert(programsTable)
+      .values({ name: 'TOEFL Online', category: 'online', location: 'online', price: '1500000.00', is_active: true })
+      .returning()
+      .execute();
+    programId = program[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const createTiers = async () => {
+    const tiers = await db.insert(affiliateTiersTable)
+      .values([
+        { name: 'Silver', level: 2, commission_rate: '0.1200', min_confirmed_registrations: 5 },
+        { name: 'Gold', level: 3, commission_rate: '0.1500', min_confirmed_registrations: 15 }
+      ])
+      .returning()
+      .execute();
+    silverId = tiers[0].id;
+  };
+
+  it('should report no tiers when none are configured', async () => {
+    const result = await getAffiliateTierProgress(affiliateId, settings);
+
+    expect(result.current_tier).toBeNull();
+    expect(result.next_tier).toBeNull();
+    expect(result.period_days).toEqual(30);
+    expect(result.confirmed_registrations).toEqual(0);
+    expect(result.revenue).toEqual(0);
+    expect(result.evaluated_at).toBeNull();
+  });
+
+  it('should point affiliates without a tier at the lowest tier', async () => {
+    await createTiers();
+
+    const result = await getAffiliateTierProgress(affiliateId, settings);
+
+    expect(result.current_tier).toBeNull();
+    expect(result.next_tier?.name).toEqual('Silver');
+    expect(result.next_tier?.commission_rate).toEqual(0.12);
+  });
+
+  it('should report the current tier, the next one and live performance', async () => {
+    await createTiers();
+    await db.update(affiliatesTable)
+      .set({ tier_id: silverId, tier_evaluated_at: new Date() })
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+    await db.insert(studentRegistrationsTable)
+      .values([
+        {
+          affiliate_id: affiliateId,
+          program_id: programId,
+          student_name: 'Recent',
+          student_email: 'recent@example.com',
+          student_phone: '081200000000',
+          referral_code: 'EBREF001',
+          status: 'confirmed',
+          registration_fee: '1500000.00',
+          commission_amount: '180000.00',
+          confirmed_at: new Date()
+        },
+        {
+          affiliate_id: affiliateId,
+          program_id: programId,
+          student_name: 'Pending',
+          student_email: 'pending@example.com',
+          student_phone: '081200000001',
+          referral_code: 'EBREF001',
+          status: 'pending',
+          registration_fee: '1500000.00',
+          commission_amount: '180000.00'
+        }
+      ])
+      .execute();
+
+    const result = await getAffiliateTierProgress(affiliateId, settings);
+
+    expect(result.current_tier?.name).toEqual('Silver');
+    expect(result.next_tier?.name).toEqual('Gold');
+    expect(result.confirmed_registrations).toEqual(1);
+    expect(result.revenue).toEqual(1500000);
+    expect(result.evaluated_at).toBeInstanceOf(Date);
+  });
+
+  it('should throw for a non-existent affiliate', async () => {
+    await expect(getAffiliateTierProgress(99999, settings)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { affiliateTiersTable } from '../db/schema';
+import { getAffiliateTiers } from '../handlers/get_affiliate_tiers';
+
+describe('getAffiliateTiers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty list without tiers', async () => {
+    const result = await getAffiliateTiers();
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return tiers ordered by level with numeric fields', async () => {
+    await db.insert(affiliateTiersTable)
+      .values([
+        { name: 'Gold', level: 3, commission_rate: '0.1500', min_confirmed_registrations: 15 },
+        { name: 'Bronze', level: 1, commission_rate: '0.1000' },
+        { name: 'Silver', level: 2, commission_rate: '0.1200', min_revenue: '10000000.00' }
+      ])
+      .execute();
+
+    const result = await getAffiliateTiers();
+
+    expect(result.map(tier => tier.name)).toEqual(['Bronze', 'Silver', 'Gold']);
+    expect(typeof result[0].commission_rate).toBe('number');
+    expect(result[0].commission_rate).toEqual(0.1);
+    expect(result[1].min_revenue).toEqual(10000000);
+    expect(result[2].min_revenue).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, auditLogTable } from '../db/schema';
+import { getAuditLogInputSchema } from '../schema';
+import { getAuditLog } from '../handlers/get_audit_log';
+
+describe('getAuditLog', () => {
+  let adminUserId: number;
+  let otherAdminId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin User', role: 'admin' },
+        { email: 'finance@test.com', password_hash: 'hashed_password', full_name: 'Finance Team', role: 'admin' }
+      ])
+      .returning()
+      .execute();
+    adminUserId = users[0].id;
+    otherAdminId = users[1].id;
+
+    await db.insert(auditLogTable)
+      .values([
+        {
+          actor_id: adminUserId, procedure: 'updateAffiliateStatus', entity_type: 'affiliate', entity_id: 1,
+          changes: { status: { before: 'pending', after: 'approved' } }, ip_hash: 'hash-1', created_at: new Date('2024-01-10')
+        },
+        {
+          actor_id: otherAdminId, procedure: 'updatePayoutStatus', entity_type: 'payout', entity_id: 4,
+          changes: { status: { before: 'processing', after: 'completed' } }, ip_hash: 'hash-2', created_at: new Date('2024-02-10')
+        },
+        { actor_id: null, procedure: 'registerStudent', entity_type: 'registration', entity_id: 7, created_at: new Date('2024-03-10') }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should return every entry newest first with the actor name', async () => {
+    const result = await getAuditLog(getAuditLogInputSchema.parse({}));
+
+    expect(result.map(entry => entry.procedure)).toEqual(['registerStudent', 'updatePayoutStatus', 'updateAffiliateStatus']);
+    expect(result[0].actor_name).toBeNull();
+    expect(result[1].actor_name).toEqual('Finance Team');
+    expect(result[1].changes).toEqual({ status: { before: 'processing', after: 'completed' } });
+    expect(result[1].ip_hash).toEqual('hash-2');
+    expect(result[1].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should filter by entity', async () => {
+    const byType = await getAuditLog(getAuditLogInputSchema.parse({ entity_type: 'payout' }));
+    expect(byType.map(entry => entry.entity_id)).toEqual([4]);
+
+    const byId = await getAuditLog(getAuditLogInputSchema.parse({ entity_type: 'payout', entity_id: 5 }));
+    expect(byId).toHaveLength(0);
+  });
+
+  it('should filter by actor name or email', async () => {
+    const byName = await getAuditLog(getAuditLogInputSchema.parse({ actor: 'finance' }));
+    expect(byName.map(entry => entry.procedure)).toEqual(['updatePayoutStatus']);
+
+    const byEmail = await getAuditLog(getAuditLogInputSchema.parse({ actor: 'admin@test' }));
+    expect(byEmail.map(entry => entry.procedure)).toEqual(['updateAffiliateStatus']);
+  });
+
+  it('should filter by date range', async () => {
+    const result = await getAuditLog(getAuditLogInputSchema.parse({
+      start_date: new Date('2024-02-01'),
+      end_date: new Date('2024-03-01')
+    }));
+
+    expect(result.map(entry => entry.procedure)).toEqual(['updatePayoutStatus']);
+  });
+
+  it('should limit the number of entries', async () => {
+    const result = await getAuditLog(getAuditLogInputSchema.parse({ limit: 2 }));
+
+    expect(result.map(entry => entry.procedure)).toEqual(['registerStudent', 'updatePayoutStatus']);
+  });
+});
@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable } from '../db/schema';
+import { getBranches } from '../handlers/get_branches';
+
+describe('getBranches', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty list without branches', async () => {
+    expect(await getBranches()).toEqual([]);
+  });
+
+  it('should list open and closed branches by name', async () => {
+    await db.insert(branchesTable)
+      .values([
+        { code: 'pare', name: 'Pare' },
+        { code: 'malang', name: 'Malang', is_active: false },
+        { code: 'online', name: 'Online' }
+      ])
+      .execute();
+
+    const result = await getBranches();
+
+    expect(result.map(branch => branch.code)).toEqual(['malang', 'online', 'pare']);
+    expect(result[0].is_active).toBe(false);
+  });
+});
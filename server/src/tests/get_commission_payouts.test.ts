@@ -394,8 +394,7 @@ describe('getCommissionPayouts', () => {
         affiliate_id: testAffiliateId,
         amount: '250000.50',
         method: 'ewallet',
-        bank_details: '{"bank": "BCA", "account": "1234567890"}',
-        ewallet_details: '{"provider": "OVO", "number": "081234567890"}',
+        destination: { account_type: 'ewallet' as const, bank_code: null, ewallet_provider: 'ovo' as const, provider_name: 'OVO', account_number: '081234567890', account_holder: 'Test User' },
         status: 'completed',
         notes: 'Test payout notes'
       })
@@ -417,8 +416,8 @@ describe('getCommissionPayouts', () => {
     expect(payout.amount).toBe(250000.5);
     expect(typeof payout.amount).toBe('number');
     expect(payout.method).toBe('ewallet');
-    expect(payout.bank_details).toBe('{"bank": "BCA", "account": "1234567890"}');
-    expect(payout.ewallet_details).toBe('{"provider": "OVO", "number": "081234567890"}');
+    expect(payout.destination).toEqual({ account_type: 'ewallet' as const, bank_code: null, ewallet_provider: 'ovo' as const, provider_name: 'OVO', account_number: '081234567890', account_holder: 'Test User' });
+    expect(payout.payout_account_id).toBeNull();
     expect(payout.status).toBe('completed');
     expect(payout.processed_by).toBeNull();
     expect(payout.processed_at).toBeNull();
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, commissionRulesTable } from '../db/schema';
+import { getCommissionRules } from '../handlers/get_commission_rules';
+
+describe('getCommissionRules', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'malang', name: 'Malang' }]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should return an empty list without rules', async () => {
+    const result = await getCommissionRules();
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return rules newest first with numeric values', async () => {
+    await db.insert(commissionRulesTable)
+      .values([
+        { name: 'First', commission_type: 'percentage', value: '0.1000' },
+        { name: 'Second', commission_type: 'flat', value: '50000.0000', location: 'malang' }
+      ])
+      .execute();
+
+    const result = await getCommissionRules();
+
+    expect(result).toHaveLength(2);
+    expect(result[0].name).toEqual('Second');
+    expect(typeof result[0].value).toBe('number');
+    expect(result[0].value).toEqual(50000);
+    expect(result[0].location).toEqual('malang');
+    expect(result[1].value).toEqual(0.1);
+  });
+});
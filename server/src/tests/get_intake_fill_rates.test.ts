@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, programsTable, programIntakesTable, studentRegistrationsTable } from '../db/schema';
+import { getIntakeFillRates } from '../handlers/get_intake_fill_rates';
+
+describe('getIntakeFillRates', () => {
+  let pareId: number;
+  let malangId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'pare', name: 'Pare' }, { code: 'malang', name: 'Malang' }]).execute();
+
+    const programs = await db.insert(programsTable)
+      .values([
+        { name: 'Pare 2 Weeks', category: 'offline_pare', location: 'pare', price: '2000000.00', duration_weeks: 2 },
+        { name: 'Malang Camp', category: 'branch', location: 'malang', price: '1500000.00', duration_weeks: 1 }
+      ])
+      .returning()
+      .execute();
+    pareId = programs[0].id;
+    malangId = programs[1].id;
+
+    const intakes = await db.insert(programIntakesTable)
+      .values([
+        { program_id: pareId, start_date: new Date('2025-01-05'), end_date: new Date('2025-01-19'), capacity: 4, registration_deadline: new Date('2024-12-29') },
+        { program_id: pareId, start_date: new Date('2030-03-02'), end_date: new Date('2030-03-16'), capacity: 10, registration_deadline: new Date('2030-02-23') },
+        { program_id: malangId, start_date: new Date('2030-04-06'), end_date: new Date('2030-04-13'), capacity: 5, registration_deadline: new Date('2030-03-30') }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(studentRegistrationsTable)
+      .values(['confirmed', 'confirmed', 'confirmed', 'refunded'].map((status, index) => ({
+        program_id: pareId,
+        intake_id: intakes[0].id,
+        student_name: `Student ${index + 1}`,
+        student_email: `student${index + 1}@test.com`,
+        student_phone: '081234567890',
+        status: status as 'confirmed' | 'refunded',
+        registration_fee: '2000000.00',
+        commission_amount: '0'
+      })))
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list every intake, closed ones included, latest first', async () => {
+    const result = await getIntakeFillRates();
+
+    expect(result.map(intake => intake.program_name)).toEqual(['Malang Camp', 'Pare 2 Weeks', 'Pare 2 Weeks']);
+
+    const closed = result[2];
+    expect(closed.is_open).toBe(false);
+    expect(closed.seats_taken).toEqual(3);
+    expect(closed.confirmed_count).toEqual(3);
+    expect(closed.fill_rate).toEqual(0.75);
+  });
+
+  it('should filter by program', async () => {
+    const result = await getIntakeFillRates({ program_id: malangId });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].program_id).toEqual(malangId);
+    expect(result[0].fill_rate).toEqual(0);
+  });
+});
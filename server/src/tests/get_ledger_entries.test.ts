@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable } from '../db/schema';
+import { getLedgerEntries } from '../handlers/get_ledger_entries';
+import { postLedgerEntry } from '../helpers/ledger';
+
+describe('getLedgerEntries', () => {
+  let affiliateId: number;
+  let otherAffiliateId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' },
+        { email: 'other@test.com', password_hash: 'hashed_password', full_name: 'Other Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values([
+        { user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' },
+        { user_id: users[1].id, referral_code: 'EBREF002', commission_rate: '0.1000', status: 'approved' }
+      ])
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+    otherAffiliateId = affiliates[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return an empty list without entries', async () => {
+    expect(await getLedgerEntries()).toEqual([]);
+  });
+
+  it('should return entries newest first with numeric amounts', async () => {
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 100000.25, created_at: new Date('2024-01-01') });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_reserved', amount: 100000, created_at: new Date('2024-02-01') });
+
+    const result = await getLedgerEntries(affiliateId);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].entry_type).toEqual('payout_reserved');
+    expect(result[1].entry_type).toEqual('commission_earned');
+    expect(typeof result[1].amount).toBe('number');
+    expect(result[1].amount).toEqual(100000.25);
+  });
+
+  it('should filter by affiliate', async () => {
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 100000 });
+    await postLedgerEntry(db, { affiliate_id: otherAffiliateId, entry_type: 'adjustment', amount: 5000 });
+
+    const result = await getLedgerEntries(otherAffiliateId);
+    expect(result).toHaveLength(1);
+    expect(result[0].affiliate_id).toEqual(otherAffiliateId);
+
+    expect(await getLedgerEntries()).toHaveLength(2);
+  });
+});
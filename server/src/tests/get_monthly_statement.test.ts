@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, affiliatesTable, programsTable, studentRegistrationsTable, commissionPayoutsTable } from '../db/schema';
+import { postLedgerEntry } from '../helpers/ledger';
+import { eq } from 'drizzle-orm';
+import { getMonthlyStatement } from '../handlers/get_monthly_statement';
+
+describe('getMonthlyStatement', () => {
+  let affiliateId: number;
+  let registrationIds: number[];
+  let payoutId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'pare', name: 'Pare' }]).execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Siti Rahma', role: 'affiliate' })
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+
+    const programs = await db.insert(programsTable)
+      .values({ name: 'Pare 2 Weeks', category: 'offline_pare', location: 'pare', price: '2000000.00', is_active: true })
+      .returning()
+      .execute();
+
+    const registration = {
+      affiliate_id: affiliateId,
+      program_id: programs[0].id,
+      student_email: 'student@test.com',
+      student_phone: '081234567890',
+      referral_code: 'EBREF001',
+      status: 'confirmed' as const,
+      registration_fee: '2000000.00',
+      commission_amount: '200000.00'
+    };
+    const registrations = await db.insert(studentRegistrationsTable)
+      .values([
+        { ...registration, student_name: 'Budi Santoso' },
+        { ...registration, student_name: 'Ani Lestari' },
+        { ...registration, student_name: 'Dewi Anggraini', status: 'refunded' }
+      ])
+      .returning()
+      .execute();
+    registrationIds = registrations.map(row => row.id);
+
+    const payouts = await db.insert(commissionPayoutsTable)
+      .values({
+        affiliate_id: affiliateId,
+        amount: '250000.00',
+        method: 'bank_transfer',
+        status: 'completed',
+        tax_type: 'pph21',
+        tax_base: '125000.00',
+        tax_rate: '0.0500',
+        tax_amount: '6250.00'
+      })
+      .returning()
+      .execute();
+    payoutId = payouts[0].id;
+
+    // April leaves 200,000 unpaid; May earns two commissions, claws one back, debits 10,000 and pays out 250,000
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 200000, registration_id: registrationIds[2], created_at: new Date(2026, 3, 20) });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 200000, registration_id: registrationIds[0], created_at: new Date(2026, 4, 2) });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 200000, registration_id: registrationIds[1], created_at: new Date(2026, 4, 6) });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_reversed', amount: 200000, registration_id: registrationIds[2], created_at: new Date(2026, 4, 8) });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'adjustment', amount: -10000, description: 'Duplicate bonus', created_at: new Date(2026, 4, 9) });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_reserved', amount: 250000, payout_id: payoutId, created_at: new Date(2026, 4, 10) });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_paid', amount: 250000, payout_id: payoutId, created_at: new Date(2026, 4, 12) });
+    // June is outside the statement
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'adjustment', amount: 50000, created_at: new Date(2026, 5, 1) });
+  });
+
+  afterEach(resetDB);
+
+  it('should list the month from the opening to the closing balance as CSV', async () => {
+    const result = await getMonthlyStatement({ affiliate_id: affiliateId, period: '2026-05', format: 'csv' });
+
+    expect(result.filename).toEqual('statement-EBREF001-2026-05.csv');
+    expect(result.content_type).toEqual('text/csv;charset=utf-8');
+    expect(result.statement_count).toEqual(1);
+
+    const lines = result.content.trimEnd().split('\r\n');
+    expect(lines).toHaveLength(8);
+    expect(lines[0]).toEqual('Referral Code,Affiliate,Period,Date,Type,Reference,Student,Program,Description,Amount,Tax Withheld,Transferred');
+    expect(lines[1]).toEqual('EBREF001,Siti Rahma,2026-05,2026-05-01,Opening balance,,,,,200000.00,,');
+    expect(lines[2]).toEqual(`EBREF001,Siti Rahma,2026-05,2026-05-02,Commission,Registration #${registrationIds[0]},Budi Santoso,Pare 2 Weeks,,200000.00,,`);
+    expect(lines[4]).toContain(`Clawback,Registration #${registrationIds[2]},Dewi Anggraini,Pare 2 Weeks,,-200000.00`);
+    expect(lines[5]).toContain('Adjustment,,,,Duplicate bonus,-10000.00');
+    expect(lines[6]).toEqual(`EBREF001,Siti Rahma,2026-05,2026-05-12,Payout,Payout #${payoutId},,,,-250000.00,6250.00,243750.00`);
+    // 200,000 + 400,000 - 200,000 - 10,000 - 250,000
+    expect(lines[7]).toEqual('EBREF001,Siti Rahma,2026-05,2026-05-31,Closing balance,,,,,140000.00,,');
+  });
+
+  it('should render the statement as a PDF', async () => {
+    const result = await getMonthlyStatement({ affiliate_id: affiliateId, period: '2026-05', format: 'pdf' });
+
+    expect(result.filename).toEqual('statement-EBREF001-2026-05.pdf');
+    expect(result.content_type).toEqual('application/pdf');
+    expect(result.content.startsWith('%PDF-1.4')).toBe(true);
+    expect(result.content.endsWith('%%EOF\n')).toBe(true);
+    expect(result.content).toContain('(Siti Rahma \\(EBREF001\\)) Tj');
+    expect(result.content).toContain('(Budi Santoso) Tj');
+    expect(result.content).toContain('(Rp 140.000) Tj');
+  });
+
+  it('should start the next month from the closing balance', async () => {
+    const result = await getMonthlyStatement({ affiliate_id: affiliateId, period: '2026-06', format: 'csv' });
+    const lines = result.content.trimEnd().split('\r\n');
+
+    expect(lines[1]).toContain('Opening balance,,,,,140000.00');
+    expect(lines[lines.length - 1]).toContain('Closing balance,,,,,190000.00');
+  });
+
+  it('should keep formula-like text from running in spreadsheet tools', async () => {
+    await db.update(studentRegistrationsTable)
+      .set({ student_name: '=HYPERLINK("http://evil.test","Budi")' })
+      .where(eq(studentRegistrationsTable.id, registrationIds[0]))
+      .execute();
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'adjustment', amount: -5000, description: '@SUM(A1:A9)', created_at: new Date(2026, 4, 20) });
+
+    const result = await getMonthlyStatement({ affiliate_id: affiliateId, period: '2026-05', format: 'csv' });
+    const lines = result.content.trimEnd().split('\r\n');
+
+    expect(lines[2]).toContain(`Registration #${registrationIds[0]},"'=HYPERLINK(""http://evil.test"",""Budi"")",Pare 2 Weeks`);
+    // Negative amounts stay numbers
+    expect(lines[7]).toContain("Adjustment,,,,'@SUM(A1:A9),-5000.00");
+  });
+
+  it('should refuse months that have not started', async () => {
+    const next = new Date();
+    next.setMonth(next.getMonth() + 1, 1);
+    const period = `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}`;
+
+    await expect(getMonthlyStatement({ affiliate_id: affiliateId, period, format: 'csv' }))
+      .rejects.toThrow(`There is no statement for ${period} yet`);
+  });
+
+  it('should throw for unknown affiliates', async () => {
+    await expect(getMonthlyStatement({ affiliate_id: affiliateId + 100, period: '2026-05', format: 'csv' }))
+      .rejects.toThrow(`Affiliate with ID ${affiliateId + 100} not found`);
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notificationsTable } from '../db/schema';
+import { getNotifications } from '../handlers/get_notifications';
+
+describe('getNotifications', () => {
+  let userIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'first@test.com', password_hash: 'hashed_password', full_name: 'First Affiliate', role: 'affiliate' },
+        { email: 'second@test.com', password_hash: 'hashed_password', full_name: 'Second Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    userIds = users.map(user => user.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should return only the user\'s notifications, newest first', async () => {
+    await db.insert(notificationsTable)
+      .values([
+        { user_id: userIds[0], title: 'Older', message: 'First message', created_at: new Date('2024-01-01T00:00:00Z') },
+        { user_id: userIds[0], title: 'Newer', message: 'Second message', created_at: new Date('2024-02-01T00:00:00Z') },
+        { user_id: userIds[1], title: 'Someone else', message: 'Not yours' }
+      ])
+      .execute();
+
+    const result = await getNotifications(userIds[0]);
+
+    expect(result.map(notification => notification.title)).toEqual(['Newer', 'Older']);
+    expect(result[0].read_at).toBeNull();
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should return an empty list when there are none', async () => {
+    expect(await getNotifications(userIds[1])).toEqual([]);
+  });
+});
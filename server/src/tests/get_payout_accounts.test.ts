@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, payoutAccountsTable } from '../db/schema';
+import { getPayoutAccounts } from '../handlers/get_payout_accounts';
+import { insertPayoutAccount } from '../helpers/payout_accounts';
+import { eq } from 'drizzle-orm';
+
+describe('getPayoutAccounts', () => {
+  let affiliateIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'first@test.com', password_hash: 'hashed_password', full_name: 'First Affiliate', role: 'affiliate' },
+        { email: 'second@test.com', password_hash: 'hashed_password', full_name: 'Second Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values([
+        { user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' },
+        { user_id: users[1].id, referral_code: 'EBREF002', commission_rate: '0.1000', status: 'approved' }
+      ])
+      .returning()
+      .execute();
+    affiliateIds = affiliates.map(affiliate => affiliate.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should list an affiliate\'s active accounts with the default first', async () => {
+    const bank = await insertPayoutAccount(db, affiliateIds[0], {
+      account_type: 'bank', bank_code: '008', account_number: '1400012345', account_holder: 'First Affiliate'
+    }, false);
+    const ewallet = await insertPayoutAccount(db, affiliateIds[0], {
+      account_type: 'ewallet', ewallet_provider: 'dana', account_number: '081234567890', account_holder: 'First Affiliate'
+    }, true);
+    const removed = await insertPayoutAccount(db, affiliateIds[0], {
+      account_type: 'bank', bank_code: '014', account_number: '1234567890', account_holder: 'First Affiliate'
+    }, false);
+    await db.update(payoutAccountsTable).set({ is_active: false }).where(eq(payoutAccountsTable.id, removed.id)).execute();
+    await insertPayoutAccount(db, affiliateIds[1], {
+      account_type: 'bank', bank_code: '002', account_number: '002101555', account_holder: 'Second Affiliate'
+    }, false);
+
+    const result = await getPayoutAccounts(affiliateIds[0]);
+
+    expect(result.map(account => account.id)).toEqual([ewallet.id, bank.id]);
+    expect(result[0].ewallet_provider).toEqual('dana');
+    expect(result[1].bank_code).toEqual('008');
+  });
+
+  it('should list every affiliate\'s accounts without an affiliate', async () => {
+    await insertPayoutAccount(db, affiliateIds[1], {
+      account_type: 'bank', bank_code: '002', account_number: '002101555', account_holder: 'Second Affiliate'
+    }, false);
+    await insertPayoutAccount(db, affiliateIds[0], {
+      account_type: 'bank', bank_code: '008', account_number: '1400012345', account_holder: 'First Affiliate'
+    }, false);
+
+    const result = await getPayoutAccounts();
+
+    expect(result.map(account => account.affiliate_id)).toEqual(affiliateIds);
+  });
+});
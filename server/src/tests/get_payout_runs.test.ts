@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, commissionPayoutsTable, payoutRunsTable } from '../db/schema';
+import { getPayoutRuns } from '../handlers/get_payout_runs';
+
+describe('getPayoutRuns', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty list without runs', async () => {
+    expect(await getPayoutRuns()).toEqual([]);
+  });
+
+  it('should return runs newest first with their totals', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin User', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[1].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+
+    const runs = await db.insert(payoutRunsTable)
+      .values([
+        { created_by: users[0].id, status: 'partially_failed', completed_by: users[0].id, completed_at: new Date() },
+        { created_by: users[0].id }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(commissionPayoutsTable)
+      .values([
+        { affiliate_id: affiliates[0].id, amount: '100000.00', method: 'bank_transfer', status: 'completed', payout_run_id: runs[0].id },
+        { affiliate_id: affiliates[0].id, amount: '150000.50', method: 'bank_transfer', status: 'failed', payout_run_id: runs[0].id },
+        { affiliate_id: affiliates[0].id, amount: '200000.00', method: 'ewallet', status: 'processing', payout_run_id: runs[1].id },
+        { affiliate_id: affiliates[0].id, amount: '300000.00', method: 'ewallet', status: 'pending' }
+      ])
+      .execute();
+
+    const result = await getPayoutRuns();
+
+    expect(result.map(run => run.id)).toEqual([runs[1].id, runs[0].id]);
+    expect(result[0]).toMatchObject({ status: 'processing', payout_count: 1, failed_count: 0, total_amount: 200000 });
+    expect(result[1]).toMatchObject({ status: 'partially_failed', payout_count: 2, failed_count: 1, total_amount: 250000.5 });
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, affiliatesTable, programsTable, commissionRulesTable } from '../db/schema';
+import { getProgramCommissions } from '../handlers/get_program_commissions';
+
+describe('getProgramCommissions', () => {
+  let affiliateId: number;
+  let onlineProgramId: number;
+  let pareProgramId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }, { code: 'pare', name: 'Pare' }]).execute();
+
+    const user = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' })
+      .returning()
+      .execute();
+
+    const affiliate = await db.insert(affiliatesTable)
+      .values({ user_id: user[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliate[0].id;
+
+    const programs = await db.insert(programsTable)
+      .values([
+        { name: 'TOEFL Online', category: 'online', location: 'online', price: '1000000.00', is_active: true },
+        { name: 'Pare 1 Month', category: 'offline_pare', location: 'pare', price: '3000000.00', is_active: true },
+        { name: 'Retired', category: 'online', location: 'online', price: '800000.00', is_active: false }
+      ])
+      .returning()
+      .execute();
+    onlineProgramId = programs[0].id;
+    pareProgramId = programs[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should resolve the commission for every active program', async () => {
+    const rule = await db.insert(commissionRulesTable)
+      .values({ name: 'Pare flat', commission_type: 'flat', value: '400000.0000', location: 'pare' })
+      .returning()
+      .execute();
+
+    const result = await getProgramCommissions(affiliateId);
+
+    expect(result).toHaveLength(2);
+    const online = result.find(p => p.program_id === onlineProgramId)!;
+    const pare = result.find(p => p.program_id === pareProgramId)!;
+    expect(online).toEqual({ program_id: onlineProgramId, commission_amount: 100000, commission_rule_id: null });
+    expect(pare).toEqual({ program_id: pareProgramId, commission_amount: 400000, commission_rule_id: rule[0].id });
+  });
+
+  it('should throw for a non-existent affiliate', async () => {
+    await expect(getProgramCommissions(99999)).rejects.toThrow(/not found/i);
+  });
+});
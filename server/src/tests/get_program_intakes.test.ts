@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, programsTable, programIntakesTable, studentRegistrationsTable } from '../db/schema';
+import { getProgramIntakes } from '../handlers/get_program_intakes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getProgramIntakes', () => {
+  let programId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'pare', name: 'Pare' }]).execute();
+
+    const programs = await db.insert(programsTable)
+      .values({ name: 'Pare 2 Weeks', category: 'offline_pare', location: 'pare', price: '2000000.00', duration_weeks: 2 })
+      .returning()
+      .execute();
+    programId = programs[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should list open intakes soonest first with the seats left', async () => {
+    const now = Date.now();
+    const intakes = await db.insert(programIntakesTable)
+      .values([
+        { program_id: programId, start_date: new Date(now + 40 * DAY_MS), end_date: new Date(now + 54 * DAY_MS), capacity: 20, registration_deadline: new Date(now + 33 * DAY_MS) },
+        { program_id: programId, start_date: new Date(now + 10 * DAY_MS), end_date: new Date(now + 24 * DAY_MS), capacity: 2, registration_deadline: new Date(now + 3 * DAY_MS) },
+        { program_id: programId, start_date: new Date(now - 5 * DAY_MS), end_date: new Date(now + 9 * DAY_MS), capacity: 20, registration_deadline: new Date(now - 12 * DAY_MS) }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(studentRegistrationsTable)
+      .values(['confirmed', 'pending', 'waitlisted', 'cancelled'].map((status, index) => ({
+        program_id: programId,
+        intake_id: intakes[1].id,
+        student_name: `Student ${index + 1}`,
+        student_email: `student${index + 1}@test.com`,
+        student_phone: '081234567890',
+        status: status as 'confirmed' | 'pending' | 'waitlisted' | 'cancelled',
+        registration_fee: '2000000.00',
+        commission_amount: '0'
+      })))
+      .execute();
+
+    const result = await getProgramIntakes({ program_id: programId });
+
+    expect(result.map(intake => intake.id)).toEqual([intakes[1].id, intakes[0].id]);
+    expect(result[0].seats_taken).toEqual(2);
+    expect(result[0].confirmed_count).toEqual(1);
+    expect(result[0].waitlisted_count).toEqual(1);
+    expect(result[0].seats_left).toEqual(0);
+    expect(result[0].is_open).toBe(true);
+    expect(result[1].seats_left).toEqual(20);
+  });
+
+  it('should return nothing for programs without intakes', async () => {
+    expect(await getProgramIntakes({ program_id: programId })).toEqual([]);
+  });
+});
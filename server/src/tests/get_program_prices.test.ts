@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable } from '../db/schema';
+import { createProgram } from '../handlers/create_program';
+import { updateProgram } from '../handlers/update_program';
+import { getProgramPrices } from '../handlers/get_program_prices';
+
+describe('getProgramPrices', () => {
+  let adminId: number;
+  let programId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Rina Admin', role: 'admin' })
+      .returning()
+      .execute();
+    adminId = users[0].id;
+
+    const program = await createProgram({
+      name: 'Online TOEFL',
+      description: null,
+      category: 'online',
+      location: 'online',
+      price: 1500000,
+      duration_weeks: 8,
+      is_active: true
+    }, adminId);
+    programId = program.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should list prices newest first with who set them', async () => {
+    await updateProgram({ id: programId, price: 1750000 }, adminId);
+
+    const result = await getProgramPrices({ program_id: programId });
+
+    expect(result).toHaveLength(2);
+    expect(result[0].price).toEqual(1750000);
+    expect(result[0].changed_by_name).toEqual('Rina Admin');
+    expect(result[1].price).toEqual(1500000);
+    expect(result[0].effective_from.getTime()).toBeGreaterThanOrEqual(result[1].effective_from.getTime());
+  });
+
+  it('should return nothing for unknown programs', async () => {
+    expect(await getProgramPrices({ program_id: programId + 100 })).toEqual([]);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { programsTable } from '../db/schema';
+import { branchesTable, programsTable } from '../db/schema';
 import { type CreateProgramInput } from '../schema';
 import { getPrograms, type GetProgramsFilters } from '../handlers/get_programs';
 
@@ -46,7 +46,15 @@ const testPrograms: CreateProgramInput[] = [
 ];
 
 describe('getPrograms', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([
+      { code: 'online', name: 'Online' },
+      { code: 'pare', name: 'Pare' },
+      { code: 'malang', name: 'Malang' },
+      { code: 'sidoarjo', name: 'Sidoarjo' }
+    ]).execute();
+  });
   afterEach(resetDB);
 
   it('should return all programs when no filters applied', async () => {
@@ -71,6 +79,22 @@ describe('getPrograms', () => {
     expect(result[0].created_at).toBeInstanceOf(Date);
   });
 
+  it('should leave out archived programs unless asked for', async () => {
+    await db.insert(programsTable)
+      .values([
+        { ...testPrograms[0], price: testPrograms[0].price.toString() },
+        { ...testPrograms[3], price: testPrograms[3].price.toString(), archived_at: new Date() }
+      ])
+      .execute();
+
+    const listed = await getPrograms();
+    expect(listed.map(program => program.name)).toEqual(['Online TOEFL Prep']);
+
+    const all = await getPrograms({ include_archived: true });
+    expect(all).toHaveLength(2);
+    expect(all.find(program => program.name === 'Inactive Program')?.archived_at).toBeInstanceOf(Date);
+  });
+
   it('should filter by active status', async () => {
     // Create test programs
     for (const program of testPrograms) {
@@ -148,6 +172,23 @@ describe('getPrograms', () => {
     expect(result[0].location).toEqual('pare');
   });
 
+  it('should filter by branches added later', async () => {
+    await db.insert(branchesTable).values({ code: 'kediri', name: 'Kediri' }).execute();
+    for (const program of [...testPrograms, { ...testPrograms[0], name: 'Kediri Speaking Class', location: 'kediri' }]) {
+      await db.insert(programsTable)
+        .values({
+          ...program,
+          price: program.price.toString()
+        })
+        .execute();
+    }
+
+    const result = await getPrograms({ location: 'kediri' });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].name).toEqual('Kediri Speaking Class');
+  });
+
   it('should apply multiple filters', async () => {
     // Create test programs
     for (const program of testPrograms) {
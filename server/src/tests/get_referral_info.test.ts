@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable } from '../db/schema';
+import { getReferralInfo } from '../handlers/get_referral_info';
+
+describe('getReferralInfo', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'affiliate@test.com',
+        password_hash: 'hashed_password',
+        full_name: 'Siti Rahma',
+        phone: '081234567890',
+        role: 'affiliate'
+      })
+      .returning()
+      .execute();
+    userId = user[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const createAffiliate = async (status: 'pending' | 'approved' | 'rejected' | 'suspended') => {
+    const result = await db.insert(affiliatesTable)
+      .values({
+        user_id: userId,
+        referral_code: 'EBSITI01',
+        bank_name: 'BCA',
+        bank_account_number: '1234567890',
+        bank_account_name: 'Siti Rahma',
+        commission_rate: '0.1000',
+        status
+      })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should return the public view of an approved affiliate', async () => {
+    await createAffiliate('approved');
+
+    const result = await getReferralInfo('EBSITI01');
+
+    expect(result).toEqual({
+      referral_code: 'EBSITI01',
+      affiliate_name: 'Siti Rahma'
+    });
+  });
+
+  it('should not expose payout or account details', async () => {
+    await createAffiliate('approved');
+
+    const result = await getReferralInfo('EBSITI01');
+
+    expect(result).not.toHaveProperty('bank_account_number');
+    expect(result).not.toHaveProperty('commission_rate');
+    expect(result).not.toHaveProperty('user_id');
+    expect(result).not.toHaveProperty('affiliate_id');
+  });
+
+  it('should return null for affiliates that are not approved', async () => {
+    await createAffiliate('suspended');
+
+    const result = await getReferralInfo('EBSITI01');
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for an unknown referral code', async () => {
+    const result = await getReferralInfo('UNKNOWN');
+
+    expect(result).toBeNull();
+  });
+});
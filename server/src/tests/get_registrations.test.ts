@@ -1,11 +1,14 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, affiliatesTable, programsTable, studentRegistrationsTable } from '../db/schema';
+import { branchesTable, usersTable, affiliatesTable, programsTable, studentRegistrationsTable } from '../db/schema';
 import { getRegistrations } from '../handlers/get_registrations';
 
 describe('getRegistrations', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
+  });
   afterEach(resetDB);
 
   // Helper function to create test data
@@ -198,6 +201,34 @@ describe('getRegistrations', () => {
     expect(result[0].commission_amount).toBe(100000);
   });
 
+  it('should include unattributed registrations for admins but not for affiliates', async () => {
+    const testData = await createTestData();
+
+    await db.insert(studentRegistrationsTable)
+      .values({
+        affiliate_id: null,
+        program_id: testData.program.id,
+        student_name: 'Walk-in Student',
+        student_email: 'walkin@test.com',
+        student_phone: '081234567899',
+        student_address: null,
+        referral_code: null,
+        status: 'pending',
+        registration_fee: '2000000.00',
+        commission_amount: '0.00'
+      })
+      .execute();
+
+    const allRegistrations = await getRegistrations();
+    expect(allRegistrations).toHaveLength(1);
+    expect(allRegistrations[0].affiliate_id).toBeNull();
+    expect(allRegistrations[0].referral_code).toBeNull();
+    expect(allRegistrations[0].commission_amount).toBe(0);
+
+    const affiliateRegistrations = await getRegistrations(testData.affiliate.id);
+    expect(affiliateRegistrations).toHaveLength(0);
+  });
+
   it('should return empty array when affiliate has no registrations', async () => {
     const testData = await createTestData();
 
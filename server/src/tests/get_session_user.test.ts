@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { IncomingMessage } from 'node:http';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { getSessionUser } from '../handlers/get_session_user';
+import { hashSessionToken, getSessionTokenFromRequest } from '../auth';
+
+describe('getSessionUser', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'affiliate@test.com',
+        password_hash: 'hashed_password',
+        full_name: 'Test Affiliate',
+        phone: '081234567890',
+        role: 'affiliate'
+      })
+      .returning()
+      .execute();
+    userId = user[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return the user for a valid session', async () => {
+    await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        token_hash: hashSessionToken('valid-token'),
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .execute();
+
+    const result = await getSessionUser('valid-token');
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(userId);
+    expect(result!.email).toEqual('affiliate@test.com');
+    expect(result!.full_name).toEqual('Test Affiliate');
+    expect(result!.role).toEqual('affiliate');
+    expect(result!.created_at).toBeInstanceOf(Date);
+    expect(result).not.toHaveProperty('password_hash');
+  });
+
+  it('should return null for an expired session', async () => {
+    await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        token_hash: hashSessionToken('expired-token'),
+        expires_at: new Date(Date.now() - 1000)
+      })
+      .execute();
+
+    const result = await getSessionUser('expired-token');
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for an unknown token', async () => {
+    const result = await getSessionUser('unknown-token');
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null without a token', async () => {
+    const result = await getSessionUser(null);
+
+    expect(result).toBeNull();
+  });
+
+  it('should treat a malformed session cookie as missing', () => {
+    const request = (cookie: string) => ({ headers: { cookie } }) as unknown as IncomingMessage;
+
+    expect(getSessionTokenFromRequest(request('eb_session=%'))).toBeNull();
+    expect(getSessionTokenFromRequest(request('theme=dark; eb_session=abc%3D'))).toEqual('abc=');
+  });
+});
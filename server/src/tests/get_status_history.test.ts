@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, statusHistoryTable } from '../db/schema';
+import { getStatusHistory } from '../handlers/get_status_history';
+
+describe('getStatusHistory', () => {
+  let adminUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin User', role: 'admin' })
+      .returning()
+      .execute();
+    adminUserId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return an empty timeline for an entity without changes', async () => {
+    expect(await getStatusHistory({ entity_type: 'payout', entity_id: 1 })).toEqual([]);
+  });
+
+  it('should return the timeline oldest first with the actor name', async () => {
+    await db.insert(statusHistoryTable)
+      .values([
+        { entity_type: 'payout', entity_id: 1, from_status: 'processing', to_status: 'completed', actor_id: adminUserId, created_at: new Date('2024-02-02') },
+        { entity_type: 'payout', entity_id: 1, from_status: 'pending', to_status: 'processing', actor_id: adminUserId, reason: 'Batch 12', created_at: new Date('2024-02-01') },
+        { entity_type: 'payout', entity_id: 1, from_status: 'pending', to_status: 'failed', actor_id: null, created_at: new Date('2024-01-01') }
+      ])
+      .execute();
+
+    const result = await getStatusHistory({ entity_type: 'payout', entity_id: 1 });
+
+    expect(result.map(entry => entry.to_status)).toEqual(['failed', 'processing', 'completed']);
+    expect(result[0].actor_name).toBeNull();
+    expect(result[1].actor_name).toEqual('Admin User');
+    expect(result[1].reason).toEqual('Batch 12');
+    expect(result[1].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should only return changes of the requested entity', async () => {
+    await db.insert(statusHistoryTable)
+      .values([
+        { entity_type: 'registration', entity_id: 1, from_status: 'pending', to_status: 'confirmed', actor_id: adminUserId },
+        { entity_type: 'affiliate', entity_id: 1, from_status: 'pending', to_status: 'approved', actor_id: adminUserId },
+        { entity_type: 'registration', entity_id: 2, from_status: 'pending', to_status: 'cancelled', actor_id: adminUserId }
+      ])
+      .execute();
+
+    const result = await getStatusHistory({ entity_type: 'registration', entity_id: 1 });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].entity_type).toEqual('registration');
+    expect(result[0].to_status).toEqual('confirmed');
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, affiliateTaxProfilesTable } from '../db/schema';
+import { getTaxProfile } from '../handlers/get_tax_profile';
+
+describe('getTaxProfile', () => {
+  let affiliateId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Siti Rahma', role: 'affiliate' })
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should treat affiliates without a profile as individuals without an NPWP', async () => {
+    expect(await getTaxProfile(affiliateId)).toEqual({
+      id: null,
+      affiliate_id: affiliateId,
+      taxpayer_type: 'individual',
+      npwp: null,
+      registered_name: null,
+      address: null,
+      updated_at: null
+    });
+  });
+
+  it('should return the saved profile', async () => {
+    await db.insert(affiliateTaxProfilesTable)
+      .values({ affiliate_id: affiliateId, taxpayer_type: 'company', npwp: '012345678901234', registered_name: 'PT Rahma Edukasi' })
+      .execute();
+
+    const result = await getTaxProfile(affiliateId);
+
+    expect(result.id).toBeNumber();
+    expect(result.taxpayer_type).toEqual('company');
+    expect(result.npwp).toEqual('012345678901234');
+    expect(result.registered_name).toEqual('PT Rahma Edukasi');
+    expect(result.updated_at).toBeInstanceOf(Date);
+  });
+});
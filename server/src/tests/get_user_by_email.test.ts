@@ -1,12 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput } from '../schema';
+import { usersTable, type NewUser } from '../db/schema';
 import { getUserByEmail } from '../handlers/get_user_by_email';
 
 // Test user inputs
-const testUser1: CreateUserInput = {
+const testUser1: NewUser = {
   email: 'john@example.com',
   password_hash: 'hashed_password_123',
   full_name: 'John Doe',
@@ -14,7 +13,7 @@ const testUser1: CreateUserInput = {
   role: 'affiliate'
 };
 
-const testUser2: CreateUserInput = {
+const testUser2: NewUser = {
   email: 'admin@test.com',
   password_hash: 'admin_hash_456',
   full_name: 'Admin User',
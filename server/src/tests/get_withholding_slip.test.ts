@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, affiliateTaxProfilesTable, commissionPayoutsTable } from '../db/schema';
+import { getWithholdingSlip } from '../handlers/get_withholding_slip';
+
+describe('getWithholdingSlip', () => {
+  let affiliateId: number;
+  let payoutIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Siti Rahma', role: 'affiliate' })
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+
+    const payout = {
+      affiliate_id: affiliateId,
+      method: 'bank_transfer' as const,
+      tax_type: 'pph21' as const,
+      tax_rate: '0.0600',
+      tax_npwp: null
+    };
+    const payouts = await db.insert(commissionPayoutsTable)
+      .values([
+        { ...payout, amount: '200000.00', tax_base: '100000.00', tax_amount: '6000.00', status: 'completed', processed_at: new Date(2026, 4, 3, 10) },
+        { ...payout, amount: '150000.00', tax_base: '75000.00', tax_amount: '4500.00', status: 'completed', processed_at: new Date(2026, 4, 20, 10) },
+        // Not paid, paid in another month, or paid before withholding
+        { ...payout, amount: '300000.00', tax_base: '150000.00', tax_amount: '9000.00', status: 'failed', processed_at: new Date(2026, 4, 10, 10) },
+        { ...payout, amount: '300000.00', tax_base: '150000.00', tax_amount: '9000.00', status: 'completed', processed_at: new Date(2026, 5, 1, 10) },
+        { affiliate_id: affiliateId, method: 'bank_transfer', amount: '100000.00', status: 'completed', processed_at: new Date(2026, 4, 5, 10) }
+      ])
+      .returning()
+      .execute();
+    payoutIds = payouts.map(row => row.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should total the tax withheld from payouts completed in the month', async () => {
+    const result = await getWithholdingSlip({ affiliate_id: affiliateId, period: '2026-05' });
+
+    expect(result.slip_number).toEqual(`EB/PPH21/202605/${String(affiliateId).padStart(6, '0')}`);
+    expect(result.filename).toEqual('bukti-potong-EBREF001-2026-05.csv');
+    expect(result.payout_count).toEqual(2);
+    expect(result.gross_amount).toEqual(350000);
+    expect(result.tax_base).toEqual(175000);
+    expect(result.tax_amount).toEqual(10500);
+
+    const lines = result.content.split('\r\n');
+    expect(lines[1]).toEqual(`Nomor,${result.slip_number}`);
+    expect(lines[2]).toEqual('Masa Pajak,05/2026');
+    expect(lines[5]).toEqual('Penerima Penghasilan,Siti Rahma');
+    expect(lines[6]).toEqual('NPWP Penerima,-');
+    expect(lines[10]).toEqual(`2026-05-03,#${payoutIds[0]},PPh 21,200000.00,100000.00,6.00%,6000.00,194000.00`);
+    expect(lines[12]).toEqual('Jumlah,,,350000.00,175000.00,,10500.00,339500.00');
+  });
+
+  it('should print the name and address of the tax profile', async () => {
+    await db.insert(affiliateTaxProfilesTable)
+      .values({ affiliate_id: affiliateId, taxpayer_type: 'individual', registered_name: 'Siti Rahmawati', address: 'Jl. Brawijaya 1, Pare' })
+      .execute();
+
+    const lines = (await getWithholdingSlip({ affiliate_id: affiliateId, period: '2026-05' })).content.split('\r\n');
+
+    expect(lines[5]).toEqual('Penerima Penghasilan,Siti Rahmawati');
+    expect(lines[7]).toEqual('Alamat Penerima,"Jl. Brawijaya 1, Pare"');
+  });
+
+  it('should refuse months without withholding', async () => {
+    await expect(getWithholdingSlip({ affiliate_id: affiliateId, period: '2026-04' }))
+      .rejects.toThrow('No payouts with tax withheld were completed in 2026-04');
+  });
+
+  it('should throw for unknown affiliates', async () => {
+    await expect(getWithholdingSlip({ affiliate_id: affiliateId + 100, period: '2026-05' }))
+      .rejects.toThrow(`Affiliate with ID ${affiliateId + 100} not found`);
+  });
+});
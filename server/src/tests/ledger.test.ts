@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, affiliatesTable, programsTable, programIntakesTable, studentRegistrationsTable, commissionPayoutsTable, ledgerEntriesTable } from '../db/schema';
+import { postLedgerEntry, getLedgerBalances, getLedgerFlows, backfillLedger, getLockedCommissions } from '../helpers/ledger';
+import { asc, eq } from 'drizzle-orm';
+
+describe('ledger', () => {
+  let affiliateId: number;
+  let programId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'pare', name: 'Pare' }]).execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' })
+      .returning()
+      .execute();
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+
+    const programs = await db.insert(programsTable)
+      .values({ name: 'Pare 2 Weeks', category: 'offline_pare', location: 'pare', price: '2000000.00', is_active: true })
+      .returning()
+      .execute();
+    programId = programs[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const createRegistration = (status: 'pending' | 'confirmed' | 'cancelled', commission: string, confirmedAt: Date | null = null) =>
+    db.insert(studentRegistrationsTable)
+      .values({
+        affiliate_id: affiliateId,
+        program_id: programId,
+        student_name: 'Student',
+        student_email: 'student@test.com',
+        student_phone: '081234567890',
+        referral_code: 'EBREF001',
+        status,
+        registration_fee: '2000000.00',
+        commission_amount: commission,
+        confirmed_at: confirmedAt
+      })
+      .returning()
+      .execute();
+
+  it('should post entries along the fixed account path of their type', async () => {
+    const earned = await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 200000 });
+    const reserved = await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_reserved', amount: 150000 });
+    const paid = await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_paid', amount: 100000 });
+
+    expect([earned.from_account, earned.to_account]).toEqual(['company', 'available']);
+    expect([reserved.from_account, reserved.to_account]).toEqual(['available', 'reserved']);
+    expect([paid.from_account, paid.to_account]).toEqual(['reserved', 'paid']);
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 50000, reserved: 50000, paid: 100000 });
+  });
+
+  it('should debit the available balance with negative adjustments', async () => {
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'adjustment', amount: 80000 });
+    const debit = await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'adjustment', amount: -30000.5 });
+
+    expect([debit.from_account, debit.to_account]).toEqual(['available', 'company']);
+    expect(parseFloat(debit.amount)).toEqual(30000.5);
+    expect((await getLedgerBalances(affiliateId)).available).toEqual(49999.5);
+  });
+
+  it('should reject zero amounts and negative amounts outside adjustments', async () => {
+    await expect(postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'adjustment', amount: 0 }))
+      .rejects.toThrow(/zero amount/i);
+    await expect(postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: -100 }))
+      .rejects.toThrow(/Only adjustments/i);
+  });
+
+  it('should report net earnings and payouts within a date range', async () => {
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 300000, created_at: new Date('2024-01-10') });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 200000, created_at: new Date('2024-02-10') });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_reversed', amount: 50000, created_at: new Date('2024-02-12') });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_reserved', amount: 100000, created_at: new Date('2024-02-15') });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_paid', amount: 100000, created_at: new Date('2024-02-20') });
+
+    expect(await getLedgerFlows(affiliateId)).toEqual({ earned: 450000, paid: 100000 });
+    expect(await getLedgerFlows(affiliateId, new Date('2024-02-01'), new Date('2024-02-28'))).toEqual({ earned: 150000, paid: 100000 });
+    expect(await getLedgerFlows(affiliateId, new Date('2024-03-01'))).toEqual({ earned: 0, paid: 0 });
+  });
+
+  it('should backfill registrations and payouts recorded before the ledger', async () => {
+    const confirmedAt = new Date('2024-03-01');
+    await createRegistration('confirmed', '200000.00', confirmedAt);
+    await createRegistration('confirmed', '150000.00');
+    await createRegistration('pending', '100000.00');
+
+    await db.insert(commissionPayoutsTable)
+      .values([
+        { affiliate_id: affiliateId, amount: '100000.00', method: 'bank_transfer', status: 'completed', created_at: new Date('2024-03-05'), processed_at: new Date('2024-03-07') },
+        { affiliate_id: affiliateId, amount: '50000.00', method: 'bank_transfer', status: 'pending' },
+        { affiliate_id: affiliateId, amount: '25000.00', method: 'ewallet', status: 'failed' }
+      ])
+      .execute();
+
+    const posted = await backfillLedger();
+
+    // Two earnings, a reservation for each payout, then the completed payment and the failed release
+    expect(posted).toEqual(7);
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 200000, reserved: 50000, paid: 100000 });
+
+    const entries = await db.select()
+      .from(ledgerEntriesTable)
+      .orderBy(asc(ledgerEntriesTable.id))
+      .execute();
+    expect(entries[0].created_at).toEqual(confirmedAt);
+    expect(entries.filter(entry => entry.entry_type === 'payout_paid')[0].created_at).toEqual(new Date('2024-03-07'));
+  });
+
+  it('should post nothing when backfilled again', async () => {
+    await createRegistration('confirmed', '200000.00');
+    await db.insert(commissionPayoutsTable)
+      .values({ affiliate_id: affiliateId, amount: '100000.00', method: 'bank_transfer', status: 'completed' })
+      .execute();
+
+    expect(await backfillLedger()).toEqual(3);
+    expect(await backfillLedger()).toEqual(0);
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 100000, reserved: 0, paid: 100000 });
+  });
+
+  it('should lock commission confirmed within the hold period until it unlocks', async () => {
+    const now = new Date('2024-05-20T00:00:00Z');
+    const [recent] = await createRegistration('confirmed', '150000.00', new Date('2024-05-15T00:00:00Z'));
+    const [older] = await createRegistration('confirmed', '120000.00', new Date('2024-05-10T00:00:00Z'));
+    await createRegistration('confirmed', '90000.00', new Date('2024-05-01T00:00:00Z')); // Hold already over
+    await createRegistration('confirmed', '80000.00'); // Confirmed before confirmation times were recorded
+    await createRegistration('cancelled', '70000.00', new Date('2024-05-18T00:00:00Z'));
+
+    const locked = await getLockedCommissions(affiliateId, db, { hold_days: 14, until_program_start: false }, now);
+
+    expect(locked).toEqual([
+      { registration_id: older.id, student_name: 'Student', amount: 120000, unlocks_at: new Date('2024-05-24T00:00:00Z') },
+      { registration_id: recent.id, student_name: 'Student', amount: 150000, unlocks_at: new Date('2024-05-29T00:00:00Z') }
+    ]);
+    expect(await getLockedCommissions(affiliateId, db, { hold_days: 0, until_program_start: false }, now)).toEqual([]);
+  });
+
+  it('should hold commission until the intake starts when configured', async () => {
+    const now = new Date('2024-05-20T00:00:00Z');
+    const intakes = await db.insert(programIntakesTable)
+      .values([
+        { program_id: programId, start_date: new Date('2024-06-10T00:00:00Z'), end_date: new Date('2024-06-24T00:00:00Z'), capacity: 20, registration_deadline: new Date('2024-06-01T00:00:00Z') },
+        { program_id: programId, start_date: new Date('2024-05-25T00:00:00Z'), end_date: new Date('2024-06-08T00:00:00Z'), capacity: 20, registration_deadline: new Date('2024-05-20T00:00:00Z') }
+      ])
+      .returning()
+      .execute();
+    const [later] = await createRegistration('confirmed', '150000.00', new Date('2024-05-01T00:00:00Z')); // Hold days over, intake not started
+    const [sooner] = await createRegistration('confirmed', '120000.00', new Date('2024-05-18T00:00:00Z')); // Hold days outlast the intake start
+    const [noIntake] = await createRegistration('confirmed', '90000.00', new Date('2024-05-15T00:00:00Z'));
+    await db.update(studentRegistrationsTable).set({ intake_id: intakes[0].id }).where(eq(studentRegistrationsTable.id, later.id)).execute();
+    await db.update(studentRegistrationsTable).set({ intake_id: intakes[1].id }).where(eq(studentRegistrationsTable.id, sooner.id)).execute();
+
+    const locked = await getLockedCommissions(affiliateId, db, { hold_days: 14, until_program_start: true }, now);
+
+    expect(locked.map(item => [item.registration_id, item.unlocks_at])).toEqual([
+      [noIntake.id, new Date('2024-05-29T00:00:00Z')],
+      [sooner.id, new Date('2024-06-01T00:00:00Z')],
+      [later.id, new Date('2024-06-10T00:00:00Z')]
+    ]);
+
+    // Without the setting the intake start is ignored
+    const byDays = await getLockedCommissions(affiliateId, db, { hold_days: 14, until_program_start: false }, now);
+    expect(byDays.map(item => item.registration_id)).toEqual([noIntake.id, sooner.id]);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type LoginInput } from '../schema';
+import { login } from '../handlers/login';
+import { hashPassword, hashSessionToken } from '../auth';
+import { eq } from 'drizzle-orm';
+
+const testInput: LoginInput = {
+  email: 'affiliate@test.com',
+  password: 'correct_password'
+};
+
+describe('login', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'affiliate@test.com',
+        password_hash: await hashPassword('correct_password'),
+        full_name: 'Test Affiliate',
+        phone: '081234567890',
+        role: 'affiliate'
+      })
+      .returning()
+      .execute();
+    userId = user[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should log in with valid credentials', async () => {
+    const result = await login(testInput);
+
+    expect(result.user.id).toEqual(userId);
+    expect(result.user.email).toEqual('affiliate@test.com');
+    expect(result.user.role).toEqual('affiliate');
+    expect(result.user).not.toHaveProperty('password_hash');
+    expect(typeof result.token).toBe('string');
+    expect(result.token.length).toBeGreaterThan(20);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should store a hashed session token', async () => {
+    const result = await login(testInput);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashSessionToken(result.token));
+    expect(sessions[0].token_hash).not.toEqual(result.token);
+    expect(sessions[0].expires_at).toBeInstanceOf(Date);
+  });
+
+  it('should create a new session for each login', async () => {
+    const first = await login(testInput);
+    const second = await login(testInput);
+
+    expect(first.token).not.toEqual(second.token);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .execute();
+
+    expect(sessions).toHaveLength(2);
+  });
+
+  it('should reject a wrong password', async () => {
+    await expect(login({ ...testInput, password: 'wrong_password' }))
+      .rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid email or password' });
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .execute();
+
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should reject an unknown email', async () => {
+    await expect(login({ ...testInput, email: 'unknown@test.com' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should reject users with a legacy unhashed password', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'legacy@test.com',
+        password_hash: 'temp_hash',
+        full_name: 'Legacy User',
+        phone: null,
+        role: 'affiliate'
+      })
+      .execute();
+
+    await expect(login({ email: 'legacy@test.com', password: 'temp_hash' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { logout } from '../handlers/logout';
+import { hashSessionToken } from '../auth';
+
+describe('logout', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'admin@test.com',
+        password_hash: 'hashed_password',
+        full_name: 'Admin User',
+        phone: null,
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+    userId = user[0].id;
+
+    await db.insert(sessionsTable)
+      .values([
+        {
+          user_id: userId,
+          token_hash: hashSessionToken('token-one'),
+          expires_at: new Date(Date.now() + 60 * 60 * 1000)
+        },
+        {
+          user_id: userId,
+          token_hash: hashSessionToken('token-two'),
+          expires_at: new Date(Date.now() + 60 * 60 * 1000)
+        }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should delete only the current session', async () => {
+    const result = await logout('token-one');
+
+    expect(result.success).toBe(true);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashSessionToken('token-two'));
+  });
+
+  it('should succeed without a session token', async () => {
+    const result = await logout(null);
+
+    expect(result.success).toBe(true);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .execute();
+
+    expect(sessions).toHaveLength(2);
+  });
+
+  it('should succeed for an unknown token', async () => {
+    const result = await logout('unknown-token');
+
+    expect(result.success).toBe(true);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .execute();
+
+    expect(sessions).toHaveLength(2);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notificationsTable } from '../db/schema';
+import { markNotificationsRead } from '../handlers/mark_notifications_read';
+import { asc } from 'drizzle-orm';
+
+describe('markNotificationsRead', () => {
+  let userIds: number[];
+  let notificationIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'first@test.com', password_hash: 'hashed_password', full_name: 'First Affiliate', role: 'affiliate' },
+        { email: 'second@test.com', password_hash: 'hashed_password', full_name: 'Second Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    userIds = users.map(user => user.id);
+
+    const notifications = await db.insert(notificationsTable)
+      .values([
+        { user_id: userIds[0], title: 'First', message: 'First message' },
+        { user_id: userIds[0], title: 'Second', message: 'Second message' },
+        { user_id: userIds[1], title: 'Someone else', message: 'Not yours' }
+      ])
+      .returning()
+      .execute();
+    notificationIds = notifications.map(notification => notification.id);
+  });
+
+  afterEach(resetDB);
+
+  const readStates = async () => {
+    const notifications = await db.select().from(notificationsTable).orderBy(asc(notificationsTable.id)).execute();
+    return notifications.map(notification => notification.read_at !== null);
+  };
+
+  it('should mark the chosen notifications read', async () => {
+    const result = await markNotificationsRead(userIds[0], { notification_ids: [notificationIds[1]] });
+
+    expect(result.map(notification => notification.id)).toEqual([notificationIds[1]]);
+    expect(result[0].read_at).toBeInstanceOf(Date);
+    expect(await readStates()).toEqual([false, true, false]);
+  });
+
+  it('should mark all of the user\'s notifications read without IDs', async () => {
+    const result = await markNotificationsRead(userIds[0], {});
+
+    expect(result).toHaveLength(2);
+    expect(await readStates()).toEqual([true, true, false]);
+  });
+
+  it('should ignore notifications of other users', async () => {
+    const result = await markNotificationsRead(userIds[0], { notification_ids: [notificationIds[2]] });
+
+    expect(result).toEqual([]);
+    expect(await readStates()).toEqual([false, false, false]);
+  });
+
+  it('should do nothing for an empty list', async () => {
+    expect(await markNotificationsRead(userIds[0], { notification_ids: [] })).toEqual([]);
+    expect(await readStates()).toEqual([false, false, false]);
+  });
+});
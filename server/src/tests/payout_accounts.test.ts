@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, payoutAccountsTable, commissionPayoutsTable } from '../db/schema';
+import { backfillPayoutAccounts, parseLegacyPayoutDetails } from '../helpers/payout_accounts';
+import { asc } from 'drizzle-orm';
+
+describe('payout accounts', () => {
+  let affiliateIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'first@test.com', password_hash: 'hashed_password', full_name: 'Siti Rahma', role: 'affiliate' },
+        { email: 'second@test.com', password_hash: 'hashed_password', full_name: 'Budi Santoso', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values([
+        {
+          user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved',
+          bank_name: 'Bank Mandiri', bank_account_number: '140-001-2345', bank_account_name: null,
+          ewallet_type: 'GoPay', ewallet_number: '081234567890'
+        },
+        {
+          user_id: users[1].id, referral_code: 'EBREF002', commission_rate: '0.1000', status: 'approved',
+          bank_name: 'Bank Antah Berantah', bank_account_number: '1234567890', bank_account_name: 'Budi'
+        }
+      ])
+      .returning()
+      .execute();
+    affiliateIds = affiliates.map(affiliate => affiliate.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should read the legacy formats of payout details', () => {
+    expect(parseLegacyPayoutDetails('BCA - 1234567890 - Siti Rahma', 'bank')).toEqual({
+      account_type: 'bank',
+      bank_code: '014',
+      ewallet_provider: null,
+      provider_name: 'BCA',
+      account_number: '1234567890',
+      account_holder: 'Siti Rahma'
+    });
+    expect(parseLegacyPayoutDetails(JSON.stringify({ bank_name: 'bri', account_number: '0021', account_name: 'Budi' }), 'bank'))
+      .toMatchObject({ bank_code: '002', provider_name: 'BRI', account_number: '0021', account_holder: 'Budi' });
+    expect(parseLegacyPayoutDetails('Shopee Pay - 081234567890', 'ewallet'))
+      .toMatchObject({ ewallet_provider: 'shopeepay', provider_name: 'ShopeePay', account_number: '081234567890', account_holder: '' });
+    // Unknown banks keep the name they were recorded with
+    expect(parseLegacyPayoutDetails('Bank Lokal - 777', 'bank'))
+      .toMatchObject({ bank_code: null, provider_name: 'Bank Lokal', account_number: '777' });
+  });
+
+  it('should create accounts from affiliate profiles and snapshot old payouts', async () => {
+    await db.insert(commissionPayoutsTable)
+      .values([
+        { affiliate_id: affiliateIds[0], amount: '100000.00', method: 'bank_transfer', status: 'completed', bank_details: 'Mandiri - 1400012345 - Siti Rahma' },
+        { affiliate_id: affiliateIds[0], amount: '100000.00', method: 'ewallet', status: 'completed', ewallet_details: 'GoPay - 081234567890' },
+        { affiliate_id: affiliateIds[1], amount: '100000.00', method: 'bank_transfer', status: 'pending' }
+      ])
+      .execute();
+
+    const result = await backfillPayoutAccounts();
+
+    expect(result).toEqual({
+      accounts: 2,
+      payouts: 2,
+      skipped: [`bank "Bank Antah Berantah" of affiliate #${affiliateIds[1]}`]
+    });
+
+    const accounts = await db.select().from(payoutAccountsTable).orderBy(asc(payoutAccountsTable.id)).execute();
+    expect(accounts.map(account => [account.affiliate_id, account.bank_code, account.ewallet_provider, account.account_number, account.account_holder, account.is_default])).toEqual([
+      [affiliateIds[0], '008', null, '1400012345', 'Siti Rahma', true],
+      [affiliateIds[0], null, 'gopay', '081234567890', 'Siti Rahma', false]
+    ]);
+
+    const payouts = await db.select().from(commissionPayoutsTable).orderBy(asc(commissionPayoutsTable.id)).execute();
+    expect(payouts.map(payout => payout.destination?.provider_name ?? null)).toEqual(['Mandiri', 'GoPay', null]);
+  });
+
+  it('should change nothing when run again', async () => {
+    await backfillPayoutAccounts();
+
+    expect(await backfillPayoutAccounts()).toEqual({
+      accounts: 0,
+      payouts: 0,
+      skipped: [`bank "Bank Antah Berantah" of affiliate #${affiliateIds[1]}`]
+    });
+    expect(await db.select().from(payoutAccountsTable).execute()).toHaveLength(2);
+  });
+});
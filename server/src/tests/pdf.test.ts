@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'bun:test';
+import { toPdf, fitText, measureText } from '../helpers/pdf';
+
+describe('pdf', () => {
+  it('should point the cross-reference table at every object', () => {
+    const pdf = toPdf([[{ x: 50, y: 700, text: 'First page' }], [{ x: 50, y: 700, text: 'Second page', bold: true }]]);
+
+    const xrefOffset = parseInt(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toEqual('xref');
+
+    const offsets = [...pdf.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => parseInt(match[1]));
+    expect(offsets).toHaveLength(8);
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true));
+    expect(pdf).toContain('/Count 2');
+  });
+
+  it('should escape text and replace characters the fonts cannot draw', () => {
+    const pdf = toPdf([[{ x: 50, y: 700, text: 'José (Pare) 50% \\ 中' }]]);
+
+    expect(pdf).toContain('(Jose \\(Pare\\) 50% \\\\ ?) Tj');
+    expect(/^[\x0a\x20-\x7e]*$/.test(pdf)).toBe(true);
+  });
+
+  it('should end right-aligned text at its position', () => {
+    const pdf = toPdf([[{ x: 545, y: 700, text: 'Rp 1.000', align: 'right' }]]);
+
+    expect(pdf).toContain(`${(545 - measureText('Rp 1.000')).toFixed(2)} 700.00 Td (Rp 1.000) Tj`);
+  });
+
+  it('should shorten text to fit a width', () => {
+    expect(fitText('Budi', 100)).toEqual('Budi');
+
+    const fitted = fitText('Intensive English Program Pare Two Months', 100);
+    expect(fitted.endsWith('...')).toBe(true);
+    expect(measureText(fitted)).toBeLessThanOrEqual(100);
+  });
+
+  it('should need at least one page', () => {
+    expect(() => toPdf([])).toThrow('A PDF needs at least one page');
+  });
+});
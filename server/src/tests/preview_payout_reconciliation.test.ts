@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, commissionPayoutsTable } from '../db/schema';
+import { previewPayoutReconciliation } from '../handlers/preview_payout_reconciliation';
+import { eq } from 'drizzle-orm';
+
+describe('previewPayoutReconciliation', () => {
+  let payoutIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Siti Rahma', role: 'affiliate' })
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+
+    const payouts = await db.insert(commissionPayoutsTable)
+      .values([
+        { affiliate_id: affiliates[0].id, amount: '150000.00', method: 'bank_transfer', status: 'processing', destination: { account_type: 'bank', bank_code: '014', ewallet_provider: null, provider_name: 'BCA', account_number: '1234567890', account_holder: 'Siti Rahma' } },
+        { affiliate_id: affiliates[0].id, amount: '200000.00', method: 'bank_transfer', status: 'processing', destination: { account_type: 'bank', bank_code: '002', ewallet_provider: null, provider_name: 'BRI', account_number: '002101555', account_holder: 'Siti Rahma' } },
+        { affiliate_id: affiliates[0].id, amount: '120000.00', method: 'ewallet', status: 'processing', destination: { account_type: 'ewallet', bank_code: null, ewallet_provider: 'gopay', provider_name: 'GoPay', account_number: '081234567890', account_holder: 'Siti Rahma' } },
+        { affiliate_id: affiliates[0].id, amount: '110000.00', method: 'bank_transfer', status: 'completed', destination: { account_type: 'bank', bank_code: '014', ewallet_provider: null, provider_name: 'BCA', account_number: '1234567890', account_holder: 'Siti Rahma' } }
+      ])
+      .returning()
+      .execute();
+    payoutIds = payouts.map(payout => payout.id);
+  });
+
+  afterEach(resetDB);
+
+  const statement = (...rows: string[]) => ['Date,Description,Account No,Reference No,Amount', ...rows].join('\n');
+
+  it('should match lines by transfer reference and propose completion', async () => {
+    const result = await previewPayoutReconciliation({
+      content: statement(`2026-05-02,TRF EBPAYOUT${payoutIds[0]},1234567890,FT001,"150,000.00 DB"`)
+    });
+
+    expect(result.lines).toEqual([{
+      line_number: 2,
+      date: '2026-05-02',
+      description: `TRF EBPAYOUT${payoutIds[0]}`,
+      account_number: '1234567890',
+      amount: 150000,
+      direction: 'debit',
+      bank_reference: 'FT001',
+      match: 'reference',
+      payout_id: payoutIds[0],
+      proposed_status: 'completed',
+      issues: []
+    }]);
+    expect(result.unmatched_payout_ids).toEqual([payoutIds[1], payoutIds[2]]);
+  });
+
+  it('should match by account and amount when the reference is missing', async () => {
+    const result = await previewPayoutReconciliation({
+      content: statement('2026-05-02,KOMISI MEI,002101555,FT002,200000', '2026-05-02,TOPUP GOPAY 081234567890,,FT003,120000')
+    });
+
+    expect(result.lines.map(line => [line.match, line.payout_id, line.proposed_status])).toEqual([
+      ['account_amount', payoutIds[1], 'completed'],
+      ['account_amount', payoutIds[2], 'completed']
+    ]);
+  });
+
+  it('should match the amount transferred after withholding', async () => {
+    await db.update(commissionPayoutsTable)
+      .set({ tax_type: 'pph21', tax_base: '100000.00', tax_rate: '0.0600', tax_amount: '6000.00' })
+      .where(eq(commissionPayoutsTable.id, payoutIds[1]))
+      .execute();
+
+    const byAmount = await previewPayoutReconciliation({ content: statement('2026-05-02,KOMISI MEI,002101555,FT002,194000') });
+    const grossTransfer = await previewPayoutReconciliation({
+      content: statement(`2026-05-02,TRF EBPAYOUT${payoutIds[1]},002101555,FT004,200000`)
+    });
+
+    expect(byAmount.lines[0].match).toEqual('account_amount');
+    expect(byAmount.lines[0].payout_id).toEqual(payoutIds[1]);
+    expect(grossTransfer.lines[0].issues).toEqual(["Amount differs from the payout's Rp 194.000"]);
+  });
+
+  it('should propose failing a payout when the transfer is returned', async () => {
+    const result = await previewPayoutReconciliation({
+      content: statement(`2026-05-03,RETUR EBPAYOUT${payoutIds[0]},1234567890,FT004,"150,000.00 CR"`)
+    });
+
+    expect(result.lines[0].proposed_status).toEqual('failed');
+  });
+
+  it('should flag lines that need review', async () => {
+    const result = await previewPayoutReconciliation({
+      content: statement(
+        `2026-05-02,TRF EBPAYOUT${payoutIds[0]},9999999999,FT005,140000`,
+        `2026-05-02,TRF EBPAYOUT${payoutIds[0]},1234567890,FT006,150000`,
+        `2026-05-02,TRF EBPAYOUT${payoutIds[3]},1234567890,FT007,110000`,
+        '2026-05-02,TRF EBPAYOUT999,1234567890,FT008,110000',
+        '2026-05-02,BIAYA ADMIN,,FT009,6500'
+      )
+    });
+
+    expect(result.lines.map(line => [line.payout_id, line.proposed_status, line.issues])).toEqual([
+      [payoutIds[0], 'completed', ['Amount differs from the payout\'s Rp 150.000', 'Account differs from the payout\'s 1234567890']],
+      [payoutIds[0], null, ['Payout #' + payoutIds[0] + ' is already matched on row 2']],
+      [payoutIds[3], null, ['Payout #' + payoutIds[3] + ' is completed, not processing']],
+      [null, null, ['Payout #999 does not exist']],
+      [null, null, []]
+    ]);
+  });
+
+  it('should not let an amount match take a payout another line references', async () => {
+    const result = await previewPayoutReconciliation({
+      content: statement('2026-05-02,KOMISI,1234567890,FT010,150000', `2026-05-02,TRF EBPAYOUT${payoutIds[0]},1234567890,FT011,150000`)
+    });
+
+    expect(result.lines.map(line => [line.match, line.payout_id])).toEqual([
+      ['none', null],
+      ['reference', payoutIds[0]]
+    ]);
+  });
+
+  it('should leave lines unmatched when the reference is too large to be a payout', async () => {
+    const result = await previewPayoutReconciliation({
+      content: statement('2026-05-02,TRF EBPAYOUT99999999999,1234567890,FT012,6500', '2026-05-02,TRF EBPAYOUT0,1234567890,FT013,6500')
+    });
+
+    expect(result.lines.map(line => [line.match, line.payout_id, line.issues])).toEqual([
+      ['none', null, []],
+      ['none', null, []]
+    ]);
+  });
+});
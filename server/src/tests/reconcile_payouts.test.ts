@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, commissionPayoutsTable, payoutRunsTable, statusHistoryTable } from '../db/schema';
+import { reconcilePayouts } from '../handlers/reconcile_payouts';
+import { createPayoutRun } from '../handlers/create_payout_run';
+import { createCommissionPayout } from '../handlers/create_commission_payout';
+import { postLedgerEntry, getLedgerBalances } from '../helpers/ledger';
+import { insertPayoutAccount } from '../helpers/payout_accounts';
+import { eq } from 'drizzle-orm';
+
+describe('reconcilePayouts', () => {
+  let adminUserId: number;
+  let affiliateId: number;
+  let runId: number;
+  let payoutIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin User', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminUserId = users[0].id;
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[1].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 500000 });
+    await insertPayoutAccount(db, affiliateId, {
+      account_type: 'bank', bank_code: '014', account_number: '1234567890', account_holder: 'Affiliate'
+    }, true, 'verified');
+
+    payoutIds = [];
+    for (const amount of [100000, 150000]) {
+      const payout = await createCommissionPayout({
+        affiliate_id: affiliateId,
+        amount,
+        notes: null
+      });
+      payoutIds.push(payout.id);
+    }
+
+    const run = await createPayoutRun({ generate_payouts: false }, adminUserId);
+    runId = run.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should settle payouts with their bank reference', async () => {
+    const result = await reconcilePayouts({
+      matches: [{ payout_id: payoutIds[0], status: 'completed', bank_reference: 'FT001' }]
+    }, adminUserId);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].status).toEqual('completed');
+    expect(result[0].bank_reference).toEqual('FT001');
+    expect(result[0].processed_by).toEqual(adminUserId);
+
+    const history = await db.select().from(statusHistoryTable).where(eq(statusHistoryTable.entity_id, payoutIds[0])).execute();
+    expect(history[history.length - 1].reason).toEqual('Bank statement reconciliation');
+
+    // The run still has a processing payout
+    const runs = await db.select().from(payoutRunsTable).execute();
+    expect(runs[0].status).toEqual('processing');
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 250000, reserved: 150000, paid: 100000 });
+  });
+
+  it('should close the payout run once every payout is settled', async () => {
+    await reconcilePayouts({
+      matches: [
+        { payout_id: payoutIds[0], status: 'completed', bank_reference: 'FT001' },
+        { payout_id: payoutIds[1], status: 'failed', bank_reference: 'FT002' }
+      ],
+      reason: 'Matched May statement'
+    }, adminUserId);
+
+    const runs = await db.select().from(payoutRunsTable).where(eq(payoutRunsTable.id, runId)).execute();
+    expect(runs[0].status).toEqual('partially_failed');
+    expect(runs[0].completed_by).toEqual(adminUserId);
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 400000, reserved: 0, paid: 100000 });
+  });
+
+  it('should settle nothing when one payout cannot move', async () => {
+    await db.update(commissionPayoutsTable).set({ status: 'completed' }).where(eq(commissionPayoutsTable.id, payoutIds[1])).execute();
+
+    await expect(reconcilePayouts({
+      matches: [
+        { payout_id: payoutIds[0], status: 'completed', bank_reference: 'FT001' },
+        { payout_id: payoutIds[1], status: 'failed', bank_reference: 'FT002' }
+      ]
+    }, adminUserId)).rejects.toThrow(/Cannot change payout/);
+
+    const payouts = await db.select().from(commissionPayoutsTable).where(eq(commissionPayoutsTable.id, payoutIds[0])).execute();
+    expect(payouts[0].status).toEqual('processing');
+    expect(payouts[0].bank_reference).toBeNull();
+  });
+
+  it('should reject unknown and repeated payouts', async () => {
+    await expect(reconcilePayouts({
+      matches: [{ payout_id: 999, status: 'completed', bank_reference: null }]
+    }, adminUserId)).rejects.toThrow('Commission payouts with IDs 999 not found');
+
+    await expect(reconcilePayouts({
+      matches: [
+        { payout_id: payoutIds[0], status: 'completed', bank_reference: null },
+        { payout_id: payoutIds[0], status: 'failed', bank_reference: null }
+      ]
+    }, adminUserId)).rejects.toThrow(`Payouts ${payoutIds[0]} are matched more than once`);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, payoutAccountsTable } from '../db/schema';
+import { type RegisterAffiliateInput } from '../schema';
+import { registerAffiliate } from '../handlers/register_affiliate';
+import { getSessionUser } from '../handlers/get_session_user';
+import { verifyPassword } from '../auth';
+import { eq } from 'drizzle-orm';
+
+const testInput: RegisterAffiliateInput = {
+  email: 'affiliate@test.com',
+  password: 'secret_password',
+  full_name: 'Siti Rahma',
+  phone: '081234567890',
+  payout_accounts: [
+    { account_type: 'bank', bank_code: '014', account_number: '1234567890', account_holder: 'Siti Rahma' }
+  ]
+};
+
+describe('registerAffiliate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create the user, a pending affiliate and its payout accounts and log in', async () => {
+    const result = await registerAffiliate(testInput);
+
+    expect(result.user.email).toEqual('affiliate@test.com');
+    expect(result.user.role).toEqual('affiliate');
+    expect(result.user).not.toHaveProperty('password_hash');
+    expect((await getSessionUser(result.token))?.id).toEqual(result.user.id);
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, result.user.id)).execute();
+    expect(await verifyPassword('secret_password', users[0].password_hash)).toBe(true);
+
+    const affiliates = await db.select().from(affiliatesTable).where(eq(affiliatesTable.user_id, result.user.id)).execute();
+    expect(affiliates).toHaveLength(1);
+    expect(affiliates[0].status).toEqual('pending');
+    expect(affiliates[0].referral_code).toMatch(/^EB[A-Z0-9]+$/);
+
+    const accounts = await db.select().from(payoutAccountsTable).where(eq(payoutAccountsTable.affiliate_id, affiliates[0].id)).execute();
+    expect(accounts.map(account => [account.account_number, account.is_default, account.submitted_with_application])).toEqual([
+      ['1234567890', true, true]
+    ]);
+  });
+
+  it('should reject an email that is already registered', async () => {
+    await registerAffiliate(testInput);
+
+    await expect(registerAffiliate({ ...testInput, full_name: 'Someone Else' }))
+      .rejects.toMatchObject({ code: 'CONFLICT', message: 'An account with this email already exists. Please log in instead.' });
+    expect(await db.select().from(usersTable).execute()).toHaveLength(1);
+  });
+
+  it('should keep nothing when the affiliate profile cannot be created', async () => {
+    // Longer than the column allows, so the payout account insert fails after the user was inserted
+    const invalid = { ...testInput, payout_accounts: [{ ...testInput.payout_accounts[0], account_number: '1'.repeat(60) }] };
+
+    await expect(registerAffiliate(invalid)).rejects.toThrow();
+
+    expect(await db.select().from(usersTable).execute()).toHaveLength(0);
+    expect(await db.select().from(affiliatesTable).execute()).toHaveLength(0);
+
+    // The same details can be submitted again once corrected
+    const result = await registerAffiliate(testInput);
+    expect(result.user.email).toEqual('affiliate@test.com');
+  });
+});
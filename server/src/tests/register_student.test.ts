@@ -0,0 +1,333 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, affiliatesTable, programsTable, programIntakesTable, studentRegistrationsTable, referralClicksTable, commissionRulesTable } from '../db/schema';
+import { type RegisterStudentInput, type AttributionSettings } from '../schema';
+import { registerStudent } from '../handlers/register_student';
+import { eq } from 'drizzle-orm';
+
+describe('registerStudent', () => {
+  let affiliateId: number;
+  let programId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
+
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'affiliate@test.com',
+        password_hash: 'hashed_password',
+        full_name: 'Test Affiliate',
+        phone: '081234567890',
+        role: 'affiliate'
+      })
+      .returning()
+      .execute();
+
+    const affiliate = await db.insert(affiliatesTable)
+      .values({
+        user_id: user[0].id,
+        referral_code: 'EBREF001',
+        commission_rate: '0.1000',
+        status: 'approved'
+      })
+      .returning()
+      .execute();
+    affiliateId = affiliate[0].id;
+
+    const program = await db.insert(programsTable)
+      .values({
+        name: 'TOEFL Preparation',
+        category: 'online',
+        location: 'online',
+        price: '1500000.00',
+        duration_weeks: 8,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    programId = program[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const firstTouch: AttributionSettings = { model: 'first_touch', window_days: 30 };
+  const lastTouch: AttributionSettings = { model: 'last_touch', window_days: 30 };
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  // A second approved affiliate whose link the same visitor also opened
+  const createCompetingAffiliate = async () => {
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'competitor@test.com',
+        password_hash: 'hashed_password',
+        full_name: 'Competing Affiliate',
+        phone: '081200000000',
+        role: 'affiliate'
+      })
+      .returning()
+      .execute();
+
+    const affiliate = await db.insert(affiliatesTable)
+      .values({
+        user_id: user[0].id,
+        referral_code: 'EBREF002',
+        commission_rate: '0.0500',
+        status: 'approved'
+      })
+      .returning()
+      .execute();
+    return affiliate[0];
+  };
+
+  const buildInput = (referralCode: string | null): RegisterStudentInput => ({
+    program_id: programId,
+    student_name: 'Budi Santoso',
+    student_email: 'budi@example.com',
+    student_phone: '081298765432',
+    student_address: 'Jl. Merdeka No. 1, Kediri',
+    referral_code: referralCode
+  });
+
+  it('should attribute the registration to the affiliate behind the code', async () => {
+    const result = await registerStudent(buildInput('EBREF001'));
+
+    expect(result.affiliate_id).toEqual(affiliateId);
+    expect(result.referral_code).toEqual('EBREF001');
+    expect(result.status).toEqual('pending');
+    expect(typeof result.registration_fee).toBe('number');
+    expect(result.registration_fee).toEqual(1500000);
+    expect(result.commission_amount).toEqual(150000);
+    expect(result.estimated_commission_amount).toEqual(150000);
+    expect(result.amount_paid).toBeNull();
+    expect(result.commission_rule_id).toBeNull();
+    expect(result.attribution_rule).toEqual('referral_code');
+    expect(result.attribution_touches).toBeNull();
+  });
+
+  it('should apply the commission rule for the credited affiliate', async () => {
+    await db.insert(commissionRulesTable)
+      .values({ name: 'Online programs', commission_type: 'percentage', value: '0.0800', category: 'online' })
+      .execute();
+    const override = await db.insert(commissionRulesTable)
+      .values({ name: 'Top partner', commission_type: 'percentage', value: '0.2000', affiliate_id: affiliateId })
+      .returning()
+      .execute();
+
+    const result = await registerStudent(buildInput('EBREF001'));
+
+    expect(result.commission_amount).toEqual(300000); // 20% of 1,500,000
+    expect(result.commission_rule_id).toEqual(override[0].id);
+  });
+
+  it('should save the registration to the database', async () => {
+    const result = await registerStudent(buildInput('EBREF001'));
+
+    const registrations = await db.select()
+      .from(studentRegistrationsTable)
+      .where(eq(studentRegistrationsTable.id, result.id))
+      .execute();
+
+    expect(registrations).toHaveLength(1);
+    expect(registrations[0].affiliate_id).toEqual(affiliateId);
+    expect(registrations[0].student_email).toEqual('budi@example.com');
+    expect(parseFloat(registrations[0].commission_amount)).toEqual(150000);
+  });
+
+  it('should register unknown codes as unattributed', async () => {
+    const result = await registerStudent(buildInput('NOSUCHCODE'));
+
+    expect(result.affiliate_id).toBeNull();
+    expect(result.referral_code).toBeNull();
+    expect(result.commission_amount).toEqual(0);
+    expect(result.registration_fee).toEqual(1500000);
+    expect(result.attribution_rule).toBeNull();
+    expect(result.attribution_window_days).toBeNull();
+  });
+
+  it('should register as unattributed when the affiliate is not approved', async () => {
+    for (const status of ['pending', 'rejected', 'suspended'] as const) {
+      await db.update(affiliatesTable)
+        .set({ status })
+        .where(eq(affiliatesTable.id, affiliateId))
+        .execute();
+
+      const result = await registerStudent(buildInput('EBREF001'));
+
+      expect(result.affiliate_id).toBeNull();
+      expect(result.commission_amount).toEqual(0);
+    }
+  });
+
+  it('should register as unattributed without a referral code', async () => {
+    const result = await registerStudent(buildInput(null));
+
+    expect(result.affiliate_id).toBeNull();
+    expect(result.referral_code).toBeNull();
+    expect(result.commission_amount).toEqual(0);
+  });
+
+  it('should reject inactive programs', async () => {
+    await db.update(programsTable)
+      .set({ is_active: false })
+      .where(eq(programsTable.id, programId))
+      .execute();
+
+    await expect(registerStudent(buildInput('EBREF001'))).rejects.toThrow(/not active/i);
+  });
+
+  it('should reject unknown programs', async () => {
+    await expect(registerStudent({ ...buildInput('EBREF001'), program_id: 99999 })).rejects.toThrow(/program not found/i);
+  });
+
+  it('should link the visitor click to the registration', async () => {
+    await db.insert(referralClicksTable)
+      .values({ affiliate_id: affiliateId, referral_code: 'EBREF001', click_token: 'click-token-1' })
+      .execute();
+
+    const result = await registerStudent({ ...buildInput('EBREF001'), click_token: 'click-token-1' });
+
+    const clicks = await db.select()
+      .from(referralClicksTable)
+      .where(eq(referralClicksTable.click_token, 'click-token-1'))
+      .execute();
+    expect(clicks[0].registration_id).toEqual(result.id);
+  });
+
+  it('should not link a click that was already converted', async () => {
+    const first = await registerStudent(buildInput('EBREF001'));
+    await db.insert(referralClicksTable)
+      .values({ affiliate_id: affiliateId, referral_code: 'EBREF001', click_token: 'click-token-1', registration_id: first.id })
+      .execute();
+
+    await registerStudent({ ...buildInput('EBREF001'), click_token: 'click-token-1' });
+
+    const clicks = await db.select()
+      .from(referralClicksTable)
+      .where(eq(referralClicksTable.click_token, 'click-token-1'))
+      .execute();
+    expect(clicks[0].registration_id).toEqual(first.id);
+  });
+
+  describe('attribution', () => {
+    let competitorId: number;
+
+    beforeEach(async () => {
+      const competitor = await createCompetingAffiliate();
+      competitorId = competitor.id;
+
+      // The visitor opened EBREF001 ten days ago and EBREF002 two days ago
+      await db.insert(referralClicksTable)
+        .values([
+          { affiliate_id: affiliateId, referral_code: 'EBREF001', click_token: 'click-old', visitor_id: 'visitor-1', landed_at: daysAgo(10) },
+          { affiliate_id: competitorId, referral_code: 'EBREF002', click_token: 'click-new', visitor_id: 'visitor-1', landed_at: daysAgo(2) }
+        ])
+        .execute();
+    });
+
+    it('should credit the most recent click under last-touch', async () => {
+      const result = await registerStudent(buildInput('EBREF001'), 'visitor-1', lastTouch);
+
+      expect(result.affiliate_id).toEqual(competitorId);
+      expect(result.referral_code).toEqual('EBREF002');
+      expect(result.commission_amount).toEqual(75000); // 5% of the competing affiliate
+      expect(result.attribution_rule).toEqual('last_touch');
+      expect(result.attribution_window_days).toEqual(30);
+    });
+
+    it('should credit the earliest click under first-touch', async () => {
+      const result = await registerStudent(buildInput('EBREF002'), 'visitor-1', firstTouch);
+
+      expect(result.affiliate_id).toEqual(affiliateId);
+      expect(result.referral_code).toEqual('EBREF001');
+      expect(result.commission_amount).toEqual(150000);
+      expect(result.attribution_rule).toEqual('first_touch');
+    });
+
+    it('should store every competing touch on the registration', async () => {
+      const result = await registerStudent(buildInput('EBREF001'), 'visitor-1', lastTouch);
+
+      expect(result.attribution_touches).toHaveLength(2);
+      expect(result.attribution_touches![0].affiliate_id).toEqual(affiliateId);
+      expect(result.attribution_touches![0].referral_code).toEqual('EBREF001');
+      expect(result.attribution_touches![1].affiliate_id).toEqual(competitorId);
+      expect(new Date(result.attribution_touches![1].landed_at).getTime()).toBeGreaterThan(
+        new Date(result.attribution_touches![0].landed_at).getTime()
+      );
+
+      const saved = await db.select()
+        .from(studentRegistrationsTable)
+        .where(eq(studentRegistrationsTable.id, result.id))
+        .execute();
+      expect(saved[0].attribution_touches).toEqual(result.attribution_touches);
+    });
+
+    it('should ignore clicks outside the attribution window', async () => {
+      const result = await registerStudent(buildInput('EBREF001'), 'visitor-1', { model: 'first_touch', window_days: 7 });
+
+      expect(result.affiliate_id).toEqual(competitorId);
+      expect(result.attribution_touches).toHaveLength(1);
+      expect(result.attribution_window_days).toEqual(7);
+    });
+
+    it('should ignore clicks on affiliates that are no longer approved', async () => {
+      await db.update(affiliatesTable)
+        .set({ status: 'suspended' })
+        .where(eq(affiliatesTable.id, competitorId))
+        .execute();
+
+      const result = await registerStudent(buildInput('EBREF002'), 'visitor-1', lastTouch);
+
+      expect(result.affiliate_id).toEqual(affiliateId);
+      expect(result.attribution_touches).toHaveLength(1);
+    });
+
+    it('should link only the winning click to the registration', async () => {
+      const result = await registerStudent(buildInput('EBREF001'), 'visitor-1', lastTouch);
+
+      const clicks = await db.select()
+        .from(referralClicksTable)
+        .orderBy(referralClicksTable.landed_at)
+        .execute();
+      expect(clicks[0].registration_id).toBeNull();
+      expect(clicks[1].registration_id).toEqual(result.id);
+    });
+
+    it('should use the click token when the visitor cookie is missing', async () => {
+      const result = await registerStudent({ ...buildInput('NOSUCHCODE'), click_token: 'click-old' }, null, lastTouch);
+
+      expect(result.affiliate_id).toEqual(affiliateId);
+      expect(result.attribution_rule).toEqual('last_touch');
+      expect(result.attribution_touches).toHaveLength(1);
+    });
+
+    it('should fall back to the submitted code for other visitors', async () => {
+      const result = await registerStudent(buildInput('EBREF002'), 'visitor-2', firstTouch);
+
+      expect(result.affiliate_id).toEqual(competitorId);
+      expect(result.attribution_rule).toEqual('referral_code');
+      expect(result.attribution_touches).toBeNull();
+    });
+  });
+
+  it('should register onto the chosen intake', async () => {
+    const intake = await db.insert(programIntakesTable)
+      .values({
+        program_id: programId,
+        start_date: new Date('2030-03-02'),
+        end_date: new Date('2030-03-16'),
+        capacity: 20,
+        registration_deadline: new Date('2030-02-23')
+      })
+      .returning()
+      .execute();
+
+    const result = await registerStudent({ ...buildInput('EBREF001'), intake_id: intake[0].id });
+
+    expect(result.intake_id).toEqual(intake[0].id);
+    expect(result.status).toEqual('pending');
+    await expect(registerStudent(buildInput('EBREF001'))).rejects.toThrow(/choose an intake/i);
+  });
+});
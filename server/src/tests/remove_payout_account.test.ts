@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, payoutAccountsTable, commissionPayoutsTable } from '../db/schema';
+import { removePayoutAccount } from '../handlers/remove_payout_account';
+import { createCommissionPayout } from '../handlers/create_commission_payout';
+import { insertPayoutAccount } from '../helpers/payout_accounts';
+import { postLedgerEntry } from '../helpers/ledger';
+import { asc, eq } from 'drizzle-orm';
+
+describe('removePayoutAccount', () => {
+  let affiliateId: number;
+  let accountIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Siti Rahma', role: 'affiliate' })
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+
+    accountIds = [];
+    for (const accountNumber of ['1234567890', '9876543210', '5555555555']) {
+      const account = await insertPayoutAccount(db, affiliateId, {
+        account_type: 'bank', bank_code: '014', account_number: accountNumber, account_holder: 'Siti Rahma'
+      }, false, 'verified');
+      accountIds.push(account.id);
+    }
+  });
+
+  afterEach(resetDB);
+
+  it('should deactivate the account and hand the default to the oldest remaining one', async () => {
+    const result = await removePayoutAccount({ affiliate_id: affiliateId, payout_account_id: accountIds[0] });
+
+    expect(result.is_active).toBe(false);
+    expect(result.is_default).toBe(false);
+
+    const accounts = await db.select()
+      .from(payoutAccountsTable)
+      .orderBy(asc(payoutAccountsTable.id))
+      .execute();
+    expect(accounts.map(account => [account.is_active, account.is_default])).toEqual([
+      [false, false],
+      [true, true],
+      [true, false]
+    ]);
+  });
+
+  it('should keep the default when another account is removed', async () => {
+    await removePayoutAccount({ affiliate_id: affiliateId, payout_account_id: accountIds[2] });
+
+    const accounts = await db.select().from(payoutAccountsTable).orderBy(asc(payoutAccountsTable.id)).execute();
+    expect(accounts.map(account => account.is_default)).toEqual([true, false, false]);
+  });
+
+  it('should leave requested payouts going to the removed account', async () => {
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 200000 });
+    const payout = await createCommissionPayout({ affiliate_id: affiliateId, amount: 100000, notes: null });
+
+    await removePayoutAccount({ affiliate_id: affiliateId, payout_account_id: accountIds[0] });
+
+    const saved = await db.select().from(commissionPayoutsTable).where(eq(commissionPayoutsTable.id, payout.id)).execute();
+    expect(saved[0].payout_account_id).toEqual(accountIds[0]);
+    expect(saved[0].destination?.account_number).toEqual('1234567890');
+  });
+
+  it('should throw for an account that was already removed', async () => {
+    await removePayoutAccount({ affiliate_id: affiliateId, payout_account_id: accountIds[1] });
+
+    await expect(removePayoutAccount({ affiliate_id: affiliateId, payout_account_id: accountIds[1] }))
+      .rejects.toThrow(`Payout account with ID ${accountIds[1]} not found`);
+  });
+});
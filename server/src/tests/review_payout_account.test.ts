@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, payoutAccountsTable, notificationsTable } from '../db/schema';
+import { reviewPayoutAccountInputSchema } from '../schema';
+import { reviewPayoutAccount } from '../handlers/review_payout_account';
+import { insertPayoutAccount } from '../helpers/payout_accounts';
+import { eq } from 'drizzle-orm';
+
+describe('reviewPayoutAccount', () => {
+  let adminUserId: number;
+  let affiliateUserId: number;
+  let accountId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Test Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminUserId = users[0].id;
+    affiliateUserId = users[1].id;
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: affiliateUserId, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+
+    const account = await insertPayoutAccount(db, affiliates[0].id, {
+      account_type: 'bank', bank_code: '014', account_number: '1234567890', account_holder: 'Test Affiliate'
+    }, true);
+    accountId = account.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should verify the account and notify the affiliate', async () => {
+    const result = await reviewPayoutAccount({ payout_account_id: accountId, status: 'verified' }, adminUserId);
+
+    expect(result.verification_status).toEqual('verified');
+    expect(result.verified_by).toEqual(adminUserId);
+    expect(result.verified_at).toBeInstanceOf(Date);
+    expect(result.rejection_reason).toBeNull();
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].user_id).toEqual(affiliateUserId);
+    expect(notifications[0].title).toEqual('Payout account verified');
+    expect(notifications[0].message).toEqual('Your BCA account 1234567890 is verified and can receive payouts.');
+    expect(notifications[0].read_at).toBeNull();
+  });
+
+  it('should reject the account with the reason the affiliate is told', async () => {
+    const result = await reviewPayoutAccount({
+      payout_account_id: accountId,
+      status: 'rejected',
+      reason: 'Holder name does not match the bank'
+    }, adminUserId);
+
+    expect(result.verification_status).toEqual('rejected');
+    expect(result.rejection_reason).toEqual('Holder name does not match the bank');
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications[0].title).toEqual('Payout account rejected');
+    expect(notifications[0].message).toContain('could not be verified: Holder name does not match the bank.');
+  });
+
+  it('should require a reason when rejecting', async () => {
+    expect(reviewPayoutAccountInputSchema.safeParse({ payout_account_id: accountId, status: 'rejected' }).success).toBe(false);
+    expect(reviewPayoutAccountInputSchema.safeParse({ payout_account_id: accountId, status: 'rejected', reason: ' ' }).success).toBe(false);
+    expect(reviewPayoutAccountInputSchema.safeParse({ payout_account_id: accountId, status: 'verified' }).success).toBe(true);
+  });
+
+  it('should not review an account twice', async () => {
+    await reviewPayoutAccount({ payout_account_id: accountId, status: 'verified' }, adminUserId);
+
+    await expect(reviewPayoutAccount({ payout_account_id: accountId, status: 'rejected', reason: 'Wrong' }, adminUserId))
+      .rejects.toThrow(`Payout account #${accountId} is already verified`);
+  });
+
+  it('should not review removed accounts', async () => {
+    await db.update(payoutAccountsTable).set({ is_active: false }).where(eq(payoutAccountsTable.id, accountId)).execute();
+
+    await expect(reviewPayoutAccount({ payout_account_id: accountId, status: 'verified' }, adminUserId))
+      .rejects.toThrow(`Payout account with ID ${accountId} not found`);
+  });
+
+  it('should only let admins review payout accounts', async () => {
+    await expect(reviewPayoutAccount({ payout_account_id: accountId, status: 'verified' }, affiliateUserId))
+      .rejects.toThrow('Only admins can perform this action');
+
+    const accounts = await db.select().from(payoutAccountsTable).execute();
+    expect(accounts[0].verification_status).toEqual('pending');
+    expect(await db.select().from(notificationsTable).execute()).toHaveLength(0);
+  });
+});
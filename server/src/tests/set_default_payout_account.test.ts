@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, payoutAccountsTable } from '../db/schema';
+import { setDefaultPayoutAccount } from '../handlers/set_default_payout_account';
+import { insertPayoutAccount } from '../helpers/payout_accounts';
+import { asc, eq } from 'drizzle-orm';
+
+describe('setDefaultPayoutAccount', () => {
+  let affiliateIds: number[];
+  let accountIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'first@test.com', password_hash: 'hashed_password', full_name: 'First Affiliate', role: 'affiliate' },
+        { email: 'second@test.com', password_hash: 'hashed_password', full_name: 'Second Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values([
+        { user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' },
+        { user_id: users[1].id, referral_code: 'EBREF002', commission_rate: '0.1000', status: 'approved' }
+      ])
+      .returning()
+      .execute();
+    affiliateIds = affiliates.map(affiliate => affiliate.id);
+
+    accountIds = [];
+    for (const accountNumber of ['1234567890', '9876543210']) {
+      const account = await insertPayoutAccount(db, affiliateIds[0], {
+        account_type: 'bank', bank_code: '014', account_number: accountNumber, account_holder: 'First Affiliate'
+      }, false);
+      accountIds.push(account.id);
+    }
+  });
+
+  afterEach(resetDB);
+
+  it('should move the default to the chosen account', async () => {
+    const result = await setDefaultPayoutAccount({ affiliate_id: affiliateIds[0], payout_account_id: accountIds[1] });
+
+    expect(result.id).toEqual(accountIds[1]);
+    expect(result.is_default).toBe(true);
+
+    const accounts = await db.select()
+      .from(payoutAccountsTable)
+      .orderBy(asc(payoutAccountsTable.id))
+      .execute();
+    expect(accounts.map(account => account.is_default)).toEqual([false, true]);
+  });
+
+  it('should not touch another affiliate\'s account', async () => {
+    await expect(setDefaultPayoutAccount({ affiliate_id: affiliateIds[1], payout_account_id: accountIds[1] }))
+      .rejects.toThrow(`Payout account with ID ${accountIds[1]} not found`);
+  });
+
+  it('should not make a removed account the default', async () => {
+    await db.update(payoutAccountsTable).set({ is_active: false }).where(eq(payoutAccountsTable.id, accountIds[1])).execute();
+
+    await expect(setDefaultPayoutAccount({ affiliate_id: affiliateIds[0], payout_account_id: accountIds[1] }))
+      .rejects.toThrow(`Payout account with ID ${accountIds[1]} not found`);
+  });
+});
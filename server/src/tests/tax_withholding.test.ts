@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, commissionPayoutsTable } from '../db/schema';
+import { computeWithholding, calculateWithholding } from '../helpers/tax_withholding';
+
+describe('tax withholding', () => {
+  it('should withhold PPh 21 on half of an individual\'s commission', () => {
+    expect(computeWithholding({ taxpayer_type: 'individual', npwp: '0123456789012345' }, 100000)).toEqual({
+      tax_type: 'pph21',
+      tax_base: 50000,
+      tax_rate: 0.05,
+      tax_amount: 2500,
+      tax_npwp: '0123456789012345'
+    });
+  });
+
+  it('should withhold more from affiliates without an NPWP', () => {
+    expect(computeWithholding({ taxpayer_type: 'individual', npwp: null }, 100000).tax_amount).toEqual(3000);
+    expect(computeWithholding({ taxpayer_type: 'company', npwp: '012345678901234' }, 100000)).toEqual({
+      tax_type: 'pph23',
+      tax_base: 100000,
+      tax_rate: 0.02,
+      tax_amount: 2000,
+      tax_npwp: '012345678901234'
+    });
+    expect(computeWithholding({ taxpayer_type: 'company', npwp: null }, 100000).tax_amount).toEqual(4000);
+  });
+
+  it('should move up the brackets with the base already withheld on this year', () => {
+    // 10,000 of the base falls in the 5% bracket and 40,000 in the 15% one
+    const withholding = computeWithholding({ taxpayer_type: 'individual', npwp: '0123456789012345' }, 100000, 59_990_000);
+
+    expect(withholding.tax_amount).toEqual(6500);
+    expect(withholding.tax_rate).toEqual(0.13);
+  });
+
+  it('should round the tax down to whole rupiah', () => {
+    expect(computeWithholding({ taxpayer_type: 'individual', npwp: null }, 100010.5).tax_amount).toEqual(3000);
+  });
+
+  describe('calculateWithholding', () => {
+    let affiliateId: number;
+
+    beforeEach(async () => {
+      await createDB();
+
+      const users = await db.insert(usersTable)
+        .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Siti Rahma', role: 'affiliate' })
+        .returning()
+        .execute();
+      const affiliates = await db.insert(affiliatesTable)
+        .values({ user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+        .returning()
+        .execute();
+      affiliateId = affiliates[0].id;
+    });
+
+    afterEach(resetDB);
+
+    it('should count the PPh 21 base of this year\'s payouts that did not fail', async () => {
+      const payout = { affiliate_id: affiliateId, method: 'bank_transfer' as const, tax_type: 'pph21' as const };
+      await db.insert(commissionPayoutsTable)
+        .values([
+          { ...payout, amount: '100000000.00', tax_base: '50000000.00', status: 'completed', created_at: new Date(2026, 2, 1) },
+          { ...payout, amount: '20000000.00', tax_base: '10000000.00', status: 'failed', created_at: new Date(2026, 3, 1) },
+          { ...payout, amount: '90000000.00', tax_base: '45000000.00', status: 'completed', created_at: new Date(2025, 11, 31) }
+        ])
+        .execute();
+
+      const withholding = await calculateWithholding(db, affiliateId, 40_000_000, new Date(2026, 5, 1));
+
+      // 10 million of the 20 million base is still in the 5% bracket, the rest in the 15% one, raised by 20% without an NPWP
+      expect(withholding.tax_base).toEqual(20_000_000);
+      expect(withholding.tax_amount).toEqual(2_400_000);
+    });
+  });
+});
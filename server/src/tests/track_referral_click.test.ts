@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, affiliatesTable, programsTable, referralClicksTable } from '../db/schema';
+import { type TrackReferralClickInput } from '../schema';
+import { trackReferralClick } from '../handlers/track_referral_click';
+import { hashIpAddress } from '../tracking';
+import { eq } from 'drizzle-orm';
+
+const visitor = {
+  visitor_id: 'visitor-cookie-1',
+  user_agent: 'Mozilla/5.0 (Linux; Android 14)',
+  ip_address: '203.0.113.7'
+};
+
+describe('trackReferralClick', () => {
+  let affiliateId: number;
+  let programId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
+
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'affiliate@test.com',
+        password_hash: 'hashed_password',
+        full_name: 'Test Affiliate',
+        phone: '081234567890',
+        role: 'affiliate'
+      })
+      .returning()
+      .execute();
+
+    const affiliate = await db.insert(affiliatesTable)
+      .values({
+        user_id: user[0].id,
+        referral_code: 'EBREF001',
+        commission_rate: '0.1000',
+        status: 'approved'
+      })
+      .returning()
+      .execute();
+    affiliateId = affiliate[0].id;
+
+    const program = await db.insert(programsTable)
+      .values({
+        name: 'Speaking Booster',
+        category: 'online',
+        location: 'online',
+        price: '750000.00',
+        is_active: true
+      })
+      .returning()
+      .execute();
+    programId = program[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const input: TrackReferralClickInput = {
+    referral_code: 'EBREF001',
+    program_id: null,
+    referrer: 'https://www.instagram.com/'
+  };
+
+  it('should record a click and return its token', async () => {
+    const result = await trackReferralClick({ ...input, program_id: programId }, visitor);
+
+    expect(result.click_token).toEqual(expect.any(String));
+
+    const clicks = await db.select()
+      .from(referralClicksTable)
+      .where(eq(referralClicksTable.click_token, result.click_token!))
+      .execute();
+
+    expect(clicks).toHaveLength(1);
+    expect(clicks[0].affiliate_id).toEqual(affiliateId);
+    expect(clicks[0].referral_code).toEqual('EBREF001');
+    expect(clicks[0].visitor_id).toEqual('visitor-cookie-1');
+    expect(clicks[0].program_id).toEqual(programId);
+    expect(clicks[0].user_agent).toEqual(visitor.user_agent);
+    expect(clicks[0].referrer).toEqual('https://www.instagram.com/');
+    expect(clicks[0].registration_id).toBeNull();
+    expect(clicks[0].landed_at).toBeInstanceOf(Date);
+  });
+
+  it('should store only a hash of the visitor IP', async () => {
+    const result = await trackReferralClick(input, visitor);
+
+    const clicks = await db.select()
+      .from(referralClicksTable)
+      .where(eq(referralClicksTable.click_token, result.click_token!))
+      .execute();
+
+    expect(clicks[0].ip_hash).toEqual(hashIpAddress(visitor.ip_address));
+    expect(clicks[0].ip_hash).not.toContain(visitor.ip_address);
+  });
+
+  it('should issue a different token for every click', async () => {
+    const first = await trackReferralClick(input, visitor);
+    const second = await trackReferralClick(input, visitor);
+
+    expect(first.click_token).not.toEqual(second.click_token);
+  });
+
+  it('should ignore unknown program IDs', async () => {
+    const result = await trackReferralClick({ ...input, program_id: 99999 }, visitor);
+
+    const clicks = await db.select()
+      .from(referralClicksTable)
+      .where(eq(referralClicksTable.click_token, result.click_token!))
+      .execute();
+
+    expect(clicks[0].program_id).toBeNull();
+  });
+
+  it('should not track unknown codes or affiliates that are not approved', async () => {
+    const unknown = await trackReferralClick({ ...input, referral_code: 'NOSUCHCODE' }, visitor);
+    expect(unknown.click_token).toBeNull();
+
+    await db.update(affiliatesTable)
+      .set({ status: 'suspended' })
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+
+    const suspended = await trackReferralClick(input, visitor);
+    expect(suspended.click_token).toBeNull();
+
+    const clicks = await db.select().from(referralClicksTable).execute();
+    expect(clicks).toHaveLength(0);
+  });
+});
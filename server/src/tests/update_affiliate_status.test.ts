@@ -1,10 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, affiliatesTable } from '../db/schema';
+import { usersTable, affiliatesTable, statusHistoryTable, payoutAccountsTable } from '../db/schema';
 import { type UpdateAffiliateStatusInput } from '../schema';
 import { updateAffiliateStatus } from '../handlers/update_affiliate_status';
-import { eq } from 'drizzle-orm';
+import { InvalidStatusTransitionError } from '../helpers/status_transitions';
+import { insertPayoutAccount, replacePayoutAccountDetails } from '../helpers/payout_accounts';
+import { asc, eq } from 'drizzle-orm';
 
 describe('updateAffiliateStatus', () => {
   beforeEach(createDB);
@@ -55,11 +57,10 @@ describe('updateAffiliateStatus', () => {
 
     const input: UpdateAffiliateStatusInput = {
       affiliate_id: affiliate.id,
-      status: 'approved',
-      approved_by: admin.id
+      status: 'approved'
     };
 
-    const result = await updateAffiliateStatus(input);
+    const result = await updateAffiliateStatus(input, admin.id);
 
     expect(result.id).toEqual(affiliate.id);
     expect(result.status).toEqual('approved');
@@ -76,11 +77,10 @@ describe('updateAffiliateStatus', () => {
 
     const input: UpdateAffiliateStatusInput = {
       affiliate_id: affiliate.id,
-      status: 'rejected',
-      approved_by: admin.id
+      status: 'rejected'
     };
 
-    const result = await updateAffiliateStatus(input);
+    const result = await updateAffiliateStatus(input, admin.id);
 
     expect(result.id).toEqual(affiliate.id);
     expect(result.status).toEqual('rejected');
@@ -104,11 +104,10 @@ describe('updateAffiliateStatus', () => {
 
     const input: UpdateAffiliateStatusInput = {
       affiliate_id: affiliate.id,
-      status: 'suspended',
-      approved_by: admin.id
+      status: 'suspended'
     };
 
-    const result = await updateAffiliateStatus(input);
+    const result = await updateAffiliateStatus(input, admin.id);
 
     expect(result.id).toEqual(affiliate.id);
     expect(result.status).toEqual('suspended');
@@ -123,11 +122,10 @@ describe('updateAffiliateStatus', () => {
 
     const input: UpdateAffiliateStatusInput = {
       affiliate_id: affiliate.id,
-      status: 'approved',
-      approved_by: admin.id
+      status: 'approved'
     };
 
-    await updateAffiliateStatus(input);
+    await updateAffiliateStatus(input, admin.id);
 
     // Verify changes in database
     const dbAffiliates = await db.select()
@@ -143,22 +141,47 @@ describe('updateAffiliateStatus', () => {
     expect(dbAffiliate.updated_at).toBeInstanceOf(Date);
   });
 
-  it('should update affiliate status without approved_by when not provided', async () => {
+  it('should record the acting admin as approver', async () => {
+    const user = await createTestUser();
+    const admin = await createTestUser('admin');
+    const affiliate = await createTestAffiliate(user.id, 'pending');
+
+    const result = await updateAffiliateStatus({
+      affiliate_id: affiliate.id,
+      status: 'approved'
+    }, admin.id);
+
+    expect(result.approved_by).toEqual(admin.id);
+    expect(result.approved_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject actors who are not admins', async () => {
     const user = await createTestUser();
     const affiliate = await createTestAffiliate(user.id, 'pending');
 
     const input: UpdateAffiliateStatusInput = {
       affiliate_id: affiliate.id,
       status: 'approved'
-      // approved_by is optional and not provided
     };
 
-    const result = await updateAffiliateStatus(input);
+    await expect(updateAffiliateStatus(input, user.id)).rejects.toThrow(/only admins/i);
 
-    expect(result.id).toEqual(affiliate.id);
-    expect(result.status).toEqual('approved');
-    expect(result.approved_by).toBeNull(); // Database stores undefined as null
-    expect(result.approved_at).toBeInstanceOf(Date);
+    const affiliates = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, affiliate.id))
+      .execute();
+    expect(affiliates[0].status).toEqual('pending');
+    expect(affiliates[0].approved_by).toBeNull();
+  });
+
+  it('should reject unknown actors', async () => {
+    const user = await createTestUser();
+    const affiliate = await createTestAffiliate(user.id, 'pending');
+
+    await expect(updateAffiliateStatus({
+      affiliate_id: affiliate.id,
+      status: 'approved'
+    }, 99999)).rejects.toThrow(/not found/i);
   });
 
   it('should change status from approved back to pending and clear approval fields', async () => {
@@ -180,7 +203,7 @@ describe('updateAffiliateStatus', () => {
       status: 'pending'
     };
 
-    const result = await updateAffiliateStatus(input);
+    const result = await updateAffiliateStatus(input, admin.id);
 
     expect(result.id).toEqual(affiliate.id);
     expect(result.status).toEqual('pending');
@@ -189,13 +212,13 @@ describe('updateAffiliateStatus', () => {
   });
 
   it('should throw error when affiliate not found', async () => {
+    const admin = await createTestUser('admin');
     const input: UpdateAffiliateStatusInput = {
       affiliate_id: 99999, // Non-existent ID
-      status: 'approved',
-      approved_by: 1
+      status: 'approved'
     };
 
-    expect(updateAffiliateStatus(input)).rejects.toThrow(/affiliate.*not found/i);
+    await expect(updateAffiliateStatus(input, admin.id)).rejects.toThrow(/affiliate.*not found/i);
   });
 
   it('should handle all valid status transitions', async () => {
@@ -209,11 +232,10 @@ describe('updateAffiliateStatus', () => {
     for (const status of statuses) {
       const input: UpdateAffiliateStatusInput = {
         affiliate_id: affiliate.id,
-        status: status,
-        approved_by: status === 'approved' ? admin.id : undefined
+        status: status
       };
 
-      const result = await updateAffiliateStatus(input);
+      const result = await updateAffiliateStatus(input, admin.id);
       expect(result.status).toEqual(status);
       
       if (status === 'approved') {
@@ -225,4 +247,117 @@ describe('updateAffiliateStatus', () => {
       }
     }
   });
-});
\ No newline at end of file
+
+  it('should reject transitions missing from the transition table', async () => {
+    const user = await createTestUser();
+    const admin = await createTestUser('admin');
+    const affiliate = await createTestAffiliate(user.id, 'pending');
+
+    // Only approved affiliates can be suspended
+    await expect(updateAffiliateStatus({ affiliate_id: affiliate.id, status: 'suspended' }, admin.id))
+      .rejects.toThrow('Cannot change affiliate status from pending to suspended');
+    await expect(updateAffiliateStatus({ affiliate_id: affiliate.id, status: 'pending' }, admin.id))
+      .rejects.toBeInstanceOf(InvalidStatusTransitionError);
+
+    const affiliates = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, affiliate.id))
+      .execute();
+    expect(affiliates[0].status).toEqual('pending');
+  });
+
+  it('should record status changes with the acting admin and reason', async () => {
+    const user = await createTestUser();
+    const admin = await createTestUser('admin');
+    const affiliate = await createTestAffiliate(user.id, 'pending');
+
+    await updateAffiliateStatus({ affiliate_id: affiliate.id, status: 'approved' }, admin.id);
+    await updateAffiliateStatus({ affiliate_id: affiliate.id, status: 'suspended', reason: 'Spam reports' }, admin.id);
+
+    const history = await db.select()
+      .from(statusHistoryTable)
+      .where(eq(statusHistoryTable.entity_type, 'affiliate'))
+      .orderBy(statusHistoryTable.id)
+      .execute();
+
+    expect(history.map(entry => [entry.from_status, entry.to_status])).toEqual([
+      ['pending', 'approved'],
+      ['approved', 'suspended']
+    ]);
+    expect(history[1].entity_id).toEqual(affiliate.id);
+    expect(history[1].actor_id).toEqual(admin.id);
+    expect(history[1].reason).toEqual('Spam reports');
+  });
+
+  it('should verify the payout details of an application when approving it', async () => {
+    const user = await createTestUser();
+    const admin = await createTestUser('admin');
+    const affiliate = await createTestAffiliate(user.id, 'pending');
+    const account = await insertPayoutAccount(db, affiliate.id, {
+      account_type: 'bank',
+      bank_code: '014',
+      account_number: '1234567890',
+      account_holder: 'Test User'
+    }, true, 'pending', true);
+
+    await updateAffiliateStatus({ affiliate_id: affiliate.id, status: 'approved' }, admin.id);
+
+    const accounts = await db.select().from(payoutAccountsTable).where(eq(payoutAccountsTable.id, account.id)).execute();
+    expect(accounts[0].verification_status).toEqual('verified');
+    expect(accounts[0].verified_by).toEqual(admin.id);
+    expect(accounts[0].verified_at).toBeInstanceOf(Date);
+  });
+
+  it('should leave accounts added or edited before approval awaiting verification', async () => {
+    const user = await createTestUser();
+    const admin = await createTestUser('admin');
+    const affiliate = await createTestAffiliate(user.id, 'pending');
+    const edited = await insertPayoutAccount(db, affiliate.id, {
+      account_type: 'bank',
+      bank_code: '014',
+      account_number: '1234567890',
+      account_holder: 'Test User'
+    }, true, 'pending', true);
+    await replacePayoutAccountDetails(db, edited.id, {
+      account_type: 'bank',
+      bank_code: '014',
+      account_number: '9999999999',
+      account_holder: 'Someone Else'
+    });
+    const added = await insertPayoutAccount(db, affiliate.id, {
+      account_type: 'ewallet',
+      ewallet_provider: 'ovo',
+      account_number: '081234567890',
+      account_holder: 'Test User'
+    }, false);
+
+    await updateAffiliateStatus({ affiliate_id: affiliate.id, status: 'approved' }, admin.id);
+
+    const accounts = await db.select()
+      .from(payoutAccountsTable)
+      .where(eq(payoutAccountsTable.affiliate_id, affiliate.id))
+      .orderBy(asc(payoutAccountsTable.id))
+      .execute();
+    expect(accounts.map(account => [account.id, account.verification_status])).toEqual([
+      [edited.id, 'pending'],
+      [added.id, 'pending']
+    ]);
+  });
+
+  it('should leave details edited while suspended awaiting verification on reinstatement', async () => {
+    const user = await createTestUser();
+    const admin = await createTestUser('admin');
+    const affiliate = await createTestAffiliate(user.id, 'suspended');
+    const account = await insertPayoutAccount(db, affiliate.id, {
+      account_type: 'ewallet',
+      ewallet_provider: 'ovo',
+      account_number: '081234567890',
+      account_holder: 'Test User'
+    }, true);
+
+    await updateAffiliateStatus({ affiliate_id: affiliate.id, status: 'approved' }, admin.id);
+
+    const accounts = await db.select().from(payoutAccountsTable).where(eq(payoutAccountsTable.id, account.id)).execute();
+    expect(accounts[0].verification_status).toEqual('pending');
+  });
+});
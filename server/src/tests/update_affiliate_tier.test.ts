@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { affiliateTiersTable } from '../db/schema';
+import { updateAffiliateTier } from '../handlers/update_affiliate_tier';
+import { eq } from 'drizzle-orm';
+
+describe('updateAffiliateTier', () => {
+  let silverId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const tiers = await db.insert(affiliateTiersTable)
+      .values([
+        { name: 'Silver', level: 2, commission_rate: '0.1200', min_confirmed_registrations: 5, min_revenue: '10000000.00' },
+        { name: 'Gold', level: 3, commission_rate: '0.1500', min_confirmed_registrations: 15, min_revenue: null }
+      ])
+      .returning()
+      .execute();
+    silverId = tiers[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only the given fields', async () => {
+    const result = await updateAffiliateTier({ id: silverId, commission_rate: 0.13 });
+
+    expect(result.commission_rate).toEqual(0.13);
+    expect(result.name).toEqual('Silver');
+    expect(result.level).toEqual(2);
+    expect(result.min_confirmed_registrations).toEqual(5);
+    expect(result.min_revenue).toEqual(10000000);
+  });
+
+  it('should remove a threshold when null is given', async () => {
+    await updateAffiliateTier({ id: silverId, min_revenue: null });
+
+    const tiers = await db.select()
+      .from(affiliateTiersTable)
+      .where(eq(affiliateTiersTable.id, silverId))
+      .execute();
+
+    expect(tiers[0].min_revenue).toBeNull();
+    expect(tiers[0].min_confirmed_registrations).toEqual(5);
+  });
+
+  it('should allow keeping its own level and name', async () => {
+    const result = await updateAffiliateTier({ id: silverId, name: 'Silver', level: 2 });
+
+    expect(result.name).toEqual('Silver');
+  });
+
+  it('should reject a level used by another tier', async () => {
+    await expect(updateAffiliateTier({ id: silverId, level: 3 })).rejects.toThrow(/level 3 is already used by Gold/i);
+  });
+
+  it('should throw for a non-existent tier', async () => {
+    await expect(updateAffiliateTier({ id: 99999, commission_rate: 0.2 })).rejects.toThrow(/not found/i);
+  });
+});
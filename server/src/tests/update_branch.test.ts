@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, branchesTable, programsTable } from '../db/schema';
+import { updateBranch } from '../handlers/update_branch';
+import { createProgram } from '../handlers/create_program';
+import { getPrograms } from '../handlers/get_programs';
+
+describe('updateBranch', () => {
+  let adminId: number;
+  let affiliateUserId: number;
+  let branchId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminId = users[0].id;
+    affiliateUserId = users[1].id;
+
+    const branches = await db.insert(branchesTable)
+      .values({ code: 'pare', name: 'Pare', address: 'Jl. Anyelir, Pare', contact: '0354 391000' })
+      .returning()
+      .execute();
+    branchId = branches[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should change only the given fields', async () => {
+    const result = await updateBranch({ id: branchId, name: 'Kampung Inggris Pare', contact: null }, adminId);
+
+    expect(result.code).toEqual('pare');
+    expect(result.name).toEqual('Kampung Inggris Pare');
+    expect(result.address).toEqual('Jl. Anyelir, Pare');
+    expect(result.contact).toBeNull();
+    expect(result.is_active).toBe(true);
+  });
+
+  it('should keep programs running at a closed branch but take no new ones', async () => {
+    await db.insert(programsTable)
+      .values({ name: 'Pare 2 Weeks', category: 'offline_pare', location: 'pare', price: '2000000.00' })
+      .execute();
+
+    const result = await updateBranch({ id: branchId, is_active: false }, adminId);
+
+    expect(result.is_active).toBe(false);
+    expect(await getPrograms({ location: 'pare' })).toHaveLength(1);
+    await expect(createProgram({
+      name: 'Pare 4 Weeks',
+      description: null,
+      category: 'offline_pare',
+      location: 'pare',
+      price: 3500000,
+      duration_weeks: 4,
+      is_active: true
+    })).rejects.toThrow('Branch "Pare" is closed and takes no new programs');
+  });
+
+  it('should only let admins update branches', async () => {
+    await expect(updateBranch({ id: branchId, name: 'Pare' }, affiliateUserId)).rejects.toThrow('Only admins can perform this action');
+  });
+
+  it('should throw for unknown branches', async () => {
+    await expect(updateBranch({ id: branchId + 100, name: 'Missing' }, adminId))
+      .rejects.toThrow(`Branch with ID ${branchId + 100} not found`);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { commissionRulesTable } from '../db/schema';
+import { updateCommissionRule } from '../handlers/update_commission_rule';
+import { eq } from 'drizzle-orm';
+
+describe('updateCommissionRule', () => {
+  let ruleId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const rule = await db.insert(commissionRulesTable)
+      .values({
+        name: 'Online programs',
+        commission_type: 'percentage',
+        value: '0.1200',
+        category: 'online',
+        effective_from: new Date('2025-01-01')
+      })
+      .returning()
+      .execute();
+    ruleId = rule[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only the given fields', async () => {
+    const result = await updateCommissionRule({ id: ruleId, value: 0.08 });
+
+    expect(result.value).toEqual(0.08);
+    expect(result.name).toEqual('Online programs');
+    expect(result.category).toEqual('online');
+    expect(result.effective_from).toEqual(new Date('2025-01-01'));
+  });
+
+  it('should end a rule by setting its end date', async () => {
+    await updateCommissionRule({ id: ruleId, effective_to: new Date('2025-06-01') });
+
+    const rules = await db.select()
+      .from(commissionRulesTable)
+      .where(eq(commissionRulesTable.id, ruleId))
+      .execute();
+
+    expect(rules[0].effective_to).toEqual(new Date('2025-06-01'));
+    expect(rules[0].updated_at.getTime()).toBeGreaterThanOrEqual(rules[0].created_at.getTime());
+  });
+
+  it('should clear a scope when null is given', async () => {
+    const result = await updateCommissionRule({ id: ruleId, category: null });
+
+    expect(result.category).toBeNull();
+  });
+
+  it('should validate the rule as updated', async () => {
+    await expect(updateCommissionRule({ id: ruleId, value: 2 })).rejects.toThrow(/fraction between 0 and 1/i);
+    await expect(updateCommissionRule({ id: ruleId, effective_to: new Date('2024-01-01') })).rejects.toThrow(/end after it starts/i);
+
+    // Switching to a flat amount makes the same value valid
+    const result = await updateCommissionRule({ id: ruleId, commission_type: 'flat', value: 150000 });
+    expect(result.commission_type).toEqual('flat');
+    expect(result.value).toEqual(150000);
+  });
+
+  it('should throw for a non-existent rule', async () => {
+    await expect(updateCommissionRule({ id: 99999, value: 0.1 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, commissionPayoutsTable } from '../db/schema';
+import { updatePayoutAccount } from '../handlers/update_payout_account';
+import { createCommissionPayout } from '../handlers/create_commission_payout';
+import { insertPayoutAccount } from '../helpers/payout_accounts';
+import { postLedgerEntry } from '../helpers/ledger';
+
+describe('updatePayoutAccount', () => {
+  let affiliateIds: number[];
+  let accountId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'first@test.com', password_hash: 'hashed_password', full_name: 'First Affiliate', role: 'affiliate' },
+        { email: 'second@test.com', password_hash: 'hashed_password', full_name: 'Second Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values([
+        { user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' },
+        { user_id: users[1].id, referral_code: 'EBREF002', commission_rate: '0.1000', status: 'approved' }
+      ])
+      .returning()
+      .execute();
+    affiliateIds = affiliates.map(affiliate => affiliate.id);
+
+    const account = await insertPayoutAccount(db, affiliateIds[0], {
+      account_type: 'bank', bank_code: '014', account_number: '1234567890', account_holder: 'First Affiliate'
+    }, true, 'verified');
+    accountId = account.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should replace the details and send them back for verification', async () => {
+    const result = await updatePayoutAccount({
+      affiliate_id: affiliateIds[0],
+      payout_account_id: accountId,
+      account: { account_type: 'ewallet', ewallet_provider: 'dana', account_number: '081234567890', account_holder: 'First Affiliate' }
+    });
+
+    expect(result.id).toEqual(accountId);
+    expect(result.account_type).toEqual('ewallet');
+    expect(result.bank_code).toBeNull();
+    expect(result.ewallet_provider).toEqual('dana');
+    expect(result.account_number).toEqual('081234567890');
+    expect(result.is_default).toBe(true);
+    expect(result.verification_status).toEqual('pending');
+    expect(result.verified_by).toBeNull();
+    expect(result.verified_at).toBeNull();
+  });
+
+  it('should keep the details of payouts already requested', async () => {
+    await postLedgerEntry(db, { affiliate_id: affiliateIds[0], entry_type: 'commission_earned', amount: 200000 });
+    await createCommissionPayout({ affiliate_id: affiliateIds[0], amount: 100000, notes: null });
+
+    await updatePayoutAccount({
+      affiliate_id: affiliateIds[0],
+      payout_account_id: accountId,
+      account: { account_type: 'bank', bank_code: '008', account_number: '5555555555', account_holder: 'First Affiliate' }
+    });
+
+    const payouts = await db.select().from(commissionPayoutsTable).execute();
+    expect(payouts[0].destination?.bank_code).toEqual('014');
+    expect(payouts[0].destination?.account_number).toEqual('1234567890');
+
+    await expect(createCommissionPayout({ affiliate_id: affiliateIds[0], amount: 100000, notes: null }))
+      .rejects.toThrow(`Payout account #${accountId} is awaiting verification by an admin`);
+  });
+
+  it('should not touch another affiliate\'s account', async () => {
+    await expect(updatePayoutAccount({
+      affiliate_id: affiliateIds[1],
+      payout_account_id: accountId,
+      account: { account_type: 'bank', bank_code: '008', account_number: '5555555555', account_holder: 'Second Affiliate' }
+    })).rejects.toThrow(`Payout account with ID ${accountId} not found`);
+  });
+});
@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, affiliatesTable, commissionPayoutsTable } from '../db/schema';
+import { usersTable, affiliatesTable, commissionPayoutsTable, ledgerEntriesTable, statusHistoryTable } from '../db/schema';
 import { type UpdatePayoutStatusInput } from '../schema';
 import { updatePayoutStatus } from '../handlers/update_payout_status';
+import { postLedgerEntry, backfillLedger, getLedgerBalances } from '../helpers/ledger';
+import { InvalidStatusTransitionError } from '../helpers/status_transitions';
 import { eq } from 'drizzle-orm';
 
 describe('updatePayoutStatus', () => {
@@ -60,7 +62,7 @@ describe('updatePayoutStatus', () => {
         affiliate_id: affiliateId,
         amount: '500000.00', // IDR 500,000
         method: 'bank_transfer',
-        bank_details: 'BCA - 1234567890',
+        destination: { account_type: 'bank' as const, bank_code: '014', ewallet_provider: null, provider_name: 'BCA', account_number: '1234567890', account_holder: 'Test User' },
         status: 'pending'
       })
       .returning()
@@ -74,7 +76,7 @@ describe('updatePayoutStatus', () => {
       status: 'processing'
     };
 
-    const result = await updatePayoutStatus(input);
+    const result = await updatePayoutStatus(input, adminUserId);
 
     expect(result.id).toEqual(payoutId);
     expect(result.status).toEqual('processing');
@@ -88,11 +90,10 @@ describe('updatePayoutStatus', () => {
     const input: UpdatePayoutStatusInput = {
       payout_id: payoutId,
       status: 'completed',
-      processed_by: adminUserId,
       notes: 'Transfer completed successfully'
     };
 
-    const result = await updatePayoutStatus(input);
+    const result = await updatePayoutStatus(input, adminUserId);
 
     expect(result.id).toEqual(payoutId);
     expect(result.status).toEqual('completed');
@@ -106,11 +107,10 @@ describe('updatePayoutStatus', () => {
     const input: UpdatePayoutStatusInput = {
       payout_id: payoutId,
       status: 'failed',
-      processed_by: adminUserId,
       notes: 'Invalid bank account details'
     };
 
-    const result = await updatePayoutStatus(input);
+    const result = await updatePayoutStatus(input, adminUserId);
 
     expect(result.id).toEqual(payoutId);
     expect(result.status).toEqual('failed');
@@ -122,11 +122,10 @@ describe('updatePayoutStatus', () => {
   it('should save updated payout to database', async () => {
     const input: UpdatePayoutStatusInput = {
       payout_id: payoutId,
-      status: 'completed',
-      processed_by: adminUserId
+      status: 'completed'
     };
 
-    await updatePayoutStatus(input);
+    await updatePayoutStatus(input, adminUserId);
 
     // Verify the update was saved to database
     const payouts = await db.select()
@@ -148,7 +147,7 @@ describe('updatePayoutStatus', () => {
       notes: 'Processing payment through bank'
     };
 
-    const result = await updatePayoutStatus(input);
+    const result = await updatePayoutStatus(input, adminUserId);
 
     expect(result.notes).toEqual('Processing payment through bank');
   });
@@ -160,7 +159,7 @@ describe('updatePayoutStatus', () => {
       notes: null
     };
 
-    const result = await updatePayoutStatus(input);
+    const result = await updatePayoutStatus(input, adminUserId);
 
     expect(result.notes).toBeNull();
   });
@@ -168,11 +167,26 @@ describe('updatePayoutStatus', () => {
   it('should throw error for non-existent payout', async () => {
     const input: UpdatePayoutStatusInput = {
       payout_id: 99999,
-      status: 'completed',
-      processed_by: adminUserId
+      status: 'completed'
     };
 
-    expect(updatePayoutStatus(input)).rejects.toThrow(/not found/i);
+    await expect(updatePayoutStatus(input, adminUserId)).rejects.toThrow(/not found/i);
+  });
+
+  it('should reject actors who are not admins', async () => {
+    const input: UpdatePayoutStatusInput = {
+      payout_id: payoutId,
+      status: 'completed'
+    };
+
+    await expect(updatePayoutStatus(input, affiliateUserId)).rejects.toThrow(/only admins/i);
+
+    const payouts = await db.select()
+      .from(commissionPayoutsTable)
+      .where(eq(commissionPayoutsTable.id, payoutId))
+      .execute();
+    expect(payouts[0].status).toEqual('pending');
+    expect(payouts[0].processed_by).toBeNull();
   });
 
   it('should handle status transitions correctly', async () => {
@@ -182,7 +196,7 @@ describe('updatePayoutStatus', () => {
       status: 'processing'
     };
 
-    let result = await updatePayoutStatus(input);
+    let result = await updatePayoutStatus(input, adminUserId);
     expect(result.status).toEqual('processing');
     expect(result.processed_by).toBeNull();
     expect(result.processed_at).toBeNull();
@@ -190,11 +204,10 @@ describe('updatePayoutStatus', () => {
     // Then update to completed
     input = {
       payout_id: payoutId,
-      status: 'completed',
-      processed_by: adminUserId
+      status: 'completed'
     };
 
-    result = await updatePayoutStatus(input);
+    result = await updatePayoutStatus(input, adminUserId);
     expect(result.status).toEqual('completed');
     expect(result.processed_by).toEqual(adminUserId);
     expect(result.processed_at).toBeInstanceOf(Date);
@@ -203,15 +216,14 @@ describe('updatePayoutStatus', () => {
   it('should preserve original amount and method after update', async () => {
     const input: UpdatePayoutStatusInput = {
       payout_id: payoutId,
-      status: 'completed',
-      processed_by: adminUserId
+      status: 'completed'
     };
 
-    const result = await updatePayoutStatus(input);
+    const result = await updatePayoutStatus(input, adminUserId);
 
     expect(result.amount).toEqual(500000);
     expect(result.method).toEqual('bank_transfer');
-    expect(result.bank_details).toEqual('BCA - 1234567890');
+    expect(result.destination?.account_number).toEqual('1234567890');
     expect(result.affiliate_id).toEqual(affiliateId);
   });
 
@@ -222,7 +234,7 @@ describe('updatePayoutStatus', () => {
         affiliate_id: affiliateId,
         amount: '750000.00', // IDR 750,000
         method: 'ewallet',
-        ewallet_details: 'GoPay - 081234567890',
+        destination: { account_type: 'ewallet' as const, bank_code: null, ewallet_provider: 'gopay' as const, provider_name: 'GoPay', account_number: '081234567890', account_holder: 'Test User' },
         status: 'pending'
       })
       .returning()
@@ -231,15 +243,110 @@ describe('updatePayoutStatus', () => {
     const input: UpdatePayoutStatusInput = {
       payout_id: ewalletPayout[0].id,
       status: 'completed',
-      processed_by: adminUserId,
       notes: 'E-wallet transfer successful'
     };
 
-    const result = await updatePayoutStatus(input);
+    const result = await updatePayoutStatus(input, adminUserId);
 
     expect(result.method).toEqual('ewallet');
-    expect(result.ewallet_details).toEqual('GoPay - 081234567890');
+    expect(result.destination?.provider_name).toEqual('GoPay');
     expect(result.status).toEqual('completed');
     expect(result.notes).toEqual('E-wallet transfer successful');
   });
-});
\ No newline at end of file
+
+  describe('ledger', () => {
+    beforeEach(async () => {
+      // Give the affiliate the commission the seeded payout was requested from, then reserve it
+      await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'commission_earned', amount: 500000 });
+      await backfillLedger();
+    });
+
+    it('should move a completed payout from reserved to paid', async () => {
+      await updatePayoutStatus({ payout_id: payoutId, status: 'processing' }, adminUserId);
+      expect(await getLedgerBalances(affiliateId)).toEqual({ available: 0, reserved: 500000, paid: 0 });
+
+      await updatePayoutStatus({ payout_id: payoutId, status: 'completed' }, adminUserId);
+      expect(await getLedgerBalances(affiliateId)).toEqual({ available: 0, reserved: 0, paid: 500000 });
+
+      const entries = await db.select()
+        .from(ledgerEntriesTable)
+        .where(eq(ledgerEntriesTable.payout_id, payoutId))
+        .orderBy(ledgerEntriesTable.id)
+        .execute();
+
+      expect(entries.map(entry => entry.entry_type)).toEqual(['payout_reserved', 'payout_paid']);
+      expect(entries[1].created_by).toEqual(adminUserId);
+    });
+
+    it('should release a failed payout back to the available balance', async () => {
+      await updatePayoutStatus({ payout_id: payoutId, status: 'failed' }, adminUserId);
+      expect(await getLedgerBalances(affiliateId)).toEqual({ available: 500000, reserved: 0, paid: 0 });
+
+      // Retrying a failed payout reserves the money again
+      await updatePayoutStatus({ payout_id: payoutId, status: 'pending' }, adminUserId);
+      expect(await getLedgerBalances(affiliateId)).toEqual({ available: 0, reserved: 500000, paid: 0 });
+    });
+
+    it('should not retry a failed payout the balance no longer covers', async () => {
+      await updatePayoutStatus({ payout_id: payoutId, status: 'failed' }, adminUserId);
+
+      // The released money is spent on another request before the retry
+      await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_reserved', amount: 300000 });
+
+      await expect(updatePayoutStatus({ payout_id: payoutId, status: 'pending' }, adminUserId))
+        .rejects.toMatchObject({ code: 'CONFLICT', message: 'Insufficient commission balance to retry payout. Available: 200000, Requested: 500000' });
+
+      const payouts = await db.select()
+        .from(commissionPayoutsTable)
+        .where(eq(commissionPayoutsTable.id, payoutId))
+        .execute();
+      expect(payouts[0].status).toEqual('failed');
+    });
+
+    it('should not reopen a completed payout', async () => {
+      await updatePayoutStatus({ payout_id: payoutId, status: 'completed' }, adminUserId);
+
+      await expect(updatePayoutStatus({ payout_id: payoutId, status: 'pending' }, adminUserId))
+        .rejects.toThrow('Cannot change payout status from completed to pending');
+
+      // Neither the payout nor its ledger entries change
+      const payouts = await db.select()
+        .from(commissionPayoutsTable)
+        .where(eq(commissionPayoutsTable.id, payoutId))
+        .execute();
+      expect(payouts[0].status).toEqual('completed');
+      expect(await getLedgerBalances(affiliateId)).toEqual({ available: 0, reserved: 0, paid: 500000 });
+    });
+  });
+
+  it('should record the change and reason in the status history', async () => {
+    await updatePayoutStatus({ payout_id: payoutId, status: 'failed', reason: 'Account number rejected by bank' }, adminUserId);
+
+    const history = await db.select()
+      .from(statusHistoryTable)
+      .where(eq(statusHistoryTable.entity_id, payoutId))
+      .execute();
+
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({
+      entity_type: 'payout',
+      from_status: 'pending',
+      to_status: 'failed',
+      actor_id: adminUserId,
+      reason: 'Account number rejected by bank'
+    });
+  });
+
+  it('should reject moving a processing payout back to pending', async () => {
+    await updatePayoutStatus({ payout_id: payoutId, status: 'processing' }, adminUserId);
+
+    await expect(updatePayoutStatus({ payout_id: payoutId, status: 'pending' }, adminUserId))
+      .rejects.toBeInstanceOf(InvalidStatusTransitionError);
+
+    const payouts = await db.select()
+      .from(commissionPayoutsTable)
+      .where(eq(commissionPayoutsTable.id, payoutId))
+      .execute();
+    expect(payouts[0].status).toEqual('processing');
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { updateProfileInputSchema } from '../schema';
+import { updateProfile } from '../handlers/update_profile';
+import { eq } from 'drizzle-orm';
+
+describe('updateProfile', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'affiliate@test.com',
+        password_hash: 'hashed_password',
+        full_name: 'Old Name',
+        phone: '081234567890',
+        role: 'affiliate'
+      })
+      .returning()
+      .execute();
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update the name and phone of the user', async () => {
+    const result = await updateProfile(userId, { full_name: 'New Name', phone: '089876543210' });
+
+    expect(result.id).toEqual(userId);
+    expect(result.full_name).toEqual('New Name');
+    expect(result.phone).toEqual('089876543210');
+    expect(result.email).toEqual('affiliate@test.com');
+    expect(result.role).toEqual('affiliate');
+    expect((result as Record<string, unknown>)['password_hash']).toBeUndefined();
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    expect(users[0].full_name).toEqual('New Name');
+    expect(users[0].phone).toEqual('089876543210');
+    expect(users[0].password_hash).toEqual('hashed_password');
+  });
+
+  it('should clear the phone when left empty', async () => {
+    const result = await updateProfile(userId, updateProfileInputSchema.parse({ full_name: ' New Name ', phone: '' }));
+
+    expect(result.full_name).toEqual('New Name');
+    expect(result.phone).toBeNull();
+  });
+
+  it('should reject names that are too short', async () => {
+    expect(updateProfileInputSchema.safeParse({ full_name: ' A ', phone: null }).success).toBe(false);
+  });
+
+  it('should throw for unknown users', async () => {
+    await expect(updateProfile(userId + 100, { full_name: 'New Name', phone: null }))
+      .rejects.toThrow(`User with ID ${userId + 100} not found`);
+  });
+});
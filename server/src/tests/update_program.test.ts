@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, affiliatesTable, programsTable, programPricesTable } from '../db/schema';
+import { createProgram } from '../handlers/create_program';
+import { updateProgram } from '../handlers/update_program';
+import { createStudentRegistration } from '../handlers/create_student_registration';
+import { eq, asc } from 'drizzle-orm';
+
+describe('updateProgram', () => {
+  let adminId: number;
+  let affiliateUserId: number;
+  let affiliateId: number;
+  let programId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }, { code: 'pare', name: 'Pare' }]).execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' },
+        { email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Affiliate', role: 'affiliate' }
+      ])
+      .returning()
+      .execute();
+    adminId = users[0].id;
+    affiliateUserId = users[1].id;
+
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: affiliateUserId, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+
+    const program = await createProgram({
+      name: 'Pare 2 Weks',
+      description: 'Two weeks in Pare',
+      category: 'offline_pare',
+      location: 'pare',
+      price: 2000000,
+      duration_weeks: 2,
+      is_active: true
+    }, adminId);
+    programId = program.id;
+  });
+
+  afterEach(resetDB);
+
+  const register = () => createStudentRegistration({
+    affiliate_id: affiliateId,
+    program_id: programId,
+    student_name: 'Budi Santoso',
+    student_email: 'budi@test.com',
+    student_phone: '081234567890',
+    student_address: null,
+    referral_code: 'EBREF001'
+  });
+
+  it('should change only the given fields', async () => {
+    const result = await updateProgram({ id: programId, name: 'Pare 2 Weeks', duration_weeks: null }, adminId);
+
+    expect(result.name).toEqual('Pare 2 Weeks');
+    expect(result.duration_weeks).toBeNull();
+    expect(result.description).toEqual('Two weeks in Pare');
+    expect(result.price).toEqual(2000000);
+    expect(result.is_active).toBe(true);
+
+    const prices = await db.select().from(programPricesTable).where(eq(programPricesTable.program_id, programId)).execute();
+    expect(prices).toHaveLength(1);
+  });
+
+  it('should keep the quoted price on registrations made before a price change', async () => {
+    const before = await register();
+
+    const result = await updateProgram({ id: programId, price: 2250000 }, adminId);
+    expect(result.price).toEqual(2250000);
+
+    const after = await register();
+    const prices = await db.select()
+      .from(programPricesTable)
+      .where(eq(programPricesTable.program_id, programId))
+      .orderBy(asc(programPricesTable.id))
+      .execute();
+
+    expect(prices.map(price => [price.price, price.changed_by])).toEqual([['2000000.00', adminId], ['2250000.00', adminId]]);
+    expect(before.registration_fee).toEqual(2000000);
+    expect(before.program_price_id).toEqual(prices[0].id);
+    expect(after.registration_fee).toEqual(2250000);
+    expect(after.program_price_id).toEqual(prices[1].id);
+  });
+
+  it('should record the old price of programs created before price history', async () => {
+    const legacy = await db.insert(programsTable)
+      .values({ name: 'Online TOEFL', category: 'online', location: 'online', price: '1500000.00', created_at: new Date('2025-01-10') })
+      .returning()
+      .execute();
+
+    await updateProgram({ id: legacy[0].id, price: 1750000 }, adminId);
+
+    const prices = await db.select()
+      .from(programPricesTable)
+      .where(eq(programPricesTable.program_id, legacy[0].id))
+      .orderBy(asc(programPricesTable.id))
+      .execute();
+    expect(prices.map(price => [price.price, price.changed_by])).toEqual([['1500000.00', null], ['1750000.00', adminId]]);
+    expect(prices[0].effective_from).toEqual(new Date('2025-01-10'));
+  });
+
+  it('should deactivate and reactivate programs', async () => {
+    expect((await updateProgram({ id: programId, is_active: false }, adminId)).is_active).toBe(false);
+    await expect(register()).rejects.toThrow('Program is not active');
+
+    expect((await updateProgram({ id: programId, is_active: true }, adminId)).is_active).toBe(true);
+  });
+
+  it('should only move programs to open branches', async () => {
+    await db.insert(branchesTable).values({ code: 'malang', name: 'Malang', is_active: false }).execute();
+
+    await expect(updateProgram({ id: programId, location: 'malang' }, adminId))
+      .rejects.toThrow('Branch "Malang" is closed and takes no new programs');
+    expect((await updateProgram({ id: programId, location: 'online' }, adminId)).location).toEqual('online');
+  });
+
+  it('should keep programs at a branch that has since closed', async () => {
+    await db.update(branchesTable).set({ is_active: false }).where(eq(branchesTable.code, 'pare')).execute();
+
+    const result = await updateProgram({ id: programId, location: 'pare', price: 2100000 }, adminId);
+
+    expect(result.location).toEqual('pare');
+    expect(result.price).toEqual(2100000);
+  });
+
+  it('should refuse to change archived programs', async () => {
+    await db.update(programsTable)
+      .set({ is_active: false, archived_at: new Date() })
+      .where(eq(programsTable.id, programId))
+      .execute();
+
+    await expect(updateProgram({ id: programId, is_active: true }, adminId))
+      .rejects.toThrow('Program "Pare 2 Weks" is archived and can no longer be changed');
+  });
+
+  it('should only let admins update programs', async () => {
+    await expect(updateProgram({ id: programId, price: 1 }, affiliateUserId)).rejects.toThrow('Only admins can perform this action');
+  });
+
+  it('should throw for unknown programs', async () => {
+    await expect(updateProgram({ id: programId + 100, name: 'Missing' }, adminId))
+      .rejects.toThrow(`Program with ID ${programId + 100} not found`);
+  });
+});
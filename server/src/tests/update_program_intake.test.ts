@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { branchesTable, usersTable, programsTable, programIntakesTable, studentRegistrationsTable } from '../db/schema';
+import { type RegistrationStatus } from '../schema';
+import { updateProgramIntake } from '../handlers/update_program_intake';
+import { asc } from 'drizzle-orm';
+
+describe('updateProgramIntake', () => {
+  let adminId: number;
+  let programId: number;
+  let intakeId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(branchesTable).values([{ code: 'pare', name: 'Pare' }]).execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'admin@test.com', password_hash: 'hashed_password', full_name: 'Admin', role: 'admin' })
+      .returning()
+      .execute();
+    adminId = users[0].id;
+
+    const programs = await db.insert(programsTable)
+      .values({ name: 'Pare 2 Weeks', category: 'offline_pare', location: 'pare', price: '2000000.00', duration_weeks: 2 })
+      .returning()
+      .execute();
+    programId = programs[0].id;
+
+    const intakes = await db.insert(programIntakesTable)
+      .values({
+        program_id: programId,
+        start_date: new Date('2030-03-02'),
+        end_date: new Date('2030-03-16'),
+        capacity: 2,
+        registration_deadline: new Date('2030-02-23')
+      })
+      .returning()
+      .execute();
+    intakeId = intakes[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const addRegistrations = (statuses: RegistrationStatus[]) => db.insert(studentRegistrationsTable)
+    .values(statuses.map((status, index) => ({
+      program_id: programId,
+      intake_id: intakeId,
+      student_name: `Student ${index + 1}`,
+      student_email: `student${index + 1}@test.com`,
+      student_phone: '081234567890',
+      status,
+      registration_fee: '2000000.00',
+      commission_amount: '0',
+      created_at: new Date(Date.now() + index * 1000)
+    })))
+    .execute();
+
+  it('should change the given fields', async () => {
+    const result = await updateProgramIntake({ id: intakeId, registration_deadline: new Date('2030-02-27') }, adminId);
+
+    expect(result.registration_deadline).toEqual(new Date('2030-02-27'));
+    expect(result.capacity).toEqual(2);
+    expect(result.start_date).toEqual(new Date('2030-03-02'));
+  });
+
+  it('should give added seats to the waitlist in order', async () => {
+    await addRegistrations(['confirmed', 'pending', 'waitlisted', 'waitlisted', 'waitlisted']);
+
+    const result = await updateProgramIntake({ id: intakeId, capacity: 4 }, adminId);
+
+    expect(result.seats_taken).toEqual(4);
+    expect(result.waitlisted_count).toEqual(1);
+    expect(result.fill_rate).toEqual(1);
+
+    const registrations = await db.select()
+      .from(studentRegistrationsTable)
+      .orderBy(asc(studentRegistrationsTable.id))
+      .execute();
+    expect(registrations.map(registration => registration.status))
+      .toEqual(['confirmed', 'pending', 'pending', 'pending', 'waitlisted']);
+  });
+
+  it('should not shrink below the seats already taken', async () => {
+    await addRegistrations(['confirmed', 'pending']);
+
+    await expect(updateProgramIntake({ id: intakeId, capacity: 1 }, adminId))
+      .rejects.toThrow('2 seats on the intake starting 2030-03-02 are already taken');
+  });
+
+  it('should check the dates it ends up with', async () => {
+    await expect(updateProgramIntake({ id: intakeId, start_date: new Date('2030-03-20') }, adminId))
+      .rejects.toThrow('An intake cannot end before it starts');
+  });
+
+  it('should throw for unknown intakes', async () => {
+    await expect(updateProgramIntake({ id: intakeId + 100, capacity: 5 }, adminId))
+      .rejects.toThrow(`Program intake with ID ${intakeId + 100} not found`);
+  });
+});
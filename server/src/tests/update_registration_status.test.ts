@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, affiliatesTable, programsTable, studentRegistrationsTable } from '../db/schema';
+import { branchesTable, usersTable, affiliatesTable, affiliateTiersTable, programsTable, programIntakesTable, studentRegistrationsTable, commissionRulesTable, ledgerEntriesTable, statusHistoryTable } from '../db/schema';
 import { type UpdateRegistrationStatusInput } from '../schema';
 import { updateRegistrationStatus } from '../handlers/update_registration_status';
+import { getLedgerBalances, postLedgerEntry } from '../helpers/ledger';
+import { InvalidStatusTransitionError } from '../helpers/status_transitions';
 import { eq } from 'drizzle-orm';
 
 describe('updateRegistrationStatus', () => {
@@ -15,6 +17,7 @@ describe('updateRegistrationStatus', () => {
 
   beforeEach(async () => {
     await createDB();
+    await db.insert(branchesTable).values([{ code: 'online', name: 'Online' }]).execute();
 
     // Create admin user
     const adminResult = await db.insert(usersTable)
@@ -93,11 +96,10 @@ describe('updateRegistrationStatus', () => {
   it('should update registration status to confirmed', async () => {
     const input: UpdateRegistrationStatusInput = {
       registration_id: registrationId,
-      status: 'confirmed',
-      confirmed_by: adminUserId
+      status: 'confirmed'
     };
 
-    const result = await updateRegistrationStatus(input);
+    const result = await updateRegistrationStatus(input, adminUserId);
 
     expect(result.id).toEqual(registrationId);
     expect(result.status).toEqual('confirmed');
@@ -110,19 +112,106 @@ describe('updateRegistrationStatus', () => {
     expect(typeof result.commission_amount).toBe('number');
     expect(result.registration_fee).toEqual(1000000);
     expect(result.commission_amount).toEqual(50000);
+    expect(result.amount_paid).toEqual(1000000);
+    expect(result.estimated_commission_amount).toEqual(50000);
+  });
+
+  it('should recompute the commission from the amount paid', async () => {
+    const result = await updateRegistrationStatus({
+      registration_id: registrationId,
+      status: 'confirmed',
+      amount_paid: 800000 // Discounted
+    }, adminUserId);
+
+    expect(result.amount_paid).toEqual(800000);
+    expect(result.commission_amount).toEqual(40000); // 5% of 800,000
+    expect(result.estimated_commission_amount).toEqual(50000);
+    expect(result.registration_fee).toEqual(1000000);
+
+    const registrations = await db.select()
+      .from(studentRegistrationsTable)
+      .where(eq(studentRegistrationsTable.id, registrationId))
+      .execute();
+    expect(parseFloat(registrations[0].amount_paid!)).toEqual(800000);
+    expect(parseFloat(registrations[0].commission_amount)).toEqual(40000);
+  });
+
+  it('should use the price quoted at registration when no amount is given', async () => {
+    // The price went up after the student registered
+    await db.update(programsTable)
+      .set({ price: '1200000.00' })
+      .where(eq(programsTable.id, programId))
+      .execute();
+
+    const result = await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId);
+
+    expect(result.amount_paid).toEqual(1000000);
+    expect(result.commission_amount).toEqual(50000);
+  });
+
+  it('should apply the commission rules in force at confirmation', async () => {
+    const rule = await db.insert(commissionRulesTable)
+      .values({ name: 'Online flat', commission_type: 'flat', value: '75000.0000', category: 'online' })
+      .returning()
+      .execute();
+
+    const result = await updateRegistrationStatus({
+      registration_id: registrationId,
+      status: 'confirmed',
+      amount_paid: 900000
+    }, adminUserId);
+
+    expect(result.commission_amount).toEqual(75000);
+    expect(result.commission_rule_id).toEqual(rule[0].id);
+    expect(result.estimated_commission_amount).toEqual(50000);
+  });
+
+  it('should keep the original estimate when confirmed again', async () => {
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed', amount_paid: 600000 }, adminUserId);
+    const result = await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed', amount_paid: 700000 }, adminUserId);
+
+    expect(result.commission_amount).toEqual(35000);
+    expect(result.estimated_commission_amount).toEqual(50000);
+  });
+
+  it('should record the amount paid on unattributed registrations without commission', async () => {
+    await db.update(studentRegistrationsTable)
+      .set({ affiliate_id: null, referral_code: null, commission_amount: '0' })
+      .where(eq(studentRegistrationsTable.id, registrationId))
+      .execute();
+
+    const result = await updateRegistrationStatus({
+      registration_id: registrationId,
+      status: 'confirmed',
+      amount_paid: 950000
+    }, adminUserId);
+
+    expect(result.amount_paid).toEqual(950000);
+    expect(result.commission_amount).toEqual(0);
+  });
+
+  it('should only accept an amount paid on confirmation', async () => {
+    await expect(updateRegistrationStatus({
+      registration_id: registrationId,
+      status: 'cancelled',
+      amount_paid: 500000
+    }, adminUserId)).rejects.toThrow(/only be recorded when confirming/i);
   });
 
-  it('should update registration status to confirmed without confirmed_by', async () => {
+  it('should reject actors who are not admins', async () => {
     const input: UpdateRegistrationStatusInput = {
       registration_id: registrationId,
       status: 'confirmed'
     };
 
-    const result = await updateRegistrationStatus(input);
+    await expect(updateRegistrationStatus(input, affiliateUserId)).rejects.toThrow(/only admins/i);
 
-    expect(result.status).toEqual('confirmed');
-    expect(result.confirmed_by).toBeNull();
-    expect(result.confirmed_at).toBeInstanceOf(Date);
+    const registrations = await db.select()
+      .from(studentRegistrationsTable)
+      .where(eq(studentRegistrationsTable.id, registrationId))
+      .execute();
+    expect(registrations[0].status).toEqual('pending');
+    expect(registrations[0].confirmed_by).toBeNull();
   });
 
   it('should update registration status to cancelled', async () => {
@@ -131,42 +220,46 @@ describe('updateRegistrationStatus', () => {
       status: 'cancelled'
     };
 
-    const result = await updateRegistrationStatus(input);
+    const result = await updateRegistrationStatus(input, adminUserId);
 
     expect(result.status).toEqual('cancelled');
     expect(result.confirmed_by).toBeNull();
     expect(result.confirmed_at).toBeNull();
   });
 
-  it('should clear confirmation fields when status changes from confirmed to pending', async () => {
-    // First confirm the registration
+  it('should not reset confirmed registrations to pending', async () => {
     await updateRegistrationStatus({
       registration_id: registrationId,
-      status: 'confirmed',
-      confirmed_by: adminUserId
-    });
+      status: 'confirmed'
+    }, adminUserId);
 
-    // Then change back to pending
-    const input: UpdateRegistrationStatusInput = {
-      registration_id: registrationId,
-      status: 'pending'
-    };
+    // Going back to pending would let a paid registration be cancelled without a refund
+    await expect(updateRegistrationStatus({ registration_id: registrationId, status: 'pending' }, adminUserId))
+      .rejects.toThrow('Cannot change registration status from confirmed to pending');
 
-    const result = await updateRegistrationStatus(input);
+    const registrations = await db.select()
+      .from(studentRegistrationsTable)
+      .where(eq(studentRegistrationsTable.id, registrationId))
+      .execute();
+    expect(registrations[0].status).toEqual('confirmed');
+    expect(registrations[0].confirmed_at).toBeInstanceOf(Date);
+  });
 
-    expect(result.status).toEqual('pending');
-    expect(result.confirmed_by).toBeNull();
-    expect(result.confirmed_at).toBeNull();
+  it('should keep the confirmation time when the amount paid is corrected', async () => {
+    const first = await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId);
+    const corrected = await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed', amount_paid: 900000 }, adminUserId);
+
+    expect(corrected.amount_paid).toEqual(900000);
+    expect(corrected.confirmed_at).toEqual(first.confirmed_at);
   });
 
   it('should save updated registration to database', async () => {
     const input: UpdateRegistrationStatusInput = {
       registration_id: registrationId,
-      status: 'confirmed',
-      confirmed_by: adminUserId
+      status: 'confirmed'
     };
 
-    await updateRegistrationStatus(input);
+    await updateRegistrationStatus(input, adminUserId);
 
     // Verify in database
     const registrations = await db.select()
@@ -185,21 +278,19 @@ describe('updateRegistrationStatus', () => {
   it('should throw error for non-existent registration', async () => {
     const input: UpdateRegistrationStatusInput = {
       registration_id: 99999,
-      status: 'confirmed',
-      confirmed_by: adminUserId
+      status: 'confirmed'
     };
 
-    expect(updateRegistrationStatus(input)).rejects.toThrow(/not found/i);
+    await expect(updateRegistrationStatus(input, adminUserId)).rejects.toThrow(/not found/i);
   });
 
   it('should preserve all other registration fields', async () => {
     const input: UpdateRegistrationStatusInput = {
       registration_id: registrationId,
-      status: 'confirmed',
-      confirmed_by: adminUserId
+      status: 'confirmed'
     };
 
-    const result = await updateRegistrationStatus(input);
+    const result = await updateRegistrationStatus(input, adminUserId);
 
     // Check that all original fields are preserved
     expect(result.affiliate_id).toEqual(affiliateId);
@@ -214,7 +305,7 @@ describe('updateRegistrationStatus', () => {
     expect(result.created_at).toBeInstanceOf(Date);
   });
 
-  it('should handle status change with different confirmed_by values', async () => {
+  it('should record whichever admin confirmed the registration', async () => {
     // Create another admin user
     const anotherAdminResult = await db.insert(usersTable)
       .values({
@@ -230,13 +321,290 @@ describe('updateRegistrationStatus', () => {
 
     const input: UpdateRegistrationStatusInput = {
       registration_id: registrationId,
-      status: 'confirmed',
-      confirmed_by: anotherAdminId
+      status: 'confirmed'
     };
 
-    const result = await updateRegistrationStatus(input);
+    const result = await updateRegistrationStatus(input, anotherAdminId);
 
     expect(result.confirmed_by).toEqual(anotherAdminId);
     expect(result.status).toEqual('confirmed');
   });
-});
\ No newline at end of file
+
+  it('should move the affiliate to the tier the confirmation earns', async () => {
+    const tiers = await db.insert(affiliateTiersTable)
+      .values([
+        { name: 'Bronze', level: 1, commission_rate: '0.1000' },
+        { name: 'Silver', level: 2, commission_rate: '0.1200', min_confirmed_registrations: 1 }
+      ])
+      .returning()
+      .execute();
+
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId);
+
+    let affiliate = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+    expect(affiliate[0].tier_id).toEqual(tiers[1].id);
+
+    // Refunding the only confirmed registration drops the affiliate back down
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'refunded' }, adminUserId);
+
+    affiliate = await db.select()
+      .from(affiliatesTable)
+      .where(eq(affiliatesTable.id, affiliateId))
+      .execute();
+    expect(affiliate[0].tier_id).toEqual(tiers[0].id);
+  });
+
+  it('should credit the commission to the ledger on confirmation', async () => {
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed', amount_paid: 800000 }, adminUserId);
+
+    const entries = await db.select()
+      .from(ledgerEntriesTable)
+      .where(eq(ledgerEntriesTable.registration_id, registrationId))
+      .execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entry_type).toEqual('commission_earned');
+    expect(entries[0].from_account).toEqual('company');
+    expect(entries[0].to_account).toEqual('available');
+    expect(parseFloat(entries[0].amount)).toEqual(40000); // 5% of what was paid
+    expect(entries[0].created_by).toEqual(adminUserId);
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 40000, reserved: 0, paid: 0 });
+  });
+
+  it('should claw the commission back when a confirmed registration is refunded', async () => {
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId);
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'refunded' }, adminUserId);
+
+    const entries = await db.select()
+      .from(ledgerEntriesTable)
+      .where(eq(ledgerEntriesTable.registration_id, registrationId))
+      .orderBy(ledgerEntriesTable.id)
+      .execute();
+
+    expect(entries.map(entry => entry.entry_type)).toEqual(['commission_earned', 'commission_reversed']);
+    expect(parseFloat(entries[1].amount)).toEqual(50000);
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 0, reserved: 0, paid: 0 });
+  });
+
+  it('should only post the difference when a confirmation is recomputed', async () => {
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId);
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed', amount_paid: 600000 }, adminUserId);
+
+    const entries = await db.select()
+      .from(ledgerEntriesTable)
+      .where(eq(ledgerEntriesTable.registration_id, registrationId))
+      .orderBy(ledgerEntriesTable.id)
+      .execute();
+
+    expect(entries.map(entry => entry.entry_type)).toEqual(['commission_earned', 'commission_reversed']);
+    expect(parseFloat(entries[1].amount)).toEqual(20000);
+    expect((await getLedgerBalances(affiliateId)).available).toEqual(30000);
+  });
+
+  it('should credit the commission once when two admins confirm at the same time', async () => {
+    await Promise.all([
+      updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId),
+      updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId)
+    ]);
+
+    const entries = await db.select()
+      .from(ledgerEntriesTable)
+      .where(eq(ledgerEntriesTable.registration_id, registrationId))
+      .execute();
+
+    expect(entries.map(entry => entry.entry_type)).toEqual(['commission_earned']);
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: 50000, reserved: 0, paid: 0 });
+  });
+
+  it('should refuse a second change racing a cancellation', async () => {
+    const results = await Promise.allSettled([
+      updateRegistrationStatus({ registration_id: registrationId, status: 'cancelled' }, adminUserId),
+      updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId)
+    ]);
+
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+    const history = await db.select().from(statusHistoryTable).execute();
+    expect(history).toHaveLength(1);
+  });
+
+  it('should not post ledger entries for registrations that were never confirmed', async () => {
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'cancelled' }, adminUserId);
+
+    const entries = await db.select().from(ledgerEntriesTable).execute();
+    expect(entries).toHaveLength(0);
+  });
+
+  it('should keep the record of payment on a refunded registration', async () => {
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed', amount_paid: 900000 }, adminUserId);
+    const result = await updateRegistrationStatus({ registration_id: registrationId, status: 'refunded' }, adminUserId);
+
+    expect(result.status).toEqual('refunded');
+    expect(result.refunded_at).toBeInstanceOf(Date);
+    expect(result.confirmed_by).toEqual(adminUserId);
+    expect(result.confirmed_at).toBeInstanceOf(Date);
+    expect(result.amount_paid).toEqual(900000);
+    expect(result.commission_amount).toEqual(45000);
+
+    // A refund is final
+    await expect(updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId))
+      .rejects.toThrow('Cannot change registration status from refunded to confirmed');
+    expect((await getLedgerBalances(affiliateId)).available).toEqual(0);
+  });
+
+  it('should only refund confirmed registrations', async () => {
+    await expect(updateRegistrationStatus({ registration_id: registrationId, status: 'refunded' }, adminUserId))
+      .rejects.toThrow('Cannot change registration status from pending to refunded');
+  });
+
+  it('should not cancel a confirmed registration', async () => {
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId);
+
+    await expect(updateRegistrationStatus({ registration_id: registrationId, status: 'cancelled' }, adminUserId))
+      .rejects.toThrow('Cannot change registration status from confirmed to cancelled');
+
+    const registrations = await db.select()
+      .from(studentRegistrationsTable)
+      .where(eq(studentRegistrationsTable.id, registrationId))
+      .execute();
+    expect(registrations[0].status).toEqual('confirmed');
+  });
+
+  it('should carry a clawback of paid out commission into a negative balance', async () => {
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId);
+
+    // The commission is paid out before the student asks for a refund
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_reserved', amount: 50000 });
+    await postLedgerEntry(db, { affiliate_id: affiliateId, entry_type: 'payout_paid', amount: 50000 });
+
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'refunded' }, adminUserId);
+    expect(await getLedgerBalances(affiliateId)).toEqual({ available: -50000, reserved: 0, paid: 50000 });
+
+    // The next commission earned pays the debt off first
+    const [next] = await db.insert(studentRegistrationsTable)
+      .values({
+        affiliate_id: affiliateId,
+        program_id: programId,
+        student_name: 'Next Student',
+        student_email: 'next@test.com',
+        student_phone: '081234567893',
+        referral_code: 'TESTREF123',
+        status: 'pending',
+        registration_fee: '3000000.00',
+        commission_amount: '150000.00'
+      })
+      .returning()
+      .execute();
+    await updateRegistrationStatus({ registration_id: next.id, status: 'confirmed', amount_paid: 3000000 }, adminUserId);
+
+    expect((await getLedgerBalances(affiliateId)).available).toEqual(100000);
+  });
+
+  it('should record each status change in the history', async () => {
+    await updateRegistrationStatus({ registration_id: registrationId, status: 'confirmed' }, adminUserId);
+    await updateRegistrationStatus({
+      registration_id: registrationId,
+      status: 'refunded',
+      reason: 'Student withdrew in week one'
+    }, adminUserId);
+
+    const history = await db.select()
+      .from(statusHistoryTable)
+      .where(eq(statusHistoryTable.entity_id, registrationId))
+      .orderBy(statusHistoryTable.id)
+      .execute();
+
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({ entity_type: 'registration', from_status: 'pending', to_status: 'confirmed', actor_id: adminUserId, reason: null });
+    expect(history[1]).toMatchObject({ from_status: 'confirmed', to_status: 'refunded', reason: 'Student withdrew in week one' });
+    expect(history[1].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject illegal transitions with a typed error and leave no history', async () => {
+    const error = await updateRegistrationStatus({ registration_id: registrationId, status: 'refunded' }, adminUserId)
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+    expect(error).toMatchObject({ code: 'CONFLICT', entity: 'registration', from: 'pending', to: 'refunded' });
+
+    const history = await db.select().from(statusHistoryTable).execute();
+    expect(history).toHaveLength(0);
+  });
+
+  describe('with intakes', () => {
+    let intakeId: number;
+    let waitlistedIds: number[];
+
+    beforeEach(async () => {
+      const intake = await db.insert(programIntakesTable)
+        .values({
+          program_id: programId,
+          start_date: new Date('2030-03-02'),
+          end_date: new Date('2030-03-16'),
+          capacity: 1,
+          registration_deadline: new Date('2030-02-23')
+        })
+        .returning()
+        .execute();
+      intakeId = intake[0].id;
+
+      await db.update(studentRegistrationsTable)
+        .set({ intake_id: intakeId })
+        .where(eq(studentRegistrationsTable.id, registrationId))
+        .execute();
+
+      const waitlisted = await db.insert(studentRegistrationsTable)
+        .values(['first@test.com', 'second@test.com'].map((email, index) => ({
+          program_id: programId,
+          intake_id: intakeId,
+          student_name: 'Waitlisted Student',
+          student_email: email,
+          student_phone: '081234567893',
+          status: 'waitlisted' as const,
+          registration_fee: '1000000.00',
+          commission_amount: '0',
+          created_at: new Date(Date.now() + index * 1000)
+        })))
+        .returning()
+        .execute();
+      waitlistedIds = waitlisted.map(registration => registration.id);
+    });
+
+    const getStatus = async (id: number) => {
+      const registration = await db.select()
+        .from(studentRegistrationsTable)
+        .where(eq(studentRegistrationsTable.id, id))
+        .execute();
+      return registration[0].status;
+    };
+
+    it('should give a freed seat to the first waitlisted registration', async () => {
+      await updateRegistrationStatus({ registration_id: registrationId, status: 'cancelled' }, adminUserId);
+
+      expect(await getStatus(waitlistedIds[0])).toEqual('pending');
+      expect(await getStatus(waitlistedIds[1])).toEqual('waitlisted');
+
+      const history = await db.select()
+        .from(statusHistoryTable)
+        .where(eq(statusHistoryTable.entity_id, waitlistedIds[0]))
+        .execute();
+      expect(history).toHaveLength(1);
+      expect(history[0].from_status).toEqual('waitlisted');
+      expect(history[0].to_status).toEqual('pending');
+      expect(history[0].reason).toEqual('A seat opened up on the intake starting 2030-03-02');
+    });
+
+    it('should not move a waitlisted registration into a full intake', async () => {
+      await expect(updateRegistrationStatus({ registration_id: waitlistedIds[0], status: 'pending' }, adminUserId))
+        .rejects.toThrow('No seats are left on the intake starting 2030-03-02');
+      expect(await getStatus(waitlistedIds[0])).toEqual('waitlisted');
+    });
+
+    it('should not confirm waitlisted registrations', async () => {
+      await expect(updateRegistrationStatus({ registration_id: waitlistedIds[0], status: 'confirmed' }, adminUserId))
+        .rejects.toThrow(InvalidStatusTransitionError);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, affiliatesTable, affiliateTaxProfilesTable } from '../db/schema';
+import { updateTaxProfileInputSchema } from '../schema';
+import { updateTaxProfile } from '../handlers/update_tax_profile';
+
+describe('updateTaxProfile', () => {
+  let affiliateId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'affiliate@test.com', password_hash: 'hashed_password', full_name: 'Siti Rahma', role: 'affiliate' })
+      .returning()
+      .execute();
+    const affiliates = await db.insert(affiliatesTable)
+      .values({ user_id: users[0].id, referral_code: 'EBREF001', commission_rate: '0.1000', status: 'approved' })
+      .returning()
+      .execute();
+    affiliateId = affiliates[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create the profile and then update it in place', async () => {
+    const created = await updateTaxProfile(updateTaxProfileInputSchema.parse({
+      affiliate_id: affiliateId,
+      taxpayer_type: 'individual',
+      npwp: '01.234.567.8-901.234',
+      registered_name: ' Siti Rahma ',
+      address: 'Jl. Brawijaya 1, Pare'
+    }));
+
+    expect(created.npwp).toEqual('012345678901234');
+    expect(created.registered_name).toEqual('Siti Rahma');
+
+    const updated = await updateTaxProfile(updateTaxProfileInputSchema.parse({
+      affiliate_id: affiliateId,
+      taxpayer_type: 'company',
+      npwp: '',
+      registered_name: '',
+      address: null
+    }));
+
+    expect(updated.id).toEqual(created.id);
+    expect(updated.taxpayer_type).toEqual('company');
+    expect(updated.npwp).toBeNull();
+    expect(updated.registered_name).toBeNull();
+    expect(await db.select().from(affiliateTaxProfilesTable).execute()).toHaveLength(1);
+  });
+
+  it('should only accept NPWPs of 15 or 16 digits', () => {
+    const input = { affiliate_id: affiliateId, taxpayer_type: 'individual', registered_name: null, address: null };
+
+    expect(updateTaxProfileInputSchema.safeParse({ ...input, npwp: '12345' }).success).toBe(false);
+    expect(updateTaxProfileInputSchema.safeParse({ ...input, npwp: '3507123456789012' }).success).toBe(true);
+    expect(updateTaxProfileInputSchema.safeParse({ ...input, npwp: null }).success).toBe(true);
+  });
+
+  it('should throw for unknown affiliates', async () => {
+    await expect(updateTaxProfile({
+      affiliate_id: affiliateId + 100,
+      taxpayer_type: 'individual',
+      npwp: null,
+      registered_name: null,
+      address: null
+    })).rejects.toThrow(`Affiliate with ID ${affiliateId + 100} not found`);
+  });
+});
@@ -0,0 +1,19 @@
+import { tierSettingsSchema, type TierSettings } from './schema';
+
+const DEFAULT_TIER_SETTINGS: TierSettings = {
+  period_days: 90
+};
+
+// Tier thresholds are measured over the last TIER_PERIOD_DAYS days
+export const getTierSettings = (): TierSettings => {
+  const result = tierSettingsSchema.safeParse({
+    period_days: Number(process.env['TIER_PERIOD_DAYS'] ?? DEFAULT_TIER_SETTINGS.period_days)
+  });
+
+  if (!result.success) {
+    console.error('Invalid tier settings, using defaults:', result.error.flatten().fieldErrors);
+    return DEFAULT_TIER_SETTINGS;
+  }
+
+  return result.data;
+};
@@ -0,0 +1,46 @@
+import { randomBytes, createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { getCookieFromRequest } from './auth';
+
+// Long-lived visitor cookie that ties together every referral link one browser opened
+export const VISITOR_COOKIE_NAME = 'eb_visitor';
+
+// Click tokens are random and only let the browser link its own click to a registration
+export const generateClickToken = (): string => randomBytes(24).toString('base64url');
+
+export const generateVisitorId = (): string => randomBytes(24).toString('base64url');
+
+export const getVisitorIdFromRequest = (req: IncomingMessage): string | null =>
+  getCookieFromRequest(req, VISITOR_COOKIE_NAME);
+
+// The cookie only needs to outlive the attribution window
+export const serializeVisitorCookie = (visitorId: string, maxAgeDays: number, secure: boolean): string => {
+  const attributes = [
+    `${VISITOR_COOKIE_NAME}=${encodeURIComponent(visitorId)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${Math.floor(maxAgeDays * 24 * 60 * 60)}`
+  ];
+
+  if (secure) {
+    attributes.push('Secure');
+  }
+
+  return attributes.join('; ');
+};
+
+// Requests arrive through Caddy, so the visitor address is the first X-Forwarded-For entry
+export const getClientIp = (req: IncomingMessage): string | null => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const header = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+  const ip = header?.split(',')[0]?.trim() || req.socket?.remoteAddress;
+  return ip || null;
+};
+
+// Visitor IPs are stored only as a salted SHA-256 digest, enough to count unique visitors
+export const hashIpAddress = (ip: string): string =>
+  createHash('sha256').update(`${process.env['IP_HASH_SALT'] ?? ''}:${ip}`).digest('hex');
+
+export const getUserAgent = (req: IncomingMessage): string | null =>
+  req.headers['user-agent'] || null;
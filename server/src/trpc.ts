@@ -0,0 +1,92 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { type Affiliate } from './schema';
+import { getSessionUser } from './handlers/get_session_user';
+import { getAffiliateByUserId } from './handlers/get_affiliate_by_user_id';
+import { getSessionTokenFromRequest } from './auth';
+import { getClientIp, hashIpAddress } from './tracking';
+import { auditMutation } from './helpers/audit_log';
+
+// Resolve the logged-in user from the session cookie on every request
+export const createContext = async ({ req, res }: CreateHTTPContextOptions) => {
+  const sessionToken = getSessionTokenFromRequest(req);
+  const user = await getSessionUser(sessionToken);
+  return { req, res, sessionToken, user };
+};
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+
+// Every procedure inherits this, so no logged-in user's mutation can skip the audit log; anonymous calls such as
+// referral click tracking would only crowd out what admins and affiliates did
+const auditMiddleware = t.middleware(async ({ ctx, path, type, getRawInput, next }) => {
+  if (type !== 'mutation' || !ctx.user) {
+    return next();
+  }
+
+  // The address comes from X-Forwarded-For, so it is hashed like visitor IPs rather than stored as given
+  const ip = getClientIp(ctx.req);
+  return auditMutation({
+    procedure: path,
+    actor_id: ctx.user.id,
+    ip_hash: ip ? hashIpAddress(ip) : null,
+    input: await getRawInput()
+  }, () => next());
+});
+
+export const publicProcedure = t.procedure.use(auditMiddleware);
+
+// Any logged-in user
+export const protectedProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'You must be logged in' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'admin') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' });
+  }
+  return next();
+});
+
+// Admins or affiliates; affiliates get their own profile attached to the context
+export const partnerProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  if (ctx.user.role === 'admin') {
+    return next({ ctx: { ...ctx, affiliate: null as Affiliate | null } });
+  }
+
+  const affiliate = await getAffiliateByUserId(ctx.user.id);
+  if (!affiliate) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Affiliate profile not found' });
+  }
+  return next({ ctx: { ...ctx, affiliate: affiliate as Affiliate | null } });
+});
+
+export const affiliateProcedure = partnerProcedure.use(({ ctx, next }) => {
+  if (!ctx.affiliate) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Affiliate access required' });
+  }
+  return next({ ctx: { ...ctx, affiliate: ctx.affiliate } });
+});
+
+// Admins may act on any affiliate; affiliates are pinned to their own affiliate_id
+export function scopeAffiliateId(ctx: { affiliate: Affiliate | null }, requestedId: number): number;
+export function scopeAffiliateId(ctx: { affiliate: Affiliate | null }, requestedId?: number): number | undefined;
+export function scopeAffiliateId(ctx: { affiliate: Affiliate | null }, requestedId?: number): number | undefined {
+  if (!ctx.affiliate) {
+    return requestedId;
+  }
+
+  if (requestedId !== undefined && requestedId !== ctx.affiliate.id) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only access your own affiliate data' });
+  }
+  return ctx.affiliate.id;
+}